@@ -1,7 +1,17 @@
-import { AIAnalysis } from '@/types/database';
+import { useState } from 'react';
+import { AIAnalysis, Language } from '@/types/database';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Brain,
   AlertTriangle,
@@ -11,17 +21,44 @@ import {
   Truck,
   Store,
   Lightbulb,
+  History,
+  Loader2,
+  RefreshCw,
+  Languages,
 } from 'lucide-react';
+import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { diffAnalyses } from '@/lib/analysisDiff';
+import { languageNames } from '@/lib/languages';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAnalysisTranslation } from '@/hooks/useAnalysisTranslation';
 
 const SPLINE_EMBED_URL =
   'https://my.spline.design/nexbotbyaximoriscopycopy-UM9H9JTgyCAde3Y2lbv8De3h/';
 
 interface AIAnalysisCardProps {
-  analysis: AIAnalysis;
+  /** Every version, newest first */
+  analyses: AIAnalysis[];
+  onReanalyze?: () => void;
+  reanalyzing?: boolean;
 }
 
-export function AIAnalysisCard({ analysis }: AIAnalysisCardProps) {
+export function AIAnalysisCard({ analyses, onReanalyze, reanalyzing }: AIAnalysisCardProps) {
+  // null follows the latest version, including one a re-run adds
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const analysis = analyses.find((a) => a.version === selectedVersion) ?? analyses[0];
+  const previous = analyses.find((a) => a.version < analysis.version);
+  const changes = previous ? diffAnalyses(previous, analysis) : [];
+
+  // Each reader starts in their own language; the version diff always compares the English originals
+  const { profile } = useAuth();
+  const [language, setLanguage] = useState<Language>(profile?.preferred_language ?? 'en');
+  const { translation, loading: translating, failed: translationFailed } = useAnalysisTranslation(
+    analysis.id,
+    language
+  );
+  const text = translation ?? analysis;
+
   const getConfidenceColor = (level: string | null) => {
     if (!level) return 'bg-muted';
     const lower = level.toLowerCase();
@@ -53,40 +90,147 @@ export function AIAnalysisCard({ analysis }: AIAnalysisCardProps) {
             </div>
             <div>
               <CardTitle className="text-lg">AI Advisor</CardTitle>
-              <CardDescription>Powered by Gemini AI</CardDescription>
+              <CardDescription>
+                {analysis.model ? `Generated by ${analysis.model} (${analysis.provider})` : 'Powered by Gemini AI'}
+              </CardDescription>
             </div>
             {analysis.confidence_level && (
               <Badge className={cn('ml-auto', getConfidenceColor(analysis.confidence_level))}>
                 <Gauge className="mr-1 h-3 w-3" />
-                {analysis.confidence_level}
+                {text.confidence_level}
+                {analysis.confidence_score !== null && ` · ${analysis.confidence_score}/100`}
               </Badge>
             )}
           </div>
+
+          <div className="flex items-center gap-2 pt-3">
+            <Select
+              value={String(analysis.version)}
+              onValueChange={(value) => setSelectedVersion(Number(value))}
+              disabled={analyses.length < 2}
+            >
+              <SelectTrigger className="h-8 w-auto text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {analyses.map((a) => (
+                  <SelectItem key={a.id} value={String(a.version)} className="text-xs">
+                    Version {a.version} · {format(new Date(a.analyzed_at), 'MMM d, h:mm a')}
+                    {a.model && ` · ${a.model}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={language} onValueChange={(value) => setLanguage(value as Language)}>
+              <SelectTrigger className="h-8 w-auto text-xs">
+                <Languages className="mr-1 h-3 w-3" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(languageNames) as Language[]).map((code) => (
+                  <SelectItem key={code} value={code} className="text-xs">
+                    {languageNames[code]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {onReanalyze && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() => {
+                  setSelectedVersion(null);
+                  onReanalyze();
+                }}
+                disabled={reanalyzing}
+              >
+                {reanalyzing ? (
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-1 h-3 w-3" />
+                )}
+                Re-analyze
+              </Button>
+            )}
+          </div>
+
+          {translating && (
+            <p className="flex items-center gap-1 pt-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Translating to {languageNames[language]}…
+            </p>
+          )}
+          {translationFailed && (
+            <p className="pt-2 text-xs text-muted-foreground">
+              Could not translate to {languageNames[language]}; showing the English original.
+            </p>
+          )}
+
+          {previous && (
+            <Collapsible className="pt-3">
+              <CollapsibleTrigger asChild>
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs">
+                  <History className="mr-1 h-3 w-3" />
+                  What changed since version {previous.version}
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="space-y-3 pt-2 text-xs">
+                {previous.input_hash && previous.input_hash === analysis.input_hash && (
+                  <p className="text-muted-foreground">
+                    Same data as version {previous.version}; the differences come from the model alone.
+                  </p>
+                )}
+                {changes.length === 0 ? (
+                  <p className="text-muted-foreground">No differences in the findings.</p>
+                ) : (
+                  changes.map((change) => (
+                    <div key={change.key} className="space-y-1">
+                      <p className="font-medium">{change.label}</p>
+                      <p className="text-muted-foreground">
+                        {change.parts.map((part, i) => (
+                          <span
+                            key={i}
+                            className={cn(
+                              part.change === 'added' && 'bg-success/20 text-foreground',
+                              part.change === 'removed' && 'bg-destructive/10 line-through'
+                            )}
+                          >
+                            {part.text}
+                          </span>
+                        ))}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </CollapsibleContent>
+            </Collapsible>
+          )}
         </CardHeader>
 
         <CardContent className="pt-4 space-y-6 bg-gradient-to-r from-card via-card/95 to-transparent">
         {/* Degradation Point */}
-        {analysis.degradation_point && (
+        {text.degradation_point && (
           <div className="space-y-2">
             <div className="flex items-center gap-2 text-sm font-medium">
               <AlertTriangle className="h-4 w-4 text-warning" />
               <span>Quality Degradation Point</span>
             </div>
             <p className="text-sm text-muted-foreground pl-6">
-              {analysis.degradation_point}
+              {text.degradation_point}
             </p>
           </div>
         )}
 
         {/* Environmental Impact */}
-        {analysis.environmental_impact && (
+        {text.environmental_impact && (
           <div className="space-y-2">
             <div className="flex items-center gap-2 text-sm font-medium">
               <Leaf className="h-4 w-4 text-primary" />
               <span>Environmental Impact</span>
             </div>
             <p className="text-sm text-muted-foreground pl-6">
-              {analysis.environmental_impact}
+              {text.environmental_impact}
             </p>
           </div>
         )}
@@ -102,40 +246,40 @@ export function AIAnalysisCard({ analysis }: AIAnalysisCardProps) {
 
           <div className="grid gap-4">
             {/* Farmer Suggestions */}
-            {analysis.farmer_suggestions && (
+            {text.farmer_suggestions && (
               <div className="rounded-lg border border-farmer/20 bg-farmer/5 p-4">
                 <div className="flex items-center gap-2 mb-2">
                   <Sprout className="h-4 w-4 text-farmer" />
                   <span className="font-medium text-sm">For the Farmer</span>
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  {analysis.farmer_suggestions}
+                  {text.farmer_suggestions}
                 </p>
               </div>
             )}
 
             {/* Transporter Suggestions */}
-            {analysis.transporter_suggestions && (
+            {text.transporter_suggestions && (
               <div className="rounded-lg border border-transporter/20 bg-transporter/5 p-4">
                 <div className="flex items-center gap-2 mb-2">
                   <Truck className="h-4 w-4 text-transporter" />
                   <span className="font-medium text-sm">For the Transporter</span>
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  {analysis.transporter_suggestions}
+                  {text.transporter_suggestions}
                 </p>
               </div>
             )}
 
             {/* Vendor Suggestions */}
-            {analysis.vendor_suggestions && (
+            {text.vendor_suggestions && (
               <div className="rounded-lg border border-vendor/20 bg-vendor/5 p-4">
                 <div className="flex items-center gap-2 mb-2">
                   <Store className="h-4 w-4 text-vendor" />
                   <span className="font-medium text-sm">For the Vendor</span>
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  {analysis.vendor_suggestions}
+                  {text.vendor_suggestions}
                 </p>
               </div>
             )}
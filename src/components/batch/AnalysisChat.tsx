@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef } from 'react';
+import { useBatchChat } from '@/hooks/useBatchChat';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { Loader2, MessageSquare, Send } from 'lucide-react';
+
+interface AnalysisChatProps {
+  batchId: string;
+}
+
+// Follow-up questions about the latest analysis; only the asker sees their thread
+export function AnalysisChat({ batchId }: AnalysisChatProps) {
+  const { messages, streamingReply, sendMessage } = useBatchChat(batchId);
+  const { toast } = useToast();
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+  const sending = streamingReply !== null;
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length, streamingReply]);
+
+  const handleSend = async () => {
+    const text = draft.trim();
+    if (!text) return;
+
+    setDraft('');
+    try {
+      await sendMessage(text);
+    } catch (error) {
+      setDraft(text);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to send message.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <MessageSquare className="h-4 w-4" />
+          Ask About This Analysis
+        </CardTitle>
+        <CardDescription>Answers come from this batch's data. Only you can see your questions.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {(messages.length > 0 || sending) && (
+          <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+            {messages.map((m) => (
+              <div
+                key={m.id}
+                className={cn(
+                  'rounded-lg px-3 py-2 text-sm whitespace-pre-wrap',
+                  m.role === 'user' ? 'ml-8 bg-primary/10' : 'mr-8 bg-muted'
+                )}
+              >
+                {m.content}
+              </div>
+            ))}
+            {sending && (
+              <div className="mr-8 rounded-lg bg-muted px-3 py-2 text-sm whitespace-pre-wrap">
+                {streamingReply || <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </div>
+            )}
+            <div ref={endRef} />
+          </div>
+        )}
+
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder="e.g. Why the pickup delay and not the heat?"
+            rows={2}
+            maxLength={2000}
+            disabled={sending}
+          />
+          <Button size="icon" onClick={handleSend} disabled={sending || !draft.trim()}>
+            {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,10 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { describeLineage } from '@/lib/batchLineage';
+import { formatMinutes, getExcursionTotals } from '@/lib/coldChain';
+import { formatShelfLife, getRemainingShelfLife } from '@/lib/shelfLife';
+import { describeRecommendation, getPickupWeatherRisk, weatherRiskKindLabels } from '@/lib/weatherRisk';
 import {
   Sprout,
   Truck,
@@ -14,6 +18,13 @@ import {
   ChevronRight,
   Scale,
   Brain,
+  GitFork,
+  Ban,
+  Undo2,
+  Home,
+  ThermometerSnowflake,
+  Hourglass,
+  CloudLightning,
 } from 'lucide-react';
 
 interface BatchCardProps {
@@ -32,11 +43,19 @@ const statusConfig: Record<BatchStatus, { label: string; color: string; icon: ty
   delivered: { label: 'Delivered', color: 'bg-vendor text-vendor-foreground', icon: MapPin },
   received: { label: 'Received', color: 'bg-success text-success-foreground', icon: Store },
   analyzed: { label: 'Analyzed', color: 'bg-primary text-primary-foreground', icon: Brain },
+  rejected: { label: 'Rejected', color: 'bg-destructive text-destructive-foreground', icon: Ban },
+  returning: { label: 'Returning to Farm', color: 'bg-warning text-warning-foreground', icon: Undo2 },
+  returned: { label: 'Back at Farm', color: 'bg-muted text-muted-foreground', icon: Home },
 };
 
 export function BatchCard({ batch, role, onView, onAction, actionLabel }: BatchCardProps) {
   const status = statusConfig[batch.status];
   const StatusIcon = status.icon;
+  const lineageSummary = describeLineage(batch);
+  const excursionTotals = getExcursionTotals(batch);
+  const shelfLife = getRemainingShelfLife(batch);
+  // Vendors have nothing to do until the batch arrives
+  const weatherRisk = role !== 'vendor' ? getPickupWeatherRisk(batch) : null;
 
   return (
     <Card className="group hover:shadow-md transition-all duration-200 cursor-pointer" onClick={() => onView(batch)}>
@@ -84,6 +103,55 @@ export function BatchCard({ batch, role, onView, onAction, actionLabel }: BatchC
           <div className={cn('h-1.5 flex-1 rounded-full', batch.status === 'analyzed' ? 'bg-primary' : 'bg-muted')} />
         </div>
 
+        {/* Split/merge indicator */}
+        {lineageSummary && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground bg-secondary rounded-lg px-3 py-2">
+            <GitFork className="h-4 w-4" />
+            <span>{lineageSummary}</span>
+          </div>
+        )}
+
+        {/* Cold-chain warning */}
+        {excursionTotals && (
+          <div className="flex items-center gap-2 text-xs text-warning bg-warning/10 rounded-lg px-3 py-2">
+            <ThermometerSnowflake className="h-4 w-4" />
+            <span>
+              Cold chain broken: {formatMinutes(excursionTotals.minutesOutOfRange)} out of range, peak{' '}
+              {excursionTotals.peakDeviation}°C off
+            </span>
+          </div>
+        )}
+
+        {/* Pickup weather risk */}
+        {weatherRisk && weatherRisk.risk_level !== 'low' && (
+          <div
+            className={cn(
+              'flex items-start gap-2 text-xs rounded-lg px-3 py-2',
+              weatherRisk.risk_level === 'high' ? 'text-destructive bg-destructive/10' : 'text-warning bg-warning/10'
+            )}
+          >
+            <CloudLightning className="h-4 w-4 shrink-0" />
+            <span>
+              <span className="capitalize">{weatherRisk.risk_level}</span> weather risk at pickup:{' '}
+              {[...new Set(weatherRisk.risks.map((r) => weatherRiskKindLabels[r.kind].toLowerCase()))].join(', ')}
+              {describeRecommendation(weatherRisk) && `. ${describeRecommendation(weatherRisk)}`}
+            </span>
+          </div>
+        )}
+
+        {/* Predicted shelf life */}
+        {shelfLife && batch.status !== 'rejected' && (
+          <div
+            className={cn(
+              'flex items-center gap-2 text-xs rounded-lg px-3 py-2',
+              shelfLife.low < 2 ? 'text-destructive bg-destructive/10' : 'text-muted-foreground bg-secondary'
+            )}
+          >
+            <Hourglass className="h-4 w-4" />
+            <span>Shelf life left: {formatShelfLife(shelfLife)}</span>
+          </div>
+        )}
+
         {/* AI Analysis indicator */}
         {batch.ai_analysis && (
           <div className="flex items-center gap-2 text-xs text-primary bg-primary/10 rounded-lg px-3 py-2">
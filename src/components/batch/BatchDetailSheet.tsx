@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { BatchWithDetails } from '@/types/database';
+import { BatchWithDetails, PhotoStage } from '@/types/database';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -12,13 +12,36 @@ import {
 import { Separator } from '@/components/ui/separator';
 import { BatchTimeline } from './BatchTimeline';
 import { AIAnalysisCard } from './AIAnalysisCard';
+import { AnalysisChat } from './AnalysisChat';
+import { QualityScoreCard } from './QualityScoreCard';
 import { TransportUpdateForm } from './TransportUpdateForm';
 import { VendorReceiptForm } from './VendorReceiptForm';
 import { BatchJourneyMap } from './BatchJourneyMap';
 import { WeatherSector } from './WeatherSector';
+import { TransitTracker } from './TransitTracker';
+import { BatchGenealogy } from './BatchGenealogy';
+import { SplitBatchForm } from './SplitBatchForm';
+import { MergeBatchesForm } from './MergeBatchesForm';
+import { SaleOfferForm } from './SaleOfferForm';
+import { TransportQuoteForm } from './TransportQuoteForm';
+import { TransportQuotes } from './TransportQuotes';
+import { DisputeProposalForm } from './DisputeProposalForm';
+import { ReceiptDisputePanel } from './ReceiptDisputePanel';
+import { TelemetryUploadForm } from './TelemetryUploadForm';
+import { BatchPhotoGallery } from './BatchPhotoGallery';
 import { useBatches } from '@/hooks/useBatches';
+import { useVendors } from '@/hooks/useDirectory';
+import { useBatchTelemetry } from '@/hooks/useBatchTelemetry';
+import { useCrops } from '@/hooks/useCrops';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
+import { getCurrentLeg, isAwaitingHandoff, isOpenForQuotes } from '@/lib/transportLegs';
+import { describeLineage } from '@/lib/batchLineage';
+import { getPendingOffer, isOfferOpenTo } from '@/lib/saleOffers';
+import { BatchClaimConflictError } from '@/lib/batchClaims';
+import { findCrop } from '@/lib/crops';
+import { formatShelfLife, getRemainingShelfLife } from '@/lib/shelfLife';
+import { describeRecommendation, describeRiskSpan, getPickupWeatherRisk } from '@/lib/weatherRisk';
 import { format } from 'date-fns';
 import {
   Sprout,
@@ -32,6 +55,17 @@ import {
   Store,
   Map,
   CloudSun,
+  Repeat,
+  GitFork,
+  GitMerge,
+  Receipt,
+  Ban,
+  Undo2,
+  MessageSquareWarning,
+  Hourglass,
+  Thermometer,
+  CloudLightning,
+  RefreshCw,
 } from 'lucide-react';
 
 interface BatchDetailSheetProps {
@@ -43,28 +77,220 @@ interface BatchDetailSheetProps {
 
 export function BatchDetailSheet({ batch, open, onOpenChange, onRefresh }: BatchDetailSheetProps) {
   const { profile } = useAuth();
-  const { acceptBatchAsTransporter, acceptBatchAsVendor, runAIAnalysis } = useBatches();
+  const {
+    batches,
+    acceptBatchAsTransporter,
+    acceptBatchAsVendor,
+    runAIAnalysis,
+    checkWeatherRisk,
+    withdrawSaleOffer,
+    respondToSaleOffer,
+    withdrawTransportQuote,
+    requestBatchReturn,
+  } = useBatches();
+  const { vendors } = useVendors(open && profile?.role === 'farmer');
   const [loading, setLoading] = useState(false);
   const [transportFormOpen, setTransportFormOpen] = useState(false);
   const [vendorFormOpen, setVendorFormOpen] = useState(false);
+  const [splitFormOpen, setSplitFormOpen] = useState(false);
+  const [mergeFormOpen, setMergeFormOpen] = useState(false);
+  const [offerFormOpen, setOfferFormOpen] = useState(false);
+  const [quoteFormOpen, setQuoteFormOpen] = useState(false);
+  const [disputeFormOpen, setDisputeFormOpen] = useState(false);
+  const [telemetryFormOpen, setTelemetryFormOpen] = useState(false);
+  const { readings: telemetry, uploadReadings } = useBatchTelemetry(open ? batch?.id : undefined);
+  const { crops } = useCrops(open);
 
   if (!batch || !profile) return null;
 
+  const shelfLife = getRemainingShelfLife(batch);
+  const weatherRisk = profile.role !== 'vendor' ? getPickupWeatherRisk(batch) : null;
+
+  const currentLeg = getCurrentLeg(batch);
+  const awaitingHandoff = isAwaitingHandoff(batch);
+  // The leg this transporter is driving right now, if any
+  const myActiveLeg =
+    currentLeg && currentLeg.transporter_id === profile.id && !currentLeg.drop_time ? currentLeg : undefined;
+  // New batches go to the transporter whose quote the farmer awards; handoffs are taken first-come
+  const canAcceptAsTransporter = awaitingHandoff && currentLeg?.transporter_id !== profile.id;
+  const canQuote = profile.role === 'transporter' && isOpenForQuotes(batch);
+  const myQuote = batch.transport_quotes?.find((q) => q.transporter_id === profile.id && q.status === 'pending');
+  const showQuotes =
+    profile.role === 'farmer' &&
+    batch.farmer_id === profile.id &&
+    (isOpenForQuotes(batch) || !!batch.transport_quotes?.length);
+
+  // Farmers split or merge their own batches before pickup; vendors merge lots they have received
+  const canRegroupAsFarmer = (b: BatchWithDetails) =>
+    profile.role === 'farmer' && b.farmer_id === profile.id && b.status === 'created' && !b.superseded_at;
+  const canRegroupAsVendor = (b: BatchWithDetails) =>
+    profile.role === 'vendor' &&
+    b.vendor_receipt?.vendor_id === profile.id &&
+    ['received', 'analyzed'].includes(b.status) &&
+    !b.superseded_at;
+  const canSplit = canRegroupAsFarmer(batch);
+  const canMerge = canRegroupAsFarmer(batch) || canRegroupAsVendor(batch);
+  const mergeCandidates = canMerge
+    ? batches.filter(
+        (b) =>
+          b.id !== batch.id &&
+          b.crop_type === batch.crop_type &&
+          (canRegroupAsFarmer(batch) ? canRegroupAsFarmer(b) : canRegroupAsVendor(b))
+      )
+    : [];
+  const lineageSummary = describeLineage(batch);
+
+  const pendingOffer = getPendingOffer(batch);
+  const vendorName = (vendorId: string | null) =>
+    vendors.find((v) => v.id === vendorId)?.full_name ?? 'the vendor';
+  const canOfferForSale =
+    profile.role === 'farmer' &&
+    batch.farmer_id === profile.id &&
+    !batch.buyer_id &&
+    !pendingOffer &&
+    !batch.superseded_at;
+  const offerForMe = profile.role === 'vendor' && pendingOffer && isOfferOpenTo(pendingOffer, profile.id);
+
+  // Farmers and transporters on the batch can contest what the vendor recorded, one dispute at a time
+  const latestDispute = batch.disputes?.[0];
+  const canOpenDispute =
+    !!batch.vendor_receipt?.received_at &&
+    batch.vendor_receipt.vendor_id !== profile.id &&
+    (batch.farmer_id === profile.id || !!batch.transport_legs?.some((l) => l.transporter_id === profile.id)) &&
+    (!latestDispute || latestDispute.status === 'resolved');
+
+  // Any transporter who carried the batch can add readings from their truck's logger
+  const canUploadTelemetry =
+    profile.role === 'transporter' && !!batch.transport_legs?.some((l) => l.transporter_id === profile.id);
+
+  // Each party photographs the produce at the hand-off they were part of
+  const captureStages: PhotoStage[] = [];
+  if (batch.farmer_id === profile.id) captureStages.push('harvest');
+  if (batch.transport_legs?.some((l) => l.transporter_id === profile.id)) captureStages.push('pickup');
+  if (batch.buyer_id === profile.id || batch.vendor_receipt?.vendor_id === profile.id) captureStages.push('receipt');
+
+  const handleWithdrawOffer = async () => {
+    if (!pendingOffer) return;
+    setLoading(true);
+    try {
+      await withdrawSaleOffer(pendingOffer.id);
+      toast({
+        title: 'Offer Withdrawn',
+        description: 'Vendors can no longer accept this batch.',
+      });
+      onRefresh?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to withdraw offer.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRespondToOffer = async (accept: boolean) => {
+    if (!pendingOffer) return;
+    setLoading(true);
+    try {
+      await respondToSaleOffer(pendingOffer.id, accept);
+      toast({
+        title: accept ? 'Offer Accepted!' : 'Offer Declined',
+        description: accept
+          ? 'You are now the buyer for this batch.'
+          : 'This offer will no longer appear in your list.',
+      });
+      onRefresh?.();
+      if (!accept) onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to respond to offer.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCheckWeatherRisk = async () => {
+    setLoading(true);
+    try {
+      await checkWeatherRisk(batch.id);
+      toast({
+        title: 'Forecast Updated',
+        description: 'The pickup weather risk reflects the latest forecast.',
+      });
+      onRefresh?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to check the forecast.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequestReturn = async () => {
+    setLoading(true);
+    try {
+      await requestBatchReturn(batch.id);
+      toast({
+        title: 'Return Arranged',
+        description: 'Transporters can now quote for the trip back to your farm.',
+      });
+      onRefresh?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to arrange return.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWithdrawQuote = async () => {
+    if (!myQuote) return;
+    setLoading(true);
+    try {
+      await withdrawTransportQuote(myQuote.id);
+      toast({
+        title: 'Quote Withdrawn',
+        description: 'The farmer can no longer award this quote.',
+      });
+      onRefresh?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to withdraw quote.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleAcceptAsTransporter = async () => {
     setLoading(true);
     try {
       await acceptBatchAsTransporter(batch.id);
       toast({
         title: 'Batch Accepted!',
-        description: 'You have been assigned as the transporter.',
+        description: 'You are now carrying the next leg of this batch.',
       });
       onRefresh?.();
-    } catch (error: any) {
+    } catch (error) {
       toast({
-        title: 'Error',
-        description: error.message || 'Failed to accept batch.',
+        title: error instanceof BatchClaimConflictError ? 'Already Taken' : 'Error',
+        description: error instanceof Error ? error.message : 'Failed to accept batch.',
         variant: 'destructive',
       });
+      if (error instanceof BatchClaimConflictError) onRefresh?.();
     } finally {
       setLoading(false);
     }
@@ -79,12 +305,13 @@ export function BatchDetailSheet({ batch, open, onOpenChange, onRefresh }: Batch
         description: 'You have been assigned as the vendor.',
       });
       onRefresh?.();
-    } catch (error: any) {
+    } catch (error) {
       toast({
-        title: 'Error',
-        description: error.message || 'Failed to accept batch.',
+        title: error instanceof BatchClaimConflictError ? 'Already Taken' : 'Error',
+        description: error instanceof Error ? error.message : 'Failed to accept batch.',
         variant: 'destructive',
       });
+      if (error instanceof BatchClaimConflictError) onRefresh?.();
     } finally {
       setLoading(false);
     }
@@ -99,10 +326,10 @@ export function BatchDetailSheet({ batch, open, onOpenChange, onRefresh }: Batch
         description: 'AI analysis has been completed.',
       });
       onRefresh?.();
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: 'Error',
-        description: error.message || 'Failed to run analysis.',
+        description: error instanceof Error ? error.message : 'Failed to run analysis.',
         variant: 'destructive',
       });
     } finally {
@@ -170,16 +397,272 @@ export function BatchDetailSheet({ batch, open, onOpenChange, onRefresh }: Batch
               </CardContent>
             </Card>
 
+            {/* Shelf-life prediction */}
+            {batch.shelf_life && shelfLife && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Hourglass className="h-4 w-4" />
+                    Shelf Life
+                  </CardTitle>
+                  <CardDescription>
+                    Predicted from the temperatures since harvest, as of{' '}
+                    {format(new Date(batch.shelf_life.exposure_end), 'MMM d, h:mm a')}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      <Hourglass className="h-4 w-4" />
+                      Remaining
+                    </span>
+                    <span className={shelfLife.low < 2 ? 'font-medium text-destructive' : 'font-medium'}>
+                      {formatShelfLife(shelfLife)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      <Clock className="h-4 w-4" />
+                      Used Since Harvest
+                    </span>
+                    <span>
+                      {Number(batch.shelf_life.consumed_days).toFixed(1)} of {batch.shelf_life.reference_shelf_life_days}{' '}
+                      days
+                    </span>
+                  </div>
+                  {batch.shelf_life.mean_temperature_celsius !== null && (
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center gap-2 text-muted-foreground">
+                        <Thermometer className="h-4 w-4" />
+                        Average Temperature
+                      </span>
+                      <span>
+                        {Number(batch.shelf_life.mean_temperature_celsius).toFixed(1)}°C (ideal{' '}
+                        {Number(batch.shelf_life.reference_temperature_celsius)}°C)
+                      </span>
+                    </div>
+                  )}
+                  {batch.shelf_life.reading_count === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      No temperature readings yet, so the range assumes ideal storage and is wide.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {weatherRisk && (
+              <Card
+                className={
+                  weatherRisk.risk_level === 'high'
+                    ? 'border-destructive/30 bg-destructive/5'
+                    : weatherRisk.risk_level === 'moderate'
+                      ? 'border-warning/30 bg-warning/5'
+                      : undefined
+                }
+              >
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1.5">
+                      <CardTitle className="text-base flex items-center gap-2">
+                        <CloudLightning className="h-4 w-4" />
+                        Pickup Weather
+                      </CardTitle>
+                      <CardDescription>
+                        Forecast for {format(new Date(weatherRisk.pickup_window_start), 'MMM d h:mm a')}-
+                        {format(new Date(weatherRisk.pickup_window_end), 'MMM d h:mm a')}, checked{' '}
+                        {format(new Date(weatherRisk.checked_at), 'MMM d, h:mm a')}
+                      </CardDescription>
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={handleCheckWeatherRisk} disabled={loading}>
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="grid gap-2 text-sm">
+                  <p className="font-medium capitalize">{weatherRisk.risk_level} risk</p>
+                  {weatherRisk.risks.length === 0 ? (
+                    <p className="text-muted-foreground">No heavy rain, damaging heat or high winds forecast.</p>
+                  ) : (
+                    <ul className="list-disc pl-5 space-y-1">
+                      {weatherRisk.risks.map((risk) => (
+                        <li key={`${risk.kind}-${risk.place}-${risk.starts_at}`}>{describeRiskSpan(risk)}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {describeRecommendation(weatherRisk) && (
+                    <p className="font-medium">{describeRecommendation(weatherRisk)}.</p>
+                  )}
+                  {!weatherRisk.destination_known && (
+                    <p className="text-xs text-muted-foreground">
+                      Only the farm was checked; the destination is not known yet.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Role-specific Actions */}
-            {profile.role === 'transporter' && batch.status === 'created' && (
+            {profile.role === 'farmer' && batch.farmer_id === profile.id && batch.status === 'rejected' && !batch.superseded_at && (
+              <Card className="border-destructive/30 bg-destructive/5">
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-4">
+                    <Ban className="h-8 w-8 text-destructive" />
+                    <div className="flex-1">
+                      <h4 className="font-medium">Refused at Delivery</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {batch.buyer_id
+                          ? 'A new buyer has taken this batch. Award a transporter below to move it.'
+                          : 'Offer these kilograms to another vendor, or have them brought back to the farm.'}
+                      </p>
+                    </div>
+                    {!batch.buyer_id && (
+                      <Button variant="outline" onClick={handleRequestReturn} disabled={loading}>
+                        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Return
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {profile.role === 'farmer' && batch.farmer_id === profile.id && ['returning', 'returned'].includes(batch.status) && (
+              <Card className="border-warning/30 bg-warning/5">
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-4">
+                    <Undo2 className="h-8 w-8 text-warning" />
+                    <div className="flex-1">
+                      <h4 className="font-medium">{batch.status === 'returned' ? 'Back at Farm' : 'Returning to Farm'}</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {batch.status === 'returned'
+                          ? 'The batch is back at the farm.'
+                          : !currentLeg
+                            ? 'Award a transporter below for the trip back.'
+                            : 'The batch is on its way back.'}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {profile.role === 'farmer' && batch.farmer_id === profile.id && (batch.buyer_id || pendingOffer || canOfferForSale) && (
+              <Card className="border-vendor/30 bg-vendor/5">
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-4">
+                    <Store className="h-8 w-8 text-vendor" />
+                    <div className="flex-1">
+                      <h4 className="font-medium">
+                        {batch.buyer_id ? 'Buyer Confirmed' : pendingOffer ? 'Offer Pending' : 'Choose a Buyer'}
+                      </h4>
+                      <p className="text-sm text-muted-foreground">
+                        {batch.buyer_id
+                          ? `Sold to ${vendorName(batch.buyer_id)}.`
+                          : pendingOffer
+                            ? pendingOffer.vendor_id
+                              ? `Waiting for ${vendorName(pendingOffer.vendor_id)} to respond.`
+                              : 'Open to all vendors. The first vendor to accept becomes the buyer.'
+                            : 'Offer this batch to a specific vendor or to every vendor.'}
+                      </p>
+                    </div>
+                    {pendingOffer && !batch.buyer_id && (
+                      <Button variant="outline" onClick={handleWithdrawOffer} disabled={loading}>
+                        Withdraw
+                      </Button>
+                    )}
+                    {canOfferForSale && (
+                      <Button onClick={() => setOfferFormOpen(true)} className="bg-vendor hover:bg-vendor/90">
+                        Offer
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {offerForMe && pendingOffer && (
+              <Card className="border-vendor/30 bg-vendor/5">
+                <CardContent className="pt-6 space-y-3">
+                  <div className="flex items-center gap-4">
+                    <Store className="h-8 w-8 text-vendor" />
+                    <div className="flex-1">
+                      <h4 className="font-medium">
+                        {pendingOffer.vendor_id ? 'Offered to You' : 'Open Sale Offer'}
+                      </h4>
+                      <p className="text-sm text-muted-foreground">
+                        {batch.quantity_kg} kg of {batch.crop_type}
+                        {pendingOffer.price_per_kg !== null && ` at ${pendingOffer.price_per_kg} per kg`}
+                      </p>
+                    </div>
+                  </div>
+                  {pendingOffer.message && (
+                    <p className="text-sm rounded-lg border p-3 bg-background/60">{pendingOffer.message}</p>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => handleRespondToOffer(false)} disabled={loading}>
+                      Decline
+                    </Button>
+                    <Button onClick={() => handleRespondToOffer(true)} disabled={loading} className="bg-vendor hover:bg-vendor/90">
+                      {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Accept
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {showQuotes && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Receipt className="h-4 w-4" />
+                    Transport Quotes
+                  </CardTitle>
+                  <CardDescription>Compare bids and award the batch to one transporter</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TransportQuotes batch={batch} onAwarded={onRefresh} />
+                </CardContent>
+              </Card>
+            )}
+
+            {canQuote && (
               <Card className="border-transporter/30 bg-transporter/5">
                 <CardContent className="pt-6">
                   <div className="flex items-center gap-4">
-                    <Truck className="h-8 w-8 text-transporter" />
+                    <Receipt className="h-8 w-8 text-transporter" />
                     <div className="flex-1">
-                      <h4 className="font-medium">Accept This Batch</h4>
+                      <h4 className="font-medium">{myQuote ? 'Quote Submitted' : 'Quote for This Batch'}</h4>
                       <p className="text-sm text-muted-foreground">
-                        This batch is ready for pickup. Accept it to become the transporter.
+                        {myQuote
+                          ? `${myQuote.price} with a ${myQuote.vehicle_type}, pickup from ${format(new Date(myQuote.pickup_window_start), 'MMM d, h:mm a')}. Waiting for the farmer to decide.`
+                          : 'This batch is ready for pickup. Send the farmer your price and pickup window.'}
+                      </p>
+                    </div>
+                    {myQuote ? (
+                      <Button variant="outline" onClick={handleWithdrawQuote} disabled={loading}>
+                        Withdraw
+                      </Button>
+                    ) : (
+                      <Button onClick={() => setQuoteFormOpen(true)} className="bg-transporter hover:bg-transporter/90">
+                        Quote
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {profile.role === 'transporter' && canAcceptAsTransporter && (
+              <Card className="border-transporter/30 bg-transporter/5">
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-4">
+                    <Repeat className="h-8 w-8 text-transporter" />
+                    <div className="flex-1">
+                      <h4 className="font-medium">Take Over This Batch</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {`This batch is waiting at a handoff point. Accept it to carry leg ${(currentLeg?.leg_number ?? 0) + 1}.`}
                       </p>
                     </div>
                     <Button onClick={handleAcceptAsTransporter} disabled={loading} className="bg-transporter hover:bg-transporter/90">
@@ -191,30 +674,42 @@ export function BatchDetailSheet({ batch, open, onOpenChange, onRefresh }: Batch
               </Card>
             )}
 
-            {profile.role === 'transporter' && ['assigned_transporter', 'picked_up', 'in_transit'].includes(batch.status) && batch.transport_log && (
+            {profile.role === 'transporter' && myActiveLeg && (
               <Card className="border-transporter/30 bg-transporter/5">
                 <CardContent className="pt-6">
                   <div className="flex items-center gap-4">
                     <Truck className="h-8 w-8 text-transporter" />
                     <div className="flex-1">
                       <h4 className="font-medium">
-                        {batch.status === 'assigned_transporter' ? 'Record Pickup' : 'Record Delivery'}
+                        {!myActiveLeg.pickup_time
+                          ? myActiveLeg.leg_number > 1 ? 'Confirm Handoff' : 'Record Pickup'
+                          : 'Record Drop-off'}
                       </h4>
                       <p className="text-sm text-muted-foreground">
-                        {batch.status === 'assigned_transporter'
-                          ? 'Mark this batch as picked up from the farm.'
-                          : 'Mark this batch as delivered to the vendor.'}
+                        {!myActiveLeg.pickup_time
+                          ? myActiveLeg.leg_number > 1
+                            ? 'Confirm you have received the batch from the previous transporter.'
+                            : batch.status === 'returning'
+                              ? 'Mark this batch as picked up from the vendor who refused it.'
+                              : 'Mark this batch as picked up from the farm.'
+                          : batch.status === 'returning'
+                            ? 'Bring the batch back to the farm or hand off to the next transporter.'
+                            : 'Deliver to the vendor or hand off to the next transporter.'}
                       </p>
                     </div>
                     <Button onClick={() => setTransportFormOpen(true)} className="bg-transporter hover:bg-transporter/90">
-                      {batch.status === 'assigned_transporter' ? 'Pickup' : 'Deliver'}
+                      {!myActiveLeg.pickup_time ? 'Pickup' : 'Drop-off'}
                     </Button>
                   </div>
                 </CardContent>
               </Card>
             )}
 
-            {profile.role === 'vendor' && batch.status === 'delivered' && !batch.vendor_receipt && (
+            {profile.role === 'transporter' && myActiveLeg?.pickup_time && ['picked_up', 'in_transit'].includes(batch.status) && (
+              <TransitTracker batch={batch} onStatusChange={onRefresh} />
+            )}
+
+            {profile.role === 'vendor' && batch.buyer_id === profile.id && batch.status === 'delivered' && !batch.vendor_receipt && (
               <Card className="border-vendor/30 bg-vendor/5">
                 <CardContent className="pt-6">
                   <div className="flex items-center gap-4">
@@ -234,7 +729,7 @@ export function BatchDetailSheet({ batch, open, onOpenChange, onRefresh }: Batch
               </Card>
             )}
 
-            {profile.role === 'vendor' && batch.vendor_receipt && batch.status !== 'received' && batch.status !== 'analyzed' && (
+            {profile.role === 'vendor' && batch.vendor_receipt && batch.status === 'delivered' && (
               <Card className="border-vendor/30 bg-vendor/5">
                 <CardContent className="pt-6">
                   <div className="flex items-center gap-4">
@@ -253,6 +748,81 @@ export function BatchDetailSheet({ batch, open, onOpenChange, onRefresh }: Batch
               </Card>
             )}
 
+            {(latestDispute || canOpenDispute) && (
+              <Card className={latestDispute && latestDispute.status !== 'resolved' ? 'border-warning/30 bg-warning/5' : undefined}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <MessageSquareWarning className="h-4 w-4" />
+                      Receipt Dispute
+                    </CardTitle>
+                    {canOpenDispute && (
+                      <Button variant="outline" size="sm" onClick={() => setDisputeFormOpen(true)}>
+                        Dispute
+                      </Button>
+                    )}
+                  </div>
+                  {!latestDispute && (
+                    <CardDescription>Disagree with the grade, spoilage or weight loss the vendor recorded?</CardDescription>
+                  )}
+                </CardHeader>
+                {latestDispute && (
+                  <CardContent>
+                    <ReceiptDisputePanel
+                      key={`${latestDispute.id}-${latestDispute.updated_at}`}
+                      batch={batch}
+                      dispute={latestDispute}
+                      onChanged={onRefresh}
+                    />
+                  </CardContent>
+                )}
+              </Card>
+            )}
+
+            {batch.superseded_at && (
+              <Card className="border-muted bg-muted/30">
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-4">
+                    <GitFork className="h-8 w-8 text-muted-foreground" />
+                    <div className="flex-1">
+                      <h4 className="font-medium">{lineageSummary ?? 'Split or merged'}</h4>
+                      <p className="text-sm text-muted-foreground">
+                        This batch now continues as the batches shown in its genealogy below.
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {canMerge && (
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-4">
+                    <GitMerge className="h-8 w-8 text-primary" />
+                    <div className="flex-1">
+                      <h4 className="font-medium">{canSplit ? 'Split or Merge' : 'Merge Into Lot'}</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {canSplit
+                          ? 'Divide this batch between trucks or vendors, or combine it with your other batches.'
+                          : 'Combine this lot with other received lots of the same crop.'}
+                      </p>
+                    </div>
+                    <div className="flex flex-col gap-2">
+                      {canSplit && (
+                        <Button variant="outline" size="sm" onClick={() => setSplitFormOpen(true)}>
+                          Split
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => setMergeFormOpen(true)}>
+                        Merge
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Run Analysis Button */}
             {batch.status === 'received' && !batch.ai_analysis && (
               <Card className="border-primary/30 bg-primary/5">
@@ -264,10 +834,16 @@ export function BatchDetailSheet({ batch, open, onOpenChange, onRefresh }: Batch
                       <p className="text-sm text-muted-foreground">
                         Analyze the crop journey and get insights on quality degradation.
                       </p>
+                      {batch.ai_analysis_failure && (
+                        <p className="text-sm text-destructive mt-1">
+                          The last attempt ({format(new Date(batch.ai_analysis_failure.failed_at), 'MMM d, h:mm a')})
+                          returned unusable output {batch.ai_analysis_failure.attempts} times; nothing was saved.
+                        </p>
+                      )}
                     </div>
                     <Button onClick={handleRunAnalysis} disabled={loading}>
                       {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                      Analyze
+                      {batch.ai_analysis_failure ? 'Try Again' : 'Analyze'}
                     </Button>
                   </div>
                 </CardContent>
@@ -276,6 +852,26 @@ export function BatchDetailSheet({ batch, open, onOpenChange, onRefresh }: Batch
 
             <Separator />
 
+            {/* Lot Genealogy */}
+            {batch.lineage && batch.lineage.length > 0 && (
+              <>
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <GitFork className="h-4 w-4" />
+                      Lot Genealogy
+                    </CardTitle>
+                    <CardDescription>{lineageSummary}</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <BatchGenealogy batch={batch} />
+                  </CardContent>
+                </Card>
+
+                <Separator />
+              </>
+            )}
+
             {/* Journey Map */}
             <Card>
               <CardHeader className="pb-3">
@@ -295,42 +891,143 @@ export function BatchDetailSheet({ batch, open, onOpenChange, onRefresh }: Batch
             {/* Weather Sector */}
             <Card>
               <CardHeader className="pb-3">
-                <CardTitle className="text-base flex items-center gap-2">
-                  <CloudSun className="h-4 w-4" />
-                  Weather Conditions
-                </CardTitle>
-                <CardDescription>Environmental data captured at each stage</CardDescription>
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <CloudSun className="h-4 w-4" />
+                    Weather Conditions
+                  </CardTitle>
+                  {canUploadTelemetry && (
+                    <Button variant="outline" size="sm" onClick={() => setTelemetryFormOpen(true)}>
+                      Upload Logger Data
+                    </Button>
+                  )}
+                </div>
+                <CardDescription>Environmental data captured at each stage, with in-vehicle logger readings</CardDescription>
               </CardHeader>
               <CardContent>
-                <WeatherSector environmentalData={batch.environmental_data} />
+                <WeatherSector
+                  environmentalData={batch.environmental_data}
+                  telemetry={telemetry}
+                  crop={findCrop(crops, batch.crop_type)}
+                />
               </CardContent>
             </Card>
 
             <Separator />
 
+            {/* Produce Photos */}
+            <BatchPhotoGallery key={batch.id} batchId={batch.id} captureStages={captureStages} />
+
             {/* Timeline */}
             <BatchTimeline batch={batch} />
 
             {/* AI Analysis */}
-            {batch.ai_analysis && (
-              <>
-                <Separator />
-                <AIAnalysisCard analysis={batch.ai_analysis} />
-              </>
+            {(batch.quality_score || batch.ai_analysis) && <Separator />}
+            {batch.quality_score && <QualityScoreCard score={batch.quality_score} />}
+            {batch.ai_analysis && batch.ai_analysis_failure && (
+              <p className="text-sm text-destructive">
+                A re-run on {format(new Date(batch.ai_analysis_failure.failed_at), 'MMM d, h:mm a')} returned unusable
+                output and was discarded; showing the last successful analysis.
+              </p>
             )}
+            {batch.ai_analyses && batch.ai_analyses.length > 0 && (
+              <AIAnalysisCard
+                analyses={batch.ai_analyses}
+                onReanalyze={['received', 'analyzed'].includes(batch.status) ? handleRunAnalysis : undefined}
+                reanalyzing={loading}
+              />
+            )}
+            {batch.ai_analyses && batch.ai_analyses.length > 0 && <AnalysisChat key={batch.id} batchId={batch.id} />}
           </div>
         </SheetContent>
       </Sheet>
 
       {/* Transport Update Form */}
-      <TransportUpdateForm
-        batch={batch}
-        open={transportFormOpen}
-        onOpenChange={setTransportFormOpen}
-        onSuccess={() => {
-          onRefresh?.();
-        }}
-      />
+      {myActiveLeg && (
+        <TransportUpdateForm
+          key={myActiveLeg.id}
+          batch={batch}
+          leg={myActiveLeg}
+          open={transportFormOpen}
+          onOpenChange={setTransportFormOpen}
+          onSuccess={() => {
+            onRefresh?.();
+          }}
+        />
+      )}
+
+      {canSplit && (
+        <SplitBatchForm
+          key={`split-${batch.id}`}
+          batch={batch}
+          open={splitFormOpen}
+          onOpenChange={setSplitFormOpen}
+          onSuccess={() => {
+            onOpenChange(false);
+            onRefresh?.();
+          }}
+        />
+      )}
+
+      {canMerge && (
+        <MergeBatchesForm
+          key={`merge-${batch.id}`}
+          batch={batch}
+          candidates={mergeCandidates}
+          open={mergeFormOpen}
+          onOpenChange={setMergeFormOpen}
+          onSuccess={() => {
+            onOpenChange(false);
+            onRefresh?.();
+          }}
+        />
+      )}
+
+      {canOfferForSale && (
+        <SaleOfferForm
+          key={`offer-${batch.id}`}
+          batch={batch}
+          open={offerFormOpen}
+          onOpenChange={setOfferFormOpen}
+          onSuccess={() => {
+            onRefresh?.();
+          }}
+        />
+      )}
+
+      {canQuote && !myQuote && (
+        <TransportQuoteForm
+          key={`quote-${batch.id}`}
+          batch={batch}
+          open={quoteFormOpen}
+          onOpenChange={setQuoteFormOpen}
+          onSuccess={() => {
+            onRefresh?.();
+          }}
+        />
+      )}
+
+      {canOpenDispute && (
+        <DisputeProposalForm
+          key={`dispute-${batch.id}`}
+          batch={batch}
+          open={disputeFormOpen}
+          onOpenChange={setDisputeFormOpen}
+          onSuccess={() => {
+            onRefresh?.();
+          }}
+        />
+      )}
+
+      {canUploadTelemetry && (
+        <TelemetryUploadForm
+          key={`telemetry-${batch.id}`}
+          batch={batch}
+          open={telemetryFormOpen}
+          onOpenChange={setTelemetryFormOpen}
+          onUpload={uploadReadings}
+        />
+      )}
 
       {/* Vendor Receipt Form */}
       <VendorReceiptForm
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { BatchGenealogy as Genealogy, BatchOrigin, BatchWithDetails } from '@/types/database';
+import { supabase } from '@/integrations/supabase/client';
+import { groupByGeneration } from '@/lib/batchLineage';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { ArrowDown, Ban, GitMerge, GitFork, Loader2, MapPin, Sprout } from 'lucide-react';
+
+interface BatchGenealogyProps {
+  batch: BatchWithDetails;
+}
+
+export function BatchGenealogy({ batch }: BatchGenealogyProps) {
+  const [genealogy, setGenealogy] = useState<Genealogy | null>(null);
+  const [origins, setOrigins] = useState<BatchOrigin[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const [genealogyResult, originsResult] = await Promise.all([
+        supabase.rpc('get_batch_genealogy', { _batch_id: batch.id }),
+        supabase.rpc('trace_batch_origins', { _batch_id: batch.id }),
+      ]);
+
+      if (cancelled) return;
+
+      if (genealogyResult.error || originsResult.error) {
+        console.error('Failed to load genealogy:', genealogyResult.error ?? originsResult.error);
+        setError('Could not load the lot genealogy.');
+      } else {
+        setGenealogy(genealogyResult.data as unknown as Genealogy);
+        setOrigins((originsResult.data ?? []) as BatchOrigin[]);
+        setError(null);
+      }
+      setLoading(false);
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [batch.id, batch.lineage?.length]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading genealogy...
+      </div>
+    );
+  }
+
+  if (error || !genealogy) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  const generations = groupByGeneration(genealogy.nodes);
+  const totalContributed = origins.reduce((sum, o) => sum + Number(o.contributed_kg), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        {generations.map((generation, index) => {
+          const ids = generation.map((n) => n.id);
+          // Edges arriving at this generation, used to label the step from the row above
+          const incoming = genealogy.edges.filter((e) => ids.includes(e.child_batch_id));
+          const operation = incoming[0]?.operation;
+
+          return (
+            <div key={generation[0].depth} className="space-y-2">
+              {index > 0 && (
+                <div className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+                  <ArrowDown className="h-3 w-3" />
+                  {operation === 'merge' ? (
+                    <>
+                      <GitMerge className="h-3 w-3" />
+                      Merged
+                    </>
+                  ) : operation === 'reject' ? (
+                    <>
+                      <Ban className="h-3 w-3" />
+                      Refused at delivery
+                    </>
+                  ) : (
+                    <>
+                      <GitFork className="h-3 w-3" />
+                      Split
+                    </>
+                  )}
+                </div>
+              )}
+              <div className="flex flex-wrap justify-center gap-2">
+                {generation.map((node) => {
+                  const link = incoming.find((e) => e.child_batch_id === node.id);
+                  return (
+                    <div
+                      key={node.id}
+                      className={cn(
+                        'rounded-lg border px-3 py-2 text-xs min-w-[140px]',
+                        node.id === batch.id ? 'border-primary bg-primary/5' : 'bg-secondary/50',
+                        node.superseded_at && 'opacity-70'
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{node.quantity_kg} kg</span>
+                        {node.id === batch.id && <Badge className="h-4 px-1 text-[10px]">This batch</Badge>}
+                      </div>
+                      <p className="text-muted-foreground">
+                        {node.farmer_name ?? (node.farmer_id ? 'Farmer' : 'Multiple farms')}
+                      </p>
+                      <p className="text-muted-foreground capitalize">{node.status.replace('_', ' ')}</p>
+                      {link && link.operation === 'merge' && (
+                        <p className="text-muted-foreground">{link.quantity_kg} kg carried in</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <Sprout className="h-4 w-4 text-farmer" />
+          Origin Farms
+        </h4>
+        {origins.map((origin) => {
+          const share = totalContributed > 0 ? (Number(origin.contributed_kg) / totalContributed) * 100 : 0;
+          return (
+            <div key={origin.batch_id} className="rounded-lg border p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{origin.farmer_name ?? 'Unknown farmer'}</span>
+                <span>
+                  {origin.contributed_kg} kg ({share.toFixed(0)}%)
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Harvested {format(new Date(origin.harvest_time), 'MMM d, yyyy h:mm a')}
+              </p>
+              {origin.farm_address && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <MapPin className="h-3 w-3" />
+                  {origin.farm_address}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
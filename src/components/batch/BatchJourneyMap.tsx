@@ -1,10 +1,11 @@
 import { useMemo, useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { BatchWithDetails } from '@/types/database';
+import { BatchWithDetails, TransportBreadcrumb } from '@/types/database';
 import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
-import { MapPin, Clock, Loader2 } from 'lucide-react';
+import { getFinalDeliveryLeg } from '@/lib/transportLegs';
+import { MapPin, Clock, Loader2, Navigation } from 'lucide-react';
 
 // Fix for default markers not showing
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -37,8 +38,13 @@ const farmIcon = createColoredIcon('#22c55e'); // green
 const pickupIcon = createColoredIcon('#3b82f6'); // blue
 const deliveryIcon = createColoredIcon('#f59e0b'); // amber
 const vendorIcon = createColoredIcon('#8b5cf6'); // purple
+const handoffIcon = createColoredIcon('#ec4899'); // pink
+const lastPositionIcon = createColoredIcon('#0ea5e9'); // sky
+
+const ROUTE_COLOR = '#7c3aed';
 
 interface MapPoint {
+  kind: 'farm' | 'pickup' | 'handoff' | 'delivery' | 'vendor';
   lat: number;
   lng: number;
   label: string;
@@ -61,12 +67,14 @@ export function BatchJourneyMap({ batch }: BatchJourneyMapProps) {
   const mapInstanceRef = useRef<L.Map | null>(null);
   const [routeInfo, setRouteInfo] = useState<RouteInfo | null>(null);
   const [routeLoading, setRouteLoading] = useState(false);
+  const [breadcrumbs, setBreadcrumbs] = useState<Pick<TransportBreadcrumb, 'gps_lat' | 'gps_lng' | 'recorded_at'>[]>([]);
   const mapPoints = useMemo(() => {
     const points: MapPoint[] = [];
 
     // Farm location
     if (batch.farm_gps_lat && batch.farm_gps_lng) {
       points.push({
+        kind: 'farm',
         lat: batch.farm_gps_lat,
         lng: batch.farm_gps_lng,
         label: 'Farm (Harvest)',
@@ -76,37 +84,41 @@ export function BatchJourneyMap({ batch }: BatchJourneyMapProps) {
       });
     }
 
-    // Transport pickup
-    if (batch.transport_log?.pickup_gps_lat && batch.transport_log?.pickup_gps_lng) {
-      points.push({
-        lat: batch.transport_log.pickup_gps_lat,
-        lng: batch.transport_log.pickup_gps_lng,
-        label: 'Pickup',
-        time: batch.transport_log.pickup_time
-          ? format(new Date(batch.transport_log.pickup_time), 'MMM d, h:mm a')
-          : undefined,
-        icon: pickupIcon,
-        details: batch.transport_log.transport_type || undefined,
-      });
-    }
+    // Transport legs: the first pickup, every handoff point, and the final drop
+    const legs = batch.transport_legs ?? [];
+    const multiLeg = legs.length > 1;
+    legs.forEach((leg) => {
+      if (leg.pickup_gps_lat && leg.pickup_gps_lng) {
+        const isFirst = leg.leg_number === 1;
+        points.push({
+          kind: isFirst ? 'pickup' : 'handoff',
+          lat: leg.pickup_gps_lat,
+          lng: leg.pickup_gps_lng,
+          label: multiLeg ? `Pickup (Leg ${leg.leg_number})` : 'Pickup',
+          time: leg.pickup_time ? format(new Date(leg.pickup_time), 'MMM d, h:mm a') : undefined,
+          icon: isFirst ? pickupIcon : handoffIcon,
+          details: leg.transport_type || undefined,
+        });
+      }
 
-    // Transport delivery
-    if (batch.transport_log?.drop_gps_lat && batch.transport_log?.drop_gps_lng) {
-      points.push({
-        lat: batch.transport_log.drop_gps_lat,
-        lng: batch.transport_log.drop_gps_lng,
-        label: 'Delivery',
-        time: batch.transport_log.drop_time
-          ? format(new Date(batch.transport_log.drop_time), 'MMM d, h:mm a')
-          : undefined,
-        icon: deliveryIcon,
-        details: batch.transport_log.vehicle_info || undefined,
-      });
-    }
+      if (leg.drop_gps_lat && leg.drop_gps_lng) {
+        const isHandoff = !!leg.handoff_released_at;
+        points.push({
+          kind: isHandoff ? 'handoff' : 'delivery',
+          lat: leg.drop_gps_lat,
+          lng: leg.drop_gps_lng,
+          label: isHandoff ? `Handoff (end of Leg ${leg.leg_number})` : 'Delivery',
+          time: leg.drop_time ? format(new Date(leg.drop_time), 'MMM d, h:mm a') : undefined,
+          icon: isHandoff ? handoffIcon : deliveryIcon,
+          details: leg.vehicle_info || undefined,
+        });
+      }
+    });
 
     // Vendor receipt
     if (batch.vendor_receipt?.receipt_gps_lat && batch.vendor_receipt?.receipt_gps_lng) {
       points.push({
+        kind: 'vendor',
         lat: batch.vendor_receipt.receipt_gps_lat,
         lng: batch.vendor_receipt.receipt_gps_lng,
         label: 'Vendor Receipt',
@@ -153,6 +165,25 @@ export function BatchJourneyMap({ batch }: BatchJourneyMapProps) {
     return { center: [centerLat, centerLng] as [number, number], zoom: calculatedZoom };
   }, [mapPoints]);
 
+  // Fetch the recorded GPS trail for the driven path
+  useEffect(() => {
+    const fetchBreadcrumbs = async () => {
+      const { data, error } = await supabase
+        .from('transport_breadcrumbs')
+        .select('gps_lat, gps_lng, recorded_at')
+        .eq('batch_id', batch.id)
+        .order('recorded_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching breadcrumbs:', error);
+        return;
+      }
+      setBreadcrumbs(data || []);
+    };
+
+    fetchBreadcrumbs();
+  }, [batch.id, batch.status]);
+
   // Fetch route info when we have origin and destination
   useEffect(() => {
     const fetchRouteInfo = async () => {
@@ -161,10 +192,11 @@ export function BatchJourneyMap({ batch }: BatchJourneyMapProps) {
         ? { lat: batch.farm_gps_lat, lng: batch.farm_gps_lng }
         : null;
       
+      const finalLeg = getFinalDeliveryLeg(batch);
       const destination = batch.vendor_receipt?.receipt_gps_lat && batch.vendor_receipt?.receipt_gps_lng
         ? { lat: batch.vendor_receipt.receipt_gps_lat, lng: batch.vendor_receipt.receipt_gps_lng }
-        : batch.transport_log?.drop_gps_lat && batch.transport_log?.drop_gps_lng
-          ? { lat: batch.transport_log.drop_gps_lat, lng: batch.transport_log.drop_gps_lng }
+        : finalLeg?.drop_gps_lat && finalLeg?.drop_gps_lng
+          ? { lat: finalLeg.drop_gps_lat, lng: finalLeg.drop_gps_lng }
           : null;
 
       if (!origin || !destination) return;
@@ -192,7 +224,7 @@ export function BatchJourneyMap({ batch }: BatchJourneyMapProps) {
   }, [batch]);
 
   useEffect(() => {
-    if (!mapRef.current || mapPoints.length === 0) return;
+    if (!mapRef.current || (mapPoints.length === 0 && breadcrumbs.length === 0)) return;
 
     // Clean up existing map
     if (mapInstanceRef.current) {
@@ -228,20 +260,56 @@ export function BatchJourneyMap({ batch }: BatchJourneyMapProps) {
       marker.bindPopup(popupContent);
     });
 
-    // Add polyline if multiple points
-    if (mapPoints.length > 1) {
-      const coordinates = mapPoints.map((p) => [p.lat, p.lng] as [number, number]);
-      L.polyline(coordinates, {
-        color: '#7c3aed',
+    const drawStraightLine = (points: MapPoint[]) => {
+      if (points.length < 2) return;
+      L.polyline(points.map((p) => [p.lat, p.lng] as [number, number]), {
+        color: ROUTE_COLOR,
         weight: 3,
         opacity: 0.7,
         dashArray: '10, 10',
       }).addTo(map);
+    };
+
+    const trail = breadcrumbs.map((b) => [b.gps_lat, b.gps_lng] as [number, number]);
+
+    if (trail.length > 1) {
+      // Solid line for the recorded path between pickup and delivery,
+      // dashed straight lines only for the legs the trail does not cover
+      const pickup = mapPoints.find((p) => p.kind === 'pickup');
+      const delivery = mapPoints.find((p) => p.kind === 'delivery');
+      const driven: [number, number][] = [
+        ...(pickup ? [[pickup.lat, pickup.lng] as [number, number]] : []),
+        ...trail,
+        ...(delivery ? [[delivery.lat, delivery.lng] as [number, number]] : []),
+      ];
+
+      L.polyline(driven, {
+        color: ROUTE_COLOR,
+        weight: 4,
+        opacity: 0.9,
+      }).addTo(map);
+
+      drawStraightLine(mapPoints.filter((p) => p.kind === 'farm' || p.kind === 'pickup'));
+      drawStraightLine(mapPoints.filter((p) => p.kind === 'delivery' || p.kind === 'vendor'));
+
+      // Show where the truck was last seen while it is still on the road
+      if (!delivery) {
+        const last = breadcrumbs[breadcrumbs.length - 1];
+        L.marker([last.gps_lat, last.gps_lng], { icon: lastPositionIcon })
+          .addTo(map)
+          .bindPopup(`<div class="text-sm">
+            <p class="font-semibold">Last Known Position</p>
+            <p class="text-gray-500">${format(new Date(last.recorded_at), 'MMM d, h:mm a')}</p>
+          </div>`);
+      }
+    } else {
+      drawStraightLine(mapPoints);
     }
 
     // Fit bounds if multiple points
-    if (mapPoints.length > 1) {
-      const bounds = L.latLngBounds(mapPoints.map((p) => [p.lat, p.lng]));
+    const allCoordinates: [number, number][] = [...mapPoints.map((p) => [p.lat, p.lng] as [number, number]), ...trail];
+    if (allCoordinates.length > 1) {
+      const bounds = L.latLngBounds(allCoordinates);
       map.fitBounds(bounds, { padding: [30, 30] });
     }
 
@@ -251,9 +319,9 @@ export function BatchJourneyMap({ batch }: BatchJourneyMapProps) {
         mapInstanceRef.current = null;
       }
     };
-  }, [mapPoints, center, zoom]);
+  }, [mapPoints, breadcrumbs, center, zoom]);
 
-  if (mapPoints.length === 0) {
+  if (mapPoints.length === 0 && breadcrumbs.length === 0) {
     return (
       <div className="rounded-lg border bg-muted/50 p-6 text-center">
         <p className="text-sm text-muted-foreground">No GPS data available for this batch.</p>
@@ -299,10 +367,22 @@ export function BatchJourneyMap({ batch }: BatchJourneyMapProps) {
           <span className="inline-block w-3 h-3 rounded-full bg-warning" />
           <span>Delivery</span>
         </div>
+        {(batch.transport_legs?.length ?? 0) > 1 && (
+          <div className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-full bg-pink-500" />
+            <span>Handoff</span>
+          </div>
+        )}
         <div className="flex items-center gap-1">
           <span className="inline-block w-3 h-3 rounded-full bg-vendor" />
           <span>Vendor</span>
         </div>
+        {breadcrumbs.length > 1 && (
+          <div className="flex items-center gap-1">
+            <Navigation className="h-3 w-3 text-primary" />
+            <span>Driven path ({breadcrumbs.length} points)</span>
+          </div>
+        )}
       </div>
       <div 
         ref={mapRef}
@@ -0,0 +1,161 @@
+import { useRef, useState } from 'react';
+import { PhotoStage } from '@/types/database';
+import { useBatchPhotos, BatchPhotoWithUrl } from '@/hooks/useBatchPhotos';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { bruisingLabels, photoStages, ripenessLabels } from '@/lib/photos';
+import { format } from 'date-fns';
+import { Camera, ImageIcon, Loader2, MapPin, RefreshCw } from 'lucide-react';
+
+interface BatchPhotoGalleryProps {
+  batchId: string;
+  /** Stages the viewer may photograph; empty for a read-only gallery */
+  captureStages: PhotoStage[];
+}
+
+function PhotoTile({ photo, onRetry }: { photo: BatchPhotoWithUrl; onRetry: () => void }) {
+  return (
+    <div className="rounded-lg border overflow-hidden text-xs">
+      {photo.url ? (
+        <a href={photo.url} target="_blank" rel="noreferrer">
+          <img src={photo.url} alt={`${photo.stage} photo`} className="h-28 w-full object-cover" />
+        </a>
+      ) : (
+        <div className="h-28 flex items-center justify-center bg-muted">
+          <ImageIcon className="h-6 w-6 text-muted-foreground" />
+        </div>
+      )}
+      <div className="p-2 space-y-1">
+        <p className="text-muted-foreground">
+          {format(new Date(photo.taken_at), 'MMM d, h:mm a')}
+          {photo.taken_at_source === 'upload' && ' (uploaded)'}
+        </p>
+        {photo.gps_lat !== null && photo.gps_lng !== null && (
+          <p className="flex items-center gap-1 text-muted-foreground">
+            <MapPin className="h-3 w-3" />
+            {photo.gps_lat.toFixed(4)}, {photo.gps_lng.toFixed(4)}
+          </p>
+        )}
+        {photo.assessment_status === 'pending' && (
+          <p className="flex items-center gap-1 text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Assessing...
+          </p>
+        )}
+        {photo.assessment_status === 'assessed' && (
+          <div className="flex flex-wrap gap-1" title={photo.assessment_notes ?? undefined}>
+            <Badge variant="secondary">{photo.defect_percentage}% defects</Badge>
+            {photo.bruising && <Badge variant="secondary">{bruisingLabels[photo.bruising]}</Badge>}
+            {photo.ripeness && <Badge variant="secondary">{ripenessLabels[photo.ripeness]}</Badge>}
+          </div>
+        )}
+        {photo.assessment_status === 'failed' && (
+          <div className="flex items-center justify-between gap-1">
+            <span className="text-destructive" title={photo.assessment_notes ?? undefined}>
+              Not assessed
+            </span>
+            <Button variant="ghost" size="sm" className="h-6 px-2" onClick={onRetry}>
+              <RefreshCw className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Produce photos from each hand-off, with what the vision model estimated from each
+export function BatchPhotoGallery({ batchId, captureStages }: BatchPhotoGalleryProps) {
+  const { photos, addPhoto, assessPhoto } = useBatchPhotos(batchId);
+  const { toast } = useToast();
+  const [uploadingStage, setUploadingStage] = useState<PhotoStage | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const pendingStage = useRef<PhotoStage | null>(null);
+
+  const stages = photoStages.filter(
+    (s) => captureStages.includes(s.value) || photos.some((p) => p.stage === s.value)
+  );
+  if (stages.length === 0) return null;
+
+  const openCapture = (stage: PhotoStage) => {
+    pendingStage.current = stage;
+    inputRef.current?.click();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    const stage = pendingStage.current;
+    if (!file || !stage) return;
+
+    setUploadingStage(stage);
+    try {
+      await addPhoto(file, stage);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to upload photo.',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploadingStage(null);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Camera className="h-4 w-4" />
+          Produce Photos
+        </CardTitle>
+        <CardDescription>Photos from each hand-off; defect, bruising and ripeness are model estimates</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        {stages.map((stage) => {
+          const stagePhotos = photos.filter((p) => p.stage === stage.value);
+          return (
+            <div key={stage.value} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium">{stage.label}</h4>
+                {captureStages.includes(stage.value) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={uploadingStage !== null}
+                    onClick={() => openCapture(stage.value)}
+                  >
+                    {uploadingStage === stage.value ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <Camera className="h-4 w-4 mr-1" />
+                    )}
+                    Add Photo
+                  </Button>
+                )}
+              </div>
+              {stagePhotos.length > 0 ? (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {stagePhotos.map((photo) => (
+                    <PhotoTile key={photo.id} photo={photo} onRetry={() => assessPhoto(photo.id)} />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No photos yet.</p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,8 @@
-import { BatchWithDetails, BatchStatus } from '@/types/database';
+import { BatchWithDetails, BatchStatus, BatchEvent, TransportLog } from '@/types/database';
+import { getFinalDeliveryLeg } from '@/lib/transportLegs';
+import { getRejectionReasonLabel } from '@/lib/rejections';
+import { describeExcursion, formatMinutes, getExcursionTotals } from '@/lib/coldChain';
+import { usableReadings } from '@/lib/weatherProvenance';
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
 import {
@@ -14,6 +18,9 @@ import {
   Sun,
   CloudRain,
   AlertCircle,
+  History,
+  Ban,
+  ThermometerSnowflake,
 } from 'lucide-react';
 
 interface BatchTimelineProps {
@@ -41,7 +48,10 @@ const statusOrder: BatchStatus[] = [
 ];
 
 export function BatchTimeline({ batch }: BatchTimelineProps) {
-  const currentIndex = statusOrder.indexOf(batch.status);
+  // Refused and returned lots sit off the main path; they made it as far as delivery
+  const currentIndex = statusOrder.indexOf(
+    ['rejected', 'returning', 'returned'].includes(batch.status) ? 'delivered' : batch.status
+  );
 
   return (
     <div className="space-y-6">
@@ -53,8 +63,8 @@ export function BatchTimeline({ batch }: BatchTimelineProps) {
           const isCurrent = index === currentIndex;
           const Icon = step.icon;
 
-          // Find environmental data for this stage
-          const stageEnvData = batch.environmental_data?.find((e) =>
+          // Find environmental data for this stage; placeholders stored without a provider are left out
+          const stageEnvData = usableReadings(batch.environmental_data).find((e) =>
             e.stage.toLowerCase().includes(step.label.toLowerCase().split(' ')[0])
           );
 
@@ -143,36 +153,180 @@ export function BatchTimeline({ batch }: BatchTimelineProps) {
           );
         })}
       </div>
+
+      {batch.vendor_receipt && batch.vendor_receipt.rejected_quantity_kg > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm">
+          <Ban className="h-4 w-4 mt-0.5 text-destructive" />
+          <div>
+            <p className="font-medium">
+              Vendor refused {batch.vendor_receipt.rejected_quantity_kg} kg
+              {batch.status === 'rejected' ? ' (the whole delivery)' : ''}
+            </p>
+            <p className="text-muted-foreground">{getRejectionReasonLabel(batch.vendor_receipt.rejection_reason)}</p>
+          </div>
+        </div>
+      )}
+
+      {batch.excursions && batch.excursions.length > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-warning/30 bg-warning/5 p-3 text-sm">
+          <ThermometerSnowflake className="h-4 w-4 mt-0.5 text-warning" />
+          <div className="space-y-1">
+            <p className="font-medium">Declared temperature band not held</p>
+            {batch.excursions.map((excursion) => {
+              const leg = batch.transport_legs?.find((l) => l.id === excursion.transport_log_id);
+              return (
+                <p key={excursion.id} className="text-muted-foreground">
+                  {leg && (batch.transport_legs?.length ?? 0) > 1 ? `Leg ${leg.leg_number}: ` : ''}
+                  {describeExcursion(excursion)} from {format(new Date(excursion.started_at), 'MMM d, h:mm a')} (
+                  {Math.round(Number(excursion.degree_minutes))} °C·min
+                  {excursion.source === 'weather' ? ', estimated from ambient weather' : ''})
+                </p>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              {formatMinutes(getExcursionTotals(batch)?.minutesOutOfRange ?? 0)} out of range in total
+            </p>
+          </div>
+        </div>
+      )}
+
+      {batch.events && batch.events.length > 0 && <BatchActivityLog events={batch.events} />}
+    </div>
+  );
+}
+
+function renderLegDetails(leg: TransportLog): React.ReactNode {
+  return (
+    <div className="text-sm text-muted-foreground space-y-1">
+      {leg.transport_type && <p>Transport: {leg.transport_type}</p>}
+      {leg.vehicle_info && <p>Vehicle: {leg.vehicle_info}</p>}
+      {leg.temperature_maintained && <p>Temperature: {leg.temperature_maintained}</p>}
+      {leg.delay_reason && (
+        <p className="flex items-center gap-1 text-warning">
+          <AlertCircle className="h-3 w-3" />
+          Delay: {leg.delay_reason}
+        </p>
+      )}
+    </div>
+  );
+}
+
+const eventLabels: Record<string, string> = {
+  batch_created: 'Batch created',
+  batch_updated: 'Batch details edited',
+  status_changed: 'Status changed',
+  transport_log_created: 'Transport leg opened',
+  transport_log_updated: 'Transport details updated',
+  vendor_receipt_created: 'Vendor accepted batch',
+  vendor_receipt_updated: 'Receipt details updated',
+  environmental_data_created: 'Environmental reading recorded',
+  ai_analysis_created: 'AI analysis generated',
+  ai_analysis_updated: 'AI analysis regenerated',
+  ai_analysis_failures_created: 'AI analysis failed',
+  sale_offers_created: 'Sale offer made',
+  sale_offers_updated: 'Sale offer answered',
+  transport_quotes_created: 'Transport quote submitted',
+  transport_quotes_updated: 'Transport quote decided',
+  receipt_disputes_created: 'Receipt disputed',
+  receipt_disputes_updated: 'Receipt dispute updated',
+  vendor_receipt_versions_created: 'Receipt corrected',
+  cold_chain_excursions_created: 'Cold-chain excursion flagged',
+  cold_chain_excursions_updated: 'Cold-chain excursion re-measured',
+  cold_chain_excursions_deleted: 'Cold-chain excursion withdrawn',
+  batch_photos_created: 'Produce photo added',
+  batch_photos_updated: 'Produce photo assessed',
+};
+
+// Fields that change on every write and add noise to the change summary
+const ignoredEventFields = ['updated_at', 'created_at', 'raw_api_response', 'full_analysis'];
+
+function describeEvent(event: BatchEvent): string {
+  if (event.event_type === 'status_changed') {
+    const from = String(event.before_data?.status ?? '').replace(/_/g, ' ');
+    const to = String(event.after_data?.status ?? '').replace(/_/g, ' ');
+    return `${from} → ${to}`;
+  }
+
+  if (event.before_data && event.after_data) {
+    const changed = Object.keys(event.after_data).filter(
+      (key) =>
+        !ignoredEventFields.includes(key) &&
+        JSON.stringify(event.before_data?.[key]) !== JSON.stringify(event.after_data?.[key])
+    );
+    return changed.length > 0 ? `Changed: ${changed.map((k) => k.replace(/_/g, ' ')).join(', ')}` : '';
+  }
+
+  return '';
+}
+
+function BatchActivityLog({ events }: { events: BatchEvent[] }) {
+  return (
+    <div className="space-y-3">
+      <h4 className="flex items-center gap-2 text-sm font-semibold">
+        <History className="h-4 w-4" />
+        Activity Log
+      </h4>
+      <ul className="space-y-2">
+        {events.map((event) => {
+          const label = eventLabels[event.event_type] ?? event.event_type.replace(/_/g, ' ');
+          const detail = describeEvent(event);
+
+          return (
+            <li key={event.id} className="rounded-lg border p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{label}</span>
+                <span className="text-xs text-muted-foreground">
+                  {format(new Date(event.occurred_at), 'MMM d, yyyy h:mm:ss a')}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {event.actor_role ? `By ${event.actor_role}` : 'By system'}
+                {detail && ` · ${detail}`}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
     </div>
   );
 }
 
 function getTimestampForStep(batch: BatchWithDetails, status: BatchStatus): string {
+  // Prefer the server-recorded time of the status change over the last-modified time
+  const statusEvent = batch.events?.find(
+    (e) => e.event_type === 'status_changed' && e.after_data?.status === status
+  );
+  const fallbackTime = statusEvent?.occurred_at ?? batch.updated_at;
+
   switch (status) {
     case 'created':
       return format(new Date(batch.harvest_time), 'MMM d, yyyy h:mm a');
     case 'assigned_transporter':
-    case 'picked_up':
-      if (batch.transport_log?.pickup_time) {
-        return format(new Date(batch.transport_log.pickup_time), 'MMM d, yyyy h:mm a');
+    case 'picked_up': {
+      const firstLeg = batch.transport_legs?.[0];
+      if (firstLeg?.pickup_time) {
+        return format(new Date(firstLeg.pickup_time), 'MMM d, yyyy h:mm a');
       }
-      return format(new Date(batch.updated_at), 'MMM d, yyyy h:mm a');
+      return format(new Date(fallbackTime), 'MMM d, yyyy h:mm a');
+    }
     case 'delivered':
-    case 'in_transit':
-      if (batch.transport_log?.drop_time) {
-        return format(new Date(batch.transport_log.drop_time), 'MMM d, yyyy h:mm a');
+    case 'in_transit': {
+      const finalLeg = getFinalDeliveryLeg(batch);
+      if (finalLeg?.drop_time) {
+        return format(new Date(finalLeg.drop_time), 'MMM d, yyyy h:mm a');
       }
-      return format(new Date(batch.updated_at), 'MMM d, yyyy h:mm a');
+      return format(new Date(fallbackTime), 'MMM d, yyyy h:mm a');
+    }
     case 'received':
       if (batch.vendor_receipt?.received_at) {
         return format(new Date(batch.vendor_receipt.received_at), 'MMM d, yyyy h:mm a');
       }
-      return format(new Date(batch.updated_at), 'MMM d, yyyy h:mm a');
+      return format(new Date(fallbackTime), 'MMM d, yyyy h:mm a');
     case 'analyzed':
       if (batch.ai_analysis?.analyzed_at) {
         return format(new Date(batch.ai_analysis.analyzed_at), 'MMM d, yyyy h:mm a');
       }
-      return format(new Date(batch.updated_at), 'MMM d, yyyy h:mm a');
+      return format(new Date(fallbackTime), 'MMM d, yyyy h:mm a');
     default:
       return '';
   }
@@ -190,29 +344,43 @@ function renderStageDetails(batch: BatchWithDetails, status: BatchStatus): React
         </div>
       );
     case 'picked_up':
-    case 'in_transit':
-      if (batch.transport_log) {
-        return (
-          <div className="text-sm text-muted-foreground space-y-1">
-            {batch.transport_log.transport_type && (
-              <p>Transport: {batch.transport_log.transport_type}</p>
-            )}
-            {batch.transport_log.vehicle_info && (
-              <p>Vehicle: {batch.transport_log.vehicle_info}</p>
-            )}
-            {batch.transport_log.temperature_maintained && (
-              <p>Temperature: {batch.transport_log.temperature_maintained}</p>
-            )}
-            {batch.transport_log.delay_reason && (
-              <p className="flex items-center gap-1 text-warning">
-                <AlertCircle className="h-3 w-3" />
-                Delay: {batch.transport_log.delay_reason}
-              </p>
-            )}
-          </div>
-        );
+    case 'in_transit': {
+      const legs = batch.transport_legs ?? [];
+      if (legs.length === 0) return null;
+
+      // With a single carrier both steps describe the same leg; with handoffs
+      // the pickup step shows the first leg and the transit step the whole chain
+      if (status === 'picked_up' || legs.length === 1) {
+        return renderLegDetails(legs[0]);
       }
-      return null;
+
+      return (
+        <div className="space-y-3">
+          {legs.map((leg, index) => {
+            const nextLeg = legs[index + 1];
+            return (
+              <div key={leg.id} className="rounded-lg border p-3 space-y-1">
+                <p className="text-xs font-medium flex items-center gap-1">
+                  <Truck className="h-3 w-3" />
+                  Leg {leg.leg_number}
+                  {leg.pickup_time && ` · picked up ${format(new Date(leg.pickup_time), 'MMM d, h:mm a')}`}
+                  {leg.drop_time && ` · dropped ${format(new Date(leg.drop_time), 'MMM d, h:mm a')}`}
+                </p>
+                {renderLegDetails(leg)}
+                {leg.handoff_released_at && (
+                  <p className="text-xs text-muted-foreground">
+                    Handoff released {format(new Date(leg.handoff_released_at), 'MMM d, h:mm a')}
+                    {nextLeg?.handoff_accepted_at
+                      ? `, accepted ${format(new Date(nextLeg.handoff_accepted_at), 'MMM d, h:mm a')}`
+                      : ' · awaiting next transporter'}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
     case 'received':
       if (batch.vendor_receipt) {
         return (
@@ -31,37 +31,14 @@ import {
 } from '@/components/ui/dialog';
 import { useGeolocation } from '@/hooks/useGeolocation';
 import { useBatches } from '@/hooks/useBatches';
+import { useVendors } from '@/hooks/useDirectory';
+import { useCrops } from '@/hooks/useCrops';
+import { describeStorage, expectedQualityGrades, findCrop } from '@/lib/crops';
+import { OPEN_OFFER } from '@/lib/saleOffers';
 import { toast } from '@/hooks/use-toast';
 import { SpeechToTextButton } from '@/components/ui/speech-to-text-button';
 import { Loader2, MapPin, Plus, Sprout } from 'lucide-react';
 
-const cropTypes = [
-  'Tomatoes',
-  'Potatoes',
-  'Onions',
-  'Carrots',
-  'Cabbage',
-  'Maize',
-  'Wheat',
-  'Rice',
-  'Beans',
-  'Peppers',
-  'Lettuce',
-  'Cucumbers',
-  'Apples',
-  'Oranges',
-  'Bananas',
-  'Mangoes',
-  'Other',
-];
-
-const qualityGrades = [
-  { value: 'premium', label: 'Premium - Top quality, no defects' },
-  { value: 'grade_a', label: 'Grade A - Excellent quality, minor defects' },
-  { value: 'grade_b', label: 'Grade B - Good quality, some defects' },
-  { value: 'grade_c', label: 'Grade C - Fair quality, visible defects' },
-];
-
 const formSchema = z.object({
   crop_type: z.string().min(1, 'Please select a crop type'),
   harvest_time: z.string().min(1, 'Please enter harvest time'),
@@ -69,8 +46,16 @@ const formSchema = z.object({
   quantity_kg: z.coerce.number().min(0.1, 'Quantity must be at least 0.1 kg'),
   farm_address: z.string().optional(),
   notes: z.string().optional(),
+  buyer: z.string(),
+  price_per_kg: z.string().optional(),
 });
 
+// Crops outside the catalog are recorded without storage guidance
+const OTHER_CROP = 'Other';
+
+// Leaving the buyer undecided creates the batch without any sale offer
+const DECIDE_LATER = 'later';
+
 type FormData = z.infer<typeof formSchema>;
 
 interface CreateBatchFormProps {
@@ -81,7 +66,9 @@ export function CreateBatchForm({ onSuccess }: CreateBatchFormProps) {
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const { latitude, longitude, error: geoError, loading: geoLoading, getLocation } = useGeolocation();
-  const { createBatch } = useBatches();
+  const { createBatch, createSaleOffer } = useBatches();
+  const { vendors } = useVendors(open);
+  const { activeCrops } = useCrops(open);
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -92,9 +79,14 @@ export function CreateBatchForm({ onSuccess }: CreateBatchFormProps) {
       quantity_kg: 0,
       farm_address: '',
       notes: '',
+      buyer: DECIDE_LATER,
+      price_per_kg: '',
     },
   });
 
+  const selectedCrop = findCrop(activeCrops, form.watch('crop_type'));
+  const selectedGrade = form.watch('expected_quality');
+
   useEffect(() => {
     if (open) {
       getLocation();
@@ -125,6 +117,23 @@ export function CreateBatchForm({ onSuccess }: CreateBatchFormProps) {
         description: `Your ${data.crop_type} batch has been registered successfully.${weatherInfo}`,
       });
 
+      if (data.buyer !== DECIDE_LATER && result?.id) {
+        try {
+          await createSaleOffer(result.id, {
+            vendor_id: data.buyer === OPEN_OFFER ? null : data.buyer,
+            price_per_kg: data.price_per_kg ? parseFloat(data.price_per_kg) : null,
+            message: null,
+          });
+        } catch (e) {
+          console.error('Failed to create sale offer:', e);
+          toast({
+            title: 'Offer Not Sent',
+            description: 'The batch was created, but the sale offer failed. You can offer it from the batch details.',
+            variant: 'destructive',
+          });
+        }
+      }
+
       form.reset();
       setOpen(false);
       onSuccess?.();
@@ -173,13 +182,15 @@ export function CreateBatchForm({ onSuccess }: CreateBatchFormProps) {
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {cropTypes.map((crop) => (
-                        <SelectItem key={crop} value={crop}>
-                          {crop}
+                      {activeCrops.map((crop) => (
+                        <SelectItem key={crop.id} value={crop.name}>
+                          {crop.name}
                         </SelectItem>
                       ))}
+                      <SelectItem value={OTHER_CROP}>{OTHER_CROP}</SelectItem>
                     </SelectContent>
                   </Select>
+                  {selectedCrop && <FormDescription>Store at {describeStorage(selectedCrop)}.</FormDescription>}
                   <FormMessage />
                 </FormItem>
               )}
@@ -227,14 +238,16 @@ export function CreateBatchForm({ onSuccess }: CreateBatchFormProps) {
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {qualityGrades.map((grade) => (
+                      {expectedQualityGrades.map((grade) => (
                         <SelectItem key={grade.value} value={grade.value}>
                           {grade.label}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
-                  <FormDescription>How would you rate the quality at harvest?</FormDescription>
+                  <FormDescription>
+                    {selectedCrop?.quality_grades[selectedGrade] ?? 'How would you rate the quality at harvest?'}
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
@@ -281,6 +294,56 @@ export function CreateBatchForm({ onSuccess }: CreateBatchFormProps) {
               )}
             />
 
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="buyer"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Buyer</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={DECIDE_LATER}>Decide later</SelectItem>
+                        <SelectItem value={OPEN_OFFER}>Open offer to all vendors</SelectItem>
+                        {vendors.map((vendor) => (
+                          <SelectItem key={vendor.id} value={vendor.id}>
+                            {vendor.full_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="price_per_kg"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Asking Price / kg</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Optional"
+                        disabled={form.watch('buyer') === DECIDE_LATER}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <FormField
               control={form.control}
               name="notes"
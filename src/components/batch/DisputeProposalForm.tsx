@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { BatchWithDetails, ReceiptDispute } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useBatches } from '@/hooks/useBatches';
+import { toast } from '@/hooks/use-toast';
+import { receiptGrades } from '@/lib/receiptGrades';
+import { Loader2, Scale } from 'lucide-react';
+
+interface DisputeProposalFormProps {
+  batch: BatchWithDetails;
+  /** The dispute being countered; omit to open a new dispute */
+  dispute?: ReceiptDispute;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+export function DisputeProposalForm({ batch, dispute, open, onOpenChange, onSuccess }: DisputeProposalFormProps) {
+  const { openReceiptDispute, counterReceiptDispute } = useBatches();
+  const [loading, setLoading] = useState(false);
+  const receipt = batch.vendor_receipt;
+  // Start from the proposal on the table when countering, otherwise from the recorded receipt
+  const [formData, setFormData] = useState({
+    reason: '',
+    quality_grade: dispute?.proposed_quality_grade ?? receipt?.quality_grade ?? '',
+    spoilage_percentage: dispute?.proposed_spoilage_percentage ?? receipt?.spoilage_percentage ?? 0,
+    weight_loss_percentage: dispute?.proposed_weight_loss_percentage ?? receipt?.weight_loss_percentage ?? 0,
+  });
+
+  if (!receipt) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const correction = {
+      quality_grade: formData.quality_grade,
+      spoilage_percentage: formData.spoilage_percentage,
+      weight_loss_percentage: formData.weight_loss_percentage,
+    };
+
+    try {
+      if (dispute) {
+        await counterReceiptDispute(dispute.id, correction);
+      } else {
+        await openReceiptDispute(receipt.id, formData.reason, correction);
+      }
+      toast({
+        title: dispute ? 'Counter-Proposal Sent' : 'Dispute Opened',
+        description: 'The other side can accept your values, counter them or escalate.',
+      });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit proposal.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5 text-warning" />
+            {dispute ? 'Counter-Propose' : 'Dispute Receipt'}
+          </DialogTitle>
+          <DialogDescription>
+            Propose the values you believe are correct for {batch.crop_type}. The vendor recorded{' '}
+            {receipt.quality_grade ?? 'no grade'}, {receipt.spoilage_percentage ?? 0}% spoilage and{' '}
+            {receipt.weight_loss_percentage ?? 0}% weight loss.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!dispute && (
+            <div className="space-y-2">
+              <Label>What is wrong?</Label>
+              <Textarea
+                placeholder="e.g. Spoilage was measured after the batch sat in the sun at the market..."
+                value={formData.reason}
+                onChange={(e) => setFormData((prev) => ({ ...prev, reason: e.target.value }))}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Quality Grade</Label>
+            <Select
+              value={formData.quality_grade}
+              onValueChange={(value) => setFormData((prev) => ({ ...prev, quality_grade: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select quality grade" />
+              </SelectTrigger>
+              <SelectContent>
+                {receiptGrades.map((grade) => (
+                  <SelectItem key={grade.value} value={grade.value}>
+                    {grade.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Spoilage (%)</Label>
+              <Input
+                type="number"
+                step="0.1"
+                min="0"
+                max="100"
+                value={formData.spoilage_percentage}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, spoilage_percentage: parseFloat(e.target.value) || 0 }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Weight Loss (%)</Label>
+              <Input
+                type="number"
+                step="0.1"
+                min="0"
+                max="100"
+                value={formData.weight_loss_percentage}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, weight_loss_percentage: parseFloat(e.target.value) || 0 }))
+                }
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || !formData.quality_grade || (!dispute && !formData.reason.trim())}
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {dispute ? 'Send Counter' : 'Open Dispute'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { BatchWithDetails } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useBatches } from '@/hooks/useBatches';
+import { toast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { GitMerge, Loader2 } from 'lucide-react';
+
+interface MergeBatchesFormProps {
+  batch: BatchWithDetails;
+  /** Other batches that can legally be merged with this one */
+  candidates: BatchWithDetails[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+export function MergeBatchesForm({ batch, candidates, open, onOpenChange, onSuccess }: MergeBatchesFormProps) {
+  const { mergeBatches } = useBatches();
+  const [loading, setLoading] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const selected = candidates.filter((c) => selectedIds.includes(c.id));
+  const totalKg = Math.round((batch.quantity_kg + selected.reduce((sum, c) => sum + c.quantity_kg, 0)) * 100) / 100;
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((x) => x !== id)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await mergeBatches([batch.id, ...selectedIds]);
+      toast({
+        title: 'Lot Created',
+        description: `${selectedIds.length + 1} batches merged into one ${totalKg} kg lot.`,
+      });
+      setSelectedIds([]);
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to merge batches.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5 text-primary" />
+            Merge Into Lot
+          </DialogTitle>
+          <DialogDescription>
+            Combine this {batch.quantity_kg} kg {batch.crop_type} batch with others of the same crop. Each batch
+            stays traceable to its farm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {candidates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">There are no other {batch.crop_type} batches to merge with.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {candidates.map((candidate) => (
+                <label
+                  key={candidate.id}
+                  className="flex items-center gap-3 rounded-lg border p-3 text-sm cursor-pointer hover:bg-secondary/50"
+                >
+                  <Checkbox
+                    checked={selectedIds.includes(candidate.id)}
+                    onCheckedChange={(checked) => toggle(candidate.id, checked === true)}
+                  />
+                  <div className="flex-1">
+                    <p className="font-medium">{candidate.quantity_kg} kg</p>
+                    <p className="text-xs text-muted-foreground">
+                      Harvested {format(new Date(candidate.harvest_time), 'MMM d, yyyy')}
+                      {candidate.farm_address && ` · ${candidate.farm_address}`}
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-4">
+            <span className="text-sm text-muted-foreground">Lot total: {totalKg} kg</span>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading || selectedIds.length === 0}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Merge {selectedIds.length + 1}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { QualityScore } from '@/types/database';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Bar, BarChart, XAxis, YAxis } from 'recharts';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { qualityFactorLabels, qualityLossBand } from '@/lib/qualityScore';
+import { Calculator } from 'lucide-react';
+
+interface QualityScoreCardProps {
+  score: QualityScore;
+}
+
+const chartConfig = {
+  points: { label: 'Points lost', color: 'hsl(var(--warning))' },
+  headroom: { label: 'Not lost', color: 'hsl(var(--muted))' },
+} satisfies ChartConfig;
+
+const bandColors = {
+  low: 'bg-success text-success-foreground',
+  moderate: 'bg-warning text-warning-foreground',
+  high: 'bg-destructive text-destructive-foreground',
+};
+
+// Per-factor breakdown of the rule-based score the AI analysis is grounded on
+export function QualityScoreCard({ score }: QualityScoreCardProps) {
+  const totalLoss = Number(score.total_loss);
+  const data = score.factors.map((f) => ({
+    label: qualityFactorLabels[f.factor],
+    points: Number(f.points),
+    headroom: Number(f.max_points) - Number(f.points),
+  }));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Calculator className="h-4 w-4" />
+              Quality Loss Score
+            </CardTitle>
+            <CardDescription>
+              Fixed rules (version {score.scoring_version}), computed{' '}
+              {format(new Date(score.computed_at), 'MMM d, h:mm a')}
+            </CardDescription>
+          </div>
+          <Badge className={cn(bandColors[qualityLossBand(totalLoss)])}>{totalLoss} / 100 lost</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+          <BarChart data={data} layout="vertical" margin={{ left: 8, right: 8 }}>
+            <XAxis type="number" hide />
+            <YAxis dataKey="label" type="category" tickLine={false} axisLine={false} width={90} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="points" stackId="factor" fill="var(--color-points)" radius={[4, 0, 0, 4]} />
+            <Bar dataKey="headroom" stackId="factor" fill="var(--color-headroom)" radius={[0, 4, 4, 0]} />
+          </BarChart>
+        </ChartContainer>
+        <ul className="space-y-1 text-xs text-muted-foreground">
+          {score.factors.map((f) => (
+            <li key={f.factor}>
+              <span className="font-medium text-foreground">
+                {qualityFactorLabels[f.factor]} ({Number(f.points)}/{f.max_points}):
+              </span>{' '}
+              {f.detail}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { BatchWithDetails, DisputeStatus, ReceiptDispute } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBatches } from '@/hooks/useBatches';
+import { useDisputeThread } from '@/hooks/useDisputeThread';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { formatGrade } from '@/lib/receiptGrades';
+import { DisputeProposalForm } from './DisputeProposalForm';
+import { format } from 'date-fns';
+import { Loader2, Paperclip, Send } from 'lucide-react';
+
+interface ReceiptDisputePanelProps {
+  batch: BatchWithDetails;
+  dispute: ReceiptDispute;
+  onChanged?: () => void;
+}
+
+const statusConfig: Record<DisputeStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-warning text-warning-foreground' },
+  countered: { label: 'Countered', className: 'bg-warning text-warning-foreground' },
+  resolved: { label: 'Resolved', className: 'bg-success text-success-foreground' },
+  escalated: { label: 'Escalated', className: 'bg-destructive text-destructive-foreground' },
+};
+
+// Proposal, discussion and receipt history for one dispute on a vendor receipt
+export function ReceiptDisputePanel({ batch, dispute, onChanged }: ReceiptDisputePanelProps) {
+  const { profile } = useAuth();
+  const { resolveReceiptDispute, escalateReceiptDispute } = useBatches();
+  const { messages, versions, postMessage, getAttachmentUrl } = useDisputeThread(dispute.id, dispute.receipt_id);
+  const [loading, setLoading] = useState(false);
+  const [counterOpen, setCounterOpen] = useState(false);
+  const [body, setBody] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const receipt = batch.vendor_receipt;
+  const isParty = !!profile && [dispute.vendor_id, dispute.opened_by].includes(profile.id);
+  const isLive = dispute.status !== 'resolved';
+  // Either side may respond to a proposal, but never to their own
+  const canRespond = isParty && isLive && dispute.proposed_by !== profile?.id;
+  const canEscalate = isParty && ['open', 'countered'].includes(dispute.status);
+
+  const authorName = (authorId: string | null) => {
+    if (authorId === profile?.id) return 'You';
+    if (authorId === dispute.vendor_id) return 'Vendor';
+    if (authorId === batch.farmer_id) return 'Farmer';
+    return 'Transporter';
+  };
+
+  const runAction = async (action: () => Promise<unknown>, title: string, description: string) => {
+    setLoading(true);
+    try {
+      await action();
+      toast({ title, description });
+      onChanged?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update dispute.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccept = () =>
+    runAction(
+      () => resolveReceiptDispute(dispute.id),
+      'Dispute Resolved',
+      'The receipt has been corrected. The original values are kept in its history.'
+    );
+
+  const handleEscalate = () =>
+    runAction(
+      () => escalateReceiptDispute(dispute.id),
+      'Dispute Escalated',
+      'The dispute has been flagged for review. You can still settle it between yourselves.'
+    );
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    try {
+      await postMessage(body.trim(), file ?? undefined);
+      setBody('');
+      setFile(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to send message.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const openAttachment = async (path: string) => {
+    try {
+      window.open(await getAttachmentUrl(path), '_blank', 'noopener');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to open attachment.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-sm">{dispute.reason}</p>
+          <p className="text-xs text-muted-foreground">
+            Opened {format(new Date(dispute.created_at), 'MMM d, h:mm a')} by {authorName(dispute.opened_by)}
+          </p>
+        </div>
+        <Badge className={statusConfig[dispute.status].className}>{statusConfig[dispute.status].label}</Badge>
+      </div>
+
+      {/* Recorded vs proposed */}
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <span />
+        <span className="text-muted-foreground">Recorded</span>
+        <span className="text-muted-foreground">
+          {dispute.status === 'resolved' ? 'Agreed' : `Proposed by ${authorName(dispute.proposed_by)}`}
+        </span>
+        <span className="text-muted-foreground">Grade</span>
+        <span>{formatGrade(receipt?.quality_grade ?? null)}</span>
+        <span className="font-medium">{formatGrade(dispute.proposed_quality_grade)}</span>
+        <span className="text-muted-foreground">Spoilage</span>
+        <span>{receipt?.spoilage_percentage ?? 0}%</span>
+        <span className="font-medium">{dispute.proposed_spoilage_percentage ?? 0}%</span>
+        <span className="text-muted-foreground">Weight loss</span>
+        <span>{receipt?.weight_loss_percentage ?? 0}%</span>
+        <span className="font-medium">{dispute.proposed_weight_loss_percentage ?? 0}%</span>
+      </div>
+
+      {(canRespond || canEscalate) && (
+        <div className="flex flex-wrap gap-2">
+          {canRespond && (
+            <>
+              <Button size="sm" onClick={handleAccept} disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Accept
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setCounterOpen(true)} disabled={loading}>
+                Counter
+              </Button>
+            </>
+          )}
+          {canEscalate && (
+            <Button size="sm" variant="outline" onClick={handleEscalate} disabled={loading}>
+              Escalate
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Discussion */}
+      <div className="space-y-2">
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={cn(
+              'rounded-lg border p-2 text-sm',
+              message.author_id === profile?.id && 'bg-muted/50'
+            )}
+          >
+            <p className="text-xs text-muted-foreground">
+              {authorName(message.author_id)} · {format(new Date(message.created_at), 'MMM d, h:mm a')}
+            </p>
+            {message.body && <p>{message.body}</p>}
+            {message.attachment_path && (
+              <button
+                type="button"
+                className="flex items-center gap-1 text-primary hover:underline"
+                onClick={() => openAttachment(message.attachment_path!)}
+              >
+                <Paperclip className="h-3 w-3" />
+                {message.attachment_name ?? 'Attachment'}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isParty && isLive && (
+        <form onSubmit={handleSend} className="space-y-2">
+          <Textarea
+            placeholder="Explain your position or describe the evidence..."
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+          />
+          <div className="flex items-center gap-2">
+            <Input
+              type="file"
+              accept="image/*,application/pdf"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <Button type="submit" size="sm" disabled={sending || (!body.trim() && !file)}>
+              {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {/* Receipt history, kept whenever a resolution corrects the receipt */}
+      {versions.length > 0 && (
+        <div className="space-y-1 text-xs text-muted-foreground">
+          {versions.map((version) => (
+            <p key={version.id}>
+              v{version.version} · {formatGrade(version.quality_grade)}, {version.spoilage_percentage ?? 0}% spoilage,{' '}
+              {version.weight_loss_percentage ?? 0}% weight loss
+              {version.version === 1 ? ' (original)' : ` · ${format(new Date(version.created_at), 'MMM d')}`}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {canRespond && (
+        <DisputeProposalForm
+          key={`counter-${dispute.id}-${dispute.updated_at}`}
+          batch={batch}
+          dispute={dispute}
+          open={counterOpen}
+          onOpenChange={setCounterOpen}
+          onSuccess={onChanged}
+        />
+      )}
+    </div>
+  );
+}
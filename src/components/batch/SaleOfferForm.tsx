@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { BatchWithDetails } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useBatches } from '@/hooks/useBatches';
+import { useVendors } from '@/hooks/useDirectory';
+import { toast } from '@/hooks/use-toast';
+import { OPEN_OFFER } from '@/lib/saleOffers';
+import { Loader2, Store } from 'lucide-react';
+
+interface SaleOfferFormProps {
+  batch: BatchWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+export function SaleOfferForm({ batch, open, onOpenChange, onSuccess }: SaleOfferFormProps) {
+  const { createSaleOffer } = useBatches();
+  const { vendors, loading: vendorsLoading } = useVendors(open);
+  const [loading, setLoading] = useState(false);
+  const [buyer, setBuyer] = useState(OPEN_OFFER);
+  const [pricePerKg, setPricePerKg] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await createSaleOffer(batch.id, {
+        vendor_id: buyer === OPEN_OFFER ? null : buyer,
+        price_per_kg: pricePerKg ? parseFloat(pricePerKg) : null,
+        message: message || null,
+      });
+      toast({
+        title: 'Offer Sent',
+        description:
+          buyer === OPEN_OFFER
+            ? 'Your batch has been offered to all vendors.'
+            : `Your batch has been offered to ${vendors.find((v) => v.id === buyer)?.full_name ?? 'the vendor'}.`,
+      });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to send offer.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Store className="h-5 w-5 text-vendor" />
+            Choose a Buyer
+          </DialogTitle>
+          <DialogDescription>
+            Offer {batch.quantity_kg} kg of {batch.crop_type} to a vendor you trust, or to every vendor. Only the vendor
+            who accepts will be able to receive it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Buyer</Label>
+            <Select value={buyer} onValueChange={setBuyer}>
+              <SelectTrigger>
+                <SelectValue placeholder={vendorsLoading ? 'Loading vendors...' : 'Select a buyer'} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={OPEN_OFFER}>Open offer to all vendors</SelectItem>
+                {vendors.map((vendor) => (
+                  <SelectItem key={vendor.id} value={vendor.id}>
+                    {vendor.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Asking Price per kg (Optional)</Label>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={pricePerKg}
+              onChange={(e) => setPricePerKg(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Message (Optional)</Label>
+            <Textarea
+              placeholder="Anything the vendor should know..."
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading} className="bg-vendor hover:bg-vendor/90">
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send Offer
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { BatchWithDetails } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useBatches } from '@/hooks/useBatches';
+import { toast } from '@/hooks/use-toast';
+import { quantitiesReconcile } from '@/lib/batchLineage';
+import { cn } from '@/lib/utils';
+import { GitFork, Loader2, Plus, X } from 'lucide-react';
+
+interface SplitBatchFormProps {
+  batch: BatchWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+function evenParts(totalKg: number, count: number): number[] {
+  const part = Math.floor((totalKg / count) * 100) / 100;
+  const parts = Array(count).fill(part);
+  // Give the rounding remainder to the last part so the split always reconciles
+  parts[count - 1] = Math.round((totalKg - part * (count - 1)) * 100) / 100;
+  return parts;
+}
+
+export function SplitBatchForm({ batch, open, onOpenChange, onSuccess }: SplitBatchFormProps) {
+  const { splitBatch } = useBatches();
+  const [loading, setLoading] = useState(false);
+  const [parts, setParts] = useState<number[]>(() => evenParts(batch.quantity_kg, 2));
+
+  const allocated = Math.round(parts.reduce((sum, kg) => sum + kg, 0) * 100) / 100;
+  const reconciles = quantitiesReconcile(parts, batch.quantity_kg);
+  const valid = reconciles && parts.length >= 2 && parts.every((kg) => kg > 0);
+
+  const updatePart = (index: number, value: number) => {
+    setParts((prev) => prev.map((kg, i) => (i === index ? value : kg)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await splitBatch(batch.id, parts);
+      toast({
+        title: 'Batch Split',
+        description: `${batch.crop_type} has been split into ${parts.length} batches.`,
+      });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to split batch.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitFork className="h-5 w-5 text-farmer" />
+            Split Batch
+          </DialogTitle>
+          <DialogDescription>
+            Divide {batch.quantity_kg} kg of {batch.crop_type} into separate batches, e.g. for different trucks or
+            vendors. The parts must add up to the full quantity.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {parts.map((kg, index) => (
+            <div key={index} className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label>Part {index + 1} (kg)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={kg}
+                  onChange={(e) => updatePart(index, parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              {parts.length > 2 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setParts((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <Button type="button" variant="outline" size="sm" onClick={() => setParts(evenParts(batch.quantity_kg, parts.length + 1))}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add Part
+            </Button>
+            <span className={cn('text-sm', reconciles ? 'text-muted-foreground' : 'text-destructive')}>
+              {allocated} / {batch.quantity_kg} kg allocated
+            </span>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !valid} className="bg-farmer hover:bg-farmer/90">
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Split into {parts.length}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { BatchWithDetails, TelemetryUploadResult } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TelemetryUpload } from '@/hooks/useBatchTelemetry';
+import { toast } from '@/hooks/use-toast';
+import { Loader2, Thermometer } from 'lucide-react';
+
+interface TelemetryUploadFormProps {
+  batch: BatchWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpload: (upload: TelemetryUpload) => Promise<TelemetryUploadResult>;
+}
+
+export function TelemetryUploadForm({ batch, open, onOpenChange, onUpload }: TelemetryUploadFormProps) {
+  const [loading, setLoading] = useState(false);
+  const [deviceSerial, setDeviceSerial] = useState('');
+  const [vehicleInfo, setVehicleInfo] = useState(batch.transport_log?.vehicle_info ?? '');
+  const [file, setFile] = useState<File | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setLoading(true);
+
+    try {
+      const result = await onUpload({ file, deviceSerial: deviceSerial.trim(), vehicleInfo: vehicleInfo.trim() });
+      toast({
+        title: 'Readings Uploaded',
+        description: `${result.inserted} new readings saved${
+          result.duplicates ? `, ${result.duplicates} already uploaded` : ''
+        }${result.rejected ? `, ${result.rejected} unreadable rows skipped` : ''}.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to upload readings.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Thermometer className="h-5 w-5 text-transporter" />
+            Upload Logger Data
+          </DialogTitle>
+          <DialogDescription>
+            Upload the CSV or JSON export from your truck's temperature logger for the {batch.crop_type} batch. Readings
+            you have already uploaded are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Logger Serial Number</Label>
+              <Input
+                placeholder="e.g. TL-20481"
+                value={deviceSerial}
+                onChange={(e) => setDeviceSerial(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Vehicle (Optional)</Label>
+              <Input
+                placeholder="e.g. MH 12 AB 1234"
+                value={vehicleInfo}
+                onChange={(e) => setVehicleInfo(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Export File</Label>
+            <Input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <p className="text-xs text-muted-foreground">
+              CSV files need a timestamp column and a temperature column in °C; humidity is optional.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || !file || !deviceSerial.trim()}
+              className="bg-transporter hover:bg-transporter/90"
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Upload
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
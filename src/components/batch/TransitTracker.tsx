@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { BatchWithDetails } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useBatches } from '@/hooks/useBatches';
+import { useTransitTracking } from '@/hooks/useTransitTracking';
+import { toast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { Loader2, Navigation, Radio, Square } from 'lucide-react';
+
+interface TransitTrackerProps {
+  batch: BatchWithDetails;
+  onStatusChange?: () => void;
+}
+
+export function TransitTracker({ batch, onStatusChange }: TransitTrackerProps) {
+  const { transitionBatchStatus } = useBatches();
+  const { latitude, longitude, error, tracking, pingCount, lastPingAt, startTracking, stopTracking } =
+    useTransitTracking(batch.id);
+  const [starting, setStarting] = useState(false);
+  // The batch prop can lag behind the server after a refresh, so remember the transition locally
+  const [inTransit, setInTransit] = useState(batch.status === 'in_transit');
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      if (!inTransit) {
+        await transitionBatchStatus(batch.id, 'in_transit');
+        setInTransit(true);
+        onStatusChange?.();
+      }
+      startTracking();
+      toast({
+        title: 'Transit Started',
+        description: 'Your route is being recorded. Keep this screen open while driving.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start transit.',
+        variant: 'destructive',
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <Card className="border-transporter/30 bg-transporter/5">
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-center gap-4">
+          <Navigation className="h-8 w-8 text-transporter" />
+          <div className="flex-1">
+            <h4 className="font-medium flex items-center gap-2">
+              Transit Tracking
+              {tracking && (
+                <Badge className="bg-info text-info-foreground flex items-center gap-1">
+                  <Radio className="h-3 w-3 animate-pulse" />
+                  Live
+                </Badge>
+              )}
+            </h4>
+            <p className="text-sm text-muted-foreground">
+              {tracking
+                ? 'Recording your position along the route.'
+                : 'Record the route you drive so everyone can see the actual path.'}
+            </p>
+          </div>
+          {tracking ? (
+            <Button variant="outline" onClick={stopTracking}>
+              <Square className="mr-2 h-4 w-4" />
+              Pause
+            </Button>
+          ) : (
+            <Button onClick={handleStart} disabled={starting} className="bg-transporter hover:bg-transporter/90">
+              {starting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {inTransit ? 'Resume' : 'Start Transit'}
+            </Button>
+          )}
+        </div>
+
+        {(tracking || pingCount > 0) && (
+          <div className="rounded-lg border p-3 bg-background/60 text-sm text-muted-foreground space-y-1">
+            <p>Points recorded this session: {pingCount}</p>
+            {lastPingAt && <p>Last recorded: {format(lastPingAt, 'h:mm:ss a')}</p>}
+            {latitude && longitude && (
+              <p>
+                Current position: {latitude.toFixed(4)}, {longitude.toFixed(4)}
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { BatchWithDetails } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useBatches } from '@/hooks/useBatches';
+import { toast } from '@/hooks/use-toast';
+import { transportTypes } from '@/lib/transportOptions';
+import { Loader2, Receipt } from 'lucide-react';
+
+interface TransportQuoteFormProps {
+  batch: BatchWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+// datetime-local inputs want local time without seconds or zone
+function toLocalInput(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+export function TransportQuoteForm({ batch, open, onOpenChange, onSuccess }: TransportQuoteFormProps) {
+  const { submitTransportQuote } = useBatches();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState(() => {
+    const start = new Date(Date.now() + 60 * 60 * 1000);
+    return {
+      price: '',
+      pickup_window_start: toLocalInput(start),
+      pickup_window_end: toLocalInput(new Date(start.getTime() + 3 * 60 * 60 * 1000)),
+      vehicle_type: '',
+      notes: '',
+    };
+  });
+
+  const windowValid = new Date(formData.pickup_window_end) > new Date(formData.pickup_window_start);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await submitTransportQuote(batch.id, {
+        price: parseFloat(formData.price),
+        pickup_window_start: new Date(formData.pickup_window_start).toISOString(),
+        pickup_window_end: new Date(formData.pickup_window_end).toISOString(),
+        vehicle_type: formData.vehicle_type,
+        notes: formData.notes || null,
+      });
+      toast({
+        title: 'Quote Submitted',
+        description: 'The farmer will be able to compare it with other quotes.',
+      });
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit quote.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Receipt className="h-5 w-5 text-transporter" />
+            Submit a Quote
+          </DialogTitle>
+          <DialogDescription>
+            Quote for carrying {batch.quantity_kg} kg of {batch.crop_type}. The farmer picks one transporter.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Price</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.price}
+                onChange={(e) => setFormData((prev) => ({ ...prev, price: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Vehicle Type</Label>
+              <Select
+                value={formData.vehicle_type}
+                onValueChange={(value) => setFormData((prev) => ({ ...prev, vehicle_type: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select vehicle" />
+                </SelectTrigger>
+                <SelectContent>
+                  {transportTypes.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Pickup From</Label>
+              <Input
+                type="datetime-local"
+                value={formData.pickup_window_start}
+                onChange={(e) => setFormData((prev) => ({ ...prev, pickup_window_start: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Pickup Until</Label>
+              <Input
+                type="datetime-local"
+                value={formData.pickup_window_end}
+                onChange={(e) => setFormData((prev) => ({ ...prev, pickup_window_end: e.target.value }))}
+              />
+            </div>
+          </div>
+          {!windowValid && <p className="text-sm text-destructive">The pickup window must end after it starts.</p>}
+
+          <div className="space-y-2">
+            <Label>Notes (Optional)</Label>
+            <Textarea
+              placeholder="Cooling, crew, route details..."
+              value={formData.notes}
+              onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || !formData.price || !formData.vehicle_type || !windowValid}
+              className="bg-transporter hover:bg-transporter/90"
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Submit Quote
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
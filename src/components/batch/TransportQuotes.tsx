@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { BatchWithDetails } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useBatches } from '@/hooks/useBatches';
+import { useTransporters } from '@/hooks/useDirectory';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { isOpenForQuotes } from '@/lib/transportLegs';
+import { format } from 'date-fns';
+import { Clock, Loader2, Truck } from 'lucide-react';
+
+interface TransportQuotesProps {
+  batch: BatchWithDetails;
+  onAwarded?: () => void;
+}
+
+// Side-by-side comparison of the bids on a farmer's batch
+export function TransportQuotes({ batch, onAwarded }: TransportQuotesProps) {
+  const { awardTransportQuote, checkWeatherRisk } = useBatches();
+  const { transporters } = useTransporters();
+  const [awardingId, setAwardingId] = useState<string | null>(null);
+
+  const quotes = (batch.transport_quotes ?? []).filter((q) => q.status === 'pending' || q.status === 'awarded');
+  const lowestPrice = Math.min(...quotes.map((q) => q.price));
+  const canAward = isOpenForQuotes(batch);
+
+  const handleAward = async (quoteId: string) => {
+    setAwardingId(quoteId);
+    try {
+      await awardTransportQuote(quoteId);
+
+      // Not awaited: re-checks the forecast over the awarded pickup window
+      checkWeatherRisk(batch.id).catch((e) => console.error('Failed to check weather risk:', e));
+
+      toast({
+        title: 'Quote Awarded!',
+        description: 'The transporter has been assigned. Other bidders have been notified.',
+      });
+      onAwarded?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to award quote.',
+        variant: 'destructive',
+      });
+    } finally {
+      setAwardingId(null);
+    }
+  };
+
+  if (quotes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No quotes yet. Transporters can bid while the batch is ready for pickup.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {quotes.map((quote) => (
+        <div
+          key={quote.id}
+          className={cn(
+            'rounded-lg border p-3 text-sm space-y-2',
+            quote.status === 'awarded' && 'border-transporter bg-transporter/5'
+          )}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium truncate">
+              {transporters.find((t) => t.id === quote.transporter_id)?.full_name ?? 'Transporter'}
+            </span>
+            {quote.status === 'awarded' ? (
+              <Badge className="bg-transporter text-transporter-foreground">Awarded</Badge>
+            ) : (
+              quote.price === lowestPrice && quotes.length > 1 && <Badge variant="secondary">Lowest</Badge>
+            )}
+          </div>
+          <p className="text-2xl font-bold">{quote.price}</p>
+          <p className="flex items-center gap-1 text-muted-foreground">
+            <Truck className="h-3 w-3" />
+            {quote.vehicle_type}
+          </p>
+          <p className="flex items-center gap-1 text-muted-foreground">
+            <Clock className="h-3 w-3" />
+            {format(new Date(quote.pickup_window_start), 'MMM d, h:mm a')} –{' '}
+            {format(new Date(quote.pickup_window_end), 'MMM d, h:mm a')}
+          </p>
+          {quote.notes && <p className="text-xs text-muted-foreground">{quote.notes}</p>}
+          {canAward && quote.status === 'pending' && (
+            <Button
+              size="sm"
+              className="w-full bg-transporter hover:bg-transporter/90"
+              onClick={() => handleAward(quote.id)}
+              disabled={awardingId !== null}
+            >
+              {awardingId === quote.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Award
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { BatchWithDetails } from '@/types/database';
+import { BatchWithDetails, TransportLog } from '@/types/database';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -21,57 +21,48 @@ import {
 import { useGeolocation } from '@/hooks/useGeolocation';
 import { useBatches } from '@/hooks/useBatches';
 import { toast } from '@/hooks/use-toast';
+import { temperatureOptions, transportTypes } from '@/lib/transportOptions';
 import { SpeechToTextButton } from '@/components/ui/speech-to-text-button';
-import { Loader2, MapPin, Package } from 'lucide-react';
+import { Loader2, MapPin, Package, Repeat } from 'lucide-react';
 
-const transportTypes = [
-  'Refrigerated Truck',
-  'Open Truck',
-  'Covered Van',
-  'Pickup Truck',
-  'Motorcycle Carrier',
-  'Other',
-];
-
-const temperatureOptions = [
-  'Cold Chain Maintained (2-8°C)',
-  'Cool Storage (8-15°C)',
-  'Ambient Temperature',
-  'Not Applicable',
+const deliveryDestinations = [
+  { value: 'vendor', label: 'Final delivery to vendor' },
+  { value: 'handoff', label: 'Hand off to another transporter' },
 ];
 
 interface TransportUpdateFormProps {
   batch: BatchWithDetails;
+  leg: TransportLog;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess?: () => void;
 }
 
-export function TransportUpdateForm({ batch, open, onOpenChange, onSuccess }: TransportUpdateFormProps) {
+export function TransportUpdateForm({ batch, leg, open, onOpenChange, onSuccess }: TransportUpdateFormProps) {
   const [loading, setLoading] = useState(false);
   const [action, setAction] = useState<'pickup' | 'deliver'>('pickup');
+  const [destination, setDestination] = useState<'vendor' | 'handoff'>('vendor');
+  const isHandoffPickup = leg.leg_number > 1;
+  // A refused lot going back to the farm keeps its 'returning' status for the whole trip
+  const isReturnTrip = batch.status === 'returning';
   const { latitude, longitude, error: geoError, loading: geoLoading, getLocation } = useGeolocation();
-  const { updateTransportLog, updateBatch, fetchEnvironmentalData } = useBatches();
+  const { recordLegPickup, recordLegDrop, fetchEnvironmentalData, backfillRouteWeather } = useBatches();
 
   const [formData, setFormData] = useState({
-    transport_type: batch.transport_log?.transport_type || '',
-    vehicle_info: batch.transport_log?.vehicle_info || '',
-    temperature_maintained: batch.transport_log?.temperature_maintained || '',
-    delay_reason: batch.transport_log?.delay_reason || '',
-    notes: batch.transport_log?.notes || '',
+    transport_type: leg.transport_type || '',
+    vehicle_info: leg.vehicle_info || '',
+    temperature_maintained: leg.temperature_maintained || '',
+    delay_reason: leg.delay_reason || '',
+    notes: leg.notes || '',
   });
 
   useEffect(() => {
     if (open) {
       getLocation();
-      // Determine action based on batch status
-      if (['assigned_transporter', 'created'].includes(batch.status)) {
-        setAction('pickup');
-      } else {
-        setAction('deliver');
-      }
+      // Determine action based on this leg's progress
+      setAction(leg.pickup_time ? 'deliver' : 'pickup');
     }
-  }, [open, batch.status, getLocation]);
+  }, [open, leg.pickup_time, getLocation]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -79,18 +70,16 @@ export function TransportUpdateForm({ batch, open, onOpenChange, onSuccess }: Tr
 
     try {
       if (action === 'pickup') {
-        await updateTransportLog(batch.id, {
-          pickup_time: new Date().toISOString(),
-          pickup_gps_lat: latitude,
-          pickup_gps_lng: longitude,
+        // The first leg marks the batch picked up; later legs accept the handoff of a batch already on the road
+        await recordLegPickup(leg.id, {
+          gps_lat: latitude,
+          gps_lng: longitude,
           transport_type: formData.transport_type,
           vehicle_info: formData.vehicle_info,
           temperature_maintained: formData.temperature_maintained,
           notes: formData.notes,
         });
 
-        await updateBatch(batch.id, { status: 'picked_up' });
-
         // Fetch environmental data for pickup
         if (latitude && longitude) {
           try {
@@ -101,19 +90,44 @@ export function TransportUpdateForm({ batch, open, onOpenChange, onSuccess }: Tr
         }
 
         toast({
-          title: 'Pickup Recorded!',
-          description: 'The batch has been marked as picked up.',
+          title: isHandoffPickup ? 'Handoff Accepted!' : 'Pickup Recorded!',
+          description: isHandoffPickup
+            ? `You are now carrying leg ${leg.leg_number} of this batch.`
+            : 'The batch has been marked as picked up.',
         });
-      } else {
-        await updateTransportLog(batch.id, {
-          drop_time: new Date().toISOString(),
-          drop_gps_lat: latitude,
-          drop_gps_lng: longitude,
-          delay_reason: formData.delay_reason || null,
+      } else if (destination === 'handoff') {
+        // Releasing the leg puts a batch that was only picked up in transit
+        await recordLegDrop(leg.id, {
+          handoff: true,
+          gps_lat: latitude,
+          gps_lng: longitude,
+          delay_reason: formData.delay_reason,
           notes: formData.notes,
         });
 
-        await updateBatch(batch.id, { status: 'delivered' });
+        if (latitude && longitude) {
+          try {
+            await fetchEnvironmentalData(batch.id, 'transport_handoff', latitude, longitude);
+          } catch (e) {
+            console.error('Failed to fetch environmental data:', e);
+          }
+        }
+
+        // Not awaited: sampling the route takes a while; its readings appear on the next refresh
+        backfillRouteWeather(leg.id).catch((e) => console.error('Failed to backfill route weather:', e));
+
+        toast({
+          title: 'Handoff Recorded!',
+          description: 'The batch is waiting for the next transporter to accept it.',
+        });
+      } else {
+        await recordLegDrop(leg.id, {
+          handoff: false,
+          gps_lat: latitude,
+          gps_lng: longitude,
+          delay_reason: formData.delay_reason,
+          notes: formData.notes,
+        });
 
         // Fetch environmental data for delivery
         if (latitude && longitude) {
@@ -124,9 +138,11 @@ export function TransportUpdateForm({ batch, open, onOpenChange, onSuccess }: Tr
           }
         }
 
+        backfillRouteWeather(leg.id).catch((e) => console.error('Failed to backfill route weather:', e));
+
         toast({
           title: 'Delivery Recorded!',
-          description: 'The batch has been marked as delivered.',
+          description: isReturnTrip ? 'The batch is back at the farm.' : 'The batch has been marked as delivered.',
         });
       }
 
@@ -148,13 +164,17 @@ export function TransportUpdateForm({ batch, open, onOpenChange, onSuccess }: Tr
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
-            {action === 'pickup' ? <Package className="h-5 w-5 text-transporter" /> : <MapPin className="h-5 w-5 text-transporter" />}
-            {action === 'pickup' ? 'Record Pickup' : 'Record Delivery'}
+            {action === 'pickup' ? (
+              isHandoffPickup ? <Repeat className="h-5 w-5 text-transporter" /> : <Package className="h-5 w-5 text-transporter" />
+            ) : (
+              <MapPin className="h-5 w-5 text-transporter" />
+            )}
+            {action === 'pickup' ? (isHandoffPickup ? 'Accept Handoff' : 'Record Pickup') : 'Record Drop-off'}
           </DialogTitle>
           <DialogDescription>
             {action === 'pickup'
-              ? `Record pickup details for ${batch.crop_type} (${batch.quantity_kg} kg)`
-              : `Record delivery details for ${batch.crop_type}`}
+              ? `Record pickup details for ${batch.crop_type} (${batch.quantity_kg} kg), leg ${leg.leg_number}`
+              : `Record drop-off details for ${batch.crop_type}, leg ${leg.leg_number}`}
           </DialogDescription>
         </DialogHeader>
 
@@ -207,8 +227,8 @@ export function TransportUpdateForm({ batch, open, onOpenChange, onSuccess }: Tr
                   </SelectTrigger>
                   <SelectContent>
                     {temperatureOptions.map((option) => (
-                      <SelectItem key={option} value={option}>
-                        {option}
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.value}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -217,6 +237,27 @@ export function TransportUpdateForm({ batch, open, onOpenChange, onSuccess }: Tr
             </>
           )}
 
+          {action === 'deliver' && (
+            <div className="space-y-2">
+              <Label>Destination</Label>
+              <Select
+                value={destination}
+                onValueChange={(value) => setDestination(value as 'vendor' | 'handoff')}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select destination" />
+                </SelectTrigger>
+                <SelectContent>
+                  {deliveryDestinations.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {isReturnTrip && option.value === 'vendor' ? 'Final delivery back to the farm' : option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {action === 'deliver' && (
             <div className="space-y-2">
               <Label>Delay Reason (if any)</Label>
@@ -277,7 +318,9 @@ export function TransportUpdateForm({ batch, open, onOpenChange, onSuccess }: Tr
             </Button>
             <Button type="submit" disabled={loading} className="bg-transporter hover:bg-transporter/90">
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              {action === 'pickup' ? 'Confirm Pickup' : 'Confirm Delivery'}
+              {action === 'pickup'
+                ? isHandoffPickup ? 'Confirm Handoff' : 'Confirm Pickup'
+                : destination === 'handoff' ? 'Release to Next Transporter' : 'Confirm Delivery'}
             </Button>
           </div>
         </form>
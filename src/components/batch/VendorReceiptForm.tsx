@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { BatchWithDetails } from '@/types/database';
+import { BatchWithDetails, RejectionReason } from '@/types/database';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -22,17 +22,10 @@ import { useGeolocation } from '@/hooks/useGeolocation';
 import { useBatches } from '@/hooks/useBatches';
 import { toast } from '@/hooks/use-toast';
 import { SpeechToTextButton } from '@/components/ui/speech-to-text-button';
+import { rejectionReasons } from '@/lib/rejections';
+import { receiptGrades } from '@/lib/receiptGrades';
 import { Loader2, MapPin, Store, CheckCircle } from 'lucide-react';
 
-const qualityGrades = [
-  { value: 'premium', label: 'Premium - Excellent condition, no issues' },
-  { value: 'grade_a', label: 'Grade A - Very good, minimal issues' },
-  { value: 'grade_b', label: 'Grade B - Good, some minor issues' },
-  { value: 'grade_c', label: 'Grade C - Fair, noticeable issues' },
-  { value: 'grade_d', label: 'Grade D - Poor, significant issues' },
-  { value: 'rejected', label: 'Rejected - Not acceptable' },
-];
-
 interface VendorReceiptFormProps {
   batch: BatchWithDetails;
   open: boolean;
@@ -43,16 +36,24 @@ interface VendorReceiptFormProps {
 export function VendorReceiptForm({ batch, open, onOpenChange, onSuccess }: VendorReceiptFormProps) {
   const [loading, setLoading] = useState(false);
   const { latitude, longitude, error: geoError, loading: geoLoading, getLocation } = useGeolocation();
-  const { updateVendorReceipt, updateBatch, fetchEnvironmentalData, runAIAnalysis } = useBatches();
+  const { updateVendorReceipt, transitionBatchStatus, rejectBatchDelivery, fetchEnvironmentalData, runAIAnalysis } =
+    useBatches();
 
   const [formData, setFormData] = useState({
     quality_grade: '',
     received_quantity_kg: batch.quantity_kg,
     spoilage_percentage: 0,
     weight_loss_percentage: 0,
+    rejected_quantity_kg: 0,
+    rejection_reason: '' as RejectionReason | '',
     notes: '',
   });
 
+  const isRejecting = formData.rejected_quantity_kg > 0;
+  const isFullRejection = isRejecting && formData.rejected_quantity_kg >= formData.received_quantity_kg;
+  const rejectionValid =
+    !isRejecting || (!!formData.rejection_reason && formData.rejected_quantity_kg <= formData.received_quantity_kg);
+
   useEffect(() => {
     if (open) {
       getLocation();
@@ -75,7 +76,12 @@ export function VendorReceiptForm({ batch, open, onOpenChange, onSuccess }: Vend
         notes: formData.notes || null,
       });
 
-      await updateBatch(batch.id, { status: 'received' });
+      // Refused kilograms are split off for the farmer; anything left over is received as usual
+      if (isRejecting && formData.rejection_reason) {
+        await rejectBatchDelivery(batch.id, formData.rejection_reason, formData.rejected_quantity_kg);
+      } else {
+        await transitionBatchStatus(batch.id, 'received');
+      }
 
       // Fetch environmental data for receipt
       if (latitude && longitude) {
@@ -86,9 +92,21 @@ export function VendorReceiptForm({ batch, open, onOpenChange, onSuccess }: Vend
         }
       }
 
+      if (isFullRejection) {
+        toast({
+          title: 'Batch Rejected',
+          description: 'The farmer has been notified and can reallocate or recall the batch.',
+        });
+        onOpenChange(false);
+        onSuccess?.();
+        return;
+      }
+
       toast({
         title: 'Receipt Confirmed!',
-        description: 'The batch receipt has been recorded. Running AI analysis...',
+        description: isRejecting
+          ? `${formData.rejected_quantity_kg} kg were returned to the farmer. Running AI analysis...`
+          : 'The batch receipt has been recorded. Running AI analysis...',
       });
 
       // Run AI analysis
@@ -144,13 +162,19 @@ export function VendorReceiptForm({ batch, open, onOpenChange, onSuccess }: Vend
             <Label>Quality Grade</Label>
             <Select
               value={formData.quality_grade}
-              onValueChange={(value) => setFormData((prev) => ({ ...prev, quality_grade: value }))}
+              onValueChange={(value) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  quality_grade: value,
+                  rejected_quantity_kg: value === 'rejected' ? prev.received_quantity_kg : prev.rejected_quantity_kg,
+                }))
+              }
             >
               <SelectTrigger>
                 <SelectValue placeholder="Select quality grade" />
               </SelectTrigger>
               <SelectContent>
-                {qualityGrades.map((grade) => (
+                {receiptGrades.map((grade) => (
                   <SelectItem key={grade.value} value={grade.value}>
                     {grade.label}
                   </SelectItem>
@@ -172,6 +196,7 @@ export function VendorReceiptForm({ batch, open, onOpenChange, onSuccess }: Vend
                     ...prev,
                     received_quantity_kg: value,
                     weight_loss_percentage: calculateWeightLoss(value),
+                    rejected_quantity_kg: prev.quality_grade === 'rejected' ? value : prev.rejected_quantity_kg,
                   }));
                 }}
               />
@@ -205,6 +230,54 @@ export function VendorReceiptForm({ batch, open, onOpenChange, onSuccess }: Vend
             <p className="text-xs text-muted-foreground">Percentage of crop that is spoiled or unusable</p>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Rejected Quantity (kg)</Label>
+              <Input
+                type="number"
+                step="0.1"
+                min="0"
+                max={formData.received_quantity_kg}
+                value={formData.rejected_quantity_kg}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, rejected_quantity_kg: parseFloat(e.target.value) || 0 }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rejection Reason</Label>
+              <Select
+                value={formData.rejection_reason}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({ ...prev, rejection_reason: value as RejectionReason }))
+                }
+                disabled={!isRejecting}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rejectionReasons.map((reason) => (
+                    <SelectItem key={reason.value} value={reason.value}>
+                      {reason.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            {isFullRejection
+              ? 'The whole batch will be refused and handed back to the farmer.'
+              : isRejecting
+                ? `You accept ${Math.round((formData.received_quantity_kg - formData.rejected_quantity_kg) * 100) / 100} kg; the rest goes back to the farmer.`
+                : 'Leave at 0 to accept everything you received.'}
+          </p>
+          {isRejecting && formData.rejected_quantity_kg > formData.received_quantity_kg && (
+            <p className="text-sm text-destructive">You cannot reject more than you received.</p>
+          )}
+
           {/* Location Status */}
           <div className="rounded-lg border p-3 bg-secondary/50">
             <div className="flex items-center gap-2 text-sm">
@@ -245,10 +318,14 @@ export function VendorReceiptForm({ batch, open, onOpenChange, onSuccess }: Vend
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button type="submit" disabled={loading || !formData.quality_grade} className="bg-vendor hover:bg-vendor/90">
+            <Button
+              type="submit"
+              disabled={loading || !formData.quality_grade || !rejectionValid}
+              className={isFullRejection ? 'bg-destructive hover:bg-destructive/90' : 'bg-vendor hover:bg-vendor/90'}
+            >
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               <CheckCircle className="mr-2 h-4 w-4" />
-              Confirm Receipt
+              {isFullRejection ? 'Reject Batch' : 'Confirm Receipt'}
             </Button>
           </div>
         </form>
@@ -1,4 +1,4 @@
-import { EnvironmentalData } from '@/types/database';
+import { Crop, EnvironmentalData, TelemetryReading } from '@/types/database';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -9,11 +9,37 @@ import {
   Thermometer,
   CloudRain,
   Leaf,
+  Snowflake,
+  AlertTriangle,
+  Route,
 } from 'lucide-react';
+import { summarizeTelemetry } from '@/lib/telemetry';
+import { checkCropConditions } from '@/lib/crops';
+import { describeWeatherSources, isDefaultedReading, usableReadings } from '@/lib/weatherProvenance';
+import { cn } from '@/lib/utils';
 
 interface WeatherSectorProps {
   environmentalData?: EnvironmentalData[];
   stage?: 'harvest' | 'pickup' | 'transit' | 'delivery' | 'receipt';
+  /** Data logger readings from inside the vehicle, shown against the ambient weather */
+  telemetry?: TelemetryReading[];
+  /** Catalog entry for the batch's crop; readings outside its ranges are flagged */
+  crop?: Crop;
+}
+
+function CropWarnings({ warnings }: { warnings: string[] }) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-2 rounded-lg bg-warning/10 p-3 text-sm text-warning">
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+      <div>
+        {warnings.map((warning) => (
+          <p key={warning}>{warning}</p>
+        ))}
+      </div>
+    </div>
+  );
 }
 
 function WeatherMetric({
@@ -80,7 +106,10 @@ function getStageBadgeColor(stage: string): string {
   }
 }
 
-function WeatherCard({ data }: { data: EnvironmentalData }) {
+function WeatherCard({ data, crop }: { data: EnvironmentalData; crop?: Crop }) {
+  const defaulted = isDefaultedReading(data);
+  const cropWarnings =
+    crop && !defaulted ? checkCropConditions(crop, data.temperature_celsius, data.humidity_percentage) : [];
   const aqiInfo = getAQILabel(data.air_quality_index);
   const uvInfo = getUVLabel(data.uv_index);
   const recordedAt = new Date(data.recorded_at).toLocaleString();
@@ -93,89 +122,235 @@ function WeatherCard({ data }: { data: EnvironmentalData }) {
             <Cloud className="h-5 w-5 text-muted-foreground" />
             <CardTitle className="text-base">Weather Conditions</CardTitle>
           </div>
-          <Badge className={getStageBadgeColor(data.stage)}>
-            {data.stage.charAt(0).toUpperCase() + data.stage.slice(1)}
-          </Badge>
+          <div className="flex items-center gap-1">
+            {data.data_quality === 'estimated' && <Badge variant="outline">Estimated</Badge>}
+            <Badge className={getStageBadgeColor(data.stage)}>
+              {data.stage.charAt(0).toUpperCase() + data.stage.slice(1)}
+            </Badge>
+          </div>
         </div>
         <CardDescription>
           Recorded at {recordedAt}
         </CardDescription>
       </CardHeader>
-      <CardContent className="space-y-4">
-        {/* Current Condition */}
-        {data.weather_condition && (
-          <div className="flex items-center gap-2 text-lg font-medium">
-            <Sun className="h-5 w-5 text-warning" />
-            {data.weather_condition}
+      {defaulted ? (
+        <CardContent>
+          <div className="flex items-start gap-2 rounded-lg border border-dashed p-3 text-sm text-muted-foreground">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <p>No weather provider answered when this stage was recorded, so there are no readings for it.</p>
           </div>
-        )}
+        </CardContent>
+      ) : (
+        <CardContent className="space-y-4">
+          {/* Current Condition */}
+          {data.weather_condition && (
+            <div className="flex items-center gap-2 text-lg font-medium">
+              <Sun className="h-5 w-5 text-warning" />
+              {data.weather_condition}
+            </div>
+          )}
         
-        {/* Weather Grid */}
+          <CropWarnings warnings={cropWarnings} />
+
+          {/* Weather Grid */}
+          <div className="grid grid-cols-2 gap-3">
+            <WeatherMetric
+              icon={Thermometer}
+              label="Temperature"
+              value={data.temperature_celsius}
+              unit="°C"
+              color="bg-orange-500"
+            />
+            <WeatherMetric
+              icon={Droplets}
+              label="Humidity"
+              value={data.humidity_percentage}
+              unit="%"
+              color="bg-blue-500"
+            />
+            <WeatherMetric
+              icon={Wind}
+              label="Wind Speed"
+              value={data.wind_speed_kmh}
+              unit="km/h"
+              color="bg-cyan-500"
+            />
+            <WeatherMetric
+              icon={CloudRain}
+              label="Precipitation"
+              value={data.precipitation_mm}
+              unit="mm"
+              color="bg-indigo-500"
+            />
+          </div>
+        
+          {/* AQI and UV Index */}
+          <div className="grid grid-cols-2 gap-3 pt-2 border-t">
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Leaf className="h-3 w-3" />
+                Air Quality Index
+              </p>
+              <div className="flex items-center gap-2">
+                <span className="text-lg font-semibold">{data.air_quality_index ?? '—'}</span>
+                <Badge variant="secondary" className={`${aqiInfo.color} text-white text-xs`}>
+                  {aqiInfo.label}
+                </Badge>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Sun className="h-3 w-3" />
+                UV Index
+              </p>
+              <div className="flex items-center gap-2">
+                <span className="text-lg font-semibold">{data.uv_index ?? '—'}</span>
+                <Badge variant="secondary" className={`${uvInfo.color} text-white text-xs`}>
+                  {uvInfo.label}
+                </Badge>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+function CargoTemperatureCard({
+  telemetry,
+  environmentalData,
+  crop,
+}: {
+  telemetry: TelemetryReading[];
+  environmentalData?: EnvironmentalData[];
+  crop?: Crop;
+}) {
+  const summary = summarizeTelemetry(telemetry);
+  if (!summary) return null;
+
+  // The extremes are what the crop has to survive
+  const cropWarnings = crop
+    ? [
+        ...checkCropConditions(crop, summary.maxTemperature, null),
+        ...checkCropConditions(crop, summary.minTemperature, null),
+      ]
+    : [];
+
+  // Compare with ambient readings taken while the logger was running
+  const ambient = usableReadings(environmentalData).filter(
+    (d) => d.temperature_celsius !== null && d.recorded_at >= summary.from && d.recorded_at <= summary.to
+  );
+  const ambientAverage =
+    ambient.length > 0 ? ambient.reduce((acc, d) => acc + Number(d.temperature_celsius), 0) / ambient.length : null;
+
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Snowflake className="h-5 w-5 text-muted-foreground" />
+            <CardTitle className="text-base">Cargo Temperature</CardTitle>
+          </div>
+          <Badge className="bg-transporter text-white">Data Logger</Badge>
+        </div>
+        <CardDescription>
+          {summary.count} readings from {new Date(summary.from).toLocaleString()} to{' '}
+          {new Date(summary.to).toLocaleString()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <CropWarnings warnings={cropWarnings} />
         <div className="grid grid-cols-2 gap-3">
+          <WeatherMetric icon={Thermometer} label="Lowest" value={summary.minTemperature} unit="°C" color="bg-blue-500" />
+          <WeatherMetric icon={Thermometer} label="Highest" value={summary.maxTemperature} unit="°C" color="bg-orange-500" />
           <WeatherMetric
             icon={Thermometer}
-            label="Temperature"
-            value={data.temperature_celsius}
+            label="Average"
+            value={summary.averageTemperature.toFixed(1)}
             unit="°C"
-            color="bg-orange-500"
-          />
-          <WeatherMetric
-            icon={Droplets}
-            label="Humidity"
-            value={data.humidity_percentage}
-            unit="%"
-            color="bg-blue-500"
-          />
-          <WeatherMetric
-            icon={Wind}
-            label="Wind Speed"
-            value={data.wind_speed_kmh}
-            unit="km/h"
             color="bg-cyan-500"
           />
           <WeatherMetric
-            icon={CloudRain}
-            label="Precipitation"
-            value={data.precipitation_mm}
-            unit="mm"
-            color="bg-indigo-500"
+            icon={Sun}
+            label="Ambient Average"
+            value={ambientAverage !== null ? ambientAverage.toFixed(1) : null}
+            unit="°C"
+            color="bg-warning"
           />
         </div>
-        
-        {/* AQI and UV Index */}
-        <div className="grid grid-cols-2 gap-3 pt-2 border-t">
-          <div className="space-y-1">
-            <p className="text-xs text-muted-foreground flex items-center gap-1">
-              <Leaf className="h-3 w-3" />
-              Air Quality Index
-            </p>
-            <div className="flex items-center gap-2">
-              <span className="text-lg font-semibold">{data.air_quality_index ?? '—'}</span>
-              <Badge variant="secondary" className={`${aqiInfo.color} text-white text-xs`}>
-                {aqiInfo.label}
-              </Badge>
-            </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Hourly conditions sampled along finished legs, too many for a card each
+function RouteWeatherCard({ samples, crop }: { samples: EnvironmentalData[]; crop?: Crop }) {
+  const temperatures = samples
+    .map((d) => d.temperature_celsius)
+    .filter((t): t is number => t !== null)
+    .map(Number);
+
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Route className="h-5 w-5 text-muted-foreground" />
+            <CardTitle className="text-base">Along the Route</CardTitle>
           </div>
-          <div className="space-y-1">
-            <p className="text-xs text-muted-foreground flex items-center gap-1">
-              <Sun className="h-3 w-3" />
-              UV Index
-            </p>
-            <div className="flex items-center gap-2">
-              <span className="text-lg font-semibold">{data.uv_index ?? '—'}</span>
-              <Badge variant="secondary" className={`${uvInfo.color} text-white text-xs`}>
-                {uvInfo.label}
-              </Badge>
-            </div>
+          <div className="flex items-center gap-1">
+            <Badge variant="outline">Estimated</Badge>
+            <Badge className={getStageBadgeColor('transit')}>Transit</Badge>
+          </div>
+        </div>
+        <CardDescription>
+          {samples.length} samples of historical weather where the batch was, from{' '}
+          {new Date(samples[0].recorded_at).toLocaleString()} to{' '}
+          {new Date(samples[samples.length - 1].recorded_at).toLocaleString()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {temperatures.length > 0 && (
+          <div className="grid grid-cols-2 gap-3">
+            <WeatherMetric icon={Thermometer} label="Coolest" value={Math.min(...temperatures)} unit="°C" color="bg-blue-500" />
+            <WeatherMetric icon={Thermometer} label="Hottest" value={Math.max(...temperatures)} unit="°C" color="bg-orange-500" />
           </div>
+        )}
+        <div className="divide-y rounded-lg border text-sm">
+          {samples.map((sample) => {
+            const outOfRange =
+              crop && checkCropConditions(crop, sample.temperature_celsius, sample.humidity_percentage).length > 0;
+            return (
+              <div key={sample.id} className={cn('flex items-center justify-between gap-2 px-3 py-2', outOfRange && 'text-warning')}>
+                <span className="text-muted-foreground">
+                  {new Date(sample.recorded_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+                <span className="truncate">{sample.weather_condition ?? '—'}</span>
+                <span className="font-medium">
+                  {sample.temperature_celsius ?? '—'}°C
+                  {sample.humidity_percentage !== null && (
+                    <span className="font-normal text-muted-foreground"> · {sample.humidity_percentage}%</span>
+                  )}
+                </span>
+              </div>
+            );
+          })}
         </div>
       </CardContent>
     </Card>
   );
 }
 
-export function WeatherSector({ environmentalData, stage }: WeatherSectorProps) {
+export function WeatherSector({ environmentalData, stage, telemetry, crop }: WeatherSectorProps) {
+  const cargoCard =
+    telemetry && telemetry.length > 0 && !stage ? (
+      <CargoTemperatureCard telemetry={telemetry} environmentalData={environmentalData} crop={crop} />
+    ) : null;
+
   if (!environmentalData || environmentalData.length === 0) {
+    if (cargoCard) return <div className="space-y-4">{cargoCard}</div>;
+
     return (
       <Card className="border-dashed">
         <CardContent className="flex flex-col items-center justify-center py-8">
@@ -208,16 +383,24 @@ export function WeatherSector({ environmentalData, stage }: WeatherSectorProps)
     );
   }
 
+  const sources = describeWeatherSources(filteredData);
+  const spotReadings = filteredData.filter((d) => !d.transport_log_id);
+  const routeSamples = usableReadings(filteredData.filter((d) => d.transport_log_id));
+
   // Show multiple weather cards if there are multiple stages
   return (
     <div className="space-y-4">
-      {filteredData.map((data) => (
-        <WeatherCard key={data.id} data={data} />
+      {cargoCard}
+      {spotReadings.map((data) => (
+        <WeatherCard key={data.id} data={data} crop={crop} />
       ))}
-      <p className="text-xs text-muted-foreground text-center flex items-center justify-center gap-1.5 pt-2">
-        <Cloud className="h-3 w-3" />
-        Powered by Google Weather & Air Quality APIs
-      </p>
+      {routeSamples.length > 0 && <RouteWeatherCard samples={routeSamples} crop={crop} />}
+      {sources && (
+        <p className="text-xs text-muted-foreground text-center flex items-center justify-center gap-1.5 pt-2">
+          <Cloud className="h-3 w-3" />
+          Weather from {sources}
+        </p>
+      )}
     </div>
   );
 }
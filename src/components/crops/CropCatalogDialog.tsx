@@ -0,0 +1,293 @@
+import { useState } from 'react';
+import { Crop, EthyleneLevel } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useCrops } from '@/hooks/useCrops';
+import { toast } from '@/hooks/use-toast';
+import { describeStorage, ethyleneLevels, expectedQualityGrades } from '@/lib/crops';
+import { Loader2, Pencil, Plus, Wheat } from 'lucide-react';
+
+interface CropCatalogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ethyleneSensitivities: { value: Crop['ethylene_sensitivity']; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'high', label: 'High' },
+];
+
+function toFormData(crop?: Crop) {
+  return {
+    name: crop?.name ?? '',
+    min_temperature_celsius: crop ? String(crop.min_temperature_celsius) : '',
+    max_temperature_celsius: crop ? String(crop.max_temperature_celsius) : '',
+    min_humidity_percentage: crop ? String(crop.min_humidity_percentage) : '',
+    max_humidity_percentage: crop ? String(crop.max_humidity_percentage) : '',
+    chilling_sensitive: crop?.chilling_sensitive ?? false,
+    ethylene_production: crop?.ethylene_production ?? ('low' as EthyleneLevel),
+    ethylene_sensitivity: crop?.ethylene_sensitivity ?? ('moderate' as Crop['ethylene_sensitivity']),
+    typical_shelf_life_days: crop ? String(crop.typical_shelf_life_days) : '',
+    heat_tolerance_celsius: crop ? String(crop.heat_tolerance_celsius) : '30',
+    quality_grades: { ...(crop?.quality_grades ?? {}) },
+    active: crop?.active ?? true,
+  };
+}
+
+// Admin-only editor for the crop reference data used by batch creation, weather checks and analysis
+export function CropCatalogDialog({ open, onOpenChange }: CropCatalogDialogProps) {
+  const { crops, loading: cropsLoading, saveCrop } = useCrops(open);
+  const [editing, setEditing] = useState<Crop | 'new' | null>(null);
+  const [formData, setFormData] = useState(() => toFormData());
+  const [loading, setLoading] = useState(false);
+
+  const startEditing = (crop: Crop | 'new') => {
+    setEditing(crop);
+    setFormData(toFormData(crop === 'new' ? undefined : crop));
+  };
+
+  const rangesValid =
+    Number(formData.max_temperature_celsius) >= Number(formData.min_temperature_celsius) &&
+    Number(formData.max_humidity_percentage) >= Number(formData.min_humidity_percentage);
+  const complete =
+    !!formData.name.trim() &&
+    !!formData.min_temperature_celsius &&
+    !!formData.max_temperature_celsius &&
+    !!formData.min_humidity_percentage &&
+    !!formData.max_humidity_percentage &&
+    !!formData.typical_shelf_life_days &&
+    !!formData.heat_tolerance_celsius;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await saveCrop(
+        {
+          name: formData.name.trim(),
+          min_temperature_celsius: parseFloat(formData.min_temperature_celsius),
+          max_temperature_celsius: parseFloat(formData.max_temperature_celsius),
+          min_humidity_percentage: parseFloat(formData.min_humidity_percentage),
+          max_humidity_percentage: parseFloat(formData.max_humidity_percentage),
+          chilling_sensitive: formData.chilling_sensitive,
+          ethylene_production: formData.ethylene_production,
+          ethylene_sensitivity: formData.ethylene_sensitivity,
+          typical_shelf_life_days: parseInt(formData.typical_shelf_life_days, 10),
+          heat_tolerance_celsius: parseFloat(formData.heat_tolerance_celsius),
+          quality_grades: Object.fromEntries(
+            Object.entries(formData.quality_grades).filter(([, definition]) => definition.trim())
+          ),
+          active: formData.active,
+        },
+        editing !== 'new' ? editing?.id : undefined
+      );
+      toast({
+        title: 'Crop Saved',
+        description: `${formData.name.trim()} is available to every user straight away.`,
+      });
+      setEditing(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save crop.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const numberField = (key: keyof typeof formData, label: string, step = '0.1') => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Input
+        type="number"
+        step={step}
+        value={formData[key] as string}
+        onChange={(e) => setFormData((prev) => ({ ...prev, [key]: e.target.value }))}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEditing(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wheat className="h-5 w-5 text-primary" />
+            Crop Catalog
+          </DialogTitle>
+          <DialogDescription>
+            Storage conditions and grade definitions for each crop. Inactive crops stay on existing batches but cannot
+            be chosen for new ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={formData.name}
+                onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {numberField('min_temperature_celsius', 'Min Temperature (°C)')}
+              {numberField('max_temperature_celsius', 'Max Temperature (°C)')}
+              {numberField('min_humidity_percentage', 'Min Humidity (%)')}
+              {numberField('max_humidity_percentage', 'Max Humidity (%)')}
+            </div>
+            {!rangesValid && <p className="text-sm text-destructive">Each maximum must be at least its minimum.</p>}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Ethylene Production</Label>
+                <Select
+                  value={formData.ethylene_production}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({ ...prev, ethylene_production: value as EthyleneLevel }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ethyleneLevels.map((level) => (
+                      <SelectItem key={level.value} value={level.value}>
+                        {level.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Ethylene Sensitivity</Label>
+                <Select
+                  value={formData.ethylene_sensitivity}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({ ...prev, ethylene_sensitivity: value as Crop['ethylene_sensitivity'] }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ethyleneSensitivities.map((level) => (
+                      <SelectItem key={level.value} value={level.value}>
+                        {level.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {numberField('typical_shelf_life_days', 'Typical Shelf Life (days)', '1')}
+              {numberField('heat_tolerance_celsius', 'Heat Tolerance (°C)')}
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <Label htmlFor="chilling-sensitive">Chilling sensitive</Label>
+              <Switch
+                id="chilling-sensitive"
+                checked={formData.chilling_sensitive}
+                onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, chilling_sensitive: checked }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Grade Definitions</Label>
+              {expectedQualityGrades.map((grade) => (
+                <Input
+                  key={grade.value}
+                  placeholder={grade.label}
+                  value={formData.quality_grades[grade.value] ?? ''}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      quality_grades: { ...prev.quality_grades, [grade.value]: e.target.value },
+                    }))
+                  }
+                />
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <Label htmlFor="crop-active">Available for new batches</Label>
+              <Switch
+                id="crop-active"
+                checked={formData.active}
+                onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, active: checked }))}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Back
+              </Button>
+              <Button type="submit" disabled={loading || !complete || !rangesValid}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Crop
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-3">
+            {cropsLoading && crops.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              crops.map((crop) => (
+                <div key={crop.id} className="flex items-center justify-between gap-3 rounded-lg border p-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium flex items-center gap-2">
+                      {crop.name}
+                      {!crop.active && <Badge variant="secondary">Inactive</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{describeStorage(crop)}</p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => startEditing(crop)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+
+            <Button variant="outline" className="w-full" onClick={() => startEditing('new')}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Crop
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
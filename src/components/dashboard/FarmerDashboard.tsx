@@ -3,10 +3,12 @@ import { useBatches } from '@/hooks/useBatches';
 import { BatchCard } from '@/components/batch/BatchCard';
 import { BatchDetailSheet } from '@/components/batch/BatchDetailSheet';
 import { CreateBatchForm } from '@/components/batch/CreateBatchForm';
+import { PortfolioInsights } from '@/components/dashboard/PortfolioInsights';
 import { BatchWithDetails } from '@/types/database';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Sprout, Package, TrendingUp, AlertTriangle } from 'lucide-react';
+import { getRejectedQuantity } from '@/lib/rejections';
+import { Sprout, Package, TrendingUp, AlertTriangle, Ban } from 'lucide-react';
 
 export function FarmerDashboard() {
   const { batches, loading, fetchBatches } = useBatches();
@@ -20,11 +22,18 @@ export function FarmerDashboard() {
 
   // Calculate stats
   const totalBatches = batches.length;
-  const activeBatches = batches.filter((b) => b.status !== 'analyzed').length;
+  // Split or merged batches live on through their children, so they are no longer active;
+  // neither is a refused lot that is back at the farm
+  const activeBatches = batches.filter((b) => !['analyzed', 'returned'].includes(b.status) && !b.superseded_at).length;
   const analyzedBatches = batches.filter((b) => b.status === 'analyzed').length;
+  // High spoilage or a receipt still being contested
   const issuesBatches = batches.filter(
-    (b) => b.vendor_receipt?.spoilage_percentage && b.vendor_receipt.spoilage_percentage > 10
+    (b) =>
+      (b.vendor_receipt?.spoilage_percentage && b.vendor_receipt.spoilage_percentage > 10) ||
+      b.disputes?.some((d) => d.status !== 'resolved')
   ).length;
+  // Refused kilograms are counted apart from spoilage; they come back as their own batches
+  const rejectedKg = batches.reduce((acc, b) => acc + getRejectedQuantity(b), 0);
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -38,7 +47,7 @@ export function FarmerDashboard() {
       </div>
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <Card>
           <CardContent className="pt-6">
             <div className="flex items-center gap-3">
@@ -94,8 +103,25 @@ export function FarmerDashboard() {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-destructive/10">
+                <Ban className="h-5 w-5 text-destructive" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{Math.round(rejectedKg * 10) / 10} kg</p>
+                <p className="text-xs text-muted-foreground">Rejected</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Insights across all delivered batches */}
+      <PortfolioInsights />
+
       {/* Batches Grid */}
       {loading ? (
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
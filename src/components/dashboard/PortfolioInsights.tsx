@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { usePortfolioInsights } from '@/hooks/usePortfolioInsights';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { describeFinding, patternDimensionLabels } from '@/lib/portfolioInsights';
+import { Lightbulb, Loader2, RefreshCw, Sparkles } from 'lucide-react';
+
+const priorityColors = {
+  high: 'bg-destructive text-destructive-foreground',
+  medium: 'bg-warning text-warning-foreground',
+  low: 'bg-muted text-muted-foreground',
+};
+
+// Improvement report drawn from all of the farmer's delivered batches
+export function PortfolioInsights() {
+  const { versions, loading, generateInsights } = usePortfolioInsights();
+  const { toast } = useToast();
+  const [generating, setGenerating] = useState(false);
+  // null follows the latest version, including one a regeneration adds
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const insights = versions.find((v) => v.version === selectedVersion) ?? versions[0];
+
+  const handleGenerate = async () => {
+    setSelectedVersion(null);
+    setGenerating(true);
+    try {
+      await generateInsights();
+      toast({
+        title: 'Insights Ready',
+        description: 'Your improvement report has been updated.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to generate insights.',
+        variant: 'destructive',
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Sparkles className="h-5 w-5 text-primary" />
+              Farm Insights
+            </CardTitle>
+            <CardDescription>
+              {insights
+                ? `Patterns across ${insights.batch_count} delivered batches, ${format(
+                    new Date(insights.generated_at),
+                    'MMM d, h:mm a'
+                  )}${insights.model ? ` · ${insights.model}` : ''}`
+                : 'Recurring patterns across your delivered batches and what to change first'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {versions.length > 1 && insights && (
+              <Select value={String(insights.version)} onValueChange={(value) => setSelectedVersion(Number(value))}>
+                <SelectTrigger className="h-8 w-auto text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((v) => (
+                    <SelectItem key={v.id} value={String(v.version)} className="text-xs">
+                      Version {v.version} · {format(new Date(v.generated_at), 'MMM d, h:mm a')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleGenerate} disabled={generating}>
+              {generating ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <RefreshCw className="mr-1 h-3 w-3" />}
+              {insights ? 'Regenerate' : 'Generate'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-3/4" />
+            <Skeleton className="h-4 w-1/2" />
+          </div>
+        ) : !insights ? (
+          <p className="text-sm text-muted-foreground">
+            Once a few batches have been received, generate a report to see which crops, transporters, pickup
+            times and seasons cost you the most.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm">{insights.report.summary}</p>
+
+            {insights.report.recommendations.length > 0 && (
+              <ol className="space-y-3">
+                {insights.report.recommendations.map((r, i) => (
+                  <li key={i} className="rounded-lg border p-3 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Lightbulb className="h-4 w-4 text-accent shrink-0" />
+                      <span className="font-medium text-sm">{r.title}</span>
+                      <Badge className={cn('ml-auto capitalize', priorityColors[r.priority])}>{r.priority}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground pl-6">{r.action}</p>
+                    <p className="text-xs text-muted-foreground pl-6 italic">{r.evidence}</p>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Patterns found</p>
+              {insights.findings.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  No group of batches loses clearly more than the rest.
+                </p>
+              ) : (
+                <ul className="space-y-1 text-xs text-muted-foreground">
+                  {insights.findings.map((f, i) => (
+                    <li key={i}>
+                      <span className="font-medium text-foreground">{patternDimensionLabels[f.dimension]}:</span>{' '}
+                      {describeFinding(f)}, {f.batch_count} batches, about {f.avoidable_kg} kg avoidable
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { useBatches } from '@/hooks/useBatches';
+import { useAuth } from '@/contexts/AuthContext';
+import { getCurrentLeg, getTransporterLeg, isAwaitingHandoff, isOpenForQuotes } from '@/lib/transportLegs';
 import { BatchCard } from '@/components/batch/BatchCard';
 import { BatchDetailSheet } from '@/components/batch/BatchDetailSheet';
 import { BatchWithDetails } from '@/types/database';
@@ -9,6 +11,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Truck, Package, Clock, CheckCircle } from 'lucide-react';
 
 export function TransporterDashboard() {
+  const { profile } = useAuth();
   const { batches, loading, fetchBatches } = useBatches();
   const [selectedBatch, setSelectedBatch] = useState<BatchWithDetails | null>(null);
   const [detailOpen, setDetailOpen] = useState(false);
@@ -18,14 +21,20 @@ export function TransporterDashboard() {
     setDetailOpen(true);
   };
 
-  // Filter batches for transporter view
-  const availableBatches = batches.filter((b) => b.status === 'created');
-  const myActiveBatches = batches.filter(
-    (b) => b.transport_log && ['assigned_transporter', 'picked_up', 'in_transit'].includes(b.status)
-  );
-  const completedBatches = batches.filter(
-    (b) => b.transport_log && ['delivered', 'received', 'analyzed'].includes(b.status)
+  // Filter batches for transporter view. A batch can pass through several
+  // transporters, so "mine" is judged by the legs this transporter drove.
+  const userId = profile?.id ?? '';
+  const availableBatches = batches.filter(
+    (b) => isOpenForQuotes(b) || (isAwaitingHandoff(b) && getCurrentLeg(b)?.transporter_id !== userId)
   );
+  const myActiveBatches = batches.filter((b) => {
+    const currentLeg = getCurrentLeg(b);
+    return currentLeg?.transporter_id === userId && !currentLeg.drop_time;
+  });
+  const completedBatches = batches.filter((b) => {
+    const myLeg = getTransporterLeg(b, userId);
+    return !!myLeg?.drop_time && !myActiveBatches.includes(b);
+  });
 
   // Stats
   const totalDeliveries = completedBatches.length;
@@ -119,7 +128,7 @@ export function TransporterDashboard() {
                   batch={batch}
                   role="transporter"
                   onView={handleViewBatch}
-                  actionLabel="Accept"
+                  actionLabel={isAwaitingHandoff(batch) ? 'Accept' : 'Quote'}
                 />
               ))}
             </div>
@@ -1,14 +1,18 @@
 import { useState } from 'react';
 import { useBatches } from '@/hooks/useBatches';
+import { useAuth } from '@/contexts/AuthContext';
 import { BatchCard } from '@/components/batch/BatchCard';
 import { BatchDetailSheet } from '@/components/batch/BatchDetailSheet';
 import { BatchWithDetails } from '@/types/database';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Store, Package, Clock, CheckCircle, Brain, TrendingDown } from 'lucide-react';
+import { getPendingOffer, isOfferOpenTo } from '@/lib/saleOffers';
+import { getRejectedQuantity } from '@/lib/rejections';
+import { Store, Package, Clock, CheckCircle, Brain, TrendingDown, Tag, Ban } from 'lucide-react';
 
 export function VendorDashboard() {
+  const { profile } = useAuth();
   const { batches, loading, fetchBatches } = useBatches();
   const [selectedBatch, setSelectedBatch] = useState<BatchWithDetails | null>(null);
   const [detailOpen, setDetailOpen] = useState(false);
@@ -18,14 +22,23 @@ export function VendorDashboard() {
     setDetailOpen(true);
   };
 
-  // Filter batches for vendor view
-  const incomingBatches = batches.filter((b) => ['in_transit', 'delivered'].includes(b.status) && !b.vendor_receipt);
+  // Filter batches for vendor view. Vendors only handle batches they have agreed to buy.
+  const userId = profile?.id ?? '';
+  const offeredBatches = batches.filter((b) => {
+    const offer = getPendingOffer(b);
+    return !!offer && !b.buyer_id && isOfferOpenTo(offer, userId);
+  });
+  const incomingBatches = batches.filter(
+    (b) => b.buyer_id === userId && ['in_transit', 'delivered'].includes(b.status) && !b.vendor_receipt
+  );
   const pendingReceiptBatches = batches.filter(
-    (b) => b.vendor_receipt && !['received', 'analyzed'].includes(b.status)
+    (b) => b.vendor_receipt && !['received', 'analyzed', 'rejected'].includes(b.status)
   );
   const receivedBatches = batches.filter(
     (b) => b.vendor_receipt && ['received', 'analyzed'].includes(b.status)
   );
+  // Anything this vendor refused at receipt, whether the whole batch or part of it
+  const rejectedBatches = batches.filter((b) => b.vendor_receipt?.vendor_id === userId && getRejectedQuantity(b) > 0);
 
   // Stats
   const totalReceived = receivedBatches.length;
@@ -37,6 +50,7 @@ export function VendorDashboard() {
         receivedBatches.length
       ).toFixed(1)
     : '0';
+  const rejectedKg = rejectedBatches.reduce((acc, b) => acc + getRejectedQuantity(b), 0);
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -47,7 +61,7 @@ export function VendorDashboard() {
       </div>
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <Card>
           <CardContent className="pt-6">
             <div className="flex items-center gap-3">
@@ -103,11 +117,29 @@ export function VendorDashboard() {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-destructive/10">
+                <Ban className="h-5 w-5 text-destructive" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{Math.round(rejectedKg * 10) / 10} kg</p>
+                <p className="text-xs text-muted-foreground">Rejected</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Tabs for different batch states */}
       <Tabs defaultValue="incoming" className="space-y-4">
         <TabsList>
+          <TabsTrigger value="offers" className="gap-2">
+            <Tag className="h-4 w-4" />
+            Offers ({offeredBatches.length})
+          </TabsTrigger>
           <TabsTrigger value="incoming" className="gap-2">
             <Package className="h-4 w-4" />
             Incoming ({incomingBatches.length})
@@ -120,8 +152,35 @@ export function VendorDashboard() {
             <CheckCircle className="h-4 w-4" />
             Received ({receivedBatches.length})
           </TabsTrigger>
+          <TabsTrigger value="rejected" className="gap-2">
+            <Ban className="h-4 w-4" />
+            Rejected ({rejectedBatches.length})
+          </TabsTrigger>
         </TabsList>
 
+        <TabsContent value="offers">
+          {loading ? (
+            <LoadingGrid />
+          ) : offeredBatches.length === 0 ? (
+            <EmptyState
+              icon={Tag}
+              title="No sale offers"
+              description="Batches farmers offer to you will appear here."
+            />
+          ) : (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {offeredBatches.map((batch) => (
+                <BatchCard
+                  key={batch.id}
+                  batch={batch}
+                  role="vendor"
+                  onView={handleViewBatch}
+                />
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
         <TabsContent value="incoming">
           {loading ? (
             <LoadingGrid />
@@ -129,7 +188,7 @@ export function VendorDashboard() {
             <EmptyState
               icon={Package}
               title="No incoming batches"
-              description="Batches in transit will appear here."
+              description="Batches you have agreed to buy will appear here once they are on the road."
             />
           ) : (
             <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -191,6 +250,29 @@ export function VendorDashboard() {
             </div>
           )}
         </TabsContent>
+
+        <TabsContent value="rejected">
+          {loading ? (
+            <LoadingGrid />
+          ) : rejectedBatches.length === 0 ? (
+            <EmptyState
+              icon={Ban}
+              title="No rejected batches"
+              description="Batches you refuse in full or in part will appear here."
+            />
+          ) : (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {rejectedBatches.map((batch) => (
+                <BatchCard
+                  key={batch.id}
+                  batch={batch}
+                  role="vendor"
+                  onView={handleViewBatch}
+                />
+              ))}
+            </div>
+          )}
+        </TabsContent>
       </Tabs>
 
       {/* Detail Sheet */}
@@ -1,17 +1,28 @@
-import { ReactNode } from 'react';
+import { ReactNode, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { NotificationsMenu } from './NotificationsMenu';
+import { CropCatalogDialog } from '@/components/crops/CropCatalogDialog';
+import { useIsAdmin } from '@/hooks/useCrops';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { languageNames } from '@/lib/languages';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Sprout, Truck, Store, LogOut, User, Menu } from 'lucide-react';
-import { AppRole } from '@/types/database';
+import { Sprout, Truck, Store, LogOut, User, Menu, Wheat, Languages } from 'lucide-react';
+import { AppRole, Language } from '@/types/database';
 import { cn } from '@/lib/utils';
 
 interface DashboardLayoutProps {
@@ -40,10 +51,23 @@ const roleConfig = {
 };
 
 export function DashboardLayout({ children }: DashboardLayoutProps) {
-  const { profile, signOut } = useAuth();
+  const { profile, signOut, refreshProfile } = useAuth();
+  const isAdmin = useIsAdmin();
+  const { toast } = useToast();
+  const [cropCatalogOpen, setCropCatalogOpen] = useState(false);
 
   if (!profile) return null;
 
+  // AI analyses and chat replies are shown in this language
+  const handleLanguageChange = async (language: Language) => {
+    const { error } = await supabase.from('profiles').update({ preferred_language: language }).eq('id', profile.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    await refreshProfile();
+  };
+
   const config = roleConfig[profile.role as AppRole];
   const RoleIcon = config.icon;
 
@@ -68,6 +92,8 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
               <span className="text-sm font-medium">{config.label}</span>
             </div>
 
+            <NotificationsMenu />
+
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" className="relative h-10 w-10 rounded-full">
@@ -94,6 +120,30 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
                   <RoleIcon className="h-4 w-4" />
                   <span>{config.label} Account</span>
                 </DropdownMenuItem>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger className="flex items-center gap-2">
+                    <Languages className="h-4 w-4" />
+                    <span>{languageNames[profile.preferred_language]}</span>
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuRadioGroup
+                      value={profile.preferred_language}
+                      onValueChange={(value) => handleLanguageChange(value as Language)}
+                    >
+                      {(Object.keys(languageNames) as Language[]).map((code) => (
+                        <DropdownMenuRadioItem key={code} value={code}>
+                          {languageNames[code]}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                {isAdmin && (
+                  <DropdownMenuItem onClick={() => setCropCatalogOpen(true)} className="flex items-center gap-2">
+                    <Wheat className="h-4 w-4" />
+                    <span>Crop Catalog</span>
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={signOut} className="flex items-center gap-2 text-destructive">
                   <LogOut className="h-4 w-4" />
@@ -109,6 +159,8 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
       <main className="container px-4 py-6">
         {children}
       </main>
+
+      {isAdmin && <CropCatalogDialog open={cropCatalogOpen} onOpenChange={setCropCatalogOpen} />}
     </div>
   );
 }
@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AnalysisTranslation, Language } from '@/types/database';
+
+// An analysis in another language; the edge function translates it once and caches it for everyone.
+// Null while loading, on failure, and for English, which analyses are written in.
+export function useAnalysisTranslation(analysisId: string, language: Language) {
+  const [translation, setTranslation] = useState<AnalysisTranslation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setTranslation(null);
+    setFailed(false);
+    if (language === 'en') {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase.functions
+      .invoke('translate-analysis', { body: { analysis_id: analysisId, language } })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Failed to translate analysis:', error);
+          setFailed(true);
+        } else {
+          setTranslation(data.translation);
+        }
+        setLoading(false);
+      });
+
+    // A request overtaken by a new language or version must not leave the old one loading
+    return () => {
+      cancelled = true;
+      setLoading(false);
+    };
+  }, [analysisId, language]);
+
+  return { translation, loading, failed };
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { BatchChatMessage } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+
+const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/batch-chat`;
+
+// The signed-in user's own chat thread about a batch's analysis, oldest first
+export function useBatchChat(batchId: string) {
+  const { session } = useAuth();
+  const [messages, setMessages] = useState<BatchChatMessage[]>([]);
+  // The reply as it streams in; null when none is being written
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+
+  const fetchMessages = useCallback(async () => {
+    if (!session) return;
+
+    const { data, error } = await supabase
+      .from('batch_chat_messages')
+      .select('*')
+      .eq('batch_id', batchId)
+      .eq('user_id', session.user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching chat:', error);
+      return;
+    }
+    setMessages(data as BatchChatMessage[]);
+  }, [session, batchId]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  // supabase.functions.invoke buffers the whole response, so the stream is read directly
+  const sendMessage = async (text: string) => {
+    if (!session) throw new Error('Not signed in');
+
+    setStreamingReply('');
+    try {
+      const response = await fetch(CHAT_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ batch_id: batchId, message: text }),
+      });
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? 'Failed to send message');
+      }
+
+      // The question is stored before the reply starts
+      await fetchMessages();
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffered = '';
+      let reply = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += value;
+
+        const events = buffered.split('\n\n');
+        buffered = events.pop() ?? '';
+        for (const event of events) {
+          const data = event.replace(/^data: /, '');
+          if (data === '[DONE]') continue;
+          const parsed = JSON.parse(data);
+          if (parsed.error) throw new Error(parsed.error);
+          reply += parsed.delta;
+          setStreamingReply(reply);
+        }
+      }
+    } finally {
+      setStreamingReply(null);
+      await fetchMessages();
+    }
+  };
+
+  return { messages, streamingReply, sendMessage, fetchMessages };
+}
@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { BatchPhoto, PhotoStage } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { readPhotoMetadata } from '@/lib/exif';
+
+const PHOTO_BUCKET = 'batch-photos';
+const SIGNED_URL_SECONDS = 60 * 60;
+// Photos without GPS in their EXIF are placed where the device is, if it answers quickly
+const DEVICE_LOCATION_TIMEOUT_MS = 5000;
+
+export interface BatchPhotoWithUrl extends BatchPhoto {
+  url: string | null;
+}
+
+function getDeviceLocation(): Promise<GeolocationCoordinates | null> {
+  if (!('geolocation' in navigator)) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve(position.coords),
+      () => resolve(null),
+      { timeout: DEVICE_LOCATION_TIMEOUT_MS, maximumAge: 60 * 1000 }
+    );
+  });
+}
+
+// Produce photos for one batch with short-lived links to view them
+export function useBatchPhotos(batchId: string | undefined) {
+  const { session } = useAuth();
+  const [photos, setPhotos] = useState<BatchPhotoWithUrl[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchPhotos = useCallback(async () => {
+    if (!session || !batchId) return;
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('batch_photos')
+      .select('*')
+      .eq('batch_id', batchId)
+      .order('taken_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching batch photos:', error);
+    } else {
+      const rows = data as BatchPhoto[];
+      const paths = rows.map((p) => p.storage_path);
+      const { data: urls } = paths.length
+        ? await supabase.storage.from(PHOTO_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS)
+        : { data: [] };
+      setPhotos(rows.map((p) => ({ ...p, url: urls?.find((u) => u.path === p.storage_path)?.signedUrl ?? null })));
+    }
+    setLoading(false);
+  }, [session, batchId]);
+
+  useEffect(() => {
+    fetchPhotos();
+  }, [fetchPhotos]);
+
+  // The assessment runs in the background of the upload; a failure leaves the photo marked for a retry
+  const assessPhoto = async (photoId: string) => {
+    const { error } = await supabase.functions.invoke('assess-photo', { body: { photo_id: photoId } });
+    if (error) console.error('Failed to assess photo:', error);
+    await fetchPhotos();
+  };
+
+  // Uploads the file first so a photo row never points at a missing file
+  const addPhoto = async (file: File, stage: PhotoStage) => {
+    if (!session?.user?.id || !batchId) throw new Error('Not authenticated');
+
+    const metadata = await readPhotoMetadata(file);
+    const device = metadata.latitude === null ? await getDeviceLocation() : null;
+
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+    const storagePath = `${batchId}/${stage}/${crypto.randomUUID()}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .upload(storagePath, file, { contentType: file.type || undefined });
+    if (uploadError) throw new Error(uploadError.message);
+
+    const { data, error } = await supabase
+      .from('batch_photos')
+      .insert({
+        batch_id: batchId,
+        stage,
+        storage_path: storagePath,
+        uploaded_by: session.user.id,
+        taken_at: (metadata.takenAt ?? new Date()).toISOString(),
+        taken_at_source: metadata.takenAt ? 'exif' : 'upload',
+        gps_lat: metadata.latitude ?? device?.latitude ?? null,
+        gps_lng: metadata.longitude ?? device?.longitude ?? null,
+        gps_source: metadata.latitude !== null ? 'exif' : device ? 'device' : null,
+        camera: metadata.camera,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    await fetchPhotos();
+    await assessPhoto(data.id);
+  };
+
+  return { photos, loading, fetchPhotos, addPhoto, assessPhoto };
+}
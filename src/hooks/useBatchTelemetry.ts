@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TelemetryReading, TelemetryUploadResult } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface TelemetryUpload {
+  file: File;
+  deviceSerial: string;
+  vehicleInfo?: string;
+}
+
+// Logger readings for one batch, loaded on demand because a trip can hold thousands of samples
+export function useBatchTelemetry(batchId: string | undefined) {
+  const { session } = useAuth();
+  const [readings, setReadings] = useState<TelemetryReading[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchTelemetry = useCallback(async () => {
+    if (!session || !batchId) return;
+
+    setLoading(true);
+    const { data, error } = await supabase.rpc('get_batch_telemetry', { _batch_id: batchId });
+
+    if (error) {
+      console.error('Error fetching telemetry:', error);
+    } else {
+      setReadings(data as TelemetryReading[]);
+    }
+    setLoading(false);
+  }, [session, batchId]);
+
+  useEffect(() => {
+    fetchTelemetry();
+  }, [fetchTelemetry]);
+
+  // CSV exports are sent as-is; JSON files may be a bare list of readings or a full payload
+  const uploadReadings = async ({ file, deviceSerial, vehicleInfo }: TelemetryUpload) => {
+    if (!batchId) throw new Error('No batch selected');
+
+    const text = await file.text();
+    const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+
+    let body: string | Record<string, unknown>;
+    let headers: Record<string, string> = {};
+    if (isCsv) {
+      body = text;
+      headers = {
+        'Content-Type': 'text/csv',
+        'x-device-serial': deviceSerial,
+        'x-batch-id': batchId,
+        ...(vehicleInfo ? { 'x-vehicle-info': vehicleInfo } : {}),
+      };
+    } else {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        throw new Error('The file is not valid JSON or CSV');
+      }
+      const readings = Array.isArray(parsed) ? parsed : (parsed as { readings?: unknown }).readings;
+      body = { device_serial: deviceSerial, vehicle_info: vehicleInfo || null, batch_id: batchId, readings };
+    }
+
+    const response = await supabase.functions.invoke('ingest-telemetry', { body, headers });
+    if (response.error) throw new Error(response.error.message || 'Failed to upload readings');
+
+    await fetchTelemetry();
+    return response.data as TelemetryUploadResult;
+  };
+
+  return { readings, loading, fetchTelemetry, uploadReadings };
+}
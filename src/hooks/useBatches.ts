@@ -1,8 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { Batch, BatchWithDetails, TransportLog, VendorReceipt, EnvironmentalData, AIAnalysis, Profile } from '@/types/database';
+import { Batch, BatchStatus, BatchWithDetails, TransportLog, LegPickup, LegDrop, VendorReceipt, EnvironmentalData, AIAnalysis, AIAnalysisFailure, BatchEvent, BatchLineage, SaleOffer, TransportQuote, Profile, RejectionReason, ReceiptDispute, ReceiptCorrection, ColdChainExcursion, ShelfLifePrediction, WeatherRiskForecast, QualityScore } from '@/types/database';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
+import { sortLegs } from '@/lib/transportLegs';
+import { toClaimError } from '@/lib/batchClaims';
 
 export function useBatches() {
   const { profile, session } = useAuth();
@@ -45,21 +48,82 @@ export function useBatches() {
       // Fetch related data for each batch
       const batchIds = batchesData.map((b) => b.id);
 
-      const [transportLogs, vendorReceipts, environmentalData, aiAnalyses] = await Promise.all([
+      const [
+        transportLogs,
+        transportQuotes,
+        vendorReceipts,
+        receiptDisputes,
+        environmentalData,
+        excursions,
+        shelfLife,
+        weatherRisks,
+        aiAnalyses,
+        aiAnalysisFailures,
+        qualityScores,
+        batchEvents,
+        batchLineage,
+        saleOffers,
+      ] = await Promise.all([
         supabase.from('transport_logs').select('*').in('batch_id', batchIds),
+        supabase.from('transport_quotes').select('*').in('batch_id', batchIds).order('price', { ascending: true }),
         supabase.from('vendor_receipts').select('*').in('batch_id', batchIds),
+        supabase.from('receipt_disputes').select('*').in('batch_id', batchIds).order('created_at', { ascending: false }),
         supabase.from('environmental_data').select('*').in('batch_id', batchIds).order('recorded_at', { ascending: true }),
-        supabase.from('ai_analysis').select('*').in('batch_id', batchIds),
+        supabase.from('cold_chain_excursions').select('*').in('batch_id', batchIds).order('started_at', { ascending: true }),
+        supabase.from('shelf_life_predictions').select('*').in('batch_id', batchIds),
+        supabase.from('weather_risk_forecasts').select('*').in('batch_id', batchIds),
+        supabase.from('ai_analysis').select('*').in('batch_id', batchIds).order('version', { ascending: false }),
+        supabase.from('ai_analysis_failures').select('*').in('batch_id', batchIds).order('failed_at', { ascending: false }),
+        supabase.from('quality_scores').select('*').in('batch_id', batchIds),
+        supabase.from('batch_events').select('*').in('batch_id', batchIds).order('occurred_at', { ascending: true }),
+        supabase
+          .from('batch_lineage')
+          .select('*')
+          .or(`parent_batch_id.in.(${batchIds.join(',')}),child_batch_id.in.(${batchIds.join(',')})`),
+        supabase.from('sale_offers').select('*').in('batch_id', batchIds).order('created_at', { ascending: false }),
       ]);
 
       // Combine data
-      const enrichedBatches: BatchWithDetails[] = batchesData.map((batch) => ({
-        ...batch,
-        transport_log: transportLogs.data?.find((t) => t.batch_id === batch.id) as TransportLog | undefined,
-        vendor_receipt: vendorReceipts.data?.find((v) => v.batch_id === batch.id) as VendorReceipt | undefined,
-        environmental_data: environmentalData.data?.filter((e) => e.batch_id === batch.id) as EnvironmentalData[] | undefined,
-        ai_analysis: aiAnalyses.data?.find((a) => a.batch_id === batch.id) as AIAnalysis | undefined,
-      }));
+      const enrichedBatches: BatchWithDetails[] = batchesData.map((batch) => {
+        const latestAnalysis = aiAnalyses.data?.find((a) => a.batch_id === batch.id) as AIAnalysis | undefined;
+        const latestFailure = aiAnalysisFailures.data?.find((f) => f.batch_id === batch.id) as
+          | AIAnalysisFailure
+          | undefined;
+        const legs = sortLegs((transportLogs.data?.filter((t) => t.batch_id === batch.id) ?? []) as TransportLog[]);
+
+        return {
+          ...batch,
+          transport_log: legs[legs.length - 1],
+          transport_legs: legs,
+          transport_quotes: transportQuotes.data?.filter((q) => q.batch_id === batch.id) as TransportQuote[] | undefined,
+          vendor_receipt: vendorReceipts.data?.find((v) => v.batch_id === batch.id) as VendorReceipt | undefined,
+          disputes: receiptDisputes.data?.filter((d) => d.batch_id === batch.id) as ReceiptDispute[] | undefined,
+          environmental_data: environmentalData.data?.filter((e) => e.batch_id === batch.id) as EnvironmentalData[] | undefined,
+          excursions: excursions.data?.filter((x) => x.batch_id === batch.id) as ColdChainExcursion[] | undefined,
+          shelf_life: shelfLife.data?.find((s) => s.batch_id === batch.id) as ShelfLifePrediction | undefined,
+          // risks is a JSON column
+          weather_risk: weatherRisks.data?.find((w) => w.batch_id === batch.id) as unknown as
+            | WeatherRiskForecast
+            | undefined,
+          ai_analysis: latestAnalysis,
+          ai_analyses: aiAnalyses.data?.filter((a) => a.batch_id === batch.id) as AIAnalysis[] | undefined,
+          // Only worth showing while no later run has succeeded
+          ai_analysis_failure:
+            latestFailure &&
+            (!latestAnalysis || new Date(latestFailure.failed_at) > new Date(latestAnalysis.analyzed_at))
+              ? latestFailure
+              : undefined,
+          // factors is a JSON column
+          quality_score: qualityScores.data?.find((q) => q.batch_id === batch.id) as unknown as
+            | QualityScore
+            | undefined,
+          events: batchEvents.data?.filter((e) => e.batch_id === batch.id) as BatchEvent[] | undefined,
+          sale_offers: saleOffers.data?.filter((o) => o.batch_id === batch.id) as SaleOffer[] | undefined,
+          lineage: batchLineage.data?.filter(
+            (l) => l.parent_batch_id === batch.id || l.child_batch_id === batch.id
+          ) as BatchLineage[] | undefined,
+        };
+      });
 
       setBatches(enrichedBatches);
     } catch (error) {
@@ -78,7 +142,7 @@ export function useBatches() {
     fetchBatches();
   }, [fetchBatches]);
 
-  const createBatch = async (batchData: Omit<Batch, 'id' | 'farmer_id' | 'status' | 'created_at' | 'updated_at'>) => {
+  const createBatch = async (batchData: Omit<Batch, 'id' | 'farmer_id' | 'buyer_id' | 'status' | 'superseded_at' | 'created_at' | 'updated_at'>) => {
     // Validate auth locally before calling backend.
     await ensureAuthenticatedUserId();
 
@@ -99,7 +163,7 @@ export function useBatches() {
     return response.data;
   };
 
-  const updateBatch = async (batchId: string, updates: Partial<Batch>) => {
+  const updateBatch = async (batchId: string, updates: Partial<Omit<Batch, 'status'>>) => {
     const { error } = await supabase
       .from('batches')
       .update(updates)
@@ -109,53 +173,182 @@ export function useBatches() {
     await fetchBatches();
   };
 
-  const acceptBatchAsTransporter = async (batchId: string) => {
-    if (!session?.user?.id) throw new Error('Not authenticated');
-
-    // Create transport log entry
-    const { error: logError } = await supabase
-      .from('transport_logs')
-      .insert({
-        batch_id: batchId,
-        transporter_id: session.user.id,
-      });
+  // Status changes go through the database so the lifecycle, role and participation
+  // rules are enforced server-side. Illegal transitions surface as errors here.
+  const transitionBatchStatus = async (batchId: string, status: BatchStatus) => {
+    const { error } = await supabase.rpc('transition_batch_status', {
+      _batch_id: batchId,
+      _to_status: status,
+    });
 
-    if (logError) throw logError;
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+  };
 
-    // Update batch status
-    const { error: batchError } = await supabase
-      .from('batches')
-      .update({ status: 'assigned_transporter' })
-      .eq('id', batchId);
+  // Splits and merges run as single database calls so quantities always reconcile
+  const splitBatch = async (batchId: string, quantities: number[]) => {
+    const { data, error } = await supabase.rpc('split_batch', {
+      _batch_id: batchId,
+      _quantities: quantities,
+    });
 
-    if (batchError) throw batchError;
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+    return data;
+  };
 
+  const mergeBatches = async (batchIds: string[]) => {
+    const { data, error } = await supabase.rpc('merge_batches', {
+      _batch_ids: batchIds,
+    });
+
+    if (error) throw new Error(error.message);
     await fetchBatches();
+    return data;
   };
 
-  const updateTransportLog = async (batchId: string, updates: Partial<TransportLog>) => {
+  // A null vendor_id offers the batch openly to every vendor
+  const createSaleOffer = async (
+    batchId: string,
+    offer: Pick<SaleOffer, 'vendor_id' | 'price_per_kg' | 'message'>
+  ) => {
+    const userId = await ensureAuthenticatedUserId();
+
+    const { error } = await supabase.from('sale_offers').insert({
+      batch_id: batchId,
+      farmer_id: userId,
+      ...offer,
+    });
+
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+  };
+
+  const withdrawSaleOffer = async (offerId: string) => {
     const { error } = await supabase
-      .from('transport_logs')
-      .update(updates)
-      .eq('batch_id', batchId);
+      .from('sale_offers')
+      .update({ status: 'withdrawn' })
+      .eq('id', offerId);
 
-    if (error) throw error;
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+  };
+
+  const respondToSaleOffer = async (offerId: string, accept: boolean) => {
+    const { error } = await supabase.rpc('respond_to_sale_offer', {
+      _offer_id: offerId,
+      _accept: accept,
+    });
+
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+  };
+
+  const submitTransportQuote = async (
+    batchId: string,
+    quote: Pick<TransportQuote, 'price' | 'pickup_window_start' | 'pickup_window_end' | 'vehicle_type' | 'notes'>
+  ) => {
+    const userId = await ensureAuthenticatedUserId();
+
+    const { error } = await supabase.from('transport_quotes').insert({
+      batch_id: batchId,
+      transporter_id: userId,
+      ...quote,
+    });
+
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+  };
+
+  const withdrawTransportQuote = async (quoteId: string) => {
+    const { error } = await supabase
+      .from('transport_quotes')
+      .update({ status: 'withdrawn' })
+      .eq('id', quoteId);
+
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+  };
+
+  // Awarding assigns the transporter and opens their leg in one database call
+  const awardTransportQuote = async (quoteId: string) => {
+    const { error } = await supabase.rpc('award_transport_quote', {
+      _quote_id: quoteId,
+    });
+
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+  };
+
+  // Take over a batch waiting at a handoff point. First legs are opened by
+  // award_transport_quote when the farmer picks a quote.
+  const acceptBatchAsTransporter = async (batchId: string) => {
+    const { error } = await supabase.rpc('claim_transport_leg', {
+      _batch_id: batchId,
+    });
+
+    if (error) throw toClaimError(error);
+    await fetchBatches();
+  };
+
+  // Each records the leg and moves the batch along in one database call, so the two cannot disagree
+  const recordLegPickup = async (logId: string, pickup: LegPickup) => {
+    const { error } = await supabase.rpc('record_leg_pickup', {
+      _log_id: logId,
+      _gps_lat: pickup.gps_lat ?? undefined,
+      _gps_lng: pickup.gps_lng ?? undefined,
+      _transport_type: pickup.transport_type || undefined,
+      _vehicle_info: pickup.vehicle_info || undefined,
+      _temperature_maintained: pickup.temperature_maintained || undefined,
+      _notes: pickup.notes || undefined,
+    });
+
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+  };
+
+  const recordLegDrop = async (logId: string, drop: LegDrop) => {
+    const { error } = await supabase.rpc('record_leg_drop', {
+      _log_id: logId,
+      _handoff: drop.handoff,
+      _gps_lat: drop.gps_lat ?? undefined,
+      _gps_lng: drop.gps_lng ?? undefined,
+      _delay_reason: drop.delay_reason || undefined,
+      _notes: drop.notes || undefined,
+    });
+
+    if (error) throw new Error(error.message);
     await fetchBatches();
   };
 
   const acceptBatchAsVendor = async (batchId: string) => {
-    if (!session?.user?.id) throw new Error('Not authenticated');
+    const { error } = await supabase.rpc('claim_batch_as_vendor', {
+      _batch_id: batchId,
+    });
 
-    // Create vendor receipt entry
-    const { error: receiptError } = await supabase
-      .from('vendor_receipts')
-      .insert({
-        batch_id: batchId,
-        vendor_id: session.user.id,
-      });
+    if (error) throw toClaimError(error);
+    await fetchBatches();
+  };
 
-    if (receiptError) throw receiptError;
+  // Refuses all or part of a delivery; the refused kg come back as a new 'rejected' batch
+  const rejectBatchDelivery = async (batchId: string, reason: RejectionReason, rejectedKg: number) => {
+    const { data, error } = await supabase.rpc('reject_batch_delivery', {
+      _batch_id: batchId,
+      _reason: reason,
+      _rejected_kg: rejectedKg,
+    });
 
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+    return data;
+  };
+
+  const requestBatchReturn = async (batchId: string) => {
+    const { error } = await supabase.rpc('request_batch_return', {
+      _batch_id: batchId,
+    });
+
+    if (error) throw new Error(error.message);
     await fetchBatches();
   };
 
@@ -169,6 +362,52 @@ export function useBatches() {
     await fetchBatches();
   };
 
+  const openReceiptDispute = async (receiptId: string, reason: string, correction: ReceiptCorrection) => {
+    const { data, error } = await supabase.rpc('open_receipt_dispute', {
+      _receipt_id: receiptId,
+      _reason: reason,
+      _quality_grade: correction.quality_grade,
+      _spoilage_percentage: correction.spoilage_percentage,
+      _weight_loss_percentage: correction.weight_loss_percentage,
+    });
+
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+    return data;
+  };
+
+  const counterReceiptDispute = async (disputeId: string, correction: ReceiptCorrection) => {
+    const { error } = await supabase.rpc('counter_receipt_dispute', {
+      _dispute_id: disputeId,
+      _quality_grade: correction.quality_grade,
+      _spoilage_percentage: correction.spoilage_percentage,
+      _weight_loss_percentage: correction.weight_loss_percentage,
+    });
+
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+  };
+
+  // Accepting the other side's proposal writes it as a new receipt version
+  const resolveReceiptDispute = async (disputeId: string) => {
+    const { data, error } = await supabase.rpc('resolve_receipt_dispute', {
+      _dispute_id: disputeId,
+    });
+
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+    return data;
+  };
+
+  const escalateReceiptDispute = async (disputeId: string) => {
+    const { error } = await supabase.rpc('escalate_receipt_dispute', {
+      _dispute_id: disputeId,
+    });
+
+    if (error) throw new Error(error.message);
+    await fetchBatches();
+  };
+
   const fetchEnvironmentalData = async (batchId: string, stage: string, latitude: number, longitude: number) => {
     const response = await supabase.functions.invoke('fetch-environmental-data', {
       body: { batch_id: batchId, stage, latitude, longitude },
@@ -179,12 +418,40 @@ export function useBatches() {
     return response.data;
   };
 
+  // Hour-by-hour weather along a finished leg; slow, so callers need not wait for it
+  const backfillRouteWeather = async (transportLogId: string) => {
+    const response = await supabase.functions.invoke('backfill-route-weather', {
+      body: { transport_log_id: transportLogId },
+    });
+
+    if (response.error) throw response.error;
+    await fetchBatches();
+    return response.data;
+  };
+
+  // Re-reads the forecast for a batch still waiting for pickup
+  const checkWeatherRisk = async (batchId: string) => {
+    const response = await supabase.functions.invoke('check-weather-risk', {
+      body: { batch_id: batchId },
+    });
+
+    if (response.error) throw response.error;
+    await fetchBatches();
+    return response.data;
+  };
+
   const runAIAnalysis = async (batchId: string) => {
     const response = await supabase.functions.invoke('analyze-batch', {
       body: { batch_id: batchId },
     });
 
-    if (response.error) throw response.error;
+    if (response.error) {
+      // A run whose output failed validation is recorded, so the batch list changes either way
+      await fetchBatches();
+      const body =
+        response.error instanceof FunctionsHttpError ? await response.error.context.json().catch(() => null) : null;
+      throw new Error(body?.error ?? response.error.message);
+    }
     await fetchBatches();
     return response.data;
   };
@@ -195,11 +462,29 @@ export function useBatches() {
     fetchBatches,
     createBatch,
     updateBatch,
+    transitionBatchStatus,
+    splitBatch,
+    mergeBatches,
+    createSaleOffer,
+    withdrawSaleOffer,
+    respondToSaleOffer,
+    submitTransportQuote,
+    withdrawTransportQuote,
+    awardTransportQuote,
     acceptBatchAsTransporter,
-    updateTransportLog,
+    recordLegPickup,
+    recordLegDrop,
     acceptBatchAsVendor,
+    rejectBatchDelivery,
+    requestBatchReturn,
     updateVendorReceipt,
+    openReceiptDispute,
+    counterReceiptDispute,
+    resolveReceiptDispute,
+    escalateReceiptDispute,
     fetchEnvironmentalData,
+    backfillRouteWeather,
+    checkWeatherRisk,
     runAIAnalysis,
   };
 }
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Crop } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type CropInput = Omit<Crop, 'id' | 'created_at' | 'updated_at'>;
+
+// The crop catalog. Everyone reads it; only admins can change it.
+export function useCrops(enabled = true) {
+  const { session } = useAuth();
+  const [crops, setCrops] = useState<Crop[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchCrops = useCallback(async () => {
+    if (!session || !enabled) return;
+
+    setLoading(true);
+    const { data, error } = await supabase.from('crops').select('*').order('name');
+
+    if (error) {
+      console.error('Failed to load crops:', error);
+    } else {
+      setCrops(data as Crop[]);
+    }
+    setLoading(false);
+  }, [session, enabled]);
+
+  useEffect(() => {
+    fetchCrops();
+  }, [fetchCrops]);
+
+  const saveCrop = async (crop: CropInput, cropId?: string) => {
+    const { error } = cropId
+      ? await supabase.from('crops').update(crop).eq('id', cropId)
+      : await supabase.from('crops').insert(crop);
+
+    if (error) throw new Error(error.message);
+    await fetchCrops();
+  };
+
+  return { crops, activeCrops: crops.filter((c) => c.active), loading, fetchCrops, saveCrop };
+}
+
+// Whether the signed-in user maintains reference data such as the crop catalog
+export function useIsAdmin() {
+  const { user } = useAuth();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    supabase.rpc('is_app_admin', { _user_id: user.id }).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) console.error('Failed to check admin access:', error);
+      setIsAdmin(!!data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  return isAdmin;
+}
@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface DirectoryEntry {
+  id: string;
+  full_name: string;
+}
+
+// Names of other users, exposed through narrow database functions
+// because profiles are only readable by their owner
+function useDirectory(fn: 'list_vendors' | 'list_transporters', enabled: boolean) {
+  const [entries, setEntries] = useState<DirectoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase.rpc(fn).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error(`Failed to load ${fn}:`, error);
+      } else {
+        setEntries(data ?? []);
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fn, enabled]);
+
+  return { entries, loading };
+}
+
+// Vendors a farmer can offer a batch to
+export function useVendors(enabled = true) {
+  const { entries, loading } = useDirectory('list_vendors', enabled);
+  return { vendors: entries, loading };
+}
+
+// Transporters bidding on a farmer's batches
+export function useTransporters(enabled = true) {
+  const { entries, loading } = useDirectory('list_transporters', enabled);
+  return { transporters: entries, loading };
+}
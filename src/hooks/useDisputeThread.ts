@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DisputeMessage, VendorReceiptVersion } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+
+const EVIDENCE_BUCKET = 'dispute-evidence';
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// Discussion, evidence and receipt history for one dispute, loaded when the dispute is opened
+export function useDisputeThread(disputeId: string | undefined, receiptId: string | undefined) {
+  const { session } = useAuth();
+  const [messages, setMessages] = useState<DisputeMessage[]>([]);
+  const [versions, setVersions] = useState<VendorReceiptVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchThread = useCallback(async () => {
+    if (!session || !disputeId || !receiptId) return;
+
+    setLoading(true);
+    const [messagesResult, versionsResult] = await Promise.all([
+      supabase.from('dispute_messages').select('*').eq('dispute_id', disputeId).order('created_at', { ascending: true }),
+      supabase.from('vendor_receipt_versions').select('*').eq('receipt_id', receiptId).order('version', { ascending: true }),
+    ]);
+
+    if (messagesResult.error || versionsResult.error) {
+      console.error('Error fetching dispute thread:', messagesResult.error ?? versionsResult.error);
+    } else {
+      setMessages(messagesResult.data as DisputeMessage[]);
+      setVersions(versionsResult.data as VendorReceiptVersion[]);
+    }
+    setLoading(false);
+  }, [session, disputeId, receiptId]);
+
+  useEffect(() => {
+    fetchThread();
+  }, [fetchThread]);
+
+  // Uploads the file first so a message never points at missing evidence
+  const postMessage = async (body: string, file?: File) => {
+    if (!session?.user?.id || !disputeId) throw new Error('Not authenticated');
+
+    let attachmentPath: string | null = null;
+    if (file) {
+      attachmentPath = `${disputeId}/${crypto.randomUUID()}-${file.name}`;
+      const { error: uploadError } = await supabase.storage.from(EVIDENCE_BUCKET).upload(attachmentPath, file);
+      if (uploadError) throw new Error(uploadError.message);
+    }
+
+    const { error } = await supabase.from('dispute_messages').insert({
+      dispute_id: disputeId,
+      author_id: session.user.id,
+      body: body || null,
+      attachment_path: attachmentPath,
+      attachment_name: file?.name ?? null,
+    });
+
+    if (error) throw new Error(error.message);
+    await fetchThread();
+  };
+
+  const getAttachmentUrl = async (path: string) => {
+    const { data, error } = await supabase.storage.from(EVIDENCE_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+    if (error) throw new Error(error.message);
+    return data.signedUrl;
+  };
+
+  return { messages, versions, loading, fetchThread, postMessage, getAttachmentUrl };
+}
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 
 interface GeolocationState {
   latitude: number | null;
@@ -7,6 +7,25 @@ interface GeolocationState {
   loading: boolean;
 }
 
+const positionOptions: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 10000,
+  maximumAge: 0,
+};
+
+function getErrorMessage(error: GeolocationPositionError): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return 'Please allow location access to use this feature';
+    case error.POSITION_UNAVAILABLE:
+      return 'Location information is unavailable';
+    case error.TIMEOUT:
+      return 'Location request timed out';
+    default:
+      return 'Failed to get location';
+  }
+}
+
 export function useGeolocation() {
   const [state, setState] = useState<GeolocationState>({
     latitude: null,
@@ -14,6 +33,8 @@ export function useGeolocation() {
     error: null,
     loading: false,
   });
+  const [watching, setWatching] = useState(false);
+  const watchIdRef = useRef<number | null>(null);
 
   const getLocation = useCallback(() => {
     if (!navigator.geolocation) {
@@ -37,32 +58,74 @@ export function useGeolocation() {
         });
       },
       (error) => {
-        let errorMessage = 'Failed to get location';
-        switch (error.code) {
-          case error.PERMISSION_DENIED:
-            errorMessage = 'Please allow location access to use this feature';
-            break;
-          case error.POSITION_UNAVAILABLE:
-            errorMessage = 'Location information is unavailable';
-            break;
-          case error.TIMEOUT:
-            errorMessage = 'Location request timed out';
-            break;
-        }
         setState({
           latitude: null,
           longitude: null,
-          error: errorMessage,
+          error: getErrorMessage(error),
           loading: false,
         });
       },
-      {
-        enableHighAccuracy: true,
-        timeout: 10000,
-        maximumAge: 0,
-      }
+      positionOptions
     );
   }, []);
 
-  return { ...state, getLocation };
+  const stopWatching = useCallback(() => {
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+    setWatching(false);
+  }, []);
+
+  // Continuously track position; onPosition fires for every fix the device reports
+  const startWatching = useCallback(
+    (onPosition?: (position: GeolocationPosition) => void) => {
+      if (!navigator.geolocation) {
+        setState((prev) => ({
+          ...prev,
+          error: 'Geolocation is not supported by your browser',
+        }));
+        return;
+      }
+
+      if (watchIdRef.current !== null) {
+        navigator.geolocation.clearWatch(watchIdRef.current);
+      }
+
+      setState((prev) => ({ ...prev, loading: true, error: null }));
+      setWatching(true);
+
+      watchIdRef.current = navigator.geolocation.watchPosition(
+        (position) => {
+          setState({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            error: null,
+            loading: false,
+          });
+          onPosition?.(position);
+        },
+        (error) => {
+          // Keep the watch alive on timeouts; the next fix will clear the error
+          setState((prev) => ({ ...prev, error: getErrorMessage(error), loading: false }));
+          if (error.code === error.PERMISSION_DENIED) {
+            stopWatching();
+          }
+        },
+        positionOptions
+      );
+    },
+    [stopWatching]
+  );
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (watchIdRef.current !== null) {
+        navigator.geolocation.clearWatch(watchIdRef.current);
+      }
+    };
+  }, []);
+
+  return { ...state, watching, getLocation, startWatching, stopWatching };
 }
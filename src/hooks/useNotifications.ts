@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AppNotification } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+
+const NOTIFICATION_LIMIT = 30;
+
+export function useNotifications() {
+  const { session } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!session) return;
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(NOTIFICATION_LIMIT);
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return;
+    }
+    setNotifications(data as AppNotification[]);
+  }, [session]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const markAllRead = async () => {
+    const unreadIds = notifications.filter((n) => !n.read_at).map((n) => n.id);
+    if (unreadIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', unreadIds);
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return;
+    }
+    await fetchNotifications();
+  };
+
+  const unreadCount = notifications.filter((n) => !n.read_at).length;
+
+  return { notifications, unreadCount, fetchNotifications, markAllRead };
+}
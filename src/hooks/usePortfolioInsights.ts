@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { PortfolioInsights } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+
+// The signed-in farmer's insight reports, every version newest first
+export function usePortfolioInsights() {
+  const { session } = useAuth();
+  const [versions, setVersions] = useState<PortfolioInsights[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchInsights = useCallback(async () => {
+    if (!session) return;
+
+    const { data, error } = await supabase
+      .from('portfolio_insights')
+      .select('*')
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching portfolio insights:', error);
+    } else {
+      // findings and report are JSON columns
+      setVersions(data as unknown as PortfolioInsights[]);
+    }
+    setLoading(false);
+  }, [session]);
+
+  useEffect(() => {
+    fetchInsights();
+  }, [fetchInsights]);
+
+  const generateInsights = async () => {
+    const response = await supabase.functions.invoke('portfolio-insights', { body: {} });
+
+    if (response.error) {
+      // The function explains why it refused, e.g. too few delivered batches
+      const body =
+        response.error instanceof FunctionsHttpError ? await response.error.context.json().catch(() => null) : null;
+      throw new Error(body?.error ?? response.error.message);
+    }
+    await fetchInsights();
+    return response.data;
+  };
+
+  return { versions, loading, fetchInsights, generateInsights };
+}
@@ -0,0 +1,65 @@
+import { useState, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGeolocation } from '@/hooks/useGeolocation';
+
+// Minimum gap between stored pings. The device may report positions far more often.
+export const BREADCRUMB_INTERVAL_MS = 60_000;
+
+export function useTransitTracking(batchId: string) {
+  const { session } = useAuth();
+  const { latitude, longitude, error, watching, startWatching, stopWatching } = useGeolocation();
+  const [pingCount, setPingCount] = useState(0);
+  const [lastPingAt, setLastPingAt] = useState<Date | null>(null);
+  const lastPingRef = useRef(0);
+
+  const recordPing = useCallback(
+    async (position: GeolocationPosition) => {
+      if (!session?.user?.id) return;
+
+      const now = Date.now();
+      if (now - lastPingRef.current < BREADCRUMB_INTERVAL_MS) return;
+      lastPingRef.current = now;
+
+      const { coords } = position;
+      const { error: insertError } = await supabase.from('transport_breadcrumbs').insert({
+        batch_id: batchId,
+        transporter_id: session.user.id,
+        recorded_at: new Date(position.timestamp).toISOString(),
+        gps_lat: coords.latitude,
+        gps_lng: coords.longitude,
+        accuracy_m: coords.accuracy ?? null,
+        // GeolocationCoordinates.speed is in m/s
+        speed_kmh: coords.speed !== null ? coords.speed * 3.6 : null,
+        heading: coords.heading ?? null,
+      });
+
+      if (insertError) {
+        console.error('Failed to record breadcrumb:', insertError);
+        // Retry on the next position fix rather than waiting a full interval
+        lastPingRef.current = 0;
+        return;
+      }
+
+      setPingCount((count) => count + 1);
+      setLastPingAt(new Date(now));
+    },
+    [batchId, session]
+  );
+
+  const startTracking = useCallback(() => {
+    lastPingRef.current = 0;
+    startWatching(recordPing);
+  }, [startWatching, recordPing]);
+
+  return {
+    latitude,
+    longitude,
+    error,
+    tracking: watching,
+    pingCount,
+    lastPingAt,
+    startTracking,
+    stopTracking: stopWatching,
+  };
+}
@@ -19,46 +19,378 @@ export type Database = {
           analyzed_at: string
           batch_id: string
           confidence_level: string | null
+          confidence_score: number | null
           created_at: string
           degradation_point: string | null
           environmental_impact: string | null
           farmer_suggestions: string | null
           full_analysis: Json | null
           id: string
+          input_hash: string | null
+          model: string | null
+          provider: string | null
+          requested_by: string | null
           transporter_suggestions: string | null
           vendor_suggestions: string | null
+          version: number
         }
         Insert: {
           analyzed_at?: string
           batch_id: string
           confidence_level?: string | null
+          confidence_score?: number | null
           created_at?: string
           degradation_point?: string | null
           environmental_impact?: string | null
           farmer_suggestions?: string | null
           full_analysis?: Json | null
           id?: string
+          input_hash?: string | null
+          model?: string | null
+          provider?: string | null
+          requested_by?: string | null
           transporter_suggestions?: string | null
           vendor_suggestions?: string | null
+          version?: number
         }
         Update: {
           analyzed_at?: string
           batch_id?: string
           confidence_level?: string | null
+          confidence_score?: number | null
           created_at?: string
           degradation_point?: string | null
           environmental_impact?: string | null
           farmer_suggestions?: string | null
           full_analysis?: Json | null
           id?: string
+          input_hash?: string | null
+          model?: string | null
+          provider?: string | null
+          requested_by?: string | null
           transporter_suggestions?: string | null
           vendor_suggestions?: string | null
+          version?: number
         }
         Relationships: [
           {
             foreignKeyName: "ai_analysis_batch_id_fkey"
             columns: ["batch_id"]
-            isOneToOne: true
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_analysis_failures: {
+        Row: {
+          attempts: number
+          batch_id: string
+          failed_at: string
+          id: string
+          input_hash: string | null
+          last_output: string | null
+          model: string | null
+          problems: string[]
+          provider: string | null
+          requested_by: string | null
+        }
+        Insert: {
+          attempts: number
+          batch_id: string
+          failed_at?: string
+          id?: string
+          input_hash?: string | null
+          last_output?: string | null
+          model?: string | null
+          problems: string[]
+          provider?: string | null
+          requested_by?: string | null
+        }
+        Update: {
+          attempts?: number
+          batch_id?: string
+          failed_at?: string
+          id?: string
+          input_hash?: string | null
+          last_output?: string | null
+          model?: string | null
+          problems?: string[]
+          provider?: string | null
+          requested_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_analysis_failures_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_analysis_translations: {
+        Row: {
+          analysis_id: string
+          confidence_level: string | null
+          created_at: string
+          degradation_point: string | null
+          environmental_impact: string | null
+          farmer_suggestions: string | null
+          id: string
+          language: string
+          model: string | null
+          provider: string | null
+          transporter_suggestions: string | null
+          vendor_suggestions: string | null
+        }
+        Insert: {
+          analysis_id: string
+          confidence_level?: string | null
+          created_at?: string
+          degradation_point?: string | null
+          environmental_impact?: string | null
+          farmer_suggestions?: string | null
+          id?: string
+          language: string
+          model?: string | null
+          provider?: string | null
+          transporter_suggestions?: string | null
+          vendor_suggestions?: string | null
+        }
+        Update: {
+          analysis_id?: string
+          confidence_level?: string | null
+          created_at?: string
+          degradation_point?: string | null
+          environmental_impact?: string | null
+          farmer_suggestions?: string | null
+          id?: string
+          language?: string
+          model?: string | null
+          provider?: string | null
+          transporter_suggestions?: string | null
+          vendor_suggestions?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_analysis_translations_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "ai_analysis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      app_admins: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      batch_chat_messages: {
+        Row: {
+          batch_id: string
+          content: string
+          created_at: string
+          id: string
+          model: string | null
+          provider: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          batch_id: string
+          content: string
+          created_at?: string
+          id?: string
+          model?: string | null
+          provider?: string | null
+          role: string
+          user_id: string
+        }
+        Update: {
+          batch_id?: string
+          content?: string
+          created_at?: string
+          id?: string
+          model?: string | null
+          provider?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_chat_messages_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      batch_events: {
+        Row: {
+          actor_id: string | null
+          actor_role: Database["public"]["Enums"]["app_role"] | null
+          after_data: Json | null
+          batch_id: string
+          before_data: Json | null
+          event_type: string
+          id: string
+          occurred_at: string
+          record_id: string
+          source_table: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_role?: Database["public"]["Enums"]["app_role"] | null
+          after_data?: Json | null
+          batch_id: string
+          before_data?: Json | null
+          event_type: string
+          id?: string
+          occurred_at?: string
+          record_id: string
+          source_table: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_role?: Database["public"]["Enums"]["app_role"] | null
+          after_data?: Json | null
+          batch_id?: string
+          before_data?: Json | null
+          event_type?: string
+          id?: string
+          occurred_at?: string
+          record_id?: string
+          source_table?: string
+        }
+        Relationships: []
+      }
+      batch_lineage: {
+        Row: {
+          child_batch_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          operation: string
+          parent_batch_id: string
+          quantity_kg: number
+        }
+        Insert: {
+          child_batch_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          operation: string
+          parent_batch_id: string
+          quantity_kg: number
+        }
+        Update: {
+          child_batch_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          operation?: string
+          parent_batch_id?: string
+          quantity_kg?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_lineage_child_batch_id_fkey"
+            columns: ["child_batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_lineage_parent_batch_id_fkey"
+            columns: ["parent_batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      batch_photos: {
+        Row: {
+          assessed_at: string | null
+          assessment_model: string | null
+          assessment_notes: string | null
+          assessment_status: string
+          batch_id: string
+          bruising: string | null
+          camera: string | null
+          created_at: string
+          defect_percentage: number | null
+          gps_lat: number | null
+          gps_lng: number | null
+          gps_source: string | null
+          id: string
+          ripeness: string | null
+          stage: string
+          storage_path: string
+          taken_at: string
+          taken_at_source: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          assessed_at?: string | null
+          assessment_model?: string | null
+          assessment_notes?: string | null
+          assessment_status?: string
+          batch_id: string
+          bruising?: string | null
+          camera?: string | null
+          created_at?: string
+          defect_percentage?: number | null
+          gps_lat?: number | null
+          gps_lng?: number | null
+          gps_source?: string | null
+          id?: string
+          ripeness?: string | null
+          stage: string
+          storage_path: string
+          taken_at: string
+          taken_at_source: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          assessed_at?: string | null
+          assessment_model?: string | null
+          assessment_notes?: string | null
+          assessment_status?: string
+          batch_id?: string
+          bruising?: string | null
+          camera?: string | null
+          created_at?: string
+          defect_percentage?: number | null
+          gps_lat?: number | null
+          gps_lng?: number | null
+          gps_source?: string | null
+          id?: string
+          ripeness?: string | null
+          stage?: string
+          storage_path?: string
+          taken_at?: string
+          taken_at_source?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_photos_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
             referencedRelation: "batches"
             referencedColumns: ["id"]
           },
@@ -66,143 +398,760 @@ export type Database = {
       }
       batches: {
         Row: {
+          buyer_id: string | null
           created_at: string
           crop_type: string
           expected_quality: string
           farm_address: string | null
           farm_gps_lat: number | null
           farm_gps_lng: number | null
-          farmer_id: string
+          farmer_id: string | null
           harvest_time: string
           id: string
           notes: string | null
           quantity_kg: number
           status: Database["public"]["Enums"]["batch_status"]
+          superseded_at: string | null
           updated_at: string
         }
         Insert: {
+          buyer_id?: string | null
           created_at?: string
           crop_type: string
           expected_quality: string
           farm_address?: string | null
           farm_gps_lat?: number | null
           farm_gps_lng?: number | null
-          farmer_id: string
+          farmer_id?: string | null
           harvest_time: string
           id?: string
           notes?: string | null
           quantity_kg: number
           status?: Database["public"]["Enums"]["batch_status"]
+          superseded_at?: string | null
           updated_at?: string
         }
         Update: {
+          buyer_id?: string | null
           created_at?: string
           crop_type?: string
           expected_quality?: string
           farm_address?: string | null
           farm_gps_lat?: number | null
           farm_gps_lng?: number | null
-          farmer_id?: string
+          farmer_id?: string | null
           harvest_time?: string
           id?: string
           notes?: string | null
           quantity_kg?: number
           status?: Database["public"]["Enums"]["batch_status"]
+          superseded_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      cold_chain_excursions: {
+        Row: {
+          band_max_celsius: number
+          band_min_celsius: number
+          batch_id: string
+          declared_band: string
+          degree_minutes: number
+          detected_at: string
+          direction: string
+          ended_at: string
+          id: string
+          minutes_out_of_range: number
+          peak_deviation_celsius: number
+          reading_count: number
+          source: string
+          started_at: string
+          transport_log_id: string
+        }
+        Insert: {
+          band_max_celsius: number
+          band_min_celsius: number
+          batch_id: string
+          declared_band: string
+          degree_minutes: number
+          detected_at?: string
+          direction: string
+          ended_at: string
+          id?: string
+          minutes_out_of_range: number
+          peak_deviation_celsius: number
+          reading_count: number
+          source: string
+          started_at: string
+          transport_log_id: string
+        }
+        Update: {
+          band_max_celsius?: number
+          band_min_celsius?: number
+          batch_id?: string
+          declared_band?: string
+          degree_minutes?: number
+          detected_at?: string
+          direction?: string
+          ended_at?: string
+          id?: string
+          minutes_out_of_range?: number
+          peak_deviation_celsius?: number
+          reading_count?: number
+          source?: string
+          started_at?: string
+          transport_log_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cold_chain_excursions_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cold_chain_excursions_transport_log_id_fkey"
+            columns: ["transport_log_id"]
+            isOneToOne: false
+            referencedRelation: "transport_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crops: {
+        Row: {
+          active: boolean
+          chilling_sensitive: boolean
+          created_at: string
+          ethylene_production: string
+          ethylene_sensitivity: string
+          heat_tolerance_celsius: number
+          id: string
+          max_humidity_percentage: number
+          max_temperature_celsius: number
+          min_humidity_percentage: number
+          min_temperature_celsius: number
+          name: string
+          quality_grades: Json
+          typical_shelf_life_days: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          chilling_sensitive?: boolean
+          created_at?: string
+          ethylene_production: string
+          ethylene_sensitivity: string
+          heat_tolerance_celsius?: number
+          id?: string
+          max_humidity_percentage: number
+          max_temperature_celsius: number
+          min_humidity_percentage: number
+          min_temperature_celsius: number
+          name: string
+          quality_grades?: Json
+          typical_shelf_life_days: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          chilling_sensitive?: boolean
+          created_at?: string
+          ethylene_production?: string
+          ethylene_sensitivity?: string
+          heat_tolerance_celsius?: number
+          id?: string
+          max_humidity_percentage?: number
+          max_temperature_celsius?: number
+          min_humidity_percentage?: number
+          min_temperature_celsius?: number
+          name?: string
+          quality_grades?: Json
+          typical_shelf_life_days?: number
           updated_at?: string
         }
-        Relationships: []
+        Relationships: []
+      }
+      dispute_messages: {
+        Row: {
+          attachment_name: string | null
+          attachment_path: string | null
+          author_id: string | null
+          body: string | null
+          created_at: string
+          dispute_id: string
+          id: string
+        }
+        Insert: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          author_id?: string | null
+          body?: string | null
+          created_at?: string
+          dispute_id: string
+          id?: string
+        }
+        Update: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          author_id?: string | null
+          body?: string | null
+          created_at?: string
+          dispute_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dispute_messages_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "receipt_disputes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      environmental_data: {
+        Row: {
+          air_quality_index: number | null
+          batch_id: string
+          created_at: string
+          data_quality: string
+          gps_lat: number | null
+          gps_lng: number | null
+          humidity_percentage: number | null
+          id: string
+          precipitation_mm: number | null
+          raw_api_response: Json | null
+          recorded_at: string
+          source: string | null
+          stage: string
+          temperature_celsius: number | null
+          transport_log_id: string | null
+          uv_index: number | null
+          weather_condition: string | null
+          wind_speed_kmh: number | null
+        }
+        Insert: {
+          air_quality_index?: number | null
+          batch_id: string
+          created_at?: string
+          data_quality?: string
+          gps_lat?: number | null
+          gps_lng?: number | null
+          humidity_percentage?: number | null
+          id?: string
+          precipitation_mm?: number | null
+          raw_api_response?: Json | null
+          recorded_at?: string
+          source?: string | null
+          stage: string
+          temperature_celsius?: number | null
+          transport_log_id?: string | null
+          uv_index?: number | null
+          weather_condition?: string | null
+          wind_speed_kmh?: number | null
+        }
+        Update: {
+          air_quality_index?: number | null
+          batch_id?: string
+          created_at?: string
+          data_quality?: string
+          gps_lat?: number | null
+          gps_lng?: number | null
+          humidity_percentage?: number | null
+          id?: string
+          precipitation_mm?: number | null
+          raw_api_response?: Json | null
+          recorded_at?: string
+          source?: string | null
+          stage?: string
+          temperature_celsius?: number | null
+          transport_log_id?: string | null
+          uv_index?: number | null
+          weather_condition?: string | null
+          wind_speed_kmh?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "environmental_data_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "environmental_data_transport_log_id_fkey"
+            columns: ["transport_log_id"]
+            isOneToOne: false
+            referencedRelation: "transport_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          batch_id: string | null
+          body: string | null
+          created_at: string
+          id: string
+          kind: string
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          batch_id?: string | null
+          body?: string | null
+          created_at?: string
+          id?: string
+          kind: string
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          batch_id?: string | null
+          body?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      portfolio_insights: {
+        Row: {
+          batch_count: number
+          farmer_id: string
+          findings: Json
+          generated_at: string
+          id: string
+          input_hash: string | null
+          model: string | null
+          provider: string | null
+          report: Json
+          version: number
+        }
+        Insert: {
+          batch_count: number
+          farmer_id: string
+          findings: Json
+          generated_at?: string
+          id?: string
+          input_hash?: string | null
+          model?: string | null
+          provider?: string | null
+          report: Json
+          version?: number
+        }
+        Update: {
+          batch_count?: number
+          farmer_id?: string
+          findings?: Json
+          generated_at?: string
+          id?: string
+          input_hash?: string | null
+          model?: string | null
+          provider?: string | null
+          report?: Json
+          version?: number
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          full_name: string | null
+          id: string
+          phone: string | null
+          preferred_language: string
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          full_name?: string | null
+          id: string
+          phone?: string | null
+          preferred_language?: string
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          preferred_language?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      quality_scores: {
+        Row: {
+          batch_id: string
+          computed_at: string
+          factors: Json
+          id: string
+          scoring_version: string
+          total_loss: number
+        }
+        Insert: {
+          batch_id: string
+          computed_at?: string
+          factors: Json
+          id?: string
+          scoring_version: string
+          total_loss: number
+        }
+        Update: {
+          batch_id?: string
+          computed_at?: string
+          factors?: Json
+          id?: string
+          scoring_version?: string
+          total_loss?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quality_scores_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: true
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipt_disputes: {
+        Row: {
+          batch_id: string
+          created_at: string
+          escalated_at: string | null
+          id: string
+          opened_by: string | null
+          proposed_by: string | null
+          proposed_quality_grade: string | null
+          proposed_spoilage_percentage: number | null
+          proposed_weight_loss_percentage: number | null
+          reason: string
+          receipt_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          updated_at: string
+          vendor_id: string | null
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          escalated_at?: string | null
+          id?: string
+          opened_by?: string | null
+          proposed_by?: string | null
+          proposed_quality_grade?: string | null
+          proposed_spoilage_percentage?: number | null
+          proposed_weight_loss_percentage?: number | null
+          reason: string
+          receipt_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          escalated_at?: string | null
+          id?: string
+          opened_by?: string | null
+          proposed_by?: string | null
+          proposed_quality_grade?: string | null
+          proposed_spoilage_percentage?: number | null
+          proposed_weight_loss_percentage?: number | null
+          reason?: string
+          receipt_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_disputes_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipt_disputes_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_offers: {
+        Row: {
+          batch_id: string
+          created_at: string
+          declined_by: string[]
+          farmer_id: string
+          id: string
+          message: string | null
+          price_per_kg: number | null
+          responded_at: string | null
+          responded_by: string | null
+          status: string
+          updated_at: string
+          vendor_id: string | null
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          declined_by?: string[]
+          farmer_id: string
+          id?: string
+          message?: string | null
+          price_per_kg?: number | null
+          responded_at?: string | null
+          responded_by?: string | null
+          status?: string
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          declined_by?: string[]
+          farmer_id?: string
+          id?: string
+          message?: string | null
+          price_per_kg?: number | null
+          responded_at?: string | null
+          responded_by?: string | null
+          status?: string
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_offers_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sensor_devices: {
+        Row: {
+          created_at: string
+          id: string
+          label: string | null
+          last_seen_at: string | null
+          owner_id: string
+          serial_number: string
+          updated_at: string
+          vehicle_info: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label?: string | null
+          last_seen_at?: string | null
+          owner_id: string
+          serial_number: string
+          updated_at?: string
+          vehicle_info?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string | null
+          last_seen_at?: string | null
+          owner_id?: string
+          serial_number?: string
+          updated_at?: string
+          vehicle_info?: string | null
+        }
+        Relationships: []
+      }
+      shelf_life_predictions: {
+        Row: {
+          batch_id: string
+          computed_at: string
+          consumed_days: number
+          crop_id: string
+          exposure_end: string
+          exposure_start: string
+          id: string
+          mean_temperature_celsius: number | null
+          reading_count: number
+          reference_shelf_life_days: number
+          reference_temperature_celsius: number
+          remaining_days: number
+          remaining_days_high: number
+          remaining_days_low: number
+        }
+        Insert: {
+          batch_id: string
+          computed_at?: string
+          consumed_days: number
+          crop_id: string
+          exposure_end: string
+          exposure_start: string
+          id?: string
+          mean_temperature_celsius?: number | null
+          reading_count: number
+          reference_shelf_life_days: number
+          reference_temperature_celsius: number
+          remaining_days: number
+          remaining_days_high: number
+          remaining_days_low: number
+        }
+        Update: {
+          batch_id?: string
+          computed_at?: string
+          consumed_days?: number
+          crop_id?: string
+          exposure_end?: string
+          exposure_start?: string
+          id?: string
+          mean_temperature_celsius?: number | null
+          reading_count?: number
+          reference_shelf_life_days?: number
+          reference_temperature_celsius?: number
+          remaining_days?: number
+          remaining_days_high?: number
+          remaining_days_low?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shelf_life_predictions_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: true
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shelf_life_predictions_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      environmental_data: {
+      telemetry_readings: {
         Row: {
-          air_quality_index: number | null
-          batch_id: string
+          batch_id: string | null
           created_at: string
-          gps_lat: number | null
-          gps_lng: number | null
+          device_id: string
           humidity_percentage: number | null
           id: string
-          precipitation_mm: number | null
-          raw_api_response: Json | null
           recorded_at: string
-          stage: string
-          temperature_celsius: number | null
-          uv_index: number | null
-          weather_condition: string | null
-          wind_speed_kmh: number | null
+          temperature_celsius: number
         }
         Insert: {
-          air_quality_index?: number | null
-          batch_id: string
+          batch_id?: string | null
           created_at?: string
-          gps_lat?: number | null
-          gps_lng?: number | null
+          device_id: string
           humidity_percentage?: number | null
           id?: string
-          precipitation_mm?: number | null
-          raw_api_response?: Json | null
-          recorded_at?: string
-          stage: string
-          temperature_celsius?: number | null
-          uv_index?: number | null
-          weather_condition?: string | null
-          wind_speed_kmh?: number | null
+          recorded_at: string
+          temperature_celsius: number
         }
         Update: {
-          air_quality_index?: number | null
-          batch_id?: string
+          batch_id?: string | null
           created_at?: string
-          gps_lat?: number | null
-          gps_lng?: number | null
+          device_id?: string
           humidity_percentage?: number | null
           id?: string
-          precipitation_mm?: number | null
-          raw_api_response?: Json | null
           recorded_at?: string
-          stage?: string
-          temperature_celsius?: number | null
-          uv_index?: number | null
-          weather_condition?: string | null
-          wind_speed_kmh?: number | null
+          temperature_celsius?: number
         }
         Relationships: [
           {
-            foreignKeyName: "environmental_data_batch_id_fkey"
+            foreignKeyName: "telemetry_readings_batch_id_fkey"
             columns: ["batch_id"]
             isOneToOne: false
             referencedRelation: "batches"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "telemetry_readings_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "sensor_devices"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
+      transport_breadcrumbs: {
         Row: {
+          accuracy_m: number | null
+          batch_id: string
           created_at: string
-          email: string
-          full_name: string | null
+          gps_lat: number
+          gps_lng: number
+          heading: number | null
           id: string
-          phone: string | null
-          role: Database["public"]["Enums"]["app_role"]
-          updated_at: string
+          recorded_at: string
+          speed_kmh: number | null
+          transporter_id: string
         }
         Insert: {
+          accuracy_m?: number | null
+          batch_id: string
           created_at?: string
-          email: string
-          full_name?: string | null
-          id: string
-          phone?: string | null
-          role: Database["public"]["Enums"]["app_role"]
-          updated_at?: string
+          gps_lat: number
+          gps_lng: number
+          heading?: number | null
+          id?: string
+          recorded_at?: string
+          speed_kmh?: number | null
+          transporter_id: string
         }
         Update: {
+          accuracy_m?: number | null
+          batch_id?: string
           created_at?: string
-          email?: string
-          full_name?: string | null
+          gps_lat?: number
+          gps_lng?: number
+          heading?: number | null
           id?: string
-          phone?: string | null
-          role?: Database["public"]["Enums"]["app_role"]
-          updated_at?: string
+          recorded_at?: string
+          speed_kmh?: number | null
+          transporter_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "transport_breadcrumbs_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       transport_logs: {
         Row: {
@@ -212,7 +1161,10 @@ export type Database = {
           drop_gps_lat: number | null
           drop_gps_lng: number | null
           drop_time: string | null
+          handoff_accepted_at: string | null
+          handoff_released_at: string | null
           id: string
+          leg_number: number
           notes: string | null
           pickup_gps_lat: number | null
           pickup_gps_lng: number | null
@@ -230,7 +1182,10 @@ export type Database = {
           drop_gps_lat?: number | null
           drop_gps_lng?: number | null
           drop_time?: string | null
+          handoff_accepted_at?: string | null
+          handoff_released_at?: string | null
           id?: string
+          leg_number?: number
           notes?: string | null
           pickup_gps_lat?: number | null
           pickup_gps_lng?: number | null
@@ -248,7 +1203,10 @@ export type Database = {
           drop_gps_lat?: number | null
           drop_gps_lng?: number | null
           drop_time?: string | null
+          handoff_accepted_at?: string | null
+          handoff_released_at?: string | null
           id?: string
+          leg_number?: number
           notes?: string | null
           pickup_gps_lat?: number | null
           pickup_gps_lng?: number | null
@@ -269,6 +1227,59 @@ export type Database = {
           },
         ]
       }
+      transport_quotes: {
+        Row: {
+          batch_id: string
+          created_at: string
+          decided_at: string | null
+          id: string
+          notes: string | null
+          pickup_window_end: string
+          pickup_window_start: string
+          price: number
+          status: string
+          transporter_id: string
+          updated_at: string
+          vehicle_type: string
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          decided_at?: string | null
+          id?: string
+          notes?: string | null
+          pickup_window_end: string
+          pickup_window_start: string
+          price: number
+          status?: string
+          transporter_id: string
+          updated_at?: string
+          vehicle_type: string
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          decided_at?: string | null
+          id?: string
+          notes?: string | null
+          pickup_window_end?: string
+          pickup_window_start?: string
+          price?: number
+          status?: string
+          transporter_id?: string
+          updated_at?: string
+          vehicle_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transport_quotes_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           id: string
@@ -287,6 +1298,70 @@ export type Database = {
         }
         Relationships: []
       }
+      vendor_receipt_versions: {
+        Row: {
+          batch_id: string
+          created_at: string
+          created_by: string | null
+          dispute_id: string | null
+          id: string
+          quality_grade: string | null
+          receipt_id: string
+          received_quantity_kg: number | null
+          spoilage_percentage: number | null
+          version: number
+          weight_loss_percentage: number | null
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          created_by?: string | null
+          dispute_id?: string | null
+          id?: string
+          quality_grade?: string | null
+          receipt_id: string
+          received_quantity_kg?: number | null
+          spoilage_percentage?: number | null
+          version: number
+          weight_loss_percentage?: number | null
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          created_by?: string | null
+          dispute_id?: string | null
+          id?: string
+          quality_grade?: string | null
+          receipt_id?: string
+          received_quantity_kg?: number | null
+          spoilage_percentage?: number | null
+          version?: number
+          weight_loss_percentage?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vendor_receipt_versions_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vendor_receipt_versions_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "receipt_disputes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vendor_receipt_versions_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       vendor_receipts: {
         Row: {
           batch_id: string
@@ -298,9 +1373,12 @@ export type Database = {
           receipt_gps_lng: number | null
           received_at: string | null
           received_quantity_kg: number | null
+          rejected_quantity_kg: number
+          rejection_reason: string | null
           spoilage_percentage: number | null
           updated_at: string
           vendor_id: string
+          version: number
           weight_loss_percentage: number | null
         }
         Insert: {
@@ -313,9 +1391,12 @@ export type Database = {
           receipt_gps_lng?: number | null
           received_at?: string | null
           received_quantity_kg?: number | null
+          rejected_quantity_kg?: number
+          rejection_reason?: string | null
           spoilage_percentage?: number | null
           updated_at?: string
           vendor_id: string
+          version?: number
           weight_loss_percentage?: number | null
         }
         Update: {
@@ -328,9 +1409,12 @@ export type Database = {
           receipt_gps_lng?: number | null
           received_at?: string | null
           received_quantity_kg?: number | null
+          rejected_quantity_kg?: number
+          rejection_reason?: string | null
           spoilage_percentage?: number | null
           updated_at?: string
           vendor_id?: string
+          version?: number
           weight_loss_percentage?: number | null
         }
         Relationships: [
@@ -343,11 +1427,115 @@ export type Database = {
           },
         ]
       }
+      weather_risk_forecasts: {
+        Row: {
+          batch_id: string
+          checked_at: string
+          destination_known: boolean
+          id: string
+          pickup_window_end: string
+          pickup_window_start: string
+          recommendation: string | null
+          recommended_pickup_at: string | null
+          risk_level: string
+          risks: Json
+          source: string
+        }
+        Insert: {
+          batch_id: string
+          checked_at?: string
+          destination_known?: boolean
+          id?: string
+          pickup_window_end: string
+          pickup_window_start: string
+          recommendation?: string | null
+          recommended_pickup_at?: string | null
+          risk_level: string
+          risks?: Json
+          source: string
+        }
+        Update: {
+          batch_id?: string
+          checked_at?: string
+          destination_known?: boolean
+          id?: string
+          pickup_window_end?: string
+          pickup_window_start?: string
+          recommendation?: string | null
+          recommended_pickup_at?: string | null
+          risk_level?: string
+          risks?: Json
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "weather_risk_forecasts_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: true
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      award_transport_quote: { Args: { _quote_id: string }; Returns: string }
+      can_add_batch_photo: {
+        Args: { _batch_id: string; _stage: string; _user_id: string }
+        Returns: boolean
+      }
+      claim_batch_as_vendor: { Args: { _batch_id: string }; Returns: string }
+      claim_transport_leg: { Args: { _batch_id: string }; Returns: string }
+      counter_receipt_dispute: {
+        Args: {
+          _dispute_id: string
+          _quality_grade: string
+          _spoilage_percentage: number
+          _weight_loss_percentage: number
+        }
+        Returns: undefined
+      }
+      current_transporter_id: {
+        Args: { _batch_id: string }
+        Returns: string
+      }
+      declared_temperature_band: {
+        Args: { _label: string }
+        Returns: {
+          max_celsius: number
+          min_celsius: number
+        }[]
+      }
+      detect_cold_chain_excursions: {
+        Args: { _batch_id: string }
+        Returns: number
+      }
+      escalate_receipt_dispute: {
+        Args: { _dispute_id: string }
+        Returns: undefined
+      }
+      get_batch_genealogy: { Args: { _batch_id: string }; Returns: Json }
+      get_batch_telemetry: {
+        Args: { _batch_id: string }
+        Returns: {
+          batch_id: string | null
+          created_at: string
+          device_id: string
+          humidity_percentage: number | null
+          id: string
+          recorded_at: string
+          temperature_celsius: number
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "telemetry_readings"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -359,10 +1547,151 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_app_admin: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      is_awaiting_handoff: {
+        Args: { _batch_id: string }
+        Returns: boolean
+      }
       is_batch_participant: {
         Args: { _batch_id: string; _user_id: string }
         Returns: boolean
       }
+      is_dispute_party: {
+        Args: {
+          _dispute: Database["public"]["Tables"]["receipt_disputes"]["Row"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_offered_to_vendor: {
+        Args: { _batch_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_open_for_quotes: { Args: { _batch_id: string }; Returns: boolean }
+      is_valid_batch_transition: {
+        Args: {
+          _from: Database["public"]["Enums"]["batch_status"]
+          _to: Database["public"]["Enums"]["batch_status"]
+        }
+        Returns: boolean
+      }
+      list_transporters: {
+        Args: never
+        Returns: {
+          full_name: string
+          id: string
+        }[]
+      }
+      list_vendors: {
+        Args: never
+        Returns: {
+          full_name: string
+          id: string
+        }[]
+      }
+      merge_batches: { Args: { _batch_ids: string[] }; Returns: string }
+      notify_user: {
+        Args: {
+          _batch_id: string
+          _body: string
+          _kind: string
+          _title: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      open_receipt_dispute: {
+        Args: {
+          _quality_grade: string
+          _reason: string
+          _receipt_id: string
+          _spoilage_percentage: number
+          _weight_loss_percentage: number
+        }
+        Returns: string
+      }
+      predict_shelf_life: {
+        Args: { _batch_id: string }
+        Returns: undefined
+      }
+      record_leg_drop: {
+        Args: {
+          _delay_reason?: string
+          _gps_lat?: number
+          _gps_lng?: number
+          _handoff: boolean
+          _log_id: string
+          _notes?: string
+        }
+        Returns: undefined
+      }
+      record_leg_pickup: {
+        Args: {
+          _gps_lat?: number
+          _gps_lng?: number
+          _log_id: string
+          _notes?: string
+          _temperature_maintained?: string
+          _transport_type?: string
+          _vehicle_info?: string
+        }
+        Returns: undefined
+      }
+      record_weather_risk: {
+        Args: {
+          _batch_id: string
+          _destination_known: boolean
+          _pickup_window_end: string
+          _pickup_window_start: string
+          _recommendation: string
+          _recommended_pickup_at: string
+          _risk_level: string
+          _risks: Json
+          _source: string
+        }
+        Returns: undefined
+      }
+      reject_batch_delivery: {
+        Args: { _batch_id: string; _reason: string; _rejected_kg: number }
+        Returns: string
+      }
+      request_batch_return: { Args: { _batch_id: string }; Returns: undefined }
+      resolve_receipt_dispute: {
+        Args: { _dispute_id: string }
+        Returns: number
+      }
+      respond_to_sale_offer: {
+        Args: { _accept: boolean; _offer_id: string }
+        Returns: string
+      }
+      split_batch: {
+        Args: { _batch_id: string; _quantities: number[] }
+        Returns: string[]
+      }
+      trace_batch_origins: {
+        Args: { _batch_id: string }
+        Returns: {
+          batch_id: string
+          contributed_kg: number
+          crop_type: string
+          farm_address: string
+          farm_gps_lat: number
+          farm_gps_lng: number
+          farmer_id: string
+          farmer_name: string
+          harvest_time: string
+        }[]
+      }
+      transition_batch_status: {
+        Args: {
+          _batch_id: string
+          _to_status: Database["public"]["Enums"]["batch_status"]
+        }
+        Returns: Database["public"]["Enums"]["batch_status"]
+      }
     }
     Enums: {
       app_role: "farmer" | "transporter" | "vendor"
@@ -374,6 +1703,9 @@ export type Database = {
         | "delivered"
         | "received"
         | "analyzed"
+        | "rejected"
+        | "returning"
+        | "returned"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -510,6 +1842,9 @@ export const Constants = {
         "delivered",
         "received",
         "analyzed",
+        "rejected",
+        "returning",
+        "returned",
       ],
     },
   },
@@ -0,0 +1,79 @@
+import { AIAnalysis } from '@/types/database';
+
+export interface DiffPart {
+  text: string;
+  change: 'same' | 'added' | 'removed';
+}
+
+export interface FieldChange {
+  key: AnalysisField;
+  label: string;
+  parts: DiffPart[];
+}
+
+type AnalysisField =
+  | 'degradation_point'
+  | 'environmental_impact'
+  | 'confidence_level'
+  | 'farmer_suggestions'
+  | 'transporter_suggestions'
+  | 'vendor_suggestions';
+
+export const analysisFieldLabels: Record<AnalysisField, string> = {
+  degradation_point: 'Quality Degradation Point',
+  environmental_impact: 'Environmental Impact',
+  confidence_level: 'Confidence',
+  farmer_suggestions: 'For the Farmer',
+  transporter_suggestions: 'For the Transporter',
+  vendor_suggestions: 'For the Vendor',
+};
+
+/** Word-level diff (longest common subsequence); whitespace stays attached to the word before it */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\S+\s*/g) ?? [];
+  const b = after.match(/\S+\s*/g) ?? [];
+
+  // lcs[i][j] is the common length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].trim() === b[j].trim() ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, change: DiffPart['change']) => {
+    const last = parts[parts.length - 1];
+    if (last?.change === change) last.text += text;
+    else parts.push({ text, change });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push(b[j], 'same');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+
+  return parts;
+}
+
+/** The fields that differ between two versions of an analysis, with what changed in each */
+export function diffAnalyses(previous: AIAnalysis, current: AIAnalysis): FieldChange[] {
+  return (Object.keys(analysisFieldLabels) as AnalysisField[])
+    .filter((key) => (previous[key] ?? '') !== (current[key] ?? ''))
+    .map((key) => ({
+      key,
+      label: analysisFieldLabels[key],
+      parts: diffWords(previous[key] ?? '', current[key] ?? ''),
+    }));
+}
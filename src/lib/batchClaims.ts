@@ -0,0 +1,15 @@
+/** Postgres unique_violation, raised by the claim functions when a batch is already taken */
+const CONFLICT_CODE = '23505';
+
+/** Thrown when someone else claimed a batch between loading it and clicking accept */
+export class BatchClaimConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchClaimConflictError';
+  }
+}
+
+/** Turns a failed claim RPC into an Error, keeping conflicts distinguishable */
+export function toClaimError(error: { code?: string; message: string }): Error {
+  return error.code === CONFLICT_CODE ? new BatchClaimConflictError(error.message) : new Error(error.message);
+}
@@ -0,0 +1,42 @@
+import { BatchLineage, BatchWithDetails, GenealogyNode } from '@/types/database';
+
+/** Links where this batch was split or merged into something else */
+export function getChildLinks(batch: BatchWithDetails): BatchLineage[] {
+  return (batch.lineage ?? []).filter((l) => l.parent_batch_id === batch.id);
+}
+
+/** Links to the batches this one was split or merged from */
+export function getParentLinks(batch: BatchWithDetails): BatchLineage[] {
+  return (batch.lineage ?? []).filter((l) => l.child_batch_id === batch.id);
+}
+
+/** A one-line summary of where the batch sits in its genealogy, if anywhere */
+export function describeLineage(batch: BatchWithDetails): string | null {
+  const children = getChildLinks(batch);
+  const parents = getParentLinks(batch);
+
+  if (children.length > 0) {
+    if (children[0].operation === 'reject') return `${children[0].quantity_kg} kg refused by the vendor`;
+    return children[0].operation === 'split' ? `Split into ${children.length} batches` : 'Merged into a lot';
+  }
+  if (parents.length > 0) {
+    if (parents[0].operation === 'reject') return 'Refused at delivery';
+    return parents[0].operation === 'split' ? 'Split from a larger batch' : `Lot merged from ${parents.length} batches`;
+  }
+  return null;
+}
+
+/** Genealogy nodes grouped by generation, oldest ancestors first */
+export function groupByGeneration(nodes: GenealogyNode[]): GenealogyNode[][] {
+  const generations = new Map<number, GenealogyNode[]>();
+  for (const node of nodes) {
+    generations.set(node.depth, [...(generations.get(node.depth) ?? []), node]);
+  }
+  return [...generations.entries()].sort(([a], [b]) => a - b).map(([, group]) => group);
+}
+
+/** Amounts are compared in whole grams to dodge floating point drift */
+export function quantitiesReconcile(parts: number[], totalKg: number): boolean {
+  const toGrams = (kg: number) => Math.round(kg * 1000);
+  return parts.reduce((sum, kg) => sum + toGrams(kg), 0) === toGrams(totalKg);
+}
@@ -0,0 +1,38 @@
+import { BatchWithDetails, ColdChainExcursion } from '@/types/database';
+
+export interface ExcursionTotals {
+  count: number;
+  minutesOutOfRange: number;
+  peakDeviation: number;
+  degreeMinutes: number;
+}
+
+/** Totals across every excursion on a batch, or null when its cold chain held */
+export function getExcursionTotals(batch: BatchWithDetails): ExcursionTotals | null {
+  const excursions = batch.excursions ?? [];
+  if (excursions.length === 0) return null;
+
+  // NUMERIC columns can arrive as strings
+  return {
+    count: excursions.length,
+    minutesOutOfRange: excursions.reduce((acc, x) => acc + Number(x.minutes_out_of_range), 0),
+    peakDeviation: Math.max(...excursions.map((x) => Number(x.peak_deviation_celsius))),
+    degreeMinutes: excursions.reduce((acc, x) => acc + Number(x.degree_minutes), 0),
+  };
+}
+
+/** e.g. "95 min" or "3 h 10 min" */
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+/** One-line description, e.g. "4.5°C above 2-8°C for 40 min" */
+export function describeExcursion(excursion: ColdChainExcursion): string {
+  return `${Number(excursion.peak_deviation_celsius)}°C ${excursion.direction} ${Number(excursion.band_min_celsius)}-${Number(
+    excursion.band_max_celsius
+  )}°C for ${formatMinutes(Number(excursion.minutes_out_of_range))}`;
+}
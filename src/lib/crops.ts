@@ -0,0 +1,63 @@
+import { Crop, EthyleneLevel } from '@/types/database';
+
+/** Grades a farmer can expect at harvest; each crop defines what they mean in quality_grades */
+export const expectedQualityGrades = [
+  { value: 'premium', label: 'Premium - Top quality, no defects' },
+  { value: 'grade_a', label: 'Grade A - Excellent quality, minor defects' },
+  { value: 'grade_b', label: 'Grade B - Good quality, some defects' },
+  { value: 'grade_c', label: 'Grade C - Fair quality, visible defects' },
+];
+
+export const ethyleneLevels: { value: EthyleneLevel; label: string }[] = [
+  { value: 'very_low', label: 'Very low' },
+  { value: 'low', label: 'Low' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'high', label: 'High' },
+  { value: 'very_high', label: 'Very high' },
+];
+
+/** Catalog entry for a batch's crop_type; batches of "Other" crops have none */
+export function findCrop(crops: Crop[], cropType: string | undefined): Crop | undefined {
+  if (!cropType) return undefined;
+  return crops.find((c) => c.name.toLowerCase() === cropType.toLowerCase());
+}
+
+/** e.g. "0-2°C at 65-70% humidity, keeps about 180 days" */
+export function describeStorage(crop: Crop): string {
+  return `${Number(crop.min_temperature_celsius)}-${Number(crop.max_temperature_celsius)}°C at ${Number(
+    crop.min_humidity_percentage
+  )}-${Number(crop.max_humidity_percentage)}% humidity, keeps about ${crop.typical_shelf_life_days} days`;
+}
+
+/** Reasons a reading falls outside what the crop tolerates; empty when it is fine */
+export function checkCropConditions(
+  crop: Crop,
+  temperature: number | null | undefined,
+  humidity: number | null | undefined
+): string[] {
+  const warnings: string[] = [];
+  const minTemp = Number(crop.min_temperature_celsius);
+  const maxTemp = Number(crop.max_temperature_celsius);
+
+  if (temperature !== null && temperature !== undefined) {
+    if (temperature > maxTemp) {
+      warnings.push(`${Number(temperature)}°C is above the ${minTemp}-${maxTemp}°C ${crop.name.toLowerCase()} need`);
+    } else if (temperature < minTemp) {
+      warnings.push(
+        crop.chilling_sensitive
+          ? `${Number(temperature)}°C risks chilling injury below ${minTemp}°C`
+          : `${Number(temperature)}°C is below the ${minTemp}-${maxTemp}°C ${crop.name.toLowerCase()} need`
+      );
+    }
+  }
+
+  if (humidity !== null && humidity !== undefined) {
+    const minHumidity = Number(crop.min_humidity_percentage);
+    const maxHumidity = Number(crop.max_humidity_percentage);
+    if (humidity < minHumidity || humidity > maxHumidity) {
+      warnings.push(`${Number(humidity)}% humidity is outside the ${minHumidity}-${maxHumidity}% range`);
+    }
+  }
+
+  return warnings;
+}
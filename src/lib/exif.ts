@@ -0,0 +1,128 @@
+// Just enough of EXIF to date and place a photo: when it was taken, where, and on what camera.
+// Reads the APP1 segment of a JPEG; other formats, and JPEGs without EXIF, give all nulls.
+
+export interface PhotoMetadata {
+  takenAt: Date | null;
+  latitude: number | null;
+  longitude: number | null;
+  camera: string | null;
+}
+
+const EMPTY: PhotoMetadata = { takenAt: null, latitude: null, longitude: null, camera: null };
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// Bytes per component of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = string | number[];
+
+/** Reads one IFD into tag -> value; offsets are relative to the TIFF header at `tiff` */
+function readIfd(view: DataView, tiff: number, offset: number, little: boolean): Map<number, TagValue> {
+  const tags = new Map<number, TagValue>();
+  const count = view.getUint16(tiff + offset, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const components = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] ?? 0) * components;
+    if (size === 0) continue;
+    // Values of up to four bytes sit in the entry itself
+    const at = size <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+    if (at + size > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < components; j++) {
+        const code = view.getUint8(at + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text.trim());
+    } else if (type === 3) {
+      tags.set(tag, Array.from({ length: components }, (_, j) => view.getUint16(at + j * 2, little)));
+    } else if (type === 4) {
+      tags.set(tag, Array.from({ length: components }, (_, j) => view.getUint32(at + j * 4, little)));
+    } else if (type === 5) {
+      tags.set(
+        tag,
+        Array.from({ length: components }, (_, j) => {
+          const denominator = view.getUint32(at + j * 8 + 4, little);
+          return denominator === 0 ? 0 : view.getUint32(at + j * 8, little) / denominator;
+        })
+      );
+    }
+  }
+  return tags;
+}
+
+/** Degrees, minutes and seconds to signed decimal degrees */
+function toDegrees(value: TagValue | undefined, ref: TagValue | undefined, negative: string): number | null {
+  if (!Array.isArray(value) || value.length < 3) return null;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === negative ? -degrees : degrees;
+}
+
+/** "2026:10:19 14:05:09" plus an optional "+03:00"; without an offset the device's zone is assumed */
+function toDate(value: TagValue | undefined, offset: TagValue | undefined): Date | null {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = typeof offset === 'string' ? offset : '';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function readPhotoMetadata(file: Blob): Promise<PhotoMetadata> {
+  // EXIF has to be in the first 64 KB of a JPEG
+  const view = new DataView(await file.slice(0, 64 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return EMPTY;
+
+  try {
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      // APP1 starting "Exif\0\0"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+
+        const exifOffset = ifd0.get(TAG_EXIF_IFD);
+        const exif = Array.isArray(exifOffset) ? readIfd(view, tiff, exifOffset[0], little) : new Map();
+        const gpsOffset = ifd0.get(TAG_GPS_IFD);
+        const gps = Array.isArray(gpsOffset) ? readIfd(view, tiff, gpsOffset[0], little) : new Map();
+
+        const make = ifd0.get(TAG_MAKE);
+        const model = ifd0.get(TAG_MODEL);
+        const camera = [make, model].filter((part): part is string => typeof part === 'string' && !!part).join(' ');
+
+        return {
+          takenAt: toDate(exif.get(TAG_DATE_TIME_ORIGINAL), exif.get(TAG_OFFSET_TIME_ORIGINAL)),
+          latitude: toDegrees(gps.get(TAG_GPS_LATITUDE), gps.get(TAG_GPS_LATITUDE_REF), 'S'),
+          longitude: toDegrees(gps.get(TAG_GPS_LONGITUDE), gps.get(TAG_GPS_LONGITUDE_REF), 'W'),
+          camera: camera || null,
+        };
+      }
+      // Image data follows the start-of-scan marker; no EXIF after it
+      if (marker === 0xffda) break;
+      offset += 2 + length;
+    }
+  } catch (error) {
+    console.error('Unreadable EXIF data:', error);
+  }
+  return EMPTY;
+}
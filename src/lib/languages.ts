@@ -0,0 +1,9 @@
+import { Language } from '@/types/database';
+
+/** Each language in its own script, so readers can find theirs */
+export const languageNames: Record<Language, string> = {
+  en: 'English',
+  hi: 'हिन्दी',
+  sw: 'Kiswahili',
+  es: 'Español',
+};
@@ -0,0 +1,21 @@
+import { BatchPhoto, PhotoStage } from '@/types/database';
+
+export const photoStages: { value: PhotoStage; label: string }[] = [
+  { value: 'harvest', label: 'Harvest' },
+  { value: 'pickup', label: 'Pickup' },
+  { value: 'receipt', label: 'Receipt' },
+];
+
+export const bruisingLabels: Record<NonNullable<BatchPhoto['bruising']>, string> = {
+  none: 'No bruising',
+  light: 'Light bruising',
+  moderate: 'Moderate bruising',
+  severe: 'Severe bruising',
+};
+
+export const ripenessLabels: Record<NonNullable<BatchPhoto['ripeness']>, string> = {
+  unripe: 'Unripe',
+  turning: 'Turning',
+  ripe: 'Ripe',
+  overripe: 'Overripe',
+};
@@ -0,0 +1,23 @@
+import { PatternDimension, PatternFinding } from '@/types/database';
+
+export const patternDimensionLabels: Record<PatternDimension, string> = {
+  crop: 'Crop',
+  transporter: 'Transporter',
+  time_of_day: 'Pickup time',
+  season: 'Season',
+  pickup_weather: 'Pickup weather',
+};
+
+/** e.g. "Tomatoes picked up in the afternoon (14:00-18:00) lose 2.1× as much (9.4% vs 4.5%)" */
+export function describeFinding(finding: PatternFinding): string {
+  const subject = {
+    crop: `${finding.group} batches`,
+    transporter: `${finding.crop ?? 'Batches'} carried by ${finding.group}`,
+    time_of_day: `${finding.crop ?? 'Batches'} picked up in the ${finding.group}`,
+    season: `${finding.crop ?? 'Batches'} harvested in ${finding.group}`,
+    pickup_weather: `${finding.crop ?? 'Batches'} on ${finding.group}`,
+  }[finding.dimension];
+  if (finding.baseline_loss <= 0) return `${subject} lose ${finding.mean_loss}% while the rest lose nothing`;
+  const ratio = (finding.mean_loss / finding.baseline_loss).toFixed(1);
+  return `${subject} lose ${ratio}× as much (${finding.mean_loss}% vs ${finding.baseline_loss}%)`;
+}
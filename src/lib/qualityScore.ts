@@ -0,0 +1,16 @@
+import { QualityFactor } from '@/types/database';
+
+export const qualityFactorLabels: Record<QualityFactor, string> = {
+  delay: 'Delays',
+  temperature: 'Temperature',
+  humidity: 'Humidity',
+  transit_duration: 'Transit time',
+  grade_drop: 'Grade drop',
+};
+
+/** Severity of a total quality-loss score, for colouring */
+export function qualityLossBand(totalLoss: number): 'low' | 'moderate' | 'high' {
+  if (totalLoss < 15) return 'low';
+  if (totalLoss < 40) return 'moderate';
+  return 'high';
+}
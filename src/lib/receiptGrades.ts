@@ -0,0 +1,15 @@
+/** Grades a vendor can record at receipt, also used when proposing corrections in a dispute */
+export const receiptGrades = [
+  { value: 'premium', label: 'Premium - Excellent condition, no issues' },
+  { value: 'grade_a', label: 'Grade A - Very good, minimal issues' },
+  { value: 'grade_b', label: 'Grade B - Good, some minor issues' },
+  { value: 'grade_c', label: 'Grade C - Fair, noticeable issues' },
+  { value: 'grade_d', label: 'Grade D - Poor, significant issues' },
+  { value: 'rejected', label: 'Rejected - Not acceptable' },
+];
+
+/** Short display name for a stored grade, e.g. "Grade A" */
+export function formatGrade(value: string | null): string {
+  if (!value) return 'Not graded';
+  return receiptGrades.find((g) => g.value === value)?.label.split(' - ')[0] ?? value;
+}
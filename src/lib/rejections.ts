@@ -0,0 +1,23 @@
+import { BatchWithDetails, RejectionReason } from '@/types/database';
+
+/** Reasons a vendor can give for refusing a delivery; matches the vendor_receipts check constraint */
+export const rejectionReasons: { value: RejectionReason; label: string }[] = [
+  { value: 'spoiled', label: 'Spoiled or rotting' },
+  { value: 'below_grade', label: 'Below agreed grade' },
+  { value: 'pest_damage', label: 'Pest or disease damage' },
+  { value: 'contaminated', label: 'Contaminated' },
+  { value: 'wrong_crop', label: 'Wrong crop or variety' },
+  { value: 'short_weight', label: 'Short weight' },
+  { value: 'damaged_packaging', label: 'Damaged packaging' },
+  { value: 'late_delivery', label: 'Arrived too late' },
+  { value: 'other', label: 'Other' },
+];
+
+export function getRejectionReasonLabel(reason: RejectionReason | null): string {
+  return rejectionReasons.find((r) => r.value === reason)?.label ?? 'No reason given';
+}
+
+/** Kilograms the vendor refused at receipt; the rest counts as accepted */
+export function getRejectedQuantity(batch: BatchWithDetails): number {
+  return batch.vendor_receipt?.rejected_quantity_kg ?? 0;
+}
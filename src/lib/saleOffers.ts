@@ -0,0 +1,15 @@
+import { BatchWithDetails, SaleOffer } from '@/types/database';
+
+/** Select value for offering a batch to every vendor rather than one */
+export const OPEN_OFFER = 'open';
+
+/** The live offer on a batch, if the farmer is currently looking for a buyer */
+export function getPendingOffer(batch: BatchWithDetails): SaleOffer | undefined {
+  return batch.sale_offers?.find((o) => o.status === 'pending');
+}
+
+/** Whether the given vendor may still accept or decline this offer */
+export function isOfferOpenTo(offer: SaleOffer, vendorId: string): boolean {
+  if (offer.status !== 'pending') return false;
+  return offer.vendor_id ? offer.vendor_id === vendorId : !offer.declined_by.includes(vendorId);
+}
@@ -0,0 +1,33 @@
+import { BatchWithDetails } from '@/types/database';
+
+export interface RemainingShelfLife {
+  days: number;
+  low: number;
+  high: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Predicted shelf life left today. The stored prediction stops at receipt (or when it was
+ * computed), so time since then is charged at one day per day, as if stored within the crop's range.
+ */
+export function getRemainingShelfLife(batch: BatchWithDetails, now: Date = new Date()): RemainingShelfLife | null {
+  const prediction = batch.shelf_life;
+  if (!prediction) return null;
+
+  const elapsed = Math.max(0, (now.getTime() - new Date(prediction.exposure_end).getTime()) / DAY_MS);
+  // NUMERIC columns can arrive as strings
+  return {
+    days: Math.max(0, Number(prediction.remaining_days) - elapsed),
+    low: Math.max(0, Number(prediction.remaining_days_low) - elapsed),
+    high: Math.max(0, Number(prediction.remaining_days_high) - elapsed),
+  };
+}
+
+/** e.g. "about 6 days (4-8)" or "expired" */
+export function formatShelfLife(remaining: RemainingShelfLife): string {
+  if (remaining.high < 0.5) return 'expired';
+  const days = Math.round(remaining.days);
+  return `about ${days} day${days === 1 ? '' : 's'} (${Math.round(remaining.low)}-${Math.round(remaining.high)})`;
+}
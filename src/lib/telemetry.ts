@@ -0,0 +1,26 @@
+import { TelemetryReading } from '@/types/database';
+
+export interface TelemetrySummary {
+  count: number;
+  minTemperature: number;
+  maxTemperature: number;
+  averageTemperature: number;
+  from: string;
+  to: string;
+}
+
+/** Min/max/average over logger readings, or null when there are none. Expects readings in time order. */
+export function summarizeTelemetry(readings: TelemetryReading[]): TelemetrySummary | null {
+  if (readings.length === 0) return null;
+
+  // NUMERIC columns can arrive as strings
+  const temperatures = readings.map((r) => Number(r.temperature_celsius));
+  return {
+    count: readings.length,
+    minTemperature: Math.min(...temperatures),
+    maxTemperature: Math.max(...temperatures),
+    averageTemperature: temperatures.reduce((acc, t) => acc + t, 0) / temperatures.length,
+    from: readings[0].recorded_at,
+    to: readings[readings.length - 1].recorded_at,
+  };
+}
@@ -0,0 +1,34 @@
+import { BatchWithDetails, TransportLog } from '@/types/database';
+
+export function sortLegs(legs: TransportLog[]): TransportLog[] {
+  return [...legs].sort((a, b) => a.leg_number - b.leg_number);
+}
+
+/** The latest leg of the journey, i.e. whoever is (or was last) carrying the batch */
+export function getCurrentLeg(batch: BatchWithDetails): TransportLog | undefined {
+  const legs = batch.transport_legs ?? [];
+  return legs[legs.length - 1];
+}
+
+/** The most recent leg driven by the given transporter */
+export function getTransporterLeg(batch: BatchWithDetails, transporterId: string): TransportLog | undefined {
+  return [...(batch.transport_legs ?? [])].reverse().find((leg) => leg.transporter_id === transporterId);
+}
+
+/** The last leg was released at a handoff point and no one has taken over yet */
+export function isAwaitingHandoff(batch: BatchWithDetails): boolean {
+  return !!getCurrentLeg(batch)?.handoff_released_at;
+}
+
+/** The final leg that ended at the vendor rather than at a handoff */
+export function getFinalDeliveryLeg(batch: BatchWithDetails): TransportLog | undefined {
+  const current = getCurrentLeg(batch);
+  return current?.drop_time && !current.handoff_released_at ? current : undefined;
+}
+
+/** Mirrors is_open_for_quotes: new batches, refused lots, and returns still waiting for a carrier */
+export function isOpenForQuotes(batch: BatchWithDetails): boolean {
+  if (batch.superseded_at) return false;
+  if (batch.status === 'returning') return !getCurrentLeg(batch);
+  return batch.status === 'created' || batch.status === 'rejected';
+}
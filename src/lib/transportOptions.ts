@@ -0,0 +1,20 @@
+/** Vehicle types offered when quoting for or recording a transport leg */
+export const transportTypes = [
+  'Refrigerated Truck',
+  'Open Truck',
+  'Covered Van',
+  'Pickup Truck',
+  'Motorcycle Carrier',
+  'Other',
+];
+
+/**
+ * Temperature control a transporter can declare for a leg, with the band it promises in °C.
+ * The bands must match declared_temperature_band() in the database, which checks them.
+ */
+export const temperatureOptions: { value: string; band: { min: number; max: number } | null }[] = [
+  { value: 'Cold Chain Maintained (2-8°C)', band: { min: 2, max: 8 } },
+  { value: 'Cool Storage (8-15°C)', band: { min: 8, max: 15 } },
+  { value: 'Ambient Temperature', band: null },
+  { value: 'Not Applicable', band: null },
+];
@@ -0,0 +1,24 @@
+import { EnvironmentalData } from '@/types/database';
+
+const sourceNames: Record<string, string> = {
+  google: 'Google Weather & Air Quality',
+  'open-meteo': 'Open-Meteo',
+  fixture: 'local test fixture',
+};
+
+/** Placeholder rows stored when no weather provider answered; their values are not weather */
+export function isDefaultedReading(data: EnvironmentalData): boolean {
+  return data.data_quality === 'defaulted';
+}
+
+/** Readings whose values can be compared with anything */
+export function usableReadings(data: EnvironmentalData[] | undefined): EnvironmentalData[] {
+  return (data ?? []).filter((d) => !isDefaultedReading(d));
+}
+
+/** e.g. "Google Weather & Air Quality" or "Google Weather & Air Quality, Open-Meteo" */
+export function describeWeatherSources(data: EnvironmentalData[]): string | null {
+  const names = [...new Set(data.map((d) => d.source).filter((s): s is string => !!s && s !== 'default'))];
+  if (names.length === 0) return null;
+  return names.map((s) => sourceNames[s] ?? s).join(', ');
+}
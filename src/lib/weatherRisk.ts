@@ -0,0 +1,35 @@
+import { format } from 'date-fns';
+import { BatchWithDetails, WeatherRiskForecast, WeatherRiskKind, WeatherRiskSpan } from '@/types/database';
+
+export const weatherRiskKindLabels: Record<WeatherRiskKind, string> = {
+  heavy_rain: 'Heavy rain',
+  heat: 'Heat',
+  high_wind: 'High wind',
+};
+
+const peakUnits: Record<WeatherRiskKind, string> = {
+  heavy_rain: ' mm/h',
+  heat: '°C',
+  high_wind: ' km/h',
+};
+
+/** The forecast check while it still matters, i.e. until the batch is picked up */
+export function getPickupWeatherRisk(batch: BatchWithDetails): WeatherRiskForecast | null {
+  if (!batch.weather_risk || !['created', 'assigned_transporter'].includes(batch.status)) return null;
+  return batch.weather_risk;
+}
+
+/** e.g. "Heavy rain at the farm, Oct 20 2:00 PM-5:00 PM, up to 12 mm/h" */
+export function describeRiskSpan(span: WeatherRiskSpan): string {
+  const place = span.place === 'farm' ? 'at the farm' : 'at the destination';
+  return `${weatherRiskKindLabels[span.kind]} ${place}, ${format(new Date(span.starts_at), 'MMM d h:mm a')}-${format(
+    new Date(span.ends_at),
+    'h:mm a'
+  )}, up to ${Math.round(Number(span.peak))}${peakUnits[span.kind]}`;
+}
+
+/** e.g. "Pick up earlier, around Oct 20 9:00 AM"; null when there is nothing better to suggest */
+export function describeRecommendation(forecast: WeatherRiskForecast): string | null {
+  if (!forecast.recommendation || !forecast.recommended_pickup_at) return null;
+  return `Pick up ${forecast.recommendation}, around ${format(new Date(forecast.recommended_pickup_at), 'MMM d h:mm a')}`;
+}
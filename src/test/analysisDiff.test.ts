@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { diffWords } from "@/lib/analysisDiff";
+
+describe("diffWords", () => {
+  it("marks inserted words as added", () => {
+    expect(diffWords("keep the crop cool", "keep the crop very cool")).toEqual([
+      { text: "keep the crop ", change: "same" },
+      { text: "very ", change: "added" },
+      { text: "cool", change: "same" },
+    ]);
+  });
+
+  it("marks deleted words as removed", () => {
+    expect(diffWords("pick early in the morning", "pick in the morning")).toEqual([
+      { text: "pick ", change: "same" },
+      { text: "early ", change: "removed" },
+      { text: "in the morning", change: "same" },
+    ]);
+  });
+
+  it("shows a replaced word as removed then added", () => {
+    expect(diffWords("shade at noon", "shade at dawn")).toEqual([
+      { text: "shade at ", change: "same" },
+      { text: "noon", change: "removed" },
+      { text: "dawn", change: "added" },
+    ]);
+  });
+
+  it("ignores whitespace changes and keeps the new spacing", () => {
+    expect(diffWords("cool  the crop", "cool the\ncrop")).toEqual([{ text: "cool the\ncrop", change: "same" }]);
+  });
+
+  it("handles an empty side", () => {
+    expect(diffWords("", "new advice")).toEqual([{ text: "new advice", change: "added" }]);
+    expect(diffWords("old advice", "")).toEqual([{ text: "old advice", change: "removed" }]);
+    expect(diffWords("", "")).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { Blob as NodeBlob } from "node:buffer";
+import { readPhotoMetadata } from "@/lib/exif";
+
+// ASCII text, LONG integers or RATIONAL [numerator, denominator, ...] pairs
+type Entry = { tag: number; type: 2 | 4 | 5; value: string | number[] };
+
+const ifdSize = (entries: Entry[]) => 2 + entries.length * 12 + 4;
+
+/** A TIFF block as EXIF stores it: IFD0, then the optional EXIF and GPS IFDs, then long values */
+function encodeTiff(little: boolean, ifd0: Entry[], exif?: Entry[], gps?: Entry[]): Uint8Array {
+  const view = new DataView(new ArrayBuffer(4096));
+  const root = [...ifd0];
+  if (exif) root.push({ tag: 0x8769, type: 4, value: [0] });
+  if (gps) root.push({ tag: 0x8825, type: 4, value: [0] });
+
+  const exifOffset = 8 + ifdSize(root);
+  const gpsOffset = exifOffset + (exif ? ifdSize(exif) : 0);
+  let dataOffset = gpsOffset + (gps ? ifdSize(gps) : 0);
+  if (exif) root[root.length - (gps ? 2 : 1)].value = [exifOffset];
+  if (gps) root[root.length - 1].value = [gpsOffset];
+
+  view.setUint16(0, little ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+
+  const writeIfd = (at: number, entries: Entry[]) => {
+    view.setUint16(at, entries.length, little);
+    entries.forEach((entry, i) => {
+      const bytes = typeof entry.value === "string" ? [...entry.value, "\0"].map((c) => c.charCodeAt(0)) : entry.value;
+      const count = entry.type === 5 ? bytes.length / 2 : bytes.length;
+      const size = entry.type === 2 ? count : entry.type === 4 ? count * 4 : count * 8;
+      const slot = at + 2 + i * 12;
+      view.setUint16(slot, entry.tag, little);
+      view.setUint16(slot + 2, entry.type, little);
+      view.setUint32(slot + 4, count, little);
+
+      let target = slot + 8;
+      if (size > 4) {
+        view.setUint32(slot + 8, dataOffset, little);
+        target = dataOffset;
+        dataOffset += size;
+      }
+      bytes.forEach((value, j) => {
+        if (entry.type === 2) view.setUint8(target + j, value);
+        else view.setUint32(target + j * 4, value, little);
+      });
+    });
+  };
+
+  writeIfd(8, root);
+  if (exif) writeIfd(exifOffset, exif);
+  if (gps) writeIfd(gpsOffset, gps);
+  return new Uint8Array(view.buffer, 0, dataOffset);
+}
+
+// jsdom's Blob cannot be read back with arrayBuffer(), which is all the reader needs from a file
+const blob = (bytes: Uint8Array) => new NodeBlob([bytes]) as unknown as Blob;
+
+function jpeg(tiff?: Uint8Array): Blob {
+  const segments: number[] = [0xff, 0xd8];
+  if (tiff) {
+    const length = 2 + 6 + tiff.length;
+    segments.push(0xff, 0xe1, length >> 8, length & 0xff, ...[..."Exif"].map((c) => c.charCodeAt(0)), 0, 0, ...tiff);
+  } else {
+    // A JFIF header and nothing else
+    segments.push(0xff, 0xe0, 0x00, 0x07, ...[..."JFIF"].map((c) => c.charCodeAt(0)), 0, 1);
+  }
+  segments.push(0xff, 0xda, 0x00, 0x02);
+  return blob(new Uint8Array(segments));
+}
+
+// 1°17'30" and 36°49'0"
+const gpsEntries = (latRef: string, lngRef: string): Entry[] => [
+  { tag: 0x0001, type: 2, value: latRef },
+  { tag: 0x0002, type: 5, value: [1, 1, 17, 1, 3000, 100] },
+  { tag: 0x0003, type: 2, value: lngRef },
+  { tag: 0x0004, type: 5, value: [36, 1, 49, 1, 0, 1] },
+];
+
+describe("readPhotoMetadata", () => {
+  it("reads a little-endian file with a time offset and southern/western coordinates", async () => {
+    const tiff = encodeTiff(
+      true,
+      [
+        { tag: 0x010f, type: 2, value: "Canon" },
+        { tag: 0x0110, type: 2, value: "EOS 90D" },
+      ],
+      [
+        { tag: 0x9003, type: 2, value: "2026:10:19 14:05:09" },
+        { tag: 0x9011, type: 2, value: "+03:00" },
+      ],
+      gpsEntries("S", "W")
+    );
+
+    const metadata = await readPhotoMetadata(jpeg(tiff));
+    expect(metadata.camera).toBe("Canon EOS 90D");
+    expect(metadata.takenAt?.toISOString()).toBe("2026-10-19T11:05:09.000Z");
+    expect(metadata.latitude).toBeCloseTo(-1.2917, 4);
+    expect(metadata.longitude).toBeCloseTo(-36.8167, 4);
+  });
+
+  it("reads a big-endian file without a time offset as the device's local time", async () => {
+    const tiff = encodeTiff(
+      false,
+      [{ tag: 0x010f, type: 2, value: "Nikon" }],
+      [{ tag: 0x9003, type: 2, value: "2026:10:19 14:05:09" }],
+      gpsEntries("N", "E")
+    );
+
+    const metadata = await readPhotoMetadata(jpeg(tiff));
+    expect(metadata.camera).toBe("Nikon");
+    expect(metadata.takenAt?.getTime()).toBe(new Date(2026, 9, 19, 14, 5, 9).getTime());
+    expect(metadata.latitude).toBeCloseTo(1.2917, 4);
+    expect(metadata.longitude).toBeCloseTo(36.8167, 4);
+  });
+
+  it("leaves out what the file does not record", async () => {
+    const metadata = await readPhotoMetadata(jpeg(encodeTiff(true, [{ tag: 0x0110, type: 2, value: "Pixel 8" }])));
+    expect(metadata).toEqual({ takenAt: null, latitude: null, longitude: null, camera: "Pixel 8" });
+  });
+
+  it("returns nothing for a JPEG without EXIF or a file that is not a JPEG", async () => {
+    const empty = { takenAt: null, latitude: null, longitude: null, camera: null };
+    expect(await readPhotoMetadata(jpeg())).toEqual(empty);
+    expect(await readPhotoMetadata(blob(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a])))).toEqual(empty);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { findLossPatterns, BatchObservation } from "../../supabase/functions/_shared/portfolioPatterns";
+
+let nextId = 0;
+
+function observation(overrides: Partial<BatchObservation>): BatchObservation {
+  nextId += 1;
+  return {
+    batch_id: `batch-${nextId}`,
+    crop_type: "tomato",
+    quantity_kg: 100,
+    harvest_time: "2026-01-15T06:00:00Z",
+    farm_gps_lat: 1,
+    farm_gps_lng: 36,
+    transporter_id: null,
+    transporter_name: null,
+    pickup_time: null,
+    pickup_temperature_celsius: null,
+    loss_percentage: 5,
+    quality_loss: null,
+    ...overrides,
+  };
+}
+
+const times = (count: number, overrides: Partial<BatchObservation>) =>
+  Array.from({ length: count }, () => observation(overrides));
+
+function findings(observations: BatchObservation[], dimension: string, crop: string | null = null) {
+  return findLossPatterns(observations).filter((f) => f.dimension === dimension && f.crop === crop);
+}
+
+describe("findLossPatterns", () => {
+  it("reports a group that loses clearly more than the rest", () => {
+    const observations = [
+      ...times(3, { transporter_id: "t1", transporter_name: "Amani", loss_percentage: 12 }),
+      ...times(3, { transporter_id: "t2", transporter_name: "Baraka", loss_percentage: 4 }),
+    ];
+    expect(findings(observations, "transporter")).toEqual([
+      {
+        dimension: "transporter",
+        group: "Amani",
+        crop: null,
+        batch_count: 3,
+        mean_loss: 12,
+        baseline_loss: 4,
+        // 8 points of 300 kg
+        avoidable_kg: 24,
+      },
+    ]);
+  });
+
+  it("needs at least 3 batches in the group and 3 to compare against", () => {
+    const smallGroup = [
+      ...times(2, { transporter_id: "t1", loss_percentage: 12 }),
+      ...times(4, { transporter_id: "t2", loss_percentage: 4 }),
+    ];
+    expect(findings(smallGroup, "transporter")).toEqual([]);
+
+    const smallRest = [
+      ...times(4, { transporter_id: "t1", loss_percentage: 12 }),
+      ...times(2, { transporter_id: "t2", loss_percentage: 4 }),
+    ];
+    expect(findings(smallRest, "transporter")).toEqual([]);
+  });
+
+  it("needs 1.5 times the baseline loss and 2 points more", () => {
+    const compare = (groupLoss: number, baselineLoss: number) =>
+      findings(
+        [
+          ...times(3, { transporter_id: "t1", loss_percentage: groupLoss }),
+          ...times(3, { transporter_id: "t2", loss_percentage: baselineLoss }),
+        ],
+        "transporter"
+      ).length;
+
+    // 2 points more, but only 1.4 times
+    expect(compare(7, 5)).toBe(0);
+    // 2.5 times, but only 1.5 points more
+    expect(compare(2.5, 1)).toBe(0);
+    expect(compare(3, 1)).toBe(1);
+  });
+
+  it("keeps transporters with the same name apart and names the unnamed ones", () => {
+    const observations = [
+      ...times(3, { transporter_id: "t1", transporter_name: "Sam", loss_percentage: 12 }),
+      ...times(3, { transporter_id: "t2", transporter_name: "Sam", loss_percentage: 4 }),
+      ...times(3, { transporter_id: "t3", transporter_name: null, loss_percentage: 4 }),
+    ];
+    const [sam] = findings(observations, "transporter");
+    expect(sam.group).toBe("Sam");
+    expect(sam.batch_count).toBe(3);
+    expect(sam.baseline_loss).toBe(4);
+
+    const unnamed = [
+      ...times(3, { transporter_id: "t3", transporter_name: null, loss_percentage: 12 }),
+      ...times(3, { transporter_id: "t4", transporter_name: null, loss_percentage: 4 }),
+    ];
+    expect(findings(unnamed, "transporter").map((f) => f.group)).toEqual(["Unnamed transporter"]);
+  });
+
+  it("compares within one crop so a crop that keeps worse does not hide a pattern", () => {
+    const observations = [
+      ...times(3, { crop_type: "tomato", transporter_id: "t1", loss_percentage: 12 }),
+      ...times(3, { crop_type: "tomato", transporter_id: "t2", loss_percentage: 4 }),
+      ...times(3, { crop_type: "maize", transporter_id: "t1", loss_percentage: 20 }),
+      ...times(3, { crop_type: "maize", transporter_id: "t2", loss_percentage: 20 }),
+    ];
+
+    // Across all batches t1 loses 16% against 12%, too little to report
+    expect(findings(observations, "transporter")).toEqual([]);
+    expect(findings(observations, "transporter", "tomato")).toMatchObject([
+      { batch_count: 3, mean_loss: 12, baseline_loss: 4 },
+    ]);
+    expect(findings(observations, "transporter", "maize")).toEqual([]);
+    expect(findings(observations, "crop")).toMatchObject([{ group: "maize", mean_loss: 20, baseline_loss: 8 }]);
+
+    const all = findLossPatterns(observations);
+    expect(all.map((f) => f.avoidable_kg)).toEqual([...all.map((f) => f.avoidable_kg)].sort((a, b) => b - a));
+  });
+
+  it("turns the seasons around south of the equator", () => {
+    const byHarvestMonth = (lat: number | null) => [
+      ...times(3, { farm_gps_lat: lat, harvest_time: "2026-01-15T06:00:00Z", loss_percentage: 12 }),
+      ...times(3, { farm_gps_lat: lat, harvest_time: "2026-07-15T06:00:00Z", loss_percentage: 4 }),
+    ];
+
+    expect(findings(byHarvestMonth(1), "season").map((f) => f.group)).toEqual(["winter"]);
+    expect(findings(byHarvestMonth(-1), "season").map((f) => f.group)).toEqual(["summer"]);
+    // Without the farm's latitude the season is unknown
+    expect(findings(byHarvestMonth(null), "season")).toEqual([]);
+  });
+
+  it("groups pickups by the hour at the farm", () => {
+    // 04:00 UTC is 06:00 at 30°E and 02:00 at 30°W
+    const observations = [
+      ...times(3, { farm_gps_lng: 30, pickup_time: "2026-01-15T04:00:00Z", loss_percentage: 4 }),
+      ...times(3, { farm_gps_lng: -30, pickup_time: "2026-01-15T04:00:00Z", loss_percentage: 12 }),
+    ];
+    expect(findings(observations, "time_of_day").map((f) => f.group)).toEqual(["night (before 5:00)"]);
+  });
+});
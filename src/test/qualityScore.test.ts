@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { scoreBatchQuality, SCORING_VERSION, ScoringInputs } from "../../supabase/functions/_shared/qualityScore";
+
+const HARVEST = "2026-01-01T00:00:00Z";
+const hoursAfterHarvest = (hours: number) => new Date(Date.parse(HARVEST) + hours * 60 * 60 * 1000).toISOString();
+
+const crop = {
+  min_temperature_celsius: 2,
+  max_temperature_celsius: 8,
+  min_humidity_percentage: 85,
+  max_humidity_percentage: 95,
+  typical_shelf_life_days: 20,
+};
+
+function inputs(overrides: Partial<ScoringInputs>): ScoringInputs {
+  return {
+    batch: { harvest_time: HARVEST, expected_quality: "grade_a" },
+    crop: null,
+    legs: [],
+    receipt: null,
+    environmentalData: [],
+    telemetry: [],
+    excursions: [],
+    ...overrides,
+  };
+}
+
+function points(score: ReturnType<typeof scoreBatchQuality>, factor: string) {
+  return score.factors.find((f) => f.factor === factor)?.points;
+}
+
+describe("scoreBatchQuality", () => {
+  it("scores a batch with no journey data as lossless", () => {
+    const score = scoreBatchQuality(inputs({}));
+    expect(score.total_loss).toBe(0);
+    expect(score.scoring_version).toBe(SCORING_VERSION);
+    expect(score.factors.map((f) => f.factor)).toEqual([
+      "delay",
+      "temperature",
+      "humidity",
+      "transit_duration",
+      "grade_drop",
+    ]);
+  });
+
+  it("does not charge the first 6 hours between harvest and pickup", () => {
+    expect(points(scoreBatchQuality(inputs({ legs: [{ pickup_time: hoursAfterHarvest(6) }] })), "delay")).toBe(0);
+    expect(points(scoreBatchQuality(inputs({ legs: [{ pickup_time: hoursAfterHarvest(10) }] })), "delay")).toBe(4);
+  });
+
+  it("charges reported delays and handoff waits, capped at 20 points", () => {
+    const legs = [
+      { pickup_time: hoursAfterHarvest(6), handoff_released_at: hoursAfterHarvest(12), delay_reason: "Flat tyre" },
+      { pickup_time: hoursAfterHarvest(15), delay_reason: "Road closed" },
+    ];
+    // 3h waiting at the handoff plus 2 points per reported delay
+    expect(points(scoreBatchQuality(inputs({ legs })), "delay")).toBe(7);
+    expect(points(scoreBatchQuality(inputs({ legs: [{ pickup_time: hoursAfterHarvest(100) }] })), "delay")).toBe(20);
+  });
+
+  it("charges degree-hours outside the safe range, capped at 30 points", () => {
+    expect(points(scoreBatchQuality(inputs({ excursions: [{ degree_minutes: 600 }] })), "temperature")).toBe(5);
+    expect(points(scoreBatchQuality(inputs({ excursions: [{ degree_minutes: 6000 }] })), "temperature")).toBe(30);
+
+    // Logger 4 degrees above the crop's maximum for 2 hours
+    const telemetry = [
+      { recorded_at: hoursAfterHarvest(0), temperature_celsius: 12 },
+      { recorded_at: hoursAfterHarvest(2), temperature_celsius: 5 },
+    ];
+    expect(points(scoreBatchQuality(inputs({ crop, telemetry })), "temperature")).toBe(4);
+  });
+
+  it("charges the share of humidity readings outside the crop's range, up to 10 points", () => {
+    const reading = (humidity_percentage: number) => ({
+      recorded_at: HARVEST,
+      temperature_celsius: 5,
+      humidity_percentage,
+    });
+    const half = [reading(90), reading(50), reading(99), reading(92)];
+    expect(points(scoreBatchQuality(inputs({ crop, telemetry: half })), "humidity")).toBe(5);
+
+    const all = [reading(40), reading(99)];
+    expect(points(scoreBatchQuality(inputs({ crop, telemetry: all })), "humidity")).toBe(10);
+  });
+
+  it("charges transit time as a share of shelf life, capped at 15 points", () => {
+    const legs = [{ pickup_time: hoursAfterHarvest(0) }];
+    const receipt = { received_at: hoursAfterHarvest(48) };
+    // 2 of 20 days is 10% of the shelf life
+    expect(points(scoreBatchQuality(inputs({ crop, legs, receipt })), "transit_duration")).toBe(7.5);
+    // Crops outside the catalog assume 14 days
+    expect(points(scoreBatchQuality(inputs({ legs, receipt })), "transit_duration")).toBe(10.7);
+    const longTrip = { received_at: hoursAfterHarvest(24 * 10) };
+    expect(points(scoreBatchQuality(inputs({ crop, legs, receipt: longTrip })), "transit_duration")).toBe(15);
+  });
+
+  it("charges 8 points per grade step down plus spoilage, capped at 25 points", () => {
+    const graded = (quality_grade: string, spoilage_percentage = 0, expected_quality = "grade_a") =>
+      scoreBatchQuality(
+        inputs({
+          batch: { harvest_time: HARVEST, expected_quality },
+          receipt: { quality_grade, spoilage_percentage },
+        })
+      );
+
+    expect(points(graded("grade_b"), "grade_drop")).toBe(8);
+    expect(points(graded("grade_c", 10), "grade_drop")).toBe(18.5);
+    // Arriving better than expected is not a negative loss
+    expect(points(graded("premium"), "grade_drop")).toBe(0);
+    expect(points(graded("grade_c", 40, "premium"), "grade_drop")).toBe(25);
+  });
+
+  it("adds the factor points into the total", () => {
+    const score = scoreBatchQuality(
+      inputs({
+        legs: [{ pickup_time: hoursAfterHarvest(10) }],
+        receipt: { quality_grade: "grade_b", spoilage_percentage: 0 },
+      })
+    );
+    expect(score.total_loss).toBe(12);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  completeValidated,
+  StructuredOutputError,
+  validateAgainstSchema,
+} from "../../supabase/functions/_shared/structuredOutput";
+import { ANALYSIS_TOOL, normalizeAnalysis } from "../../supabase/functions/_shared/analysisOutput";
+import type { ChatMessage, LlmProvider, StructuredCompletion } from "../../supabase/functions/_shared/llmTypes";
+
+const analysis = {
+  degradation_point: "During the second transport leg",
+  environmental_impact: "High humidity softened the tomatoes",
+  confidence_level: "High",
+  confidence_score: 82,
+  farmer_suggestions: "Harvest in the cool morning",
+  transporter_suggestions: "Keep the truck ventilated",
+  vendor_suggestions: "Sell the softest crates first",
+  summary: "Mostly good, some softening in transit",
+};
+
+const toolCall = (args: Record<string, unknown>): StructuredCompletion => ({
+  arguments: args,
+  rawArguments: JSON.stringify(args),
+  content: null,
+});
+
+/** Answers with `replies` in order and records the conversation each request was sent */
+function provider(...replies: StructuredCompletion[]) {
+  const sent: ChatMessage[][] = [];
+  const llm: LlmProvider = {
+    name: "test",
+    model: "test-model",
+    complete: async (messages) => {
+      sent.push([...messages]);
+      return replies[Math.min(sent.length, replies.length) - 1];
+    },
+    stream: async function* () {},
+  };
+  return { llm, sent };
+}
+
+const question: ChatMessage[] = [{ role: "user", content: "Analyze batch 42" }];
+
+describe("validateAgainstSchema", () => {
+  it("accepts an answer that matches the tool", () => {
+    expect(validateAgainstSchema(analysis, ANALYSIS_TOOL.parameters)).toEqual([]);
+  });
+
+  it("names every field that is missing, unexpected or out of range", () => {
+    const { summary: _summary, ...withoutSummary } = analysis;
+    const problems = validateAgainstSchema(
+      { ...withoutSummary, confidence_level: "Very high", confidence_score: 120, farmer_suggestions: "  ", extra: 1 },
+      ANALYSIS_TOOL.parameters
+    );
+    expect(problems).toEqual(
+      expect.arrayContaining([
+        "answer.summary is missing",
+        "answer.extra is not an allowed field",
+        'answer.confidence_level must be one of "High", "Medium", "Low"',
+        "answer.confidence_score must be at most 100",
+        "answer.farmer_suggestions must not be empty",
+      ])
+    );
+    expect(problems).toHaveLength(5);
+  });
+
+  it("checks types, whole numbers and array sizes", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        count: { type: "integer", minimum: 0 },
+        tags: { type: "array", items: { type: "string" }, minItems: 1, maxItems: 2 },
+      },
+    };
+    expect(validateAgainstSchema({ count: 2.5, tags: [] }, schema)).toEqual([
+      "answer.count must be a whole number",
+      "answer.tags needs at least 1 items",
+    ]);
+    expect(validateAgainstSchema({ count: "3", tags: ["a", 1, "c"] }, schema)).toEqual([
+      "answer.count must be a number",
+      "answer.tags allows at most 2 items",
+      "answer.tags[1] must be a string",
+    ]);
+    expect(validateAgainstSchema([], schema)).toEqual(["answer must be an object"]);
+  });
+});
+
+describe("completeValidated", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("returns a valid first answer without retrying", async () => {
+    const { llm, sent } = provider(toolCall(analysis));
+    const result = await completeValidated(llm, question, ANALYSIS_TOOL);
+    expect(result).toEqual({ value: analysis, attempts: 1 });
+    expect(sent).toHaveLength(1);
+  });
+
+  it("shows an invalid answer back to the model with its problems and uses the repaired one", async () => {
+    const invalid = { ...analysis, confidence_score: 140 };
+    const { llm, sent } = provider(toolCall(invalid), toolCall(analysis));
+
+    const result = await completeValidated(llm, question, ANALYSIS_TOOL);
+    expect(result).toEqual({ value: analysis, attempts: 2 });
+
+    const retry = sent[1];
+    expect(retry).toHaveLength(question.length + 2);
+    expect(retry[1]).toEqual({ role: "assistant", content: JSON.stringify(invalid) });
+    expect(retry[2].role).toBe("user");
+    expect(retry[2].content).toContain("answer.confidence_score must be at most 100");
+    expect(retry[2].content).toContain("analyze_crop_quality");
+    // The caller's messages are left as they were
+    expect(question).toHaveLength(1);
+  });
+
+  it("reads a plain-text answer inside a code fence", async () => {
+    const fenced = { arguments: null, rawArguments: null, content: "```json\n" + JSON.stringify(analysis) + "\n```" };
+    const { llm } = provider(fenced);
+    expect(await completeValidated(llm, question, ANALYSIS_TOOL)).toEqual({ value: analysis, attempts: 1 });
+  });
+
+  it("gives up after the last attempt with what was wrong", async () => {
+    const { llm, sent } = provider(
+      { arguments: null, rawArguments: null, content: null },
+      { arguments: null, rawArguments: "{not json", content: null },
+      toolCall({ ...analysis, confidence_level: "Certain" })
+    );
+
+    const error = await completeValidated(llm, question, ANALYSIS_TOOL).catch((e) => e);
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.attempts).toBe(3);
+    expect(error.problems).toEqual(['answer.confidence_level must be one of "High", "Medium", "Low"']);
+    expect(error.lastOutput).toBe(JSON.stringify({ ...analysis, confidence_level: "Certain" }));
+    expect(sent).toHaveLength(3);
+    expect(sent[1][2].content).toContain("the answer was empty");
+    expect(sent[2][4].content).toContain("the answer is not a valid JSON object");
+  });
+
+  it("stops at maxAttempts", async () => {
+    const { llm, sent } = provider(toolCall({}));
+    const error = await completeValidated(llm, question, ANALYSIS_TOOL, { maxAttempts: 1 }).catch((e) => e);
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.attempts).toBe(1);
+    expect(error.problems).toHaveLength(ANALYSIS_TOOL.parameters.required?.length ?? 0);
+    expect(sent).toHaveLength(1);
+  });
+
+  it("validates the normalized answer", async () => {
+    const { llm, sent } = provider(toolCall({ ...analysis, confidence_level: "high - plenty of data", confidence_score: "80" }));
+    const result = await completeValidated(llm, question, ANALYSIS_TOOL, { normalize: normalizeAnalysis });
+    expect(result).toEqual({ value: { ...analysis, confidence_level: "High", confidence_score: 80 }, attempts: 1 });
+    expect(sent).toHaveLength(1);
+  });
+});
+
+describe("normalizeAnalysis", () => {
+  it("reads the confidence level from the start of what the model wrote", () => {
+    expect(normalizeAnalysis({ confidence_level: "high - plenty of readings" }).confidence_level).toBe("High");
+    expect(normalizeAnalysis({ confidence_level: " MEDIUM " }).confidence_level).toBe("Medium");
+    expect(normalizeAnalysis({ confidence_level: "low" }).confidence_level).toBe("Low");
+  });
+
+  it("leaves a level it cannot place for validation to reject", () => {
+    expect(normalizeAnalysis({ confidence_level: "Very high" }).confidence_level).toBe("Very high");
+  });
+
+  it("turns a score sent as text or a fraction into a whole number", () => {
+    expect(normalizeAnalysis({ confidence_score: "80" }).confidence_score).toBe(80);
+    expect(normalizeAnalysis({ confidence_score: 72.6 }).confidence_score).toBe(73);
+    expect(normalizeAnalysis({ confidence_score: "about 80" }).confidence_score).toBe("about 80");
+  });
+
+  it("does not change the other fields or the answer it was given", () => {
+    const answer = { ...analysis, confidence_level: "low" };
+    expect(normalizeAnalysis(answer)).toEqual({ ...analysis, confidence_level: "Low" });
+    expect(answer.confidence_level).toBe("low");
+  });
+});
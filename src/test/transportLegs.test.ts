@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { BatchWithDetails, TransportLog } from "@/types/database";
+import {
+  getCurrentLeg,
+  getFinalDeliveryLeg,
+  getTransporterLeg,
+  isAwaitingHandoff,
+  isOpenForQuotes,
+  sortLegs,
+} from "@/lib/transportLegs";
+
+function leg(overrides: Partial<TransportLog>): TransportLog {
+  return {
+    id: `leg-${overrides.leg_number}`,
+    batch_id: "batch-1",
+    transporter_id: "t1",
+    leg_number: 1,
+    pickup_time: null,
+    pickup_gps_lat: null,
+    pickup_gps_lng: null,
+    drop_time: null,
+    drop_gps_lat: null,
+    drop_gps_lng: null,
+    transport_type: null,
+    vehicle_info: null,
+    delay_reason: null,
+    temperature_maintained: null,
+    handoff_released_at: null,
+    handoff_accepted_at: null,
+    notes: null,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function batchWithLegs(legs: TransportLog[]): BatchWithDetails {
+  return { transport_legs: sortLegs(legs) } as BatchWithDetails;
+}
+
+describe("transportLegs", () => {
+  it("orders legs and picks the latest as current", () => {
+    const batch = batchWithLegs([
+      leg({ leg_number: 2, transporter_id: "t2" }),
+      leg({ leg_number: 1, transporter_id: "t1" }),
+    ]);
+
+    expect(batch.transport_legs?.map((l) => l.leg_number)).toEqual([1, 2]);
+    expect(getCurrentLeg(batch)?.transporter_id).toBe("t2");
+    expect(getTransporterLeg(batch, "t1")?.leg_number).toBe(1);
+  });
+
+  it("treats a released latest leg as awaiting handoff", () => {
+    const released = batchWithLegs([
+      leg({ leg_number: 1, drop_time: "2026-01-01T05:00:00Z", handoff_released_at: "2026-01-01T05:00:00Z" }),
+    ]);
+
+    expect(isAwaitingHandoff(released)).toBe(true);
+    expect(getFinalDeliveryLeg(released)).toBeUndefined();
+
+    const takenOver = batchWithLegs([...released.transport_legs!, leg({ leg_number: 2, transporter_id: "t2" })]);
+    expect(isAwaitingHandoff(takenOver)).toBe(false);
+  });
+
+  it("only reports a final delivery when the last leg dropped without a handoff", () => {
+    const delivered = batchWithLegs([
+      leg({ leg_number: 1, handoff_released_at: "2026-01-01T05:00:00Z", drop_time: "2026-01-01T05:00:00Z" }),
+      leg({ leg_number: 2, transporter_id: "t2", drop_time: "2026-01-01T09:00:00Z" }),
+    ]);
+
+    expect(getFinalDeliveryLeg(delivered)?.leg_number).toBe(2);
+    expect(getFinalDeliveryLeg(batchWithLegs([]))).toBeUndefined();
+  });
+
+  it("opens refused lots for quotes, and returns only until a carrier is awarded", () => {
+    const withStatus = (status: BatchWithDetails["status"], legs: TransportLog[] = []) =>
+      ({ ...batchWithLegs(legs), status, superseded_at: null }) as BatchWithDetails;
+
+    expect(isOpenForQuotes(withStatus("created"))).toBe(true);
+    expect(isOpenForQuotes(withStatus("rejected"))).toBe(true);
+    expect(isOpenForQuotes(withStatus("returning"))).toBe(true);
+    expect(isOpenForQuotes(withStatus("returning", [leg({ leg_number: 1 })]))).toBe(false);
+    expect(isOpenForQuotes(withStatus("delivered"))).toBe(false);
+  });
+});
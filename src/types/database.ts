@@ -1,5 +1,8 @@
 export type AppRole = 'farmer' | 'transporter' | 'vendor';
 
+/** Languages AI output can be read in; analyses are written in English and translated from it */
+export type Language = 'en' | 'hi' | 'sw' | 'es';
+
 export type BatchStatus = 
   | 'created' 
   | 'assigned_transporter' 
@@ -7,7 +10,10 @@ export type BatchStatus =
   | 'in_transit' 
   | 'delivered' 
   | 'received' 
-  | 'analyzed';
+  | 'analyzed'
+  | 'rejected'
+  | 'returning'
+  | 'returned';
 
 export interface Profile {
   id: string;
@@ -15,13 +21,39 @@ export interface Profile {
   full_name: string | null;
   role: AppRole;
   phone: string | null;
+  preferred_language: Language;
+  created_at: string;
+  updated_at: string;
+}
+
+export type EthyleneLevel = 'very_low' | 'low' | 'moderate' | 'high' | 'very_high';
+
+/** Catalog entry with the storage conditions a crop needs; batches refer to it by name */
+export interface Crop {
+  id: string;
+  name: string;
+  min_temperature_celsius: number;
+  max_temperature_celsius: number;
+  min_humidity_percentage: number;
+  max_humidity_percentage: number;
+  /** Suffers chilling injury below its ideal range */
+  chilling_sensitive: boolean;
+  ethylene_production: EthyleneLevel;
+  ethylene_sensitivity: 'low' | 'moderate' | 'high';
+  typical_shelf_life_days: number;
+  /** Air temperature above which a few hours at loading or on the road start to damage it */
+  heat_tolerance_celsius: number;
+  /** What each expected_quality grade means for this crop, keyed by grade value */
+  quality_grades: Record<string, string>;
+  active: boolean;
   created_at: string;
   updated_at: string;
 }
 
 export interface Batch {
   id: string;
-  farmer_id: string;
+  /** Null for lots merged from several farms; see batch_lineage for their origins */
+  farmer_id: string | null;
   crop_type: string;
   harvest_time: string;
   expected_quality: string;
@@ -31,6 +63,28 @@ export interface Batch {
   farm_address: string | null;
   status: BatchStatus;
   notes: string | null;
+  /** The vendor buying this batch, once a sale offer has been accepted */
+  buyer_id: string | null;
+  /** Set once the batch has been split or merged into other batches */
+  superseded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SaleOfferStatus = 'pending' | 'accepted' | 'declined' | 'withdrawn';
+
+export interface SaleOffer {
+  id: string;
+  batch_id: string;
+  farmer_id: string;
+  /** Null for an open offer any vendor may accept */
+  vendor_id: string | null;
+  price_per_kg: number | null;
+  message: string | null;
+  status: SaleOfferStatus;
+  declined_by: string[];
+  responded_by: string | null;
+  responded_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -39,6 +93,7 @@ export interface TransportLog {
   id: string;
   batch_id: string;
   transporter_id: string;
+  leg_number: number;
   pickup_time: string | null;
   pickup_gps_lat: number | null;
   pickup_gps_lng: number | null;
@@ -49,11 +104,73 @@ export interface TransportLog {
   vehicle_info: string | null;
   delay_reason: string | null;
   temperature_maintained: string | null;
+  handoff_released_at: string | null;
+  handoff_accepted_at: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** What a transporter records when taking a batch on a leg */
+export interface LegPickup {
+  gps_lat: number | null;
+  gps_lng: number | null;
+  transport_type: string;
+  vehicle_info: string;
+  temperature_maintained: string;
+  notes: string;
+}
+
+/** What a transporter records when a leg ends, at a handoff point or the destination */
+export interface LegDrop {
+  handoff: boolean;
+  gps_lat: number | null;
+  gps_lng: number | null;
+  delay_reason: string;
+  notes: string;
+}
+
+export type TransportQuoteStatus = 'pending' | 'awarded' | 'rejected' | 'withdrawn';
+
+export interface TransportQuote {
+  id: string;
+  batch_id: string;
+  transporter_id: string;
+  price: number;
+  pickup_window_start: string;
+  pickup_window_end: string;
+  vehicle_type: string;
   notes: string | null;
+  status: TransportQuoteStatus;
+  decided_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface TransportBreadcrumb {
+  id: string;
+  batch_id: string;
+  transporter_id: string;
+  recorded_at: string;
+  gps_lat: number;
+  gps_lng: number;
+  accuracy_m: number | null;
+  speed_kmh: number | null;
+  heading: number | null;
+  created_at: string;
+}
+
+export type RejectionReason =
+  | 'spoiled'
+  | 'below_grade'
+  | 'pest_damage'
+  | 'contaminated'
+  | 'wrong_crop'
+  | 'short_weight'
+  | 'damaged_packaging'
+  | 'late_delivery'
+  | 'other';
+
 export interface VendorReceipt {
   id: string;
   batch_id: string;
@@ -65,11 +182,19 @@ export interface VendorReceipt {
   spoilage_percentage: number | null;
   weight_loss_percentage: number | null;
   received_quantity_kg: number | null;
+  /** Portion the vendor refused; it lives on as a separate 'rejected' batch */
+  rejected_quantity_kg: number;
+  rejection_reason: RejectionReason | null;
+  /** Bumped each time a dispute resolution corrects the receipt */
+  version: number;
   notes: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/** measured: reported by the provider; estimated: modelled or interpolated; defaulted: placeholders, not weather */
+export type WeatherDataQuality = 'measured' | 'estimated' | 'defaulted';
+
 export interface EnvironmentalData {
   id: string;
   batch_id: string;
@@ -85,28 +210,419 @@ export interface EnvironmentalData {
   precipitation_mm: number | null;
   wind_speed_kmh: number | null;
   raw_api_response: Record<string, unknown> | null;
+  /** Weather provider the row came from, e.g. 'google' or 'open-meteo'; 'default' for placeholders */
+  source: string | null;
+  data_quality: WeatherDataQuality;
+  /** Set on readings sampled along a finished leg's route rather than taken on the spot */
+  transport_log_id: string | null;
   created_at: string;
 }
 
+export type PhotoStage = 'harvest' | 'pickup' | 'receipt';
+
+/** A produce photo with its capture metadata and a vision model's estimate of what it shows */
+export interface BatchPhoto {
+  id: string;
+  batch_id: string;
+  stage: PhotoStage;
+  /** Path inside the private batch-photos bucket: <batch_id>/<stage>/<file> */
+  storage_path: string;
+  uploaded_by: string | null;
+  taken_at: string;
+  /** 'exif' when the camera recorded the time, 'upload' when it is when the file was picked */
+  taken_at_source: 'exif' | 'upload';
+  gps_lat: number | null;
+  gps_lng: number | null;
+  gps_source: 'exif' | 'device' | null;
+  camera: string | null;
+  assessment_status: 'pending' | 'assessed' | 'failed';
+  /** Share of the visible produce with defects, in percent */
+  defect_percentage: number | null;
+  bruising: 'none' | 'light' | 'moderate' | 'severe' | null;
+  ripeness: 'unripe' | 'turning' | 'ripe' | 'overripe' | null;
+  assessment_notes: string | null;
+  assessment_model: string | null;
+  assessed_at: string | null;
+  created_at: string;
+}
+
+/** A temperature data logger, registered to the transporter who uploads from it */
+export interface SensorDevice {
+  id: string;
+  owner_id: string;
+  serial_number: string;
+  label: string | null;
+  vehicle_info: string | null;
+  last_seen_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One logger sample from inside the vehicle, as opposed to ambient weather */
+export interface TelemetryReading {
+  id: string;
+  device_id: string;
+  /** Null for vehicle readings, which are matched to batches by leg times */
+  batch_id: string | null;
+  recorded_at: string;
+  temperature_celsius: number;
+  humidity_percentage: number | null;
+  created_at: string;
+}
+
+/** Counts returned by the ingest-telemetry edge function */
+export interface TelemetryUploadResult {
+  device_id: string;
+  received: number;
+  inserted: number;
+  duplicates: number;
+  rejected: number;
+}
+
+/** A stretch of a leg spent outside the temperature band the transporter declared */
+export interface ColdChainExcursion {
+  id: string;
+  batch_id: string;
+  transport_log_id: string;
+  declared_band: string;
+  band_min_celsius: number;
+  band_max_celsius: number;
+  /** 'weather' when the leg had no logger readings and ambient readings were used instead */
+  source: 'logger' | 'weather';
+  direction: 'above' | 'below';
+  started_at: string;
+  ended_at: string;
+  minutes_out_of_range: number;
+  peak_deviation_celsius: number;
+  degree_minutes: number;
+  reading_count: number;
+  detected_at: string;
+}
+
+export type QualityFactor = 'delay' | 'temperature' | 'humidity' | 'transit_duration' | 'grade_drop';
+
+export interface QualityFactorContribution {
+  factor: QualityFactor;
+  points: number;
+  max_points: number;
+  detail: string;
+}
+
+/** Rule-based quality-loss score, written by analyze-batch */
+export interface QualityScore {
+  id: string;
+  batch_id: string;
+  /** 0 (nothing lost) to 100 */
+  total_loss: number;
+  factors: QualityFactorContribution[];
+  scoring_version: string;
+  computed_at: string;
+}
+
+export type WeatherRiskLevel = 'low' | 'moderate' | 'high';
+
+export type WeatherRiskKind = 'heavy_rain' | 'heat' | 'high_wind';
+
+/** A run of forecast hours with the same hazard */
+export interface WeatherRiskSpan {
+  kind: WeatherRiskKind;
+  place: 'farm' | 'destination';
+  starts_at: string;
+  ends_at: string;
+  /** Worst hour: mm/h for rain, °C for heat, km/h for wind */
+  peak: number;
+}
+
+/** Latest pre-pickup forecast check for a batch */
+export interface WeatherRiskForecast {
+  id: string;
+  batch_id: string;
+  risk_level: WeatherRiskLevel;
+  risks: WeatherRiskSpan[];
+  pickup_window_start: string;
+  pickup_window_end: string;
+  /** False when only the farm could be checked */
+  destination_known: boolean;
+  recommendation: 'earlier' | 'later' | null;
+  recommended_pickup_at: string | null;
+  source: string;
+  checked_at: string;
+}
+
+/** Q10 shelf-life model output for a batch whose crop is in the catalog */
+export interface ShelfLifePrediction {
+  id: string;
+  batch_id: string;
+  crop_id: string;
+  reference_temperature_celsius: number;
+  reference_shelf_life_days: number;
+  exposure_start: string;
+  /** Receipt time, or when the prediction was computed if the batch is not yet received */
+  exposure_end: string;
+  consumed_days: number;
+  /** Remaining at exposure_end */
+  remaining_days: number;
+  remaining_days_low: number;
+  remaining_days_high: number;
+  mean_temperature_celsius: number | null;
+  reading_count: number;
+  computed_at: string;
+}
+
 export interface AIAnalysis {
   id: string;
   batch_id: string;
+  /** 1 for a batch's first analysis, counting up with each re-run */
+  version: number;
+  /** Who ran it; null for analyses from before versioning */
+  requested_by: string | null;
+  /** SHA-256 of the prompt; equal hashes mean the model was given identical data */
+  input_hash: string | null;
   analyzed_at: string;
   degradation_point: string | null;
   environmental_impact: string | null;
+  /** High, Medium or Low; older analyses may carry free text */
   confidence_level: string | null;
+  /** 0-100; null for analyses from before it was asked for */
+  confidence_score: number | null;
   farmer_suggestions: string | null;
   transporter_suggestions: string | null;
   vendor_suggestions: string | null;
   full_analysis: Record<string, unknown> | null;
+  /** LLM provider and model that wrote it; null only for analyses older than provider tracking */
+  provider: string | null;
+  model: string | null;
+  created_at: string;
+}
+
+/** An analysis run whose model output never passed validation, so nothing was saved */
+export interface AIAnalysisFailure {
+  id: string;
+  batch_id: string;
+  requested_by: string | null;
+  /** Requests made, repairs included */
+  attempts: number;
+  /** What was wrong with the last answer */
+  problems: string[];
+  last_output: string | null;
+  provider: string | null;
+  model: string | null;
+  input_hash: string | null;
+  failed_at: string;
+}
+
+/** An analysis's text in another language, cached for every participant */
+export interface AnalysisTranslation {
+  analysis_id: string;
+  language: Exclude<Language, 'en'>;
+  degradation_point: string | null;
+  environmental_impact: string | null;
+  confidence_level: string | null;
+  farmer_suggestions: string | null;
+  transporter_suggestions: string | null;
+  vendor_suggestions: string | null;
+  provider: string | null;
+  model: string | null;
+}
+
+export type PatternDimension = 'crop' | 'transporter' | 'time_of_day' | 'season' | 'pickup_weather';
+
+export interface PatternFinding {
+  dimension: PatternDimension;
+  group: string;
+  /** Set when only that crop's batches were compared */
+  crop: string | null;
+  batch_count: number;
+  /** Average spoilage, weight loss and refused share of the group, in percent */
+  mean_loss: number;
+  /** The same average for the batches it was compared against */
+  baseline_loss: number;
+  avoidable_kg: number;
+}
+
+export interface InsightRecommendation {
+  priority: 'high' | 'medium' | 'low';
+  title: string;
+  action: string;
+  evidence: string;
+}
+
+export interface PortfolioInsights {
+  id: string;
+  farmer_id: string;
+  /** 1 for a farmer's first report, counting up with each regeneration */
+  version: number;
+  batch_count: number;
+  /** Costliest first */
+  findings: PatternFinding[];
+  report: { summary: string; recommendations: InsightRecommendation[] };
+  provider: string | null;
+  model: string | null;
+  input_hash: string | null;
+  generated_at: string;
+}
+
+/** One turn of a participant's own follow-up chat about a batch's analysis */
+export interface BatchChatMessage {
+  id: string;
+  batch_id: string;
+  user_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  /** Who wrote a reply; null on questions */
+  provider: string | null;
+  model: string | null;
+  created_at: string;
+}
+
+export interface BatchEvent {
+  id: string;
+  batch_id: string;
+  actor_id: string | null;
+  actor_role: AppRole | null;
+  event_type: string;
+  source_table: string;
+  record_id: string;
+  before_data: Record<string, unknown> | null;
+  after_data: Record<string, unknown> | null;
+  occurred_at: string;
+}
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  batch_id: string | null;
+  kind: string;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export type LineageOperation = 'split' | 'merge' | 'reject';
+
+export interface BatchLineage {
+  id: string;
+  parent_batch_id: string;
+  child_batch_id: string;
+  operation: LineageOperation;
+  quantity_kg: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface GenealogyNode {
+  id: string;
+  /** Negative for ancestors, 0 for the batch itself, positive for descendants */
+  depth: number;
+  crop_type: string;
+  quantity_kg: number;
+  status: BatchStatus;
+  farmer_id: string | null;
+  farmer_name: string | null;
+  farm_address: string | null;
+  harvest_time: string;
+  superseded_at: string | null;
+  created_at: string;
+}
+
+export interface BatchGenealogy {
+  nodes: GenealogyNode[];
+  edges: Pick<BatchLineage, 'parent_batch_id' | 'child_batch_id' | 'operation' | 'quantity_kg' | 'created_at'>[];
+}
+
+export interface BatchOrigin {
+  batch_id: string;
+  farmer_id: string | null;
+  farmer_name: string | null;
+  crop_type: string;
+  harvest_time: string;
+  farm_address: string | null;
+  farm_gps_lat: number | null;
+  farm_gps_lng: number | null;
+  contributed_kg: number;
+}
+
+export type DisputeStatus = 'open' | 'countered' | 'resolved' | 'escalated';
+
+export interface ReceiptDispute {
+  id: string;
+  batch_id: string;
+  receipt_id: string;
+  opened_by: string | null;
+  vendor_id: string | null;
+  reason: string;
+  status: DisputeStatus;
+  proposed_quality_grade: string | null;
+  proposed_spoilage_percentage: number | null;
+  proposed_weight_loss_percentage: number | null;
+  /** Whoever made the proposal currently on the table; the other side may accept or counter it */
+  proposed_by: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  escalated_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Values a dispute proposes for the receipt instead of what the vendor recorded */
+export interface ReceiptCorrection {
+  quality_grade: string;
+  spoilage_percentage: number;
+  weight_loss_percentage: number;
+}
+
+export interface DisputeMessage {
+  id: string;
+  dispute_id: string;
+  author_id: string | null;
+  body: string | null;
+  attachment_path: string | null;
+  attachment_name: string | null;
+  created_at: string;
+}
+
+export interface VendorReceiptVersion {
+  id: string;
+  receipt_id: string;
+  batch_id: string;
+  version: number;
+  quality_grade: string | null;
+  spoilage_percentage: number | null;
+  weight_loss_percentage: number | null;
+  received_quantity_kg: number | null;
+  dispute_id: string | null;
+  created_by: string | null;
   created_at: string;
 }
 
 export interface BatchWithDetails extends Batch {
+  /** The current (latest) transport leg */
   transport_log?: TransportLog;
+  /** Every transport leg, ordered by leg_number */
+  transport_legs?: TransportLog[];
+  /** Bids visible to the viewer: all of them for the farmer, only their own for a transporter */
+  transport_quotes?: TransportQuote[];
   vendor_receipt?: VendorReceipt;
+  /** Disputes on the vendor receipt, newest first */
+  disputes?: ReceiptDispute[];
   environmental_data?: EnvironmentalData[];
+  /** Cold-chain excursions, in journey order */
+  excursions?: ColdChainExcursion[];
+  shelf_life?: ShelfLifePrediction;
+  weather_risk?: WeatherRiskForecast;
+  /** The latest analysis */
   ai_analysis?: AIAnalysis;
+  /** Every analysis version, newest first */
+  ai_analyses?: AIAnalysis[];
+  /** The latest failed analysis run, when no analysis has succeeded since */
+  ai_analysis_failure?: AIAnalysisFailure;
+  quality_score?: QualityScore;
+  events?: BatchEvent[];
+  /** Sale offers, newest first */
+  sale_offers?: SaleOffer[];
+  /** Split/merge links where this batch is the parent or the child */
+  lineage?: BatchLineage[];
   farmer_profile?: Profile;
   transporter_profile?: Profile;
   vendor_profile?: Profile;
@@ -0,0 +1,353 @@
+// The journey data a batch analysis is grounded on, and the prompt that presents it.
+// Shared by analyze-batch and the follow-up chat, so both reason from the same facts.
+
+import { type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { scoreBatchQuality, type QualityScore } from "./qualityScore.ts";
+
+export interface BatchData {
+  id: string;
+  crop_type: string;
+  harvest_time: string;
+  expected_quality: string;
+  quantity_kg: number;
+  farm_gps_lat: number;
+  farm_gps_lng: number;
+  status: string;
+  notes?: string;
+}
+
+export interface TransportLog {
+  id: string;
+  leg_number: number;
+  pickup_time?: string;
+  drop_time?: string;
+  transport_type?: string;
+  delay_reason?: string;
+  temperature_maintained?: string;
+  vehicle_info?: string;
+  handoff_released_at?: string;
+  handoff_accepted_at?: string;
+}
+
+export interface VendorReceipt {
+  received_at?: string;
+  quality_grade?: string;
+  spoilage_percentage?: number;
+  weight_loss_percentage?: number;
+  received_quantity_kg?: number;
+  rejected_quantity_kg?: number;
+  rejection_reason?: string;
+}
+
+export interface EnvironmentalData {
+  stage: string;
+  recorded_at: string;
+  temperature_celsius?: number;
+  humidity_percentage?: number;
+  weather_condition?: string;
+  air_quality_index?: number;
+  uv_index?: number;
+  precipitation_mm?: number;
+  wind_speed_kmh?: number;
+  source?: string;
+  data_quality: "measured" | "estimated" | "defaulted";
+  transport_log_id?: string;
+}
+
+export interface TelemetryReading {
+  recorded_at: string;
+  temperature_celsius: number;
+  humidity_percentage?: number;
+}
+
+export interface ColdChainExcursion {
+  transport_log_id: string;
+  declared_band: string;
+  source: string;
+  direction: string;
+  started_at: string;
+  minutes_out_of_range: number;
+  peak_deviation_celsius: number;
+  degree_minutes: number;
+}
+
+export interface PhotoAssessment {
+  stage: string;
+  taken_at: string;
+  defect_percentage: number;
+  bruising: string;
+  ripeness: string;
+  assessment_notes?: string;
+}
+
+export interface CropProfile {
+  name: string;
+  min_temperature_celsius: number;
+  max_temperature_celsius: number;
+  min_humidity_percentage: number;
+  max_humidity_percentage: number;
+  chilling_sensitive: boolean;
+  ethylene_production: string;
+  ethylene_sensitivity: string;
+  typical_shelf_life_days: number;
+  quality_grades: Record<string, string>;
+}
+
+export interface AnalysisContext {
+  batch: BatchData;
+  crop: CropProfile | null;
+  /** In journey order */
+  transportLegs: TransportLog[];
+  vendorReceipt: VendorReceipt | null;
+  environmentalData: EnvironmentalData[];
+  telemetry: TelemetryReading[];
+  excursions: ColdChainExcursion[];
+  /** Vision-model estimates from the batch's produce photos, oldest first */
+  photos: PhotoAssessment[];
+}
+
+/** Loads the batch and its journey through `supabase`, so row-level security applies; null when not visible */
+export async function loadAnalysisContext(supabase: SupabaseClient, batchId: string): Promise<AnalysisContext | null> {
+  // Fetch batch data
+  const { data: batch, error: batchError } = await supabase
+    .from("batches")
+    .select("*")
+    .eq("id", batchId)
+    .maybeSingle();
+
+  if (batchError || !batch) return null;
+
+  // Fetch transport legs in journey order
+  const { data: transportLegs } = await supabase
+    .from("transport_logs")
+    .select("*")
+    .eq("batch_id", batchId)
+    .order("leg_number", { ascending: true });
+
+  // Fetch vendor receipt
+  const { data: vendorReceipt } = await supabase
+    .from("vendor_receipts")
+    .select("*")
+    .eq("batch_id", batchId)
+    .maybeSingle();
+
+  // Fetch environmental data
+  const { data: environmentalData } = await supabase
+    .from("environmental_data")
+    .select("*")
+    .eq("batch_id", batchId)
+    .order("recorded_at", { ascending: true });
+
+  // Fetch in-vehicle logger readings (time series, unlike the per-stage weather snapshots)
+  const { data: telemetry, error: telemetryError } = await supabase.rpc("get_batch_telemetry", {
+    _batch_id: batchId,
+  });
+  if (telemetryError) {
+    console.error("Error fetching telemetry:", telemetryError);
+  }
+
+  // Fetch stretches where the declared temperature band was not held
+  const { data: excursions } = await supabase
+    .from("cold_chain_excursions")
+    .select("*")
+    .eq("batch_id", batchId)
+    .order("started_at", { ascending: true });
+
+  // Fetch what the produce photos show, once assessed
+  const { data: photos } = await supabase
+    .from("batch_photos")
+    .select("stage, taken_at, defect_percentage, bruising, ripeness, assessment_notes")
+    .eq("batch_id", batchId)
+    .eq("assessment_status", "assessed")
+    .order("taken_at", { ascending: true });
+
+  // Fetch the catalog's storage parameters for this crop, if it has an entry
+  const { data: crop } = await supabase
+    .from("crops")
+    .select("*")
+    .ilike("name", batch.crop_type)
+    .maybeSingle();
+
+  return {
+    batch,
+    crop,
+    transportLegs: transportLegs || [],
+    vendorReceipt,
+    environmentalData: environmentalData || [],
+    telemetry: telemetry || [],
+    excursions: excursions || [],
+    photos: photos || [],
+  };
+}
+
+/** The rule-based score for the context, by the same rules analyze-batch saves */
+export function scoreAnalysisContext(context: AnalysisContext): QualityScore {
+  return scoreBatchQuality({
+    batch: context.batch,
+    crop: context.crop,
+    legs: context.transportLegs,
+    receipt: context.vendorReceipt,
+    environmentalData: context.environmentalData,
+    telemetry: context.telemetry,
+    excursions: context.excursions,
+  });
+}
+
+/** Everything known about the batch's journey, as the prompt the analysis (and chat about it) is grounded on */
+export function buildAnalysisPrompt(context: AnalysisContext, score: QualityScore): string {
+  const { batch, crop, transportLegs, vendorReceipt, environmentalData, telemetry, excursions, photos } = context;
+
+  let prompt = `Analyze this crop batch journey and identify quality issues:\n\n`;
+
+  prompt += `## BATCH INFORMATION\n`;
+  prompt += `- Crop Type: ${batch.crop_type}\n`;
+  prompt += `- Harvest Time: ${batch.harvest_time}\n`;
+  prompt += `- Expected Quality: ${batch.expected_quality}\n`;
+  prompt += `- Quantity: ${batch.quantity_kg} kg\n`;
+  prompt += `- Farm Location: ${batch.farm_gps_lat}, ${batch.farm_gps_lng}\n`;
+  if (batch.notes) prompt += `- Farmer Notes: ${batch.notes}\n`;
+
+  if (crop) {
+    // Judge the conditions below against what this crop tolerates, not generic produce
+    prompt += `\n## CROP STORAGE PARAMETERS\n`;
+    prompt += `- Optimal Temperature: ${crop.min_temperature_celsius}-${crop.max_temperature_celsius}°C\n`;
+    prompt += `- Optimal Humidity: ${crop.min_humidity_percentage}-${crop.max_humidity_percentage}%\n`;
+    if (crop.chilling_sensitive) prompt += `- Chilling Sensitive: suffers injury below ${crop.min_temperature_celsius}°C\n`;
+    prompt += `- Ethylene: ${crop.ethylene_production} production, ${crop.ethylene_sensitivity} sensitivity\n`;
+    prompt += `- Typical Shelf Life: ${crop.typical_shelf_life_days} days under these conditions\n`;
+    Object.entries(crop.quality_grades ?? {}).forEach(([grade, definition]) => {
+      prompt += `- Grade ${grade}: ${definition}\n`;
+    });
+  }
+
+  if (transportLegs.length > 0) {
+    prompt += `\n## TRANSPORT INFORMATION\n`;
+    if (transportLegs.length > 1) {
+      prompt += `- The batch travelled in ${transportLegs.length} legs with different transporters\n`;
+    }
+    transportLegs.forEach((leg, index) => {
+      if (transportLegs.length > 1) prompt += `\n### Leg ${leg.leg_number}\n`;
+      if (leg.pickup_time) prompt += `- Pickup Time: ${leg.pickup_time}\n`;
+      if (leg.drop_time) prompt += `- Drop Time: ${leg.drop_time}\n`;
+      if (leg.transport_type) prompt += `- Transport Type: ${leg.transport_type}\n`;
+      if (leg.vehicle_info) prompt += `- Vehicle: ${leg.vehicle_info}\n`;
+      if (leg.temperature_maintained) prompt += `- Temperature Control: ${leg.temperature_maintained}\n`;
+      if (leg.delay_reason) prompt += `- Delay Reason: ${leg.delay_reason}\n`;
+
+      // Time spent waiting at the handoff point is often where quality is lost
+      const nextLeg = transportLegs[index + 1];
+      if (leg.handoff_released_at) {
+        prompt += `- Ended in a handoff at ${leg.handoff_released_at}\n`;
+        if (nextLeg?.pickup_time) {
+          const waitMinutes = Math.round(
+            (new Date(nextLeg.pickup_time).getTime() - new Date(leg.handoff_released_at).getTime()) / 60000
+          );
+          prompt += `- Wait at handoff point before next pickup: ${waitMinutes} minutes\n`;
+        }
+      }
+    });
+  }
+
+  if (vendorReceipt) {
+    prompt += `\n## RECEIPT INFORMATION\n`;
+    if (vendorReceipt.received_at) prompt += `- Received At: ${vendorReceipt.received_at}\n`;
+    if (vendorReceipt.quality_grade) prompt += `- Quality Grade: ${vendorReceipt.quality_grade}\n`;
+    if (vendorReceipt.spoilage_percentage !== undefined) prompt += `- Spoilage: ${vendorReceipt.spoilage_percentage}%\n`;
+    if (vendorReceipt.weight_loss_percentage !== undefined) prompt += `- Weight Loss: ${vendorReceipt.weight_loss_percentage}%\n`;
+    if (vendorReceipt.received_quantity_kg !== undefined) prompt += `- Received Quantity: ${vendorReceipt.received_quantity_kg} kg\n`;
+    if (vendorReceipt.rejected_quantity_kg) {
+      // Refused produce is reported apart from spoilage so the two are not double counted
+      const acceptedKg = (vendorReceipt.received_quantity_kg ?? batch.quantity_kg) - vendorReceipt.rejected_quantity_kg;
+      prompt += `- Rejected by Vendor: ${vendorReceipt.rejected_quantity_kg} kg (reason: ${vendorReceipt.rejection_reason ?? "unspecified"})\n`;
+      prompt += `- Accepted Quantity: ${Math.max(0, acceptedKg)} kg\n`;
+    }
+  }
+
+  // Readings taken at each stage, as opposed to hourly samples backfilled along the route
+  const spotReadings = environmentalData.filter((env) => !env.transport_log_id);
+  const routeSamples = environmentalData.filter((env) => env.transport_log_id && env.data_quality !== "defaulted");
+
+  if (spotReadings.length > 0) {
+    prompt += `\n## ENVIRONMENTAL CONDITIONS\n`;
+    spotReadings.forEach((env) => {
+      prompt += `\n### ${env.stage.toUpperCase()} Stage (${env.recorded_at})\n`;
+      // Placeholder rows carry made-up numbers; the model must not reason from them
+      if (env.data_quality === "defaulted") {
+        prompt += `- No weather data: the provider did not respond, so conditions at this stage are unknown\n`;
+        return;
+      }
+      if (env.data_quality === "estimated") {
+        prompt += `- Estimated values (model output from ${env.source ?? "the weather provider"}, not a local report)\n`;
+      }
+      if (env.temperature_celsius !== undefined) prompt += `- Temperature: ${env.temperature_celsius}°C\n`;
+      if (env.humidity_percentage !== undefined) prompt += `- Humidity: ${env.humidity_percentage}%\n`;
+      if (env.weather_condition) prompt += `- Weather: ${env.weather_condition}\n`;
+      if (env.air_quality_index !== undefined) prompt += `- Air Quality Index: ${env.air_quality_index}\n`;
+      if (env.uv_index !== undefined) prompt += `- UV Index: ${env.uv_index}\n`;
+      if (env.precipitation_mm !== undefined) prompt += `- Precipitation: ${env.precipitation_mm}mm\n`;
+      if (env.wind_speed_kmh !== undefined) prompt += `- Wind Speed: ${env.wind_speed_kmh} km/h\n`;
+    });
+  }
+
+  if (routeSamples.length > 0) {
+    prompt += `\n## WEATHER ALONG THE ROUTE (HOURLY, ESTIMATED)\n`;
+    prompt += `- Historical weather where the batch was at each hour between pickup and drop\n`;
+    routeSamples.forEach((env) => {
+      const leg = transportLegs.find((l) => l.id === env.transport_log_id);
+      prompt += `- ${env.recorded_at}${leg && transportLegs.length > 1 ? ` (leg ${leg.leg_number})` : ""}: `;
+      prompt += `${env.temperature_celsius ?? "?"}°C, ${env.humidity_percentage ?? "?"}% humidity`;
+      prompt += env.weather_condition ? `, ${env.weather_condition}\n` : `\n`;
+    });
+  }
+
+  if (telemetry.length > 0) {
+    // Summarised rather than listed: a logger can produce thousands of samples per trip
+    const temps = telemetry.map((r) => Number(r.temperature_celsius));
+    const average = temps.reduce((acc, t) => acc + t, 0) / temps.length;
+    const humidities = telemetry
+      .map((r) => r.humidity_percentage)
+      .filter((h): h is number => h !== undefined && h !== null)
+      .map(Number);
+
+    prompt += `\n## CARGO TEMPERATURE (DATA LOGGER)\n`;
+    prompt += `- These are readings inside the vehicle; the environmental conditions above are ambient weather\n`;
+    prompt += `- Readings: ${telemetry.length} from ${telemetry[0].recorded_at} to ${telemetry[telemetry.length - 1].recorded_at}\n`;
+    prompt += `- Temperature: min ${Math.min(...temps)}°C, max ${Math.max(...temps)}°C, average ${average.toFixed(1)}°C\n`;
+    if (humidities.length > 0) {
+      prompt += `- Humidity: min ${Math.min(...humidities)}%, max ${Math.max(...humidities)}%\n`;
+    }
+  }
+
+  if (excursions.length > 0) {
+    prompt += `\n## COLD-CHAIN EXCURSIONS\n`;
+    prompt += `- The transporter declared a temperature band that the recorded temperatures broke ${excursions.length} time(s)\n`;
+    excursions.forEach((x) => {
+      const leg = transportLegs.find((l) => l.id === x.transport_log_id);
+      prompt += `- ${leg ? `Leg ${leg.leg_number}, ` : ""}declared "${x.declared_band}": ${x.direction} the band from ${x.started_at} `;
+      prompt += `for ${x.minutes_out_of_range} minutes, peak ${x.peak_deviation_celsius}°C outside, ${x.degree_minutes} degree-minutes`;
+      prompt += x.source === "weather" ? ` (estimated from ambient weather, no logger data)\n` : ` (from the data logger)\n`;
+    });
+  }
+
+  if (photos.length > 0) {
+    // Comparing stages shows where visible damage appeared
+    prompt += `\n## PRODUCE PHOTOS (MODEL ESTIMATES)\n`;
+    prompt += `- Estimated from photos by an image model; visible condition only, not internal quality\n`;
+    photos.forEach((p) => {
+      prompt += `- ${p.stage} (${p.taken_at}): ${p.defect_percentage}% visibly defective, ${p.bruising} bruising, ${p.ripeness}`;
+      prompt += p.assessment_notes ? ` (${p.assessment_notes})\n` : `\n`;
+    });
+  }
+
+  // Grounding facts: the analysis should explain these numbers, not contradict them
+  prompt += `\n## RULE-BASED QUALITY-LOSS SCORE (version ${score.scoring_version})\n`;
+  prompt += `- Computed by fixed rules from the data above; treat it as fact and base your confidence level on it\n`;
+  prompt += `- Total: ${score.total_loss} of 100 points lost\n`;
+  score.factors.forEach((f) => {
+    prompt += `- ${f.factor.replace(/_/g, " ")}: ${f.points} of ${f.max_points} points (${f.detail})\n`;
+  });
+
+  prompt += `\nBased on this data, provide a comprehensive analysis of the crop quality journey.`;
+
+  return prompt;
+}
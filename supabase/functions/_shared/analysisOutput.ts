@@ -0,0 +1,50 @@
+// The shape analyze-batch asks the model for, and the fix-ups applied before it is validated.
+// Kept apart from the function so the rules can be tested without a server.
+import type { ToolSpec } from "./llmTypes.ts";
+
+export const CONFIDENCE_LEVELS = ["High", "Medium", "Low"];
+
+export const ANALYSIS_TOOL: ToolSpec = {
+  name: "analyze_crop_quality",
+  description: "Analyze crop quality and provide recommendations",
+  parameters: {
+    type: "object",
+    properties: {
+      degradation_point: { type: "string", minLength: 1 },
+      environmental_impact: { type: "string", minLength: 1 },
+      confidence_level: { type: "string", enum: CONFIDENCE_LEVELS },
+      confidence_score: { type: "integer", minimum: 0, maximum: 100 },
+      farmer_suggestions: { type: "string", minLength: 1 },
+      transporter_suggestions: { type: "string", minLength: 1 },
+      vendor_suggestions: { type: "string", minLength: 1 },
+      summary: { type: "string", minLength: 1 },
+    },
+    required: [
+      "degradation_point",
+      "environmental_impact",
+      "confidence_level",
+      "confidence_score",
+      "farmer_suggestions",
+      "transporter_suggestions",
+      "vendor_suggestions",
+      "summary",
+    ],
+    additionalProperties: false,
+  },
+};
+
+// Models often write "high - plenty of data" or send the score as "80"; those are fixed up rather than retried
+export function normalizeAnalysis(answer: Record<string, unknown>): Record<string, unknown> {
+  const normalized = { ...answer };
+
+  if (typeof answer.confidence_level === "string") {
+    const written = answer.confidence_level.trim().toLowerCase();
+    const level = CONFIDENCE_LEVELS.find((l) => written.startsWith(l.toLowerCase()));
+    if (level) normalized.confidence_level = level;
+  }
+
+  const score = typeof answer.confidence_score === "string" ? Number(answer.confidence_score) : answer.confidence_score;
+  if (typeof score === "number" && Number.isFinite(score)) normalized.confidence_score = Math.round(score);
+
+  return normalized;
+}
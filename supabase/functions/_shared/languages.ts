@@ -0,0 +1,13 @@
+// Languages users can read AI output in. Analyses are written in English; the rest are translations.
+
+export type Language = "en" | "hi" | "sw" | "es";
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  hi: "Hindi",
+  sw: "Swahili",
+  es: "Spanish",
+};
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === "string" && Object.hasOwn(LANGUAGE_NAMES, value);
@@ -0,0 +1,203 @@
+// Language model providers for the functions that ask one for structured output or a streamed reply.
+// LLM_PROVIDER picks one: "lovable" (default), "openai" or "stub"; LLM_MODEL overrides its model.
+
+import type { ChatMessage, JsonSchema, LlmProvider, StructuredCompletion, ToolSpec } from "./llmTypes.ts";
+
+export type { ChatMessage, ContentPart, JsonSchema, LlmProvider, StructuredCompletion, ToolSpec } from "./llmTypes.ts";
+
+/** Failure from the model provider, carrying the HTTP status to pass on */
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+/** Any /chat/completions endpoint that speaks the OpenAI protocol, tool calls included */
+class OpenAICompatibleProvider implements LlmProvider {
+  constructor(
+    readonly name: string,
+    readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey: string
+  ) {}
+
+  async complete(messages: ChatMessage[], tool: ToolSpec): Promise<StructuredCompletion> {
+    const response = await this.post({
+      messages,
+      tools: [{ type: "function", function: tool }],
+      tool_choice: { type: "function", function: { name: tool.name } },
+    });
+
+    const result = await response.json();
+    const message = result.choices?.[0]?.message;
+    const toolCall = message?.tool_calls?.[0];
+
+    const rawArguments: string | null = toolCall?.function?.arguments ?? null;
+
+    return {
+      arguments: rawArguments ? parseObject(rawArguments) : null,
+      rawArguments,
+      content: message?.content ?? null,
+    };
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncIterable<string> {
+    const response = await this.post({ messages, stream: true });
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+
+    // Server-sent events, one "data: {...}" line per chunk, ending with "data: [DONE]".
+    // Leaving early, on [DONE], an error or the caller stopping, releases the connection.
+    let buffered = "";
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffered += value;
+
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+          const data = line.slice("data:".length).trim();
+          if (data === "[DONE]") return;
+
+          let chunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            console.warn(`${this.name} sent an unreadable stream event:`, data);
+            continue;
+          }
+          // Providers report failures that happen mid-reply as an event rather than a status code
+          if (chunk.error) {
+            console.error(`${this.name} stream error:`, chunk.error);
+            const message = typeof chunk.error === "string" ? chunk.error : chunk.error.message;
+            throw new LlmError(message || "AI reply failed", 502);
+          }
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    } finally {
+      await reader.cancel().catch(() => {});
+    }
+  }
+
+  private async post(body: Record<string, unknown>): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ model: this.model, ...body }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw new LlmError("Rate limit exceeded, please try again later.", 429);
+      }
+      if (response.status === 402) {
+        throw new LlmError("Payment required, please add credits.", 402);
+      }
+      console.error(`${this.name} error:`, response.status, await response.text());
+      throw new LlmError("AI analysis failed", 500);
+    }
+    return response;
+  }
+}
+
+function parseObject(text: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(text);
+    return value && typeof value === "object" && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Example value for a schema: the first enum option, or a placeholder of the right type */
+function stubValue(schema: JsonSchema, key: string): unknown {
+  if (schema.enum?.length) return schema.enum[0];
+
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, property]) => [name, stubValue(property, name)])
+      );
+    case "array":
+      return schema.items ? [stubValue(schema.items, key)] : [];
+    case "number":
+    case "integer":
+      return typeof schema.minimum === "number" ? schema.minimum : 0;
+    case "boolean":
+      return false;
+    default:
+      return `Stub ${key.replace(/_/g, " ")}.`;
+  }
+}
+
+/**
+ * Answers without a model, for local development and tests: the same arguments every time,
+ * filled in from the tool's schema so they always validate.
+ */
+class StubLlmProvider implements LlmProvider {
+  readonly name = "stub";
+
+  constructor(readonly model: string) {}
+
+  complete(_messages: ChatMessage[], tool: ToolSpec): Promise<StructuredCompletion> {
+    const args = stubValue({ ...tool.parameters, type: "object" }, tool.name) as Record<string, unknown>;
+    return Promise.resolve({ arguments: args, rawArguments: JSON.stringify(args), content: null });
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncIterable<string> {
+    const last = messages[messages.length - 1]?.content ?? "";
+    const question = typeof last === "string" ? last : "";
+    for (const word of `Stub reply to: ${question}`.split(/(?<= )/)) yield word;
+  }
+}
+
+/** The provider named by LLM_PROVIDER. Throws when it is unknown or not configured. */
+export function getLlmProvider(): LlmProvider {
+  const name = Deno.env.get("LLM_PROVIDER") ?? "lovable";
+  const model = Deno.env.get("LLM_MODEL");
+
+  switch (name) {
+    case "lovable": {
+      const apiKey = Deno.env.get("LOVABLE_API_KEY");
+      if (!apiKey) throw new Error("LOVABLE_API_KEY is not configured");
+      return new OpenAICompatibleProvider(
+        name,
+        model ?? "google/gemini-3-flash-preview",
+        "https://ai.gateway.lovable.dev/v1",
+        apiKey
+      );
+    }
+    case "openai": {
+      const apiKey = Deno.env.get("OPENAI_API_KEY");
+      if (!apiKey) throw new Error("OPENAI_API_KEY is not configured");
+      // OPENAI_BASE_URL points it at any compatible server, e.g. a local one
+      return new OpenAICompatibleProvider(
+        name,
+        model ?? "gpt-4o-mini",
+        Deno.env.get("OPENAI_BASE_URL") ?? "https://api.openai.com/v1",
+        apiKey
+      );
+    }
+    case "stub":
+      return new StubLlmProvider(model ?? "stub");
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+  }
+}
+
+/** Hex SHA-256 of what was sent to the model, stored as input_hash so runs on identical inputs can be told apart */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,44 @@
+// The shapes shared by every language model provider and the code that talks to one.
+// Free of Deno APIs, so modules that only need the types can be loaded outside a function.
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  /** Plain text, or text and images for a model that can see */
+  content: string | ContentPart[];
+}
+
+export type ContentPart = { type: "text"; text: string } | { type: "image_url"; image_url: { url: string } };
+
+/** A function the model is made to call, so its answer arrives as arguments matching `parameters` */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments */
+  parameters: JsonSchema;
+}
+
+export interface JsonSchema {
+  type?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  [keyword: string]: unknown;
+}
+
+export interface StructuredCompletion {
+  /** The tool call's arguments, or null when the model answered in plain text or sent malformed JSON */
+  arguments: Record<string, unknown> | null;
+  /** The arguments as the model sent them, kept so malformed ones can be shown back to it */
+  rawArguments: string | null;
+  content: string | null;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  /** Asks for an answer through `tool`. Throws LlmError when the provider refuses or fails. */
+  complete(messages: ChatMessage[], tool: ToolSpec): Promise<StructuredCompletion>;
+  /** A free-text reply, yielded piece by piece as it is generated. Throws LlmError like `complete`. */
+  stream(messages: ChatMessage[]): AsyncIterable<string>;
+}
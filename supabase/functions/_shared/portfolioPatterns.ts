@@ -0,0 +1,153 @@
+// Recurring loss patterns across a farmer's delivered batches: every batch is grouped by crop,
+// first transporter, pickup time of day, season and pickup weather, and a group becomes a finding
+// when its batches lose clearly more than the rest. Fixed rules, so the model only has to explain them.
+
+export type PatternDimension = "crop" | "transporter" | "time_of_day" | "season" | "pickup_weather";
+
+export interface BatchObservation {
+  batch_id: string;
+  crop_type: string;
+  quantity_kg: number;
+  harvest_time: string;
+  /** Null when the farm was not located; time of day and season are then unknown */
+  farm_gps_lat: number | null;
+  farm_gps_lng: number | null;
+  /** First leg's transporter and pickup */
+  transporter_id: string | null;
+  transporter_name: string | null;
+  pickup_time: string | null;
+  /** Ambient temperature when the batch left the farm */
+  pickup_temperature_celsius: number | null;
+  /** Spoilage, weight loss and refused share at receipt, in percent */
+  loss_percentage: number;
+  /** Rule-based quality-loss score, when the batch has been analyzed */
+  quality_loss: number | null;
+}
+
+export interface PatternFinding {
+  dimension: PatternDimension;
+  group: string;
+  /** Set when the comparison is among one crop's batches only */
+  crop: string | null;
+  batch_count: number;
+  /** Average loss of the group's batches, in percent */
+  mean_loss: number;
+  /** Average loss of the batches compared against */
+  baseline_loss: number;
+  /** Kilograms the group would have kept at the baseline loss */
+  avoidable_kg: number;
+}
+
+const MIN_GROUP_SIZE = 3;
+// A group must lose at least this many times the baseline, and this many points more
+const MIN_LOSS_RATIO = 1.5;
+const MIN_LOSS_DIFFERENCE = 2;
+const MAX_FINDINGS = 10;
+
+const HOT_PICKUP_CELSIUS = 30;
+const COOL_PICKUP_CELSIUS = 20;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/** Hour at the farm, from its longitude; close enough to tell morning from afternoon */
+function localHour(at: string, lng: number): number {
+  const offsetHours = Math.round(lng / 15);
+  return (new Date(at).getUTCHours() + offsetHours + 24) % 24;
+}
+
+function timeOfDay(o: BatchObservation): string | null {
+  if (!o.pickup_time || o.farm_gps_lng === null) return null;
+  const hour = localHour(o.pickup_time, o.farm_gps_lng);
+  if (hour < 5) return "night (before 5:00)";
+  if (hour < 11) return "morning (5:00-11:00)";
+  if (hour < 14) return "midday (11:00-14:00)";
+  if (hour < 18) return "afternoon (14:00-18:00)";
+  return "evening (after 18:00)";
+}
+
+function season(o: BatchObservation): string | null {
+  // Without the farm's latitude the hemisphere, and so the season, is unknown
+  if (o.farm_gps_lat === null) return null;
+  const month = new Date(o.harvest_time).getUTCMonth();
+  const seasons = ["winter", "spring", "summer", "autumn"];
+  // December to February is winter in the north and summer in the south
+  const index = Math.floor(((month + 1) % 12) / 3);
+  return seasons[o.farm_gps_lat < 0 ? (index + 2) % 4 : index];
+}
+
+function pickupWeather(o: BatchObservation): string | null {
+  if (o.pickup_temperature_celsius === null) return null;
+  if (o.pickup_temperature_celsius > HOT_PICKUP_CELSIUS) return `hot pickups (above ${HOT_PICKUP_CELSIUS}°C)`;
+  if (o.pickup_temperature_celsius < COOL_PICKUP_CELSIUS) return `cool pickups (below ${COOL_PICKUP_CELSIUS}°C)`;
+  return `warm pickups (${COOL_PICKUP_CELSIUS}-${HOT_PICKUP_CELSIUS}°C)`;
+}
+
+// Transporters are grouped by id, so two with the same name (or none) stay apart
+const GROUPERS: Record<PatternDimension, (o: BatchObservation) => string | null> = {
+  crop: (o) => o.crop_type,
+  transporter: (o) => o.transporter_id,
+  time_of_day: timeOfDay,
+  season,
+  pickup_weather: pickupWeather,
+};
+
+/** What a group is called in a finding: a transporter's name rather than their id */
+function groupLabel(dimension: PatternDimension, key: string, members: BatchObservation[]): string {
+  if (dimension !== "transporter") return key;
+  return members[0].transporter_name ?? "Unnamed transporter";
+}
+
+/** Groups along one dimension that lose clearly more than the other batches in `scope` */
+function compareGroups(
+  scope: BatchObservation[],
+  dimension: PatternDimension,
+  crop: string | null
+): PatternFinding[] {
+  const groups = new Map<string, BatchObservation[]>();
+  scope.forEach((o) => {
+    const key = GROUPERS[dimension](o);
+    if (key !== null) groups.set(key, [...(groups.get(key) ?? []), o]);
+  });
+
+  const findings: PatternFinding[] = [];
+  groups.forEach((members, key) => {
+    const rest = scope.filter((o) => !members.includes(o));
+    if (members.length < MIN_GROUP_SIZE || rest.length < MIN_GROUP_SIZE) return;
+
+    const groupLoss = mean(members.map((o) => o.loss_percentage));
+    const baselineLoss = mean(rest.map((o) => o.loss_percentage));
+    const difference = groupLoss - baselineLoss;
+    if (difference < MIN_LOSS_DIFFERENCE || groupLoss < baselineLoss * MIN_LOSS_RATIO) return;
+
+    const groupKg = members.reduce((sum, o) => sum + Number(o.quantity_kg), 0);
+    findings.push({
+      dimension,
+      group: groupLabel(dimension, key, members),
+      crop,
+      batch_count: members.length,
+      mean_loss: round(groupLoss),
+      baseline_loss: round(baselineLoss),
+      avoidable_kg: round((difference / 100) * groupKg),
+    });
+  });
+  return findings;
+}
+
+/** Findings across all batches and within each crop, the costliest first */
+export function findLossPatterns(observations: BatchObservation[]): PatternFinding[] {
+  const findings = (Object.keys(GROUPERS) as PatternDimension[]).flatMap((dimension) =>
+    compareGroups(observations, dimension, null)
+  );
+
+  // Within a crop the other dimensions are not confounded by crops that simply keep worse
+  const crops = [...new Set(observations.map((o) => o.crop_type))];
+  crops.forEach((crop) => {
+    const scope = observations.filter((o) => o.crop_type === crop);
+    (Object.keys(GROUPERS) as PatternDimension[])
+      .filter((dimension) => dimension !== "crop")
+      .forEach((dimension) => findings.push(...compareGroups(scope, dimension, crop)));
+  });
+
+  return findings.sort((a, b) => b.avoidable_kg - a.avoidable_kg).slice(0, MAX_FINDINGS);
+}
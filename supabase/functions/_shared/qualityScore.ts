@@ -0,0 +1,205 @@
+// Rule-based quality-loss score: the same journey data the AI analysis sees, turned into
+// points per factor by fixed rules, so two runs over the same batch always agree.
+// Change SCORING_VERSION whenever a rule or weight changes.
+
+export const SCORING_VERSION = "1";
+
+export type QualityFactor = "delay" | "temperature" | "humidity" | "transit_duration" | "grade_drop";
+
+export interface FactorContribution {
+  factor: QualityFactor;
+  points: number;
+  max_points: number;
+  /** What the points were charged for, in plain words */
+  detail: string;
+}
+
+export interface QualityScore {
+  /** 0 (nothing lost) to 100, the sum of the factor points */
+  total_loss: number;
+  factors: FactorContribution[];
+  scoring_version: string;
+}
+
+export interface ScoringInputs {
+  batch: { harvest_time: string; expected_quality: string };
+  crop: {
+    min_temperature_celsius: number;
+    max_temperature_celsius: number;
+    min_humidity_percentage: number;
+    max_humidity_percentage: number;
+    typical_shelf_life_days: number;
+  } | null;
+  /** In journey order */
+  legs: {
+    pickup_time?: string | null;
+    drop_time?: string | null;
+    handoff_released_at?: string | null;
+    delay_reason?: string | null;
+  }[];
+  receipt: { received_at?: string | null; quality_grade?: string | null; spoilage_percentage?: number | null } | null;
+  environmentalData: { humidity_percentage?: number | null; data_quality: string }[];
+  telemetry: { recorded_at: string; temperature_celsius: number; humidity_percentage?: number | null }[];
+  excursions: { degree_minutes: number }[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const MAX_POINTS: Record<QualityFactor, number> = {
+  delay: 20,
+  temperature: 30,
+  humidity: 10,
+  transit_duration: 15,
+  grade_drop: 25,
+};
+
+// Harvest to first pickup that costs nothing
+const PICKUP_GRACE_HOURS = 6;
+const POINTS_PER_DELAY_HOUR = 1;
+const POINTS_PER_REPORTED_DELAY = 2;
+const POINTS_PER_DEGREE_HOUR = 0.5;
+// Share of the crop's shelf life spent in transit, in percent, times this
+const POINTS_PER_SHELF_LIFE_PERCENT = 0.75;
+// For crops outside the catalog
+const DEFAULT_SHELF_LIFE_DAYS = 14;
+const POINTS_PER_GRADE_STEP = 8;
+const POINTS_PER_SPOILAGE_PERCENT = 0.25;
+
+const GRADE_ORDER = ["premium", "grade_a", "grade_b", "grade_c"];
+
+const hoursBetween = (from: string, to: string) =>
+  Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS);
+const round = (value: number) => Math.round(value * 10) / 10;
+
+function contribution(factor: QualityFactor, rawPoints: number, detail: string): FactorContribution {
+  const points = round(Math.min(Math.max(rawPoints, 0), MAX_POINTS[factor]));
+  return { factor, points, max_points: MAX_POINTS[factor], detail };
+}
+
+function scoreDelay({ batch, legs }: ScoringInputs): FactorContribution {
+  const firstPickup = legs.find((leg) => leg.pickup_time)?.pickup_time;
+  const harvestWait = firstPickup ? hoursBetween(batch.harvest_time, firstPickup) : 0;
+
+  let handoffWait = 0;
+  legs.forEach((leg, index) => {
+    const nextPickup = legs[index + 1]?.pickup_time;
+    if (leg.handoff_released_at && nextPickup) handoffWait += hoursBetween(leg.handoff_released_at, nextPickup);
+  });
+
+  const reported = legs.filter((leg) => leg.delay_reason).length;
+  const chargeable = Math.max(0, harvestWait - PICKUP_GRACE_HOURS) + handoffWait;
+
+  return contribution(
+    "delay",
+    chargeable * POINTS_PER_DELAY_HOUR + reported * POINTS_PER_REPORTED_DELAY,
+    `${round(harvestWait)}h from harvest to pickup (${PICKUP_GRACE_HOURS}h free), ` +
+      `${round(handoffWait)}h waiting at handoffs, ${reported} reported delay${reported === 1 ? "" : "s"}`
+  );
+}
+
+/** Degree-hours the logger spent outside the crop's range, between consecutive readings */
+function telemetryDegreeHours(telemetry: ScoringInputs["telemetry"], min: number, max: number): number {
+  let degreeHours = 0;
+  for (let i = 1; i < telemetry.length; i++) {
+    const temperature = Number(telemetry[i - 1].temperature_celsius);
+    const deviation = temperature > max ? temperature - max : temperature < min ? min - temperature : 0;
+    degreeHours += deviation * hoursBetween(telemetry[i - 1].recorded_at, telemetry[i].recorded_at);
+  }
+  return degreeHours;
+}
+
+function scoreTemperature({ crop, telemetry, excursions }: ScoringInputs): FactorContribution {
+  // Excursions are measured against the declared band and the logger against the crop's range;
+  // both describe the same cargo, so the worse of the two counts
+  const excursionDegreeHours = excursions.reduce((sum, x) => sum + Number(x.degree_minutes), 0) / 60;
+  const cropDegreeHours =
+    crop && telemetry.length >= 2
+      ? telemetryDegreeHours(telemetry, Number(crop.min_temperature_celsius), Number(crop.max_temperature_celsius))
+      : 0;
+
+  if (excursions.length === 0 && telemetry.length < 2) {
+    return contribution("temperature", 0, "No cargo temperature record to judge");
+  }
+
+  const degreeHours = Math.max(excursionDegreeHours, cropDegreeHours);
+  return contribution(
+    "temperature",
+    degreeHours * POINTS_PER_DEGREE_HOUR,
+    `${round(degreeHours)} degree-hours outside the safe range ` +
+      `(${excursions.length} cold-chain excursion${excursions.length === 1 ? "" : "s"})`
+  );
+}
+
+function scoreHumidity({ crop, telemetry, environmentalData }: ScoringInputs): FactorContribution {
+  if (!crop) return contribution("humidity", 0, "No catalog humidity range for this crop");
+
+  // The logger is inside the cargo; weather readings only stand in without one
+  const isReading = (h: number | null | undefined): h is number => h !== null && h !== undefined;
+  const fromLogger = telemetry.map((t) => t.humidity_percentage).filter(isReading);
+  const readings =
+    fromLogger.length > 0
+      ? fromLogger
+      : environmentalData
+          .filter((env) => env.data_quality !== "defaulted")
+          .map((env) => env.humidity_percentage)
+          .filter(isReading);
+
+  if (readings.length === 0) return contribution("humidity", 0, "No humidity readings");
+
+  const min = Number(crop.min_humidity_percentage);
+  const max = Number(crop.max_humidity_percentage);
+  const outside = readings.filter((h) => Number(h) < min || Number(h) > max).length;
+  return contribution(
+    "humidity",
+    (outside / readings.length) * MAX_POINTS.humidity,
+    `${outside} of ${readings.length} ${fromLogger.length > 0 ? "logger" : "weather"} readings outside ${min}-${max}%`
+  );
+}
+
+function scoreTransitDuration({ crop, legs, receipt }: ScoringInputs): FactorContribution {
+  const firstPickup = legs.find((leg) => leg.pickup_time)?.pickup_time;
+  const arrival = receipt?.received_at ?? [...legs].reverse().find((leg) => leg.drop_time)?.drop_time;
+  if (!firstPickup || !arrival) return contribution("transit_duration", 0, "Journey not finished");
+
+  const transitHours = hoursBetween(firstPickup, arrival);
+  const shelfLifeDays = crop ? Number(crop.typical_shelf_life_days) : DEFAULT_SHELF_LIFE_DAYS;
+  const shelfLifePercent = (transitHours / 24 / shelfLifeDays) * 100;
+
+  return contribution(
+    "transit_duration",
+    shelfLifePercent * POINTS_PER_SHELF_LIFE_PERCENT,
+    `${round(transitHours)}h from pickup to receipt, ${round(shelfLifePercent)}% of a ${shelfLifeDays}-day shelf life`
+  );
+}
+
+function scoreGradeDrop({ batch, receipt }: ScoringInputs): FactorContribution {
+  if (!receipt?.quality_grade) return contribution("grade_drop", 0, "Not graded at receipt");
+
+  const expected = GRADE_ORDER.indexOf(batch.expected_quality);
+  const received = GRADE_ORDER.indexOf(receipt.quality_grade);
+  const steps = expected >= 0 && received >= 0 ? Math.max(0, received - expected) : 0;
+  const spoilage = Number(receipt.spoilage_percentage ?? 0);
+
+  return contribution(
+    "grade_drop",
+    steps * POINTS_PER_GRADE_STEP + spoilage * POINTS_PER_SPOILAGE_PERCENT,
+    `${batch.expected_quality} expected, ${receipt.quality_grade} received ` +
+      `(${steps} grade${steps === 1 ? "" : "s"} down), ${spoilage}% spoiled`
+  );
+}
+
+export function scoreBatchQuality(inputs: ScoringInputs): QualityScore {
+  const factors = [
+    scoreDelay(inputs),
+    scoreTemperature(inputs),
+    scoreHumidity(inputs),
+    scoreTransitDuration(inputs),
+    scoreGradeDrop(inputs),
+  ];
+
+  return {
+    total_loss: round(factors.reduce((sum, f) => sum + f.points, 0)),
+    factors,
+    scoring_version: SCORING_VERSION,
+  };
+}
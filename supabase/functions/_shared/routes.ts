@@ -0,0 +1,134 @@
+// Driving routes from the Google Routes API, and positions along them.
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface Route {
+  distanceMeters: number;
+  durationSeconds: number;
+  encodedPolyline?: string;
+}
+
+/** Failure from the Routes API, carrying the HTTP status to pass on */
+export class RouteError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "RouteError";
+  }
+}
+
+export async function computeRoute(origin: LatLng, destination: LatLng, apiKey: string): Promise<Route> {
+  const response = await fetch("https://routes.googleapis.com/directions/v2:computeRoutes", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Goog-Api-Key": apiKey,
+      "X-Goog-FieldMask": "routes.duration,routes.distanceMeters,routes.polyline.encodedPolyline",
+    },
+    body: JSON.stringify({
+      origin: { location: { latLng: { latitude: origin.lat, longitude: origin.lng } } },
+      destination: { location: { latLng: { latitude: destination.lat, longitude: destination.lng } } },
+      travelMode: "DRIVE",
+      routingPreference: "TRAFFIC_AWARE",
+      computeAlternativeRoutes: false,
+      languageCode: "en-US",
+      units: "METRIC",
+    }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    console.error("Google Routes API error:", data);
+    throw new RouteError(data.error?.message || "Failed to calculate route", response.status);
+  }
+
+  if (!data.routes || data.routes.length === 0) {
+    throw new RouteError("No route found between the specified locations", 404);
+  }
+
+  const route = data.routes[0];
+  return {
+    distanceMeters: route.distanceMeters,
+    durationSeconds: parseInt(route.duration.replace("s", "")),
+    encodedPolyline: route.polyline?.encodedPolyline,
+  };
+}
+
+/** Decodes a Google encoded polyline (precision 5) into points */
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+
+  return points;
+}
+
+/** Great-circle distance between two points */
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(h));
+}
+
+function interpolate(a: LatLng, b: LatLng, fraction: number): LatLng {
+  return { lat: a.lat + (b.lat - a.lat) * fraction, lng: a.lng + (b.lng - a.lng) * fraction };
+}
+
+/** The point a given fraction (0-1) of the way along a path, by distance */
+export function pointAlong(path: LatLng[], fraction: number): LatLng {
+  if (path.length === 1) return path[0];
+
+  const segments = path.slice(1).map((point, i) => distanceMeters(path[i], point));
+  let remaining = Math.min(Math.max(fraction, 0), 1) * segments.reduce((acc, d) => acc + d, 0);
+
+  for (let i = 0; i < segments.length; i++) {
+    if (remaining <= segments[i] || i === segments.length - 1) {
+      return interpolate(path[i], path[i + 1], segments[i] > 0 ? Math.min(remaining / segments[i], 1) : 0);
+    }
+    remaining -= segments[i];
+  }
+
+  return path[path.length - 1];
+}
+
+/** Where a time-stamped trail was at a moment, between the two fixes either side of it */
+export function pointAtTime(trail: (LatLng & { at: number })[], at: number): LatLng {
+  if (at <= trail[0].at) return trail[0];
+
+  for (let i = 1; i < trail.length; i++) {
+    if (at <= trail[i].at) {
+      const span = trail[i].at - trail[i - 1].at;
+      return interpolate(trail[i - 1], trail[i], span > 0 ? (at - trail[i - 1].at) / span : 0);
+    }
+  }
+
+  return trail[trail.length - 1];
+}
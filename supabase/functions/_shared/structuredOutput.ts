@@ -0,0 +1,154 @@
+// Structured answers that are checked against the tool's schema before anything is stored.
+// An answer that fails is shown back to the model with what was wrong, a bounded number of times.
+import type { ChatMessage, JsonSchema, LlmProvider, ToolSpec } from "./llmTypes.ts";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/** The model kept answering outside the schema; carries what was wrong with its last answer */
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly attempts: number,
+    readonly problems: string[],
+    readonly lastOutput: string | null
+  ) {
+    super(`The model's answer did not match the expected format after ${attempts} attempts.`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+export interface ValidatedCompletion {
+  value: Record<string, unknown>;
+  /** Requests it took, the first one included */
+  attempts: number;
+}
+
+export interface ValidationOptions {
+  maxAttempts?: number;
+  /** Tidies harmless variations (casing, numbers sent as strings) before validating */
+  normalize?: (value: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Everything wrong with `value` under `schema`, as readable problems; empty when it is valid.
+ * Covers the keywords the tools use: type, properties, required, additionalProperties, enum,
+ * minimum/maximum, minLength and items/minItems/maxItems.
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = "answer"): string[] {
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`];
+  }
+
+  switch (schema.type) {
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) return [`${path} must be an object`];
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+      const problems: string[] = [];
+      for (const name of schema.required ?? []) {
+        if (record[name] === undefined || record[name] === null) problems.push(`${path}.${name} is missing`);
+      }
+      for (const [name, field] of Object.entries(record)) {
+        if (!(name in properties)) {
+          if (schema.additionalProperties === false) problems.push(`${path}.${name} is not an allowed field`);
+          continue;
+        }
+        if (field === undefined || field === null) continue;
+        problems.push(...validateAgainstSchema(field, properties[name], `${path}.${name}`));
+      }
+      return problems;
+    }
+    case "array": {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      const problems: string[] = [];
+      if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+        problems.push(`${path} needs at least ${schema.minItems} items`);
+      }
+      if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+        problems.push(`${path} allows at most ${schema.maxItems} items`);
+      }
+      const items = schema.items;
+      if (items) {
+        value.forEach((item, index) => problems.push(...validateAgainstSchema(item, items, `${path}[${index}]`)));
+      }
+      return problems;
+    }
+    case "string": {
+      if (typeof value !== "string") return [`${path} must be a string`];
+      const minLength = typeof schema.minLength === "number" ? schema.minLength : 0;
+      return value.trim().length < minLength ? [`${path} must not be empty`] : [];
+    }
+    case "number":
+    case "integer": {
+      if (typeof value !== "number" || !Number.isFinite(value)) return [`${path} must be a number`];
+      if (schema.type === "integer" && !Number.isInteger(value)) return [`${path} must be a whole number`];
+      const problems: string[] = [];
+      if (typeof schema.minimum === "number" && value < schema.minimum) {
+        problems.push(`${path} must be at least ${schema.minimum}`);
+      }
+      if (typeof schema.maximum === "number" && value > schema.maximum) {
+        problems.push(`${path} must be at most ${schema.maximum}`);
+      }
+      return problems;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path} must be true or false`];
+    default:
+      return [];
+  }
+}
+
+/** A JSON object from a plain-text answer, with or without a Markdown code fence around it */
+function parseTextAnswer(content: string | null): Record<string, unknown> | null {
+  if (!content) return null;
+  const unfenced = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    const value = JSON.parse(unfenced);
+    return value && typeof value === "object" && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function repairPrompt(tool: ToolSpec, problems: string[]): string {
+  return `That answer cannot be used:
+${problems.map((problem) => `- ${problem}`).join("\n")}
+Call ${tool.name} again with the same content, corrected so it matches the schema exactly.`;
+}
+
+/**
+ * Asks through `tool` until the answer matches its schema. Throws StructuredOutputError once
+ * `maxAttempts` answers have failed, and LlmError straight away when the provider does.
+ */
+export async function completeValidated(
+  llm: LlmProvider,
+  messages: ChatMessage[],
+  tool: ToolSpec,
+  options: ValidationOptions = {}
+): Promise<ValidatedCompletion> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const conversation = [...messages];
+  let problems: string[] = [];
+  let lastOutput: string | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const completion = await llm.complete(conversation, tool);
+    lastOutput = completion.rawArguments ?? completion.content;
+
+    const answer = completion.arguments ?? parseTextAnswer(completion.content);
+    if (answer) {
+      const value = options.normalize ? options.normalize(answer) : answer;
+      problems = validateAgainstSchema(value, { ...tool.parameters, type: "object" });
+      if (problems.length === 0) return { value, attempts: attempt };
+    } else {
+      problems = [lastOutput ? "the answer is not a valid JSON object" : "the answer was empty"];
+    }
+
+    console.warn(`${tool.name} attempt ${attempt} failed validation:`, problems);
+    conversation.push(
+      { role: "assistant", content: lastOutput ?? "" },
+      { role: "user", content: repairPrompt(tool, problems) }
+    );
+  }
+
+  throw new StructuredOutputError(maxAttempts, problems, lastOutput);
+}
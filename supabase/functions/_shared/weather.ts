@@ -0,0 +1,452 @@
+// Weather providers shared by every function that records environmental_data.
+// WEATHER_PROVIDER picks one: "google" (default), "open-meteo" or "fixture".
+
+/**
+ * How far a reading can be trusted:
+ * measured - current conditions reported for the point by the provider
+ * estimated - modelled or interpolated values, not a report for that moment and place
+ * defaulted - placeholders stored because no provider answered; not weather at all
+ */
+export type DataQuality = "measured" | "estimated" | "defaulted";
+
+export interface WeatherReading {
+  temperature_celsius: number | null;
+  humidity_percentage: number | null;
+  weather_condition: string | null;
+  air_quality_index: number | null;
+  uv_index: number | null;
+  precipitation_mm: number | null;
+  wind_speed_kmh: number | null;
+  source: string;
+  data_quality: DataQuality;
+  raw: Record<string, unknown>;
+}
+
+/** One forecast hour, starting at `at` */
+export interface ForecastHour {
+  at: string;
+  temperature_celsius: number | null;
+  precipitation_mm: number | null;
+  wind_speed_kmh: number | null;
+  weather_condition: string | null;
+}
+
+export interface WeatherProvider {
+  readonly name: string;
+  /** Conditions right now at a point. Throws when the provider cannot answer. */
+  current(latitude: number, longitude: number): Promise<WeatherReading>;
+  /** Conditions for the hour containing a past moment. Throws when the provider has no history that far back. */
+  historical(latitude: number, longitude: number, at: Date): Promise<WeatherReading>;
+  /** Hour-by-hour forecast from the current hour onwards. Throws when the provider cannot answer. */
+  forecast(latitude: number, longitude: number, hours: number): Promise<ForecastHour[]>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Fields Google reports the same way for current conditions and for each history hour
+interface GoogleConditions {
+  temperature?: { degrees?: number };
+  relativeHumidity?: number;
+  weatherCondition?: { description?: { text?: string }; type?: string };
+  uvIndex?: number;
+  precipitation?: { qpf?: { millimeters?: number } };
+  wind?: { speed?: { value?: number; unit?: string } };
+}
+
+function fromGoogleConditions(conditions: GoogleConditions) {
+  const wind = conditions.wind?.speed;
+  return {
+    temperature_celsius: conditions.temperature?.degrees ?? null,
+    humidity_percentage: conditions.relativeHumidity ?? null,
+    weather_condition:
+      conditions.weatherCondition?.description?.text || conditions.weatherCondition?.type?.replace(/_/g, " ") || null,
+    uv_index: conditions.uvIndex ?? null,
+    precipitation_mm: conditions.precipitation?.qpf?.millimeters ?? null,
+    // Convert m/s to km/h if needed
+    wind_speed_kmh:
+      wind?.value !== undefined ? (wind.unit === "KILOMETERS_PER_HOUR" ? wind.value : wind.value * 3.6) : null,
+  };
+}
+
+class GoogleWeatherProvider implements WeatherProvider {
+  readonly name = "google";
+
+  constructor(private readonly apiKey: string) {}
+
+  async current(latitude: number, longitude: number): Promise<WeatherReading> {
+    const weatherResponse = await fetch(
+      `https://weather.googleapis.com/v1/currentConditions:lookup?key=${this.apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ location: { latitude, longitude } }),
+      }
+    );
+
+    if (!weatherResponse.ok) {
+      throw new Error(`Google Weather API error ${weatherResponse.status}: ${await weatherResponse.text()}`);
+    }
+
+    const weather = await weatherResponse.json();
+
+    return {
+      ...fromGoogleConditions(weather),
+      air_quality_index: await this.airQuality(latitude, longitude),
+      source: this.name,
+      data_quality: "measured",
+      raw: weather,
+    };
+  }
+
+  // The history endpoint only reaches back 24 hours
+  async historical(latitude: number, longitude: number, at: Date): Promise<WeatherReading> {
+    const hoursBack = Math.ceil((Date.now() - at.getTime()) / HOUR_MS);
+    if (hoursBack > 24) {
+      throw new Error("Google Weather history only covers the last 24 hours");
+    }
+
+    const params = new URLSearchParams({
+      key: this.apiKey,
+      "location.latitude": String(latitude),
+      "location.longitude": String(longitude),
+      hours: String(Math.max(hoursBack, 1)),
+    });
+    const historyResponse = await fetch(`https://weather.googleapis.com/v1/history/hours:lookup?${params}`);
+
+    if (!historyResponse.ok) {
+      throw new Error(`Google Weather history error ${historyResponse.status}: ${await historyResponse.text()}`);
+    }
+
+    const history = await historyResponse.json();
+    const hour = (history.historyHours ?? []).find((h: { interval?: { startTime?: string } }) => {
+      const start = new Date(h.interval?.startTime ?? 0).getTime();
+      return at.getTime() >= start && at.getTime() < start + HOUR_MS;
+    });
+    if (!hour) {
+      throw new Error(`Google Weather history has no hour covering ${at.toISOString()}`);
+    }
+
+    return {
+      ...fromGoogleConditions(hour),
+      air_quality_index: null,
+      source: this.name,
+      data_quality: "estimated",
+      raw: hour,
+    };
+  }
+
+  // Served a day per page, up to ten days ahead
+  async forecast(latitude: number, longitude: number, hours: number): Promise<ForecastHour[]> {
+    const forecastHours: ForecastHour[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        key: this.apiKey,
+        "location.latitude": String(latitude),
+        "location.longitude": String(longitude),
+        hours: String(Math.min(hours, 240)),
+      });
+      if (pageToken) params.set("pageToken", pageToken);
+      const forecastResponse = await fetch(`https://weather.googleapis.com/v1/forecast/hours:lookup?${params}`);
+
+      if (!forecastResponse.ok) {
+        throw new Error(`Google Weather forecast error ${forecastResponse.status}: ${await forecastResponse.text()}`);
+      }
+
+      const page = await forecastResponse.json();
+      for (const hour of page.forecastHours ?? []) {
+        const conditions = fromGoogleConditions(hour);
+        forecastHours.push({
+          at: new Date(hour.interval?.startTime).toISOString(),
+          temperature_celsius: conditions.temperature_celsius,
+          precipitation_mm: conditions.precipitation_mm,
+          wind_speed_kmh: conditions.wind_speed_kmh,
+          weather_condition: conditions.weather_condition,
+        });
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return forecastHours;
+  }
+
+  // Air quality is a separate API; a failure there should not cost us the weather
+  private async airQuality(latitude: number, longitude: number): Promise<number | null> {
+    try {
+      const aqiResponse = await fetch(
+        `https://airquality.googleapis.com/v1/currentConditions:lookup?key=${this.apiKey}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ location: { latitude, longitude } }),
+        }
+      );
+
+      if (!aqiResponse.ok) {
+        console.warn("Air Quality API error:", await aqiResponse.text());
+        return null;
+      }
+
+      // Get the universal AQI or first available index
+      const aqiResult = await aqiResponse.json();
+      const aqiIndex =
+        aqiResult.indexes?.find((idx: { code: string }) => idx.code === "uaqi") || aqiResult.indexes?.[0];
+      return aqiIndex?.aqi ?? null;
+    } catch (aqiError) {
+      console.warn("Failed to fetch air quality data:", aqiError);
+      return null;
+    }
+  }
+}
+
+// WMO weather interpretation codes used by Open-Meteo
+const wmoConditions: Record<number, string> = {
+  0: "Clear sky",
+  1: "Mainly clear",
+  2: "Partly cloudy",
+  3: "Overcast",
+  45: "Fog",
+  48: "Depositing rime fog",
+  51: "Light drizzle",
+  53: "Drizzle",
+  55: "Dense drizzle",
+  61: "Light rain",
+  63: "Rain",
+  65: "Heavy rain",
+  71: "Light snow",
+  73: "Snow",
+  75: "Heavy snow",
+  80: "Rain showers",
+  81: "Heavy rain showers",
+  82: "Violent rain showers",
+  95: "Thunderstorm",
+  96: "Thunderstorm with hail",
+  99: "Thunderstorm with heavy hail",
+};
+
+const OPEN_METEO_VARIABLES = "temperature_2m,relative_humidity_2m,precipitation,weather_code,wind_speed_10m,uv_index";
+
+/** Open-Meteo compatible API; OPEN_METEO_URL can point at a self-hosted instance */
+class OpenMeteoProvider implements WeatherProvider {
+  readonly name = "open-meteo";
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly airQualityUrl: string
+  ) {}
+
+  async current(latitude: number, longitude: number): Promise<WeatherReading> {
+    const params = new URLSearchParams({
+      latitude: String(latitude),
+      longitude: String(longitude),
+      current: OPEN_METEO_VARIABLES,
+    });
+    const weatherResponse = await fetch(`${this.baseUrl}/v1/forecast?${params}`);
+
+    if (!weatherResponse.ok) {
+      throw new Error(`Open-Meteo error ${weatherResponse.status}: ${await weatherResponse.text()}`);
+    }
+
+    const weather = await weatherResponse.json();
+    const current = weather.current ?? {};
+
+    return {
+      temperature_celsius: current.temperature_2m ?? null,
+      humidity_percentage: current.relative_humidity_2m ?? null,
+      weather_condition: wmoConditions[current.weather_code] ?? null,
+      air_quality_index: await this.airQuality(latitude, longitude),
+      uv_index: current.uv_index ?? null,
+      precipitation_mm: current.precipitation ?? null,
+      wind_speed_kmh: current.wind_speed_10m ?? null,
+      source: this.name,
+      // Gridded model output rather than a report for the exact point
+      data_quality: "estimated",
+      raw: weather,
+    };
+  }
+
+  // The forecast endpoint also serves recent past days, hour by hour in UTC
+  async historical(latitude: number, longitude: number, at: Date): Promise<WeatherReading> {
+    const day = at.toISOString().slice(0, 10);
+    const params = new URLSearchParams({
+      latitude: String(latitude),
+      longitude: String(longitude),
+      hourly: OPEN_METEO_VARIABLES,
+      start_date: day,
+      end_date: day,
+      timezone: "GMT",
+    });
+    const weatherResponse = await fetch(`${this.baseUrl}/v1/forecast?${params}`);
+
+    if (!weatherResponse.ok) {
+      throw new Error(`Open-Meteo error ${weatherResponse.status}: ${await weatherResponse.text()}`);
+    }
+
+    const weather = await weatherResponse.json();
+    const hourly = weather.hourly ?? {};
+    const index = (hourly.time ?? []).indexOf(at.toISOString().slice(0, 13) + ":00");
+    if (index < 0) {
+      throw new Error(`Open-Meteo has no hour covering ${at.toISOString()}`);
+    }
+
+    return {
+      temperature_celsius: hourly.temperature_2m?.[index] ?? null,
+      humidity_percentage: hourly.relative_humidity_2m?.[index] ?? null,
+      weather_condition: wmoConditions[hourly.weather_code?.[index]] ?? null,
+      air_quality_index: null,
+      uv_index: hourly.uv_index?.[index] ?? null,
+      precipitation_mm: hourly.precipitation?.[index] ?? null,
+      wind_speed_kmh: hourly.wind_speed_10m?.[index] ?? null,
+      source: this.name,
+      data_quality: "estimated",
+      raw: { time: hourly.time[index] },
+    };
+  }
+
+  async forecast(latitude: number, longitude: number, hours: number): Promise<ForecastHour[]> {
+    const params = new URLSearchParams({
+      latitude: String(latitude),
+      longitude: String(longitude),
+      hourly: "temperature_2m,precipitation,weather_code,wind_speed_10m",
+      forecast_hours: String(Math.min(hours, 384)),
+      timezone: "GMT",
+    });
+    const weatherResponse = await fetch(`${this.baseUrl}/v1/forecast?${params}`);
+
+    if (!weatherResponse.ok) {
+      throw new Error(`Open-Meteo error ${weatherResponse.status}: ${await weatherResponse.text()}`);
+    }
+
+    const hourly = (await weatherResponse.json()).hourly ?? {};
+    return (hourly.time ?? []).map((time: string, index: number) => ({
+      at: new Date(`${time}Z`).toISOString(),
+      temperature_celsius: hourly.temperature_2m?.[index] ?? null,
+      precipitation_mm: hourly.precipitation?.[index] ?? null,
+      wind_speed_kmh: hourly.wind_speed_10m?.[index] ?? null,
+      weather_condition: wmoConditions[hourly.weather_code?.[index]] ?? null,
+    }));
+  }
+
+  private async airQuality(latitude: number, longitude: number): Promise<number | null> {
+    try {
+      const params = new URLSearchParams({
+        latitude: String(latitude),
+        longitude: String(longitude),
+        current: "us_aqi",
+      });
+      const aqiResponse = await fetch(`${this.airQualityUrl}/v1/air-quality?${params}`);
+      if (!aqiResponse.ok) {
+        console.warn("Open-Meteo air quality error:", await aqiResponse.text());
+        return null;
+      }
+      const aqiResult = await aqiResponse.json();
+      return aqiResult.current?.us_aqi ?? null;
+    } catch (aqiError) {
+      console.warn("Failed to fetch air quality data:", aqiError);
+      return null;
+    }
+  }
+}
+
+const placeholderValues = {
+  temperature_celsius: 25,
+  humidity_percentage: 60,
+  weather_condition: "Unknown",
+  air_quality_index: 50,
+  uv_index: 5,
+  precipitation_mm: 0,
+  wind_speed_kmh: 10,
+};
+
+/** Fixed values for local development; WEATHER_FIXTURE (JSON) overrides any of them */
+class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = "fixture";
+
+  constructor(private readonly overrides: Partial<typeof placeholderValues>) {}
+
+  current(): Promise<WeatherReading> {
+    const values = { ...placeholderValues, ...this.overrides };
+    return Promise.resolve({ ...values, source: this.name, data_quality: "defaulted", raw: values });
+  }
+
+  historical(): Promise<WeatherReading> {
+    return this.current();
+  }
+
+  forecast(_latitude: number, _longitude: number, hours: number): Promise<ForecastHour[]> {
+    const values = { ...placeholderValues, ...this.overrides };
+    const firstHour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+    return Promise.resolve(
+      Array.from({ length: hours }, (_, i) => ({
+        at: new Date(firstHour + i * HOUR_MS).toISOString(),
+        temperature_celsius: values.temperature_celsius,
+        precipitation_mm: values.precipitation_mm,
+        wind_speed_kmh: values.wind_speed_kmh,
+        weather_condition: values.weather_condition,
+      }))
+    );
+  }
+}
+
+/** The provider named by WEATHER_PROVIDER. Throws when it is unknown or not configured. */
+export function getWeatherProvider(): WeatherProvider {
+  const name = Deno.env.get("WEATHER_PROVIDER") ?? "google";
+
+  switch (name) {
+    case "google": {
+      const apiKey = Deno.env.get("GOOGLE_API_KEY");
+      if (!apiKey) throw new Error("GOOGLE_API_KEY is not configured");
+      return new GoogleWeatherProvider(apiKey);
+    }
+    case "open-meteo":
+      return new OpenMeteoProvider(
+        Deno.env.get("OPEN_METEO_URL") ?? "https://api.open-meteo.com",
+        Deno.env.get("OPEN_METEO_AIR_QUALITY_URL") ?? "https://air-quality-api.open-meteo.com"
+      );
+    case "fixture":
+      return new FixtureWeatherProvider(JSON.parse(Deno.env.get("WEATHER_FIXTURE") ?? "{}"));
+    default:
+      throw new Error(`Unknown WEATHER_PROVIDER "${name}"`);
+  }
+}
+
+/** Current conditions from the provider, or null (logged) when it could not answer */
+export async function fetchCurrentWeather(
+  provider: WeatherProvider,
+  latitude: number,
+  longitude: number
+): Promise<WeatherReading | null> {
+  try {
+    return await provider.current(latitude, longitude);
+  } catch (error) {
+    console.error(`Weather fetch from ${provider.name} failed:`, error);
+    return null;
+  }
+}
+
+/** Placeholder stored when no provider answered, flagged so it is never mistaken for a reading */
+export function defaultedWeather(failedProvider: string): WeatherReading {
+  return {
+    ...placeholderValues,
+    source: "default",
+    data_quality: "defaulted",
+    raw: { failed_provider: failedProvider },
+  };
+}
+
+/** environmental_data columns for a reading */
+export function toEnvironmentalColumns(reading: WeatherReading) {
+  return {
+    temperature_celsius: reading.temperature_celsius,
+    humidity_percentage: reading.humidity_percentage,
+    weather_condition: reading.weather_condition,
+    air_quality_index: reading.air_quality_index,
+    uv_index: reading.uv_index,
+    precipitation_mm: reading.precipitation_mm,
+    wind_speed_kmh: reading.wind_speed_kmh,
+    source: reading.source,
+    data_quality: reading.data_quality,
+    raw_api_response: reading.raw,
+  };
+}
@@ -0,0 +1,263 @@
+// Pre-pickup weather risk: the forecast at the farm over the pickup window and at the
+// destination over the expected arrival, checked for heavy rain, heat the crop cannot
+// take and high winds.
+
+import { type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { computeRoute, distanceMeters, type LatLng } from "./routes.ts";
+import type { ForecastHour, WeatherProvider } from "./weather.ts";
+
+export type RiskLevel = "low" | "moderate" | "high";
+export type RiskKind = "heavy_rain" | "heat" | "high_wind";
+
+export interface WeatherRisk {
+  kind: RiskKind;
+  place: "farm" | "destination";
+  starts_at: string;
+  ends_at: string;
+  /** Worst hour of the span: mm/h for rain, °C for heat, km/h for wind */
+  peak: number;
+}
+
+export interface RiskAssessment {
+  risk_level: RiskLevel;
+  risks: WeatherRisk[];
+  pickup_window_start: string;
+  pickup_window_end: string;
+  destination_known: boolean;
+  recommendation: "earlier" | "later" | null;
+  recommended_pickup_at: string | null;
+  source: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const RISK_KINDS: RiskKind[] = ["heavy_rain", "heat", "high_wind"];
+
+const HEAVY_RAIN_MM_PER_HOUR = 7.6;
+const HIGH_WIND_KMH = 50;
+// Any of these, or a flagged span of three hours or more, makes the risk high
+const SEVERE_RAIN_MM_PER_HOUR = 15;
+const SEVERE_HEAT_MARGIN_CELSIUS = 5;
+const SEVERE_WIND_KMH = 75;
+const SEVERE_SPAN_HOURS = 3;
+
+// For crops outside the catalog
+const DEFAULT_HEAT_TOLERANCE_CELSIUS = 30;
+// Assumed until the farmer awards a quote with a pickup window of its own
+const DEFAULT_PICKUP_WINDOW_HOURS = 24;
+// Average road speed for a straight-line travel estimate when no route can be looked up
+const FALLBACK_SPEED_KMH = 50;
+// How far past the pickup window to look for a calmer pickup time
+const SEARCH_AHEAD_HOURS = 48;
+
+function hazardsAt(hour: ForecastHour, heatTolerance: number): Map<RiskKind, number> {
+  const hazards = new Map<RiskKind, number>();
+  if (hour.precipitation_mm !== null && hour.precipitation_mm >= HEAVY_RAIN_MM_PER_HOUR) {
+    hazards.set("heavy_rain", hour.precipitation_mm);
+  }
+  if (hour.temperature_celsius !== null && hour.temperature_celsius > heatTolerance) {
+    hazards.set("heat", hour.temperature_celsius);
+  }
+  if (hour.wind_speed_kmh !== null && hour.wind_speed_kmh >= HIGH_WIND_KMH) {
+    hazards.set("high_wind", hour.wind_speed_kmh);
+  }
+  return hazards;
+}
+
+function hourAt(hours: ForecastHour[], at: number): ForecastHour | undefined {
+  return hours.find((hour) => {
+    const start = new Date(hour.at).getTime();
+    return at >= start && at < start + HOUR_MS;
+  });
+}
+
+/** Consecutive flagged hours between from and to, one span per hazard */
+function flagSpans(
+  hours: ForecastHour[],
+  place: WeatherRisk["place"],
+  from: number,
+  to: number,
+  heatTolerance: number
+): WeatherRisk[] {
+  const spans: WeatherRisk[] = [];
+  const open = new Map<RiskKind, WeatherRisk>();
+
+  for (const hour of hours) {
+    const start = new Date(hour.at).getTime();
+    if (start + HOUR_MS <= from || start >= to) continue;
+
+    const hazards = hazardsAt(hour, heatTolerance);
+    const endsAt = new Date(start + HOUR_MS).toISOString();
+    for (const kind of RISK_KINDS) {
+      const value = hazards.get(kind);
+      const span = open.get(kind);
+      if (value === undefined) {
+        open.delete(kind);
+      } else if (span && span.ends_at === hour.at) {
+        span.ends_at = endsAt;
+        span.peak = Math.max(span.peak, value);
+      } else {
+        const next = { kind, place, starts_at: hour.at, ends_at: endsAt, peak: value };
+        spans.push(next);
+        open.set(kind, next);
+      }
+    }
+  }
+
+  return spans;
+}
+
+function riskLevel(risks: WeatherRisk[], heatTolerance: number): RiskLevel {
+  if (risks.length === 0) return "low";
+
+  const severe = risks.some(
+    (risk) =>
+      (new Date(risk.ends_at).getTime() - new Date(risk.starts_at).getTime()) / HOUR_MS >= SEVERE_SPAN_HOURS ||
+      (risk.kind === "heavy_rain" && risk.peak >= SEVERE_RAIN_MM_PER_HOUR) ||
+      (risk.kind === "heat" && risk.peak >= heatTolerance + SEVERE_HEAT_MARGIN_CELSIUS) ||
+      (risk.kind === "high_wind" && risk.peak >= SEVERE_WIND_KMH)
+  );
+  return severe ? "high" : "moderate";
+}
+
+/**
+ * The pickup time outside the window, nearest to it, with calm weather at the farm then and
+ * at the destination on arrival. Null when the forecast shows none.
+ */
+function recommendPickup(
+  farmHours: ForecastHour[],
+  destinationHours: ForecastHour[] | null,
+  windowStart: number,
+  windowEnd: number,
+  travelMs: number,
+  heatTolerance: number
+): Pick<RiskAssessment, "recommendation" | "recommended_pickup_at"> {
+  let best: { at: number; distance: number } | null = null;
+
+  for (const hour of farmHours) {
+    const at = new Date(hour.at).getTime();
+    if (at + HOUR_MS > windowStart && at < windowEnd) continue;
+    if (at + HOUR_MS <= Date.now()) continue;
+    if (hazardsAt(hour, heatTolerance).size > 0) continue;
+
+    // Past the end of the forecast there is nothing to say against arriving
+    const arrival = destinationHours && hourAt(destinationHours, at + travelMs);
+    if (arrival && hazardsAt(arrival, heatTolerance).size > 0) continue;
+
+    const distance = at < windowStart ? windowStart - at : at - windowEnd;
+    if (!best || distance < best.distance) best = { at: Math.max(at, Date.now()), distance };
+  }
+
+  if (!best) return { recommendation: null, recommended_pickup_at: null };
+  return {
+    recommendation: best.at < windowStart ? "earlier" : "later",
+    recommended_pickup_at: new Date(best.at).toISOString(),
+  };
+}
+
+async function travelTimeMs(origin: LatLng, destination: LatLng): Promise<number> {
+  const googleApiKey = Deno.env.get("GOOGLE_API_KEY");
+  if (googleApiKey) {
+    try {
+      return (await computeRoute(origin, destination, googleApiKey)).durationSeconds * 1000;
+    } catch (routeError) {
+      console.warn("Route lookup failed, estimating travel time from distance:", routeError);
+    }
+  }
+  return (distanceMeters(origin, destination) / 1000 / FALLBACK_SPEED_KMH) * HOUR_MS;
+}
+
+/**
+ * Checks the forecast for a batch still waiting for pickup and stores the result through
+ * record_weather_risk, which notifies participants when it has got worse. Returns null for
+ * batches already on the road or without farm coordinates.
+ */
+export async function checkBatchWeatherRisk(
+  admin: SupabaseClient,
+  provider: WeatherProvider,
+  batchId: string
+): Promise<RiskAssessment | null> {
+  const { data: batch, error: batchError } = await admin.from("batches").select("*").eq("id", batchId).maybeSingle();
+  if (batchError) throw new Error(batchError.message);
+  if (!batch || !["created", "assigned_transporter"].includes(batch.status)) return null;
+  if (batch.farm_gps_lat === null || batch.farm_gps_lng === null) return null;
+
+  const farm = { lat: Number(batch.farm_gps_lat), lng: Number(batch.farm_gps_lng) };
+
+  const { data: crop } = await admin
+    .from("crops")
+    .select("heat_tolerance_celsius")
+    .ilike("name", batch.crop_type)
+    .maybeSingle();
+  const heatTolerance = crop ? Number(crop.heat_tolerance_celsius) : DEFAULT_HEAT_TOLERANCE_CELSIUS;
+
+  const { data: quote } = await admin
+    .from("transport_quotes")
+    .select("pickup_window_start, pickup_window_end")
+    .eq("batch_id", batchId)
+    .eq("status", "awarded")
+    .order("decided_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  // The buyer's latest receiving point is the best guess at where this batch is going
+  let destination: LatLng | null = null;
+  if (batch.buyer_id) {
+    const { data: receipt } = await admin
+      .from("vendor_receipts")
+      .select("receipt_gps_lat, receipt_gps_lng")
+      .eq("vendor_id", batch.buyer_id)
+      .not("receipt_gps_lat", "is", null)
+      .not("receipt_gps_lng", "is", null)
+      .order("received_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (receipt) destination = { lat: Number(receipt.receipt_gps_lat), lng: Number(receipt.receipt_gps_lng) };
+  }
+
+  // An overdue pickup is checked from now on
+  const now = Date.now();
+  const windowStart = Math.max(quote ? new Date(quote.pickup_window_start).getTime() : now, now);
+  const windowEnd = Math.max(
+    quote ? new Date(quote.pickup_window_end).getTime() : now + DEFAULT_PICKUP_WINDOW_HOURS * HOUR_MS,
+    windowStart + HOUR_MS
+  );
+  const travelMs = destination ? await travelTimeMs(farm, destination) : 0;
+
+  const hours = Math.ceil((windowEnd + travelMs + SEARCH_AHEAD_HOURS * HOUR_MS - now) / HOUR_MS);
+  const farmHours = await provider.forecast(farm.lat, farm.lng, hours);
+  const destinationHours = destination ? await provider.forecast(destination.lat, destination.lng, hours) : null;
+
+  const risks = [
+    ...flagSpans(farmHours, "farm", windowStart, windowEnd, heatTolerance),
+    ...(destinationHours
+      ? flagSpans(destinationHours, "destination", windowStart + travelMs, windowEnd + travelMs, heatTolerance)
+      : []),
+  ].sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+
+  const assessment: RiskAssessment = {
+    risk_level: riskLevel(risks, heatTolerance),
+    risks,
+    pickup_window_start: new Date(windowStart).toISOString(),
+    pickup_window_end: new Date(windowEnd).toISOString(),
+    destination_known: destination !== null,
+    ...(risks.length > 0
+      ? recommendPickup(farmHours, destinationHours, windowStart, windowEnd, travelMs, heatTolerance)
+      : { recommendation: null, recommended_pickup_at: null }),
+    source: provider.name,
+  };
+
+  const { error: saveError } = await admin.rpc("record_weather_risk", {
+    _batch_id: batchId,
+    _risk_level: assessment.risk_level,
+    _risks: assessment.risks,
+    _pickup_window_start: assessment.pickup_window_start,
+    _pickup_window_end: assessment.pickup_window_end,
+    _destination_known: assessment.destination_known,
+    _recommendation: assessment.recommendation,
+    _recommended_pickup_at: assessment.recommended_pickup_at,
+    _source: assessment.source,
+  });
+  if (saveError) throw new Error(saveError.message);
+
+  return assessment;
+}
@@ -0,0 +1,201 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { getLlmProvider, LlmError, type ChatMessage, type ToolSpec } from "../_shared/llm.ts";
+import { completeValidated, StructuredOutputError } from "../_shared/structuredOutput.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PHOTO_BUCKET = "batch-photos";
+// Larger files are refused by most vision models anyway
+const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+
+const STAGE_DESCRIPTIONS: Record<string, string> = {
+  harvest: "at the farm, right after harvest",
+  pickup: "when the transporter loaded it",
+  receipt: "when the vendor received it",
+};
+
+const ASSESSMENT_SYSTEM_PROMPT = `You are a produce quality inspector grading a photo of a crop batch.
+Judge only what is visible in the photo. Estimate the share of the visible produce with defects
+(cuts, rot, mould, pest damage, cracks, discolouration), how bruised it is and how ripe it is.
+When the photo does not show the produce clearly, say so in the notes and keep the estimates cautious.`;
+
+const ASSESSMENT_TOOL: ToolSpec = {
+  name: "assess_produce_photo",
+  description: "Record what the photo shows about the produce's condition",
+  parameters: {
+    type: "object",
+    properties: {
+      defect_percentage: { type: "number", minimum: 0, maximum: 100 },
+      bruising: { type: "string", enum: ["none", "light", "moderate", "severe"] },
+      ripeness: { type: "string", enum: ["unripe", "turning", "ripe", "overripe"] },
+      notes: { type: "string", minLength: 1 },
+    },
+    required: ["defect_percentage", "bruising", "ripeness", "notes"],
+    additionalProperties: false,
+  },
+};
+
+// Enum answers in the wrong case ("Light") and numbers sent as strings are fixed up rather than retried
+function normalizeAssessment(answer: Record<string, unknown>): Record<string, unknown> {
+  const normalized = { ...answer };
+  if (typeof answer.bruising === "string") normalized.bruising = answer.bruising.trim().toLowerCase();
+  if (typeof answer.ripeness === "string") normalized.ripeness = answer.ripeness.trim().toLowerCase();
+  if (typeof answer.defect_percentage === "string") normalized.defect_percentage = Number(answer.defect_percentage);
+  return normalized;
+}
+
+// Asks a vision model what a batch photo shows: visible defects, bruising and ripeness.
+// The estimate is stored on the photo and becomes part of the batch analysis.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: authData, error: authError } = await supabase.auth.getClaims(token);
+    if (authError || !authData?.claims) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { photo_id } = await req.json();
+    if (!photo_id) {
+      return new Response(JSON.stringify({ error: "photo_id is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Read through the caller's client, so only participants get this far
+    const { data: photo } = await supabase.from("batch_photos").select("*").eq("id", photo_id).maybeSingle();
+    if (!photo) {
+      return new Response(JSON.stringify({ error: "Photo not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: batch } = await supabase.from("batches").select("crop_type").eq("id", photo.batch_id).single();
+
+    // Assessments are written with the service role; participants cannot edit them
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const markFailed = async (reason: string) => {
+      await admin
+        .from("batch_photos")
+        .update({ assessment_status: "failed", assessment_notes: reason, assessed_at: new Date().toISOString() })
+        .eq("id", photo_id);
+    };
+
+    const { data: file, error: downloadError } = await admin.storage.from(PHOTO_BUCKET).download(photo.storage_path);
+    if (downloadError || !file) {
+      console.error("Error downloading photo:", downloadError);
+      await markFailed("The photo file could not be read.");
+      return new Response(JSON.stringify({ error: "Photo file not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (file.size > MAX_PHOTO_BYTES) {
+      await markFailed("The photo is too large to assess.");
+      return new Response(JSON.stringify({ error: "Photo is too large to assess" }), {
+        status: 413,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const base64 = encodeBase64(new Uint8Array(await file.arrayBuffer()));
+    const dataUrl = `data:${file.type || "image/jpeg"};base64,${base64}`;
+    const llm = getLlmProvider();
+    const messages: ChatMessage[] = [
+      { role: "system", content: ASSESSMENT_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `This photo shows a batch of ${batch?.crop_type ?? "produce"}, taken ${
+              STAGE_DESCRIPTIONS[photo.stage] ?? photo.stage
+            }. Assess its condition.`,
+          },
+          { type: "image_url", image_url: { url: dataUrl } },
+        ],
+      },
+    ];
+
+    // Only answers that fit the columns' CHECK constraints get as far as the update
+    let assessment;
+    try {
+      ({ value: assessment } = await completeValidated(llm, messages, ASSESSMENT_TOOL, {
+        normalize: normalizeAssessment,
+      }));
+    } catch (llmError) {
+      if (llmError instanceof LlmError) {
+        await markFailed(llmError.message);
+        return new Response(JSON.stringify({ error: llmError.message }), {
+          status: llmError.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      if (llmError instanceof StructuredOutputError) {
+        await markFailed("The model did not return a usable assessment.");
+        return new Response(JSON.stringify({ error: "Assessment failed, please try again." }), {
+          status: 502,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      throw llmError;
+    }
+
+    const { data: saved, error: saveError } = await admin
+      .from("batch_photos")
+      .update({
+        assessment_status: "assessed",
+        defect_percentage: assessment.defect_percentage,
+        bruising: assessment.bruising,
+        ripeness: assessment.ripeness,
+        assessment_notes: assessment.notes,
+        assessment_model: llm.model,
+        assessed_at: new Date().toISOString(),
+      })
+      .eq("id", photo_id)
+      .select()
+      .single();
+    if (saveError) {
+      console.error("Error saving assessment:", saveError);
+      await markFailed("The assessment could not be saved.");
+      throw new Error(saveError.message);
+    }
+
+    return new Response(JSON.stringify({ success: true, photo: saved }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("assess-photo error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,196 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getWeatherProvider, toEnvironmentalColumns } from "../_shared/weather.ts";
+import { computeRoute, decodePolyline, pointAlong, pointAtTime, type LatLng } from "../_shared/routes.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// A very long leg is sampled less often rather than making hundreds of weather calls
+const MAX_SAMPLES = 48;
+
+type PositionSource = "breadcrumbs" | "route" | "straight_line";
+
+// Fills in the hours between pickup and drop of a finished leg with historical weather
+// at where the batch was at each moment, stored as estimated "transit" readings.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Row-level security limits the legs, breadcrumbs and inserts to batch participants
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: authData, error: authError } = await supabase.auth.getClaims(token);
+    if (authError || !authData?.claims) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { transport_log_id } = await req.json();
+    if (!transport_log_id) {
+      return new Response(JSON.stringify({ error: "transport_log_id is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: leg } = await supabase.from("transport_logs").select("*").eq("id", transport_log_id).maybeSingle();
+    if (!leg) {
+      return new Response(JSON.stringify({ error: "Transport leg not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!leg.pickup_time || !leg.drop_time) {
+      return new Response(JSON.stringify({ error: "The leg has not been dropped off yet" }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const start = new Date(leg.pickup_time).getTime();
+    const end = new Date(leg.drop_time).getTime();
+    const intervalMs = Math.max(
+      Number(Deno.env.get("ROUTE_WEATHER_INTERVAL_MINUTES") ?? 60) * 60_000,
+      (end - start) / MAX_SAMPLES
+    );
+
+    // Pickup and drop already have readings of their own
+    const sampleTimes: number[] = [];
+    for (let at = start + intervalMs; at < end; at += intervalMs) {
+      sampleTimes.push(at);
+    }
+
+    if (sampleTimes.length === 0) {
+      return new Response(JSON.stringify({ samples: 0, inserted: 0, failed: 0 }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Prefer where the truck actually was; otherwise assume steady progress along the planned route
+    const { data: breadcrumbs } = await supabase
+      .from("transport_breadcrumbs")
+      .select("recorded_at, gps_lat, gps_lng")
+      .eq("batch_id", leg.batch_id)
+      .eq("transporter_id", leg.transporter_id)
+      .gte("recorded_at", leg.pickup_time)
+      .lte("recorded_at", leg.drop_time)
+      .order("recorded_at", { ascending: true });
+
+    let positionSource: PositionSource;
+    let positionAt: (at: number) => LatLng;
+
+    if (breadcrumbs && breadcrumbs.length >= 2) {
+      const trail = breadcrumbs.map((b) => ({
+        lat: Number(b.gps_lat),
+        lng: Number(b.gps_lng),
+        at: new Date(b.recorded_at).getTime(),
+      }));
+      positionSource = "breadcrumbs";
+      positionAt = (at) => pointAtTime(trail, at);
+    } else {
+      if (leg.pickup_gps_lat === null || leg.pickup_gps_lng === null || leg.drop_gps_lat === null || leg.drop_gps_lng === null) {
+        return new Response(
+          JSON.stringify({ error: "The leg has neither a breadcrumb trail nor pickup and drop coordinates" }),
+          { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const origin = { lat: Number(leg.pickup_gps_lat), lng: Number(leg.pickup_gps_lng) };
+      const destination = { lat: Number(leg.drop_gps_lat), lng: Number(leg.drop_gps_lng) };
+      let path = [origin, destination];
+      positionSource = "straight_line";
+
+      const googleApiKey = Deno.env.get("GOOGLE_API_KEY");
+      if (googleApiKey) {
+        try {
+          const route = await computeRoute(origin, destination, googleApiKey);
+          if (route.encodedPolyline) {
+            path = decodePolyline(route.encodedPolyline);
+            positionSource = "route";
+          }
+        } catch (routeError) {
+          console.warn("Route lookup failed, sampling the straight line instead:", routeError);
+        }
+      }
+
+      positionAt = (at) => pointAlong(path, (at - start) / (end - start));
+    }
+
+    const provider = getWeatherProvider();
+    const rows = [];
+    let failed = 0;
+
+    for (const at of sampleTimes) {
+      const position = positionAt(at);
+      try {
+        const reading = await provider.historical(position.lat, position.lng, new Date(at));
+        rows.push({
+          batch_id: leg.batch_id,
+          transport_log_id: leg.id,
+          stage: "transit",
+          gps_lat: position.lat,
+          gps_lng: position.lng,
+          ...toEnvironmentalColumns(reading),
+          // The position is itself an estimate, so nothing sampled here counts as measured
+          data_quality: reading.data_quality === "measured" ? "estimated" : reading.data_quality,
+          raw_api_response: { ...reading.raw, position_source: positionSource },
+          recorded_at: new Date(at).toISOString(),
+        });
+      } catch (weatherError) {
+        console.warn(`No historical weather for ${new Date(at).toISOString()}:`, weatherError);
+        failed++;
+      }
+    }
+
+    // Re-running for the same leg keeps the rows it already stored
+    const { data: saved, error: saveError } = await supabase
+      .from("environmental_data")
+      .upsert(rows, { onConflict: "transport_log_id,recorded_at", ignoreDuplicates: true })
+      .select("id");
+
+    if (saveError) {
+      console.error("Error saving route weather:", saveError);
+      return new Response(JSON.stringify({ error: "Failed to save route weather" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        samples: sampleTimes.length,
+        inserted: saved?.length ?? 0,
+        failed,
+        position_source: positionSource,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("backfill-route-weather error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
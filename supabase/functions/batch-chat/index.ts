@@ -0,0 +1,228 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getLlmProvider, LlmError, type ChatMessage } from "../_shared/llm.ts";
+import { buildAnalysisPrompt, loadAnalysisContext, scoreAnalysisContext } from "../_shared/analysisContext.ts";
+import { isLanguage, LANGUAGE_NAMES, type Language } from "../_shared/languages.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_QUESTION_LENGTH = 2000;
+// Earlier turns of the thread sent back to the model with each question
+const HISTORY_LIMIT = 20;
+
+const CHAT_SYSTEM_PROMPT = `You are the agricultural expert who analyzed this crop batch,
+answering follow-up questions about your analysis. Answer only from the batch data and the analysis below.
+When the data cannot settle a question, say so plainly instead of guessing.
+Explain your reasoning by pointing at specific readings, times and scores.
+Keep answers short and in simple, farmer-friendly language.`;
+
+// Answers a participant's question about a batch's latest analysis, streamed back as
+// server-sent events ({"delta": "..."} per piece, then [DONE]). Each participant has
+// their own thread; the question and the finished reply are both stored in it.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: authData, error: authError } = await supabase.auth.getClaims(token);
+    const userId = authData?.claims?.sub;
+    if (authError || !userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { batch_id, message } = await req.json();
+    const question = typeof message === "string" ? message.trim() : "";
+    if (!batch_id || !question) {
+      return new Response(JSON.stringify({ error: "batch_id and message are required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `Questions are limited to ${MAX_QUESTION_LENGTH} characters` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Read through the caller's client, so only participants get this far
+    const context = await loadAnalysisContext(supabase, batch_id);
+    if (!context) {
+      return new Response(JSON.stringify({ error: "Batch not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: analysis } = await supabase
+      .from("ai_analysis")
+      .select("*")
+      .eq("batch_id", batch_id)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (!analysis) {
+      return new Response(JSON.stringify({ error: "Run an analysis before asking about it" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: roleRow } = await supabase.from("user_roles").select("role").eq("user_id", userId).maybeSingle();
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("preferred_language")
+      .eq("id", userId)
+      .maybeSingle();
+    const language = isLanguage(profile?.preferred_language) ? profile.preferred_language : "en";
+
+    const { data: history } = await supabase
+      .from("batch_chat_messages")
+      .select("role, content")
+      .eq("batch_id", batch_id)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(HISTORY_LIMIT);
+
+    const llm = getLlmProvider();
+    const messages: ChatMessage[] = [
+      { role: "system", content: CHAT_SYSTEM_PROMPT },
+      {
+        role: "system",
+        content: buildChatContext(
+          buildAnalysisPrompt(context, scoreAnalysisContext(context)),
+          analysis,
+          roleRow?.role,
+          language
+        ),
+      },
+      ...(history ?? []).reverse().map((m) => ({ role: m.role as ChatMessage["role"], content: m.content })),
+      { role: "user", content: question },
+    ];
+
+    // Start the reply before answering, so a refusal from the provider still gets a proper status
+    const pieces = llm.stream(messages)[Symbol.asyncIterator]();
+    let first: IteratorResult<string>;
+    try {
+      first = await pieces.next();
+    } catch (llmError) {
+      if (llmError instanceof LlmError) {
+        return new Response(JSON.stringify({ error: llmError.message }), {
+          status: llmError.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      throw llmError;
+    }
+
+    // Kept only once the model has started answering, so a refused question can simply be asked again
+    const { error: questionError } = await supabase
+      .from("batch_chat_messages")
+      .insert({ batch_id, user_id: userId, role: "user", content: question });
+    if (questionError) throw new Error(questionError.message);
+
+    // Replies go in with the service role; participants may only add their own questions
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (data: string) => controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+        let reply = "";
+        try {
+          for (let piece = first; !piece.done; piece = await pieces.next()) {
+            reply += piece.value;
+            send(JSON.stringify({ delta: piece.value }));
+          }
+        } catch (streamError) {
+          console.error("batch-chat stream error:", streamError);
+          send(JSON.stringify({ error: "The reply was cut off, please ask again." }));
+        }
+
+        if (reply) {
+          const { error: replyError } = await admin.from("batch_chat_messages").insert({
+            batch_id,
+            user_id: userId,
+            role: "assistant",
+            content: reply,
+            provider: llm.name,
+            model: llm.model,
+          });
+          if (replyError) console.error("Error saving chat reply:", replyError);
+        }
+
+        send("[DONE]");
+        controller.close();
+      },
+    });
+
+    return new Response(body, {
+      headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
+  } catch (error) {
+    console.error("batch-chat error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
+
+interface AnalysisRecord {
+  version: number;
+  degradation_point: string | null;
+  environmental_impact: string | null;
+  confidence_level: string | null;
+  confidence_score: number | null;
+  farmer_suggestions: string | null;
+  transporter_suggestions: string | null;
+  vendor_suggestions: string | null;
+}
+
+function buildChatContext(
+  analysisPrompt: string,
+  analysis: AnalysisRecord,
+  role: string | undefined,
+  language: Language
+): string {
+  let context = `## BATCH DATA YOUR ANALYSIS WAS BASED ON\n\n${analysisPrompt}\n`;
+
+  context += `\n## YOUR ANALYSIS (version ${analysis.version})\n`;
+  if (analysis.degradation_point) context += `- Degradation point: ${analysis.degradation_point}\n`;
+  if (analysis.environmental_impact) context += `- Environmental impact: ${analysis.environmental_impact}\n`;
+  if (analysis.confidence_level) {
+    const score = analysis.confidence_score !== null ? ` (${analysis.confidence_score}/100)` : "";
+    context += `- Confidence: ${analysis.confidence_level}${score}\n`;
+  }
+  if (analysis.farmer_suggestions) context += `- For the farmer: ${analysis.farmer_suggestions}\n`;
+  if (analysis.transporter_suggestions) context += `- For the transporter: ${analysis.transporter_suggestions}\n`;
+  if (analysis.vendor_suggestions) context += `- For the vendor: ${analysis.vendor_suggestions}\n`;
+
+  // Advice lands better when it is about what the asker controls
+  if (role) context += `\nYou are talking to the ${role} of this batch.\n`;
+  if (language !== "en") context += `Answer in ${LANGUAGE_NAMES[language]}, whatever language the data above is in.\n`;
+
+  return context;
+}
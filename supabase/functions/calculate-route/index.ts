@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { computeRoute, RouteError, type Route } from "../_shared/routes.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -28,63 +29,18 @@ serve(async (req) => {
       );
     }
 
-    // Use Google Routes API
-    const routesUrl = 'https://routes.googleapis.com/directions/v2:computeRoutes';
-    
-    const requestBody = {
-      origin: {
-        location: {
-          latLng: {
-            latitude: origin.lat,
-            longitude: origin.lng
-          }
-        }
-      },
-      destination: {
-        location: {
-          latLng: {
-            latitude: destination.lat,
-            longitude: destination.lng
-          }
-        }
-      },
-      travelMode: "DRIVE",
-      routingPreference: "TRAFFIC_AWARE",
-      computeAlternativeRoutes: false,
-      languageCode: "en-US",
-      units: "METRIC"
-    };
-
-    const response = await fetch(routesUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Goog-Api-Key': googleApiKey,
-        'X-Goog-FieldMask': 'routes.duration,routes.distanceMeters,routes.polyline.encodedPolyline'
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      console.error('Google Routes API error:', data);
-      return new Response(
-        JSON.stringify({ error: data.error?.message || 'Failed to calculate route' }),
-        { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    if (!data.routes || data.routes.length === 0) {
+    let route: Route;
+    try {
+      route = await computeRoute(origin, destination, googleApiKey);
+    } catch (error) {
+      if (!(error instanceof RouteError)) throw error;
       return new Response(
-        JSON.stringify({ error: 'No route found between the specified locations' }),
-        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const route = data.routes[0];
-    const distanceMeters = route.distanceMeters;
-    const durationSeconds = parseInt(route.duration.replace('s', ''));
+    const { distanceMeters, durationSeconds } = route;
 
     // Convert to readable format
     const distanceKm = (distanceMeters / 1000).toFixed(2);
@@ -104,7 +60,7 @@ serve(async (req) => {
         distanceKm: parseFloat(distanceKm),
         durationSeconds,
         durationText,
-        encodedPolyline: route.polyline?.encodedPolyline
+        encodedPolyline: route.encodedPolyline
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
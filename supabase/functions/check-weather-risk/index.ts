@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getWeatherProvider } from "../_shared/weather.ts";
+import { checkBatchWeatherRisk, type RiskAssessment } from "../_shared/weatherRisk.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Re-checks the pickup forecast for one batch, on behalf of a participant. Called with the
+// service role key and no batch_id, it re-checks every batch still waiting for pickup, which is
+// how worsening forecasts reach farmers and transporters. The hourly pg_cron job that does so
+// needs the project_url and service_role_key Vault secrets; see its migration.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const url = Deno.env.get("SUPABASE_URL")!;
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const token = authHeader.replace("Bearer ", "");
+
+    // Service client for reading other users' receipts and recording the result
+    const admin = createClient(url, serviceKey);
+    const { batch_id } = await req.json().catch(() => ({}));
+
+    let batchIds: string[];
+    if (token === serviceKey) {
+      if (batch_id) {
+        batchIds = [batch_id];
+      } else {
+        const { data: waiting, error: waitingError } = await admin
+          .from("batches")
+          .select("id")
+          .in("status", ["created", "assigned_transporter"])
+          .not("farm_gps_lat", "is", null);
+        if (waitingError) throw new Error(waitingError.message);
+        batchIds = (waiting ?? []).map((b) => b.id);
+      }
+    } else {
+      const userClient = createClient(url, anonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+
+      const { data: claimsData, error: claimsError } = await userClient.auth.getClaims(token);
+      const userId = claimsData?.claims?.sub;
+      if (claimsError || !userId) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      if (!batch_id) {
+        return new Response(JSON.stringify({ error: "batch_id is required" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const { data: isParticipant } = await admin.rpc("is_batch_participant", {
+        _batch_id: batch_id,
+        _user_id: userId,
+      });
+      if (!isParticipant) {
+        return new Response(JSON.stringify({ error: "Only participants in this batch can check its forecast" }), {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      batchIds = [batch_id];
+    }
+
+    const provider = getWeatherProvider();
+    const results: { batch_id: string; assessment: RiskAssessment | null }[] = [];
+    let failed = 0;
+
+    for (const id of batchIds) {
+      try {
+        results.push({ batch_id: id, assessment: await checkBatchWeatherRisk(admin, provider, id) });
+      } catch (checkError) {
+        // One batch's forecast failing should not stop the sweep
+        if (batchIds.length === 1) throw checkError;
+        console.warn(`Weather risk check failed for batch ${id}:`, checkError);
+        failed++;
+      }
+    }
+
+    return new Response(JSON.stringify({ checked: results.length, failed, results }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("check-weather-risk error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,5 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  fetchCurrentWeather,
+  getWeatherProvider,
+  toEnvironmentalColumns,
+  type WeatherProvider,
+  type WeatherReading,
+} from "../_shared/weather.ts";
+import { checkBatchWeatherRisk, type RiskAssessment } from "../_shared/weatherRisk.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,86 +25,11 @@ type CreateBatchPayload = {
   notes?: string | null;
 };
 
-interface WeatherData {
-  temperature_celsius: number;
-  humidity_percentage: number;
-  weather_condition: string;
-  air_quality_index: number | null;
-  uv_index: number;
-  precipitation_mm: number;
-  wind_speed_kmh: number;
-}
-
-async function fetchWeatherData(latitude: number, longitude: number): Promise<WeatherData | null> {
-  const GOOGLE_API_KEY = Deno.env.get("GOOGLE_API_KEY");
-  if (!GOOGLE_API_KEY) {
-    console.warn("GOOGLE_API_KEY not configured, skipping weather fetch");
-    return null;
-  }
-
+function configuredWeatherProvider(): WeatherProvider | null {
   try {
-    // Fetch current weather conditions from Google Weather API
-    const weatherUrl = `https://weather.googleapis.com/v1/currentConditions:lookup?key=${GOOGLE_API_KEY}`;
-    const weatherResponse = await fetch(weatherUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: { latitude, longitude },
-      }),
-    });
-
-    let envData: WeatherData;
-
-    if (weatherResponse.ok) {
-      const weatherResult = await weatherResponse.json();
-      console.log("Google Weather API response:", JSON.stringify(weatherResult));
-
-      envData = {
-        temperature_celsius: weatherResult.temperature?.degrees ?? 25,
-        humidity_percentage: weatherResult.relativeHumidity ?? 60,
-        weather_condition: weatherResult.weatherCondition?.description?.text || 
-                          weatherResult.weatherCondition?.type?.replace(/_/g, " ") || 
-                          "Unknown",
-        air_quality_index: null,
-        uv_index: weatherResult.uvIndex ?? 5,
-        precipitation_mm: weatherResult.precipitation?.qpf?.millimeters ?? 0,
-        wind_speed_kmh: weatherResult.wind?.speed?.value 
-          ? (weatherResult.wind.speed.unit === "KILOMETERS_PER_HOUR" 
-              ? weatherResult.wind.speed.value 
-              : weatherResult.wind.speed.value * 3.6)
-          : 10,
-      };
-
-      // Fetch Air Quality data
-      try {
-        const aqiUrl = `https://airquality.googleapis.com/v1/currentConditions:lookup?key=${GOOGLE_API_KEY}`;
-        const aqiResponse = await fetch(aqiUrl, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: { latitude, longitude },
-          }),
-        });
-
-        if (aqiResponse.ok) {
-          const aqiResult = await aqiResponse.json();
-          const aqiIndex = aqiResult.indexes?.find((idx: any) => idx.code === "uaqi") 
-                          || aqiResult.indexes?.[0];
-          if (aqiIndex?.aqi) {
-            envData.air_quality_index = aqiIndex.aqi;
-          }
-        }
-      } catch (aqiError) {
-        console.warn("Failed to fetch air quality data:", aqiError);
-      }
-
-      return envData;
-    } else {
-      console.error("Google Weather API error:", weatherResponse.status, await weatherResponse.text());
-      return null;
-    }
+    return getWeatherProvider();
   } catch (error) {
-    console.error("Weather fetch error:", error);
+    console.warn("Weather provider not configured, skipping weather fetch:", error);
     return null;
   }
 }
@@ -193,9 +126,11 @@ serve(async (req) => {
     }
 
     // Automatically fetch and store weather data at harvest location
-    let weatherData: WeatherData | null = null;
-    if (body.farm_gps_lat && body.farm_gps_lng) {
-      weatherData = await fetchWeatherData(body.farm_gps_lat, body.farm_gps_lng);
+    let weatherData: WeatherReading | null = null;
+    let weatherRisk: RiskAssessment | null = null;
+    const provider = configuredWeatherProvider();
+    if (provider && body.farm_gps_lat && body.farm_gps_lng) {
+      weatherData = await fetchCurrentWeather(provider, body.farm_gps_lat, body.farm_gps_lng);
       
       if (weatherData) {
         const { error: envError } = await admin
@@ -205,14 +140,7 @@ serve(async (req) => {
             stage: "harvest",
             gps_lat: body.farm_gps_lat,
             gps_lng: body.farm_gps_lng,
-            temperature_celsius: weatherData.temperature_celsius,
-            humidity_percentage: weatherData.humidity_percentage,
-            weather_condition: weatherData.weather_condition,
-            air_quality_index: weatherData.air_quality_index,
-            uv_index: weatherData.uv_index,
-            precipitation_mm: weatherData.precipitation_mm,
-            wind_speed_kmh: weatherData.wind_speed_kmh,
-            raw_api_response: weatherData,
+            ...toEnvironmentalColumns(weatherData),
             recorded_at: new Date().toISOString(),
           });
 
@@ -223,9 +151,16 @@ serve(async (req) => {
           console.log("Environmental data saved for batch:", created.id);
         }
       }
+
+      // First look at the forecast until pickup; later checks come from check-weather-risk
+      try {
+        weatherRisk = await checkBatchWeatherRisk(admin, provider, created.id);
+      } catch (riskError) {
+        console.error("Failed to check weather risk:", riskError);
+      }
     }
 
-    return new Response(JSON.stringify({ ...created, weather: weatherData }), {
+    return new Response(JSON.stringify({ ...created, weather: weatherData, weather_risk: weatherRisk }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
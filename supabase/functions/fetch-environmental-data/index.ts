@@ -1,21 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { defaultedWeather, fetchCurrentWeather, getWeatherProvider, toEnvironmentalColumns } from "../_shared/weather.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface WeatherData {
-  temperature_celsius: number;
-  humidity_percentage: number;
-  weather_condition: string;
-  air_quality_index: number | null;
-  uv_index: number;
-  precipitation_mm: number;
-  wind_speed_kmh: number;
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -54,92 +45,11 @@ serve(async (req) => {
       );
     }
 
-    const GOOGLE_API_KEY = Deno.env.get("GOOGLE_API_KEY");
-    if (!GOOGLE_API_KEY) {
-      throw new Error("GOOGLE_API_KEY is not configured");
-    }
-
-    // Fetch current weather conditions from Google Weather API
-    const weatherUrl = `https://weather.googleapis.com/v1/currentConditions:lookup?key=${GOOGLE_API_KEY}`;
-    const weatherResponse = await fetch(weatherUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: {
-          latitude: latitude,
-          longitude: longitude,
-        },
-      }),
-    });
-
-    let envData: WeatherData;
+    const provider = getWeatherProvider();
 
-    if (weatherResponse.ok) {
-      const weatherResult = await weatherResponse.json();
-      console.log("Google Weather API response:", JSON.stringify(weatherResult));
-
-      // Extract data from Google Weather API response
-      envData = {
-        temperature_celsius: weatherResult.temperature?.degrees ?? 25,
-        humidity_percentage: weatherResult.relativeHumidity ?? 60,
-        weather_condition: weatherResult.weatherCondition?.description?.text || 
-                          weatherResult.weatherCondition?.type?.replace(/_/g, " ") || 
-                          "Unknown",
-        air_quality_index: null, // Will fetch separately from Air Quality API
-        uv_index: weatherResult.uvIndex ?? 5,
-        precipitation_mm: weatherResult.precipitation?.qpf?.millimeters ?? 0,
-        wind_speed_kmh: weatherResult.wind?.speed?.value 
-          ? (weatherResult.wind.speed.unit === "KILOMETERS_PER_HOUR" 
-              ? weatherResult.wind.speed.value 
-              : weatherResult.wind.speed.value * 3.6) // Convert m/s to km/h if needed
-          : 10,
-      };
-
-      // Fetch Air Quality data from Google Air Quality API
-      try {
-        const aqiUrl = `https://airquality.googleapis.com/v1/currentConditions:lookup?key=${GOOGLE_API_KEY}`;
-        const aqiResponse = await fetch(aqiUrl, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: {
-              latitude: latitude,
-              longitude: longitude,
-            },
-          }),
-        });
-
-        if (aqiResponse.ok) {
-          const aqiResult = await aqiResponse.json();
-          console.log("Google Air Quality API response:", JSON.stringify(aqiResult));
-          
-          // Get the universal AQI or first available index
-          const aqiIndex = aqiResult.indexes?.find((idx: any) => idx.code === "uaqi") 
-                          || aqiResult.indexes?.[0];
-          if (aqiIndex?.aqi) {
-            envData.air_quality_index = aqiIndex.aqi;
-          }
-        } else {
-          console.warn("Air Quality API error:", await aqiResponse.text());
-        }
-      } catch (aqiError) {
-        console.warn("Failed to fetch air quality data:", aqiError);
-      }
-    } else {
-      const errorText = await weatherResponse.text();
-      console.error("Google Weather API error:", weatherResponse.status, errorText);
-      
-      // Fallback to estimated data if API fails
-      envData = {
-        temperature_celsius: 25,
-        humidity_percentage: 60,
-        weather_condition: "Unknown",
-        air_quality_index: 50,
-        uv_index: 5,
-        precipitation_mm: 0,
-        wind_speed_kmh: 10,
-      };
-    }
+    // A placeholder is still stored so the stage has a row, but flagged so nothing mistakes it for weather
+    const reading =
+      (await fetchCurrentWeather(provider, latitude, longitude)) ?? defaultedWeather(provider.name);
 
     // Save environmental data to database
     const { data: savedData, error: saveError } = await supabase
@@ -149,14 +59,7 @@ serve(async (req) => {
         stage,
         gps_lat: latitude,
         gps_lng: longitude,
-        temperature_celsius: envData.temperature_celsius,
-        humidity_percentage: envData.humidity_percentage,
-        weather_condition: envData.weather_condition,
-        air_quality_index: envData.air_quality_index,
-        uv_index: envData.uv_index,
-        precipitation_mm: envData.precipitation_mm,
-        wind_speed_kmh: envData.wind_speed_kmh,
-        raw_api_response: envData,
+        ...toEnvironmentalColumns(reading),
         recorded_at: new Date().toISOString(),
       })
       .select()
@@ -0,0 +1,269 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-device-serial, x-vehicle-info, x-batch-id",
+};
+
+// Keeps a single upload inside one request's time and memory budget
+const MAX_READINGS = 5000;
+
+type JsonPayload = {
+  device_serial: string;
+  device_label?: string | null;
+  vehicle_info?: string | null;
+  batch_id?: string | null;
+  readings: RawReading[];
+};
+
+type RawReading = {
+  recorded_at?: unknown;
+  temperature_celsius?: unknown;
+  humidity_percentage?: unknown;
+};
+
+interface Reading {
+  recorded_at: string;
+  temperature_celsius: number;
+  humidity_percentage: number | null;
+}
+
+// Column names used by the common logger exports
+const csvColumns: Record<keyof RawReading, string[]> = {
+  recorded_at: ["recorded_at", "timestamp", "time", "datetime", "date_time"],
+  temperature_celsius: ["temperature_celsius", "temperature", "temp", "temp_c"],
+  humidity_percentage: ["humidity_percentage", "humidity", "rh"],
+};
+
+function parseCsv(text: string): RawReading[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(",").map((h) => h.trim().toLowerCase().replace(/[^a-z_]/g, ""));
+  const indexOf = (field: keyof RawReading) => header.findIndex((h) => csvColumns[field].includes(h));
+  const timeIndex = indexOf("recorded_at");
+  const tempIndex = indexOf("temperature_celsius");
+  const humidityIndex = indexOf("humidity_percentage");
+
+  if (timeIndex === -1 || tempIndex === -1) {
+    throw new Error("CSV needs a timestamp column and a temperature column");
+  }
+
+  return lines.slice(1).map((line) => {
+    const cells = line.split(",").map((c) => c.trim());
+    return {
+      recorded_at: cells[timeIndex],
+      temperature_celsius: cells[tempIndex],
+      humidity_percentage: humidityIndex === -1 ? undefined : cells[humidityIndex],
+    };
+  });
+}
+
+function normalizeReading(raw: RawReading): Reading | null {
+  const time = new Date(String(raw.recorded_at ?? ""));
+  const temperature = Number(raw.temperature_celsius);
+  const humidity =
+    raw.humidity_percentage === undefined || raw.humidity_percentage === null || raw.humidity_percentage === ""
+      ? null
+      : Number(raw.humidity_percentage);
+
+  if (isNaN(time.getTime()) || time.getTime() > Date.now() + 5 * 60_000) return null;
+  if (raw.temperature_celsius === "" || !Number.isFinite(temperature) || temperature < -60 || temperature > 80) return null;
+  if (humidity !== null && (!Number.isFinite(humidity) || humidity < 0 || humidity > 100)) return null;
+
+  return { recorded_at: time.toISOString(), temperature_celsius: temperature, humidity_percentage: humidity };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const url = Deno.env.get("SUPABASE_URL")!;
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const userClient = createClient(url, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: claimsData, error: claimsError } = await userClient.auth.getClaims(token);
+    const userId = claimsData?.claims?.sub;
+
+    if (claimsError || !userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Service client for privileged DB actions (RLS bypass), with explicit authorization checks below.
+    const admin = createClient(url, serviceKey);
+
+    const { data: roleRow } = await admin.from("user_roles").select("role").eq("user_id", userId).maybeSingle();
+    if (roleRow?.role !== "transporter") {
+      return new Response(JSON.stringify({ error: "Only transporters can upload logger readings" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // JSON bodies carry their own metadata; CSV uploads pass it in headers
+    let payload: JsonPayload;
+    const contentType = req.headers.get("Content-Type") ?? "";
+    try {
+      if (contentType.includes("text/csv")) {
+        payload = {
+          device_serial: req.headers.get("x-device-serial") ?? "",
+          vehicle_info: req.headers.get("x-vehicle-info"),
+          batch_id: req.headers.get("x-batch-id"),
+          readings: parseCsv(await req.text()),
+        };
+      } else {
+        payload = (await req.json()) as JsonPayload;
+      }
+    } catch (parseError) {
+      return new Response(
+        JSON.stringify({ error: parseError instanceof Error ? parseError.message : "Could not parse upload" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const serial = payload?.device_serial?.trim();
+    if (!serial || !Array.isArray(payload.readings) || payload.readings.length === 0) {
+      return new Response(JSON.stringify({ error: "device_serial and at least one reading are required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (payload.readings.length > MAX_READINGS) {
+      return new Response(JSON.stringify({ error: `Upload at most ${MAX_READINGS} readings at a time` }), {
+        status: 413,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // A batch named in the upload must be one this transporter has carried
+    const batchId = payload.batch_id || null;
+    if (batchId) {
+      const { data: leg } = await admin
+        .from("transport_logs")
+        .select("id")
+        .eq("batch_id", batchId)
+        .eq("transporter_id", userId)
+        .limit(1)
+        .maybeSingle();
+
+      if (!leg) {
+        return new Response(JSON.stringify({ error: "You have not carried this batch" }), {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    // Unknown serials are registered to the uploader on first use
+    let { data: device } = await admin.from("sensor_devices").select("*").eq("serial_number", serial).maybeSingle();
+
+    if (!device) {
+      const { data: registered, error: registerError } = await admin
+        .from("sensor_devices")
+        .insert({
+          owner_id: userId,
+          serial_number: serial,
+          label: payload.device_label ?? null,
+          vehicle_info: payload.vehicle_info ?? null,
+        })
+        .select("*")
+        .single();
+
+      if (registerError) {
+        console.error("ingest-telemetry device registration error:", registerError);
+        return new Response(JSON.stringify({ error: "Failed to register device" }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      device = registered;
+    } else if (device.owner_id !== userId) {
+      return new Response(JSON.stringify({ error: "This logger is registered to another transporter" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const readings = payload.readings.map(normalizeReading).filter((r): r is Reading => r !== null);
+    const rejected = payload.readings.length - readings.length;
+
+    // Collapse repeats inside the upload itself; the unique key handles repeats across uploads
+    const unique = new Map(readings.map((r) => [r.recorded_at, r]));
+
+    const { data: inserted, error: insertError } = await admin
+      .from("telemetry_readings")
+      .upsert(
+        [...unique.values()].map((r) => ({ ...r, device_id: device.id, batch_id: batchId })),
+        { onConflict: "device_id,recorded_at", ignoreDuplicates: true }
+      )
+      .select("id");
+
+    if (insertError) {
+      console.error("ingest-telemetry insert error:", insertError);
+      return new Response(JSON.stringify({ error: "Failed to save readings" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    await admin.from("sensor_devices").update({ last_seen_at: new Date().toISOString() }).eq("id", device.id);
+
+    // Re-check the cold chain of every batch these readings may belong to
+    let affectedBatchIds: string[] = batchId ? [batchId] : [];
+    if (!batchId && unique.size > 0) {
+      const times = [...unique.keys()].sort();
+      const { data: legs } = await admin
+        .from("transport_logs")
+        .select("batch_id")
+        .eq("transporter_id", userId)
+        .not("pickup_time", "is", null)
+        .lte("pickup_time", times[times.length - 1])
+        .or(`drop_time.is.null,drop_time.gte.${times[0]}`);
+      affectedBatchIds = [...new Set((legs ?? []).map((l) => l.batch_id as string))];
+    }
+
+    for (const affectedId of affectedBatchIds) {
+      const { error: detectError } = await admin.rpc("detect_cold_chain_excursions", { _batch_id: affectedId });
+      if (detectError) {
+        console.error("ingest-telemetry excursion detection error:", detectError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        device_id: device.id,
+        received: payload.readings.length,
+        inserted: inserted?.length ?? 0,
+        duplicates: readings.length - (inserted?.length ?? 0),
+        rejected,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("ingest-telemetry error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,260 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getLlmProvider, LlmError, sha256Hex, type ChatMessage, type ToolSpec } from "../_shared/llm.ts";
+import { findLossPatterns, type BatchObservation, type PatternFinding } from "../_shared/portfolioPatterns.ts";
+import { completeValidated, StructuredOutputError } from "../_shared/structuredOutput.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Two groups of the minimum size are needed before anything can be compared
+const MIN_DELIVERED_BATCHES = 6;
+
+const INSIGHTS_SYSTEM_PROMPT = `You are an agricultural advisor reviewing one farmer's whole delivery history.
+You are given loss patterns that were found by fixed rules across the farmer's batches.
+Treat every pattern as fact: do not invent patterns or numbers that are not given.
+Turn them into a short improvement report in simple, farmer-friendly language, most valuable change first.
+Each recommendation must say what to do differently and cite the pattern it comes from.`;
+
+const INSIGHTS_TOOL: ToolSpec = {
+  name: "write_improvement_report",
+  description: "Write a prioritized improvement report from the farmer's loss patterns",
+  parameters: {
+    type: "object",
+    properties: {
+      summary: { type: "string", minLength: 1 },
+      recommendations: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          properties: {
+            priority: { type: "string", enum: ["high", "medium", "low"] },
+            title: { type: "string", minLength: 1 },
+            action: { type: "string", minLength: 1 },
+            evidence: { type: "string", minLength: 1 },
+          },
+          required: ["priority", "title", "action", "evidence"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["summary", "recommendations"],
+    additionalProperties: false,
+  },
+};
+
+// "High" or " medium" is read as the priority it names rather than sent back to the model
+function normalizeReport(answer: Record<string, unknown>): Record<string, unknown> {
+  if (!Array.isArray(answer.recommendations)) return answer;
+  const recommendations = answer.recommendations.map((r) =>
+    typeof r?.priority === "string" ? { ...r, priority: r.priority.trim().toLowerCase() } : r
+  );
+  return { ...answer, recommendations };
+}
+
+// Mines the signed-in farmer's delivered batches for recurring loss patterns and saves
+// them, with the model's improvement report, as the next version of their insights.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: authData, error: authError } = await supabase.auth.getClaims(token);
+    const userId = authData?.claims?.sub;
+    if (authError || !userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: roleRow } = await supabase.from("user_roles").select("role").eq("user_id", userId).maybeSingle();
+    if (roleRow?.role !== "farmer") {
+      return new Response(JSON.stringify({ error: "Only farmers have portfolio insights" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Everything that has reached a buyer; earlier batches have no loss to learn from yet.
+    // A fully refused delivery ends up 'rejected' and still carries its receipt. The refused
+    // lots split off as their own batches have no receipt and drop out below, so each loss is
+    // counted once, on the delivery it happened to; those still on their way back are left out.
+    const { data: batches, error: batchesError } = await supabase
+      .from("batches")
+      .select("id, crop_type, quantity_kg, harvest_time, farm_gps_lat, farm_gps_lng")
+      .eq("farmer_id", userId)
+      .in("status", ["received", "analyzed", "rejected", "returned"]);
+    if (batchesError) throw new Error(batchesError.message);
+
+    const batchIds = (batches ?? []).map((b) => b.id);
+    const [legsResult, receiptsResult, environmentResult, scoresResult, transportersResult] = await Promise.all([
+      supabase
+        .from("transport_logs")
+        .select("batch_id, transporter_id, pickup_time")
+        .in("batch_id", batchIds)
+        .eq("leg_number", 1),
+      supabase
+        .from("vendor_receipts")
+        .select("batch_id, spoilage_percentage, weight_loss_percentage, received_quantity_kg, rejected_quantity_kg")
+        .in("batch_id", batchIds),
+      supabase
+        .from("environmental_data")
+        .select("batch_id, stage, temperature_celsius, data_quality")
+        .in("batch_id", batchIds)
+        .in("stage", ["harvest", "pickup"])
+        .neq("data_quality", "defaulted"),
+      supabase.from("quality_scores").select("batch_id, total_loss").in("batch_id", batchIds),
+      // Names come through the directory function, since profiles are only readable by their owner
+      supabase.rpc("list_transporters"),
+    ]);
+
+    const observations: BatchObservation[] = [];
+    (batches ?? []).forEach((batch) => {
+      const receipt = receiptsResult.data?.find((r) => r.batch_id === batch.id);
+      if (!receipt || receipt.spoilage_percentage === null) return;
+
+      const leg = legsResult.data?.find((l) => l.batch_id === batch.id);
+      const readings = environmentResult.data?.filter((e) => e.batch_id === batch.id) ?? [];
+      // A reading taken at pickup beats the one taken at harvest
+      const pickupReading = readings.find((e) => e.stage === "pickup") ?? readings.find((e) => e.stage === "harvest");
+      const score = scoresResult.data?.find((s) => s.batch_id === batch.id);
+      // A refused share is lost to the farmer as surely as a spoiled one
+      const arrivedKg = Number(receipt.received_quantity_kg ?? batch.quantity_kg);
+      const refusedPercentage = arrivedKg > 0 ? (Number(receipt.rejected_quantity_kg ?? 0) / arrivedKg) * 100 : 0;
+
+      observations.push({
+        batch_id: batch.id,
+        crop_type: batch.crop_type,
+        quantity_kg: Number(batch.quantity_kg),
+        harvest_time: batch.harvest_time,
+        farm_gps_lat: batch.farm_gps_lat !== null ? Number(batch.farm_gps_lat) : null,
+        farm_gps_lng: batch.farm_gps_lng !== null ? Number(batch.farm_gps_lng) : null,
+        transporter_id: leg?.transporter_id ?? null,
+        transporter_name: transportersResult.data?.find((t) => t.id === leg?.transporter_id)?.full_name ?? null,
+        pickup_time: leg?.pickup_time ?? null,
+        pickup_temperature_celsius:
+          pickupReading?.temperature_celsius !== null && pickupReading?.temperature_celsius !== undefined
+            ? Number(pickupReading.temperature_celsius)
+            : null,
+        loss_percentage: Math.min(
+          100,
+          Number(receipt.spoilage_percentage) + Number(receipt.weight_loss_percentage ?? 0) + refusedPercentage
+        ),
+        quality_loss: score ? Number(score.total_loss) : null,
+      });
+    });
+
+    if (observations.length < MIN_DELIVERED_BATCHES) {
+      return new Response(
+        JSON.stringify({
+          error: `Insights need at least ${MIN_DELIVERED_BATCHES} delivered batches with a receipt; you have ${observations.length}.`,
+        }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const findings = findLossPatterns(observations);
+
+    const llm = getLlmProvider();
+    const messages: ChatMessage[] = [
+      { role: "system", content: INSIGHTS_SYSTEM_PROMPT },
+      { role: "user", content: buildInsightsPrompt(observations, findings) },
+    ];
+    let report;
+    try {
+      ({ value: report } = await completeValidated(llm, messages, INSIGHTS_TOOL, { normalize: normalizeReport }));
+    } catch (llmError) {
+      if (llmError instanceof LlmError) {
+        return new Response(JSON.stringify({ error: llmError.message }), {
+          status: llmError.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      if (llmError instanceof StructuredOutputError) {
+        // No version is saved; the previous report stays the latest
+        return new Response(JSON.stringify({ error: "The report could not be written, please try again." }), {
+          status: 502,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      throw llmError;
+    }
+
+    // Save as a new version; the database numbers it
+    const { data: saved, error: saveError } = await supabase
+      .from("portfolio_insights")
+      .insert({
+        farmer_id: userId,
+        batch_count: observations.length,
+        findings,
+        report,
+        provider: llm.name,
+        model: llm.model,
+        input_hash: await sha256Hex(JSON.stringify(messages)),
+      })
+      .select()
+      .single();
+    if (saveError) throw new Error(saveError.message);
+
+    return new Response(JSON.stringify({ success: true, insights: saved }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("portfolio-insights error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
+
+function buildInsightsPrompt(observations: BatchObservation[], findings: PatternFinding[]): string {
+  const totalKg = observations.reduce((sum, o) => sum + o.quantity_kg, 0);
+  const averageLoss = observations.reduce((sum, o) => sum + o.loss_percentage, 0) / observations.length;
+  const scored = observations.filter((o) => o.quality_loss !== null);
+
+  let prompt = `Write an improvement report for this farmer's deliveries:\n\n`;
+
+  prompt += `## PORTFOLIO\n`;
+  prompt += `- Delivered batches: ${observations.length} (${Math.round(totalKg)} kg)\n`;
+  prompt += `- Crops: ${[...new Set(observations.map((o) => o.crop_type))].join(", ")}\n`;
+  prompt += `- Average loss at receipt (spoilage, weight loss and refused share): ${averageLoss.toFixed(1)}%\n`;
+  if (scored.length > 0) {
+    const averageScore = scored.reduce((sum, o) => sum + (o.quality_loss ?? 0), 0) / scored.length;
+    prompt += `- Average rule-based quality-loss score: ${averageScore.toFixed(1)} of 100 (${scored.length} analyzed)\n`;
+  }
+
+  prompt += `\n## LOSS PATTERNS (COSTLIEST FIRST)\n`;
+  if (findings.length === 0) {
+    prompt += `- No group of batches loses clearly more than the rest; say so and suggest what to keep doing\n`;
+  }
+  findings.forEach((f, index) => {
+    const scope = f.crop ? `${f.crop} batches, ` : "";
+    prompt += `${index + 1}. ${scope}${f.dimension.replace(/_/g, " ")} "${f.group}": ${f.batch_count} batches lose `;
+    prompt += `${f.mean_loss}% against ${f.baseline_loss}% for the others, about ${f.avoidable_kg} kg avoidable\n`;
+  });
+
+  prompt += `\nRecommend changes in the order of the kilograms they would save.`;
+
+  return prompt;
+}
@@ -0,0 +1,164 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getLlmProvider, LlmError, type ChatMessage, type ToolSpec } from "../_shared/llm.ts";
+import { isLanguage, LANGUAGE_NAMES } from "../_shared/languages.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const TRANSLATED_FIELDS = [
+  "degradation_point",
+  "environmental_impact",
+  "confidence_level",
+  "farmer_suggestions",
+  "transporter_suggestions",
+  "vendor_suggestions",
+] as const;
+
+const TRANSLATION_TOOL: ToolSpec = {
+  name: "translate_analysis",
+  description: "Return every field of the crop quality analysis translated",
+  parameters: {
+    type: "object",
+    properties: Object.fromEntries(TRANSLATED_FIELDS.map((field) => [field, { type: "string" }])),
+    required: [...TRANSLATED_FIELDS],
+    additionalProperties: false,
+  },
+};
+
+// Returns an analysis in the requested language, translating it once and caching the
+// result for every participant. English is the language analyses are written in.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: authData, error: authError } = await supabase.auth.getClaims(token);
+    if (authError || !authData?.claims) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { analysis_id, language } = await req.json();
+    if (!analysis_id || !isLanguage(language)) {
+      return new Response(JSON.stringify({ error: "analysis_id and a supported language are required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Read through the caller's client, so only participants get this far
+    const { data: analysis } = await supabase.from("ai_analysis").select("*").eq("id", analysis_id).maybeSingle();
+    if (!analysis) {
+      return new Response(JSON.stringify({ error: "Analysis not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (language === "en") {
+      return new Response(JSON.stringify({ translation: null }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: cached } = await supabase
+      .from("ai_analysis_translations")
+      .select("*")
+      .eq("analysis_id", analysis_id)
+      .eq("language", language)
+      .maybeSingle();
+    if (cached) {
+      return new Response(JSON.stringify({ translation: cached }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const original = Object.fromEntries(TRANSLATED_FIELDS.map((field) => [field, analysis[field] ?? ""]));
+    const llm = getLlmProvider();
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: `You translate crop quality advice for farmers, transporters and vendors
+into ${LANGUAGE_NAMES[language]}. Keep the meaning, every number and unit exactly;
+use simple everyday words a farmer would use. Leave a field empty when the original is empty.`,
+      },
+      { role: "user", content: JSON.stringify(original, null, 2) },
+    ];
+
+    let completion;
+    try {
+      completion = await llm.complete(messages, TRANSLATION_TOOL);
+    } catch (llmError) {
+      if (llmError instanceof LlmError) {
+        return new Response(JSON.stringify({ error: llmError.message }), {
+          status: llmError.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      throw llmError;
+    }
+
+    if (!completion.arguments) {
+      return new Response(JSON.stringify({ error: "Translation failed, please try again." }), {
+        status: 502,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const translated = Object.fromEntries(
+      TRANSLATED_FIELDS.map((field) => [field, analysis[field] ? String(completion.arguments![field] ?? "") : null])
+    );
+
+    // The cache is shared, so only this function writes it, with the service role.
+    // Two readers asking at once both translate; the first one stored wins.
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { error: saveError } = await admin
+      .from("ai_analysis_translations")
+      .upsert(
+        { analysis_id, language, ...translated, provider: llm.name, model: llm.model },
+        { onConflict: "analysis_id,language", ignoreDuplicates: true }
+      );
+    if (saveError) {
+      console.error("Error caching translation:", saveError);
+    }
+
+    const { data: saved } = await supabase
+      .from("ai_analysis_translations")
+      .select("*")
+      .eq("analysis_id", analysis_id)
+      .eq("language", language)
+      .maybeSingle();
+
+    const translation = saved ?? { analysis_id, language, ...translated, provider: llm.name, model: llm.model };
+    return new Response(JSON.stringify({ translation }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("translate-analysis error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,133 @@
+-- Enforce the batch status lifecycle in the database.
+-- created -> assigned_transporter -> picked_up -> in_transit -> delivered -> received -> analyzed
+-- (picked_up may go straight to delivered when no transit tracking was recorded)
+
+-- Returns TRUE when moving a batch from _from to _to is a legal step
+CREATE OR REPLACE FUNCTION public.is_valid_batch_transition(_from batch_status, _to batch_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT (_from, _to) IN (
+        ('created'::batch_status, 'assigned_transporter'::batch_status),
+        ('assigned_transporter', 'picked_up'),
+        ('picked_up', 'in_transit'),
+        ('picked_up', 'delivered'),
+        ('in_transit', 'delivered'),
+        ('delivered', 'received'),
+        ('received', 'analyzed')
+    )
+$$;
+
+-- Performs a status transition on behalf of the calling user.
+-- Checks the transition is legal, that the caller holds the role that owns the step,
+-- and that the caller is actually taking part in the batch.
+CREATE OR REPLACE FUNCTION public.transition_batch_status(_batch_id UUID, _to_status batch_status)
+RETURNS batch_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _current batch_status;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to update a batch'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT status INTO _current
+    FROM public.batches
+    WHERE id = _batch_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Batch not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT public.is_valid_batch_transition(_current, _to_status) THEN
+        RAISE EXCEPTION 'Cannot move batch from "%" to "%"', _current, _to_status
+            USING ERRCODE = '22023',
+                  HINT = 'Batch status can only move forward one step at a time.';
+    END IF;
+
+    CASE _to_status
+        WHEN 'assigned_transporter', 'picked_up', 'in_transit', 'delivered' THEN
+            IF NOT (
+                public.has_role(_user_id, 'transporter')
+                AND EXISTS (
+                    SELECT 1 FROM public.transport_logs
+                    WHERE batch_id = _batch_id AND transporter_id = _user_id
+                )
+            ) THEN
+                RAISE EXCEPTION 'Only the assigned transporter can mark this batch as "%"', _to_status
+                    USING ERRCODE = '42501';
+            END IF;
+        WHEN 'received' THEN
+            IF NOT (
+                public.has_role(_user_id, 'vendor')
+                AND EXISTS (
+                    SELECT 1 FROM public.vendor_receipts
+                    WHERE batch_id = _batch_id AND vendor_id = _user_id
+                )
+            ) THEN
+                RAISE EXCEPTION 'Only the receiving vendor can mark this batch as received'
+                    USING ERRCODE = '42501';
+            END IF;
+        WHEN 'analyzed' THEN
+            IF NOT public.is_batch_participant(_batch_id, _user_id) THEN
+                RAISE EXCEPTION 'Only batch participants can mark this batch as analyzed'
+                    USING ERRCODE = '42501';
+            END IF;
+        ELSE
+            RAISE EXCEPTION 'Batches cannot be moved to "%"', _to_status
+                USING ERRCODE = '22023';
+    END CASE;
+
+    PERFORM set_config('app.batch_status_transition', 'on', true);
+
+    UPDATE public.batches
+    SET status = _to_status
+    WHERE id = _batch_id;
+
+    PERFORM set_config('app.batch_status_transition', 'off', true);
+
+    RETURN _to_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transition_batch_status(UUID, batch_status) TO authenticated;
+
+-- Guard against direct writes to batches.status that bypass transition_batch_status.
+-- The service role may still write directly, but only along legal transitions.
+CREATE OR REPLACE FUNCTION public.enforce_batch_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF COALESCE(current_setting('app.batch_status_transition', true), 'off') <> 'on'
+        AND COALESCE(auth.role(), '') <> 'service_role' THEN
+        RAISE EXCEPTION 'Batch status must be changed through transition_batch_status'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT public.is_valid_batch_transition(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Cannot move batch from "%" to "%"', OLD.status, NEW.status
+            USING ERRCODE = '22023';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_batch_status_transition
+    BEFORE UPDATE OF status ON public.batches
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_batch_status_transition();
@@ -0,0 +1,101 @@
+-- Append-only audit trail of every change to a batch and its related records
+
+CREATE TABLE public.batch_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- No foreign key: the trail must outlive the rows it describes
+    batch_id UUID NOT NULL,
+    actor_id UUID,
+    actor_role app_role,
+    event_type TEXT NOT NULL,
+    source_table TEXT NOT NULL,
+    record_id UUID NOT NULL,
+    before_data JSONB,
+    after_data JSONB,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX batch_events_batch_id_occurred_at_idx ON public.batch_events (batch_id, occurred_at);
+
+ALTER TABLE public.batch_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written only by triggers; participants can read them
+CREATE POLICY "Participants can view batch events" ON public.batch_events FOR SELECT USING (
+    public.is_batch_participant(batch_id, auth.uid())
+);
+
+-- Reject any attempt to rewrite history, including from the service role
+CREATE OR REPLACE FUNCTION public.prevent_batch_event_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    RAISE EXCEPTION 'batch_events is append-only'
+        USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER prevent_batch_event_update
+    BEFORE UPDATE OR DELETE ON public.batch_events
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_batch_event_changes();
+
+-- Records one event per insert/update/delete on a batch-related table
+CREATE OR REPLACE FUNCTION public.record_batch_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _before JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+    _after JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+    _row JSONB := COALESCE(_after, _before);
+    _entity TEXT;
+    _event_type TEXT;
+    _actor_id UUID := auth.uid();
+BEGIN
+    -- Ignore no-op updates where only the bookkeeping timestamp moved
+    IF TG_OP = 'UPDATE' AND (_before - 'updated_at') = (_after - 'updated_at') THEN
+        RETURN NEW;
+    END IF;
+
+    _entity := CASE TG_TABLE_NAME
+        WHEN 'batches' THEN 'batch'
+        WHEN 'transport_logs' THEN 'transport_log'
+        WHEN 'vendor_receipts' THEN 'vendor_receipt'
+        ELSE TG_TABLE_NAME
+    END;
+
+    IF TG_TABLE_NAME = 'batches' AND TG_OP = 'UPDATE'
+        AND (_before->>'status') IS DISTINCT FROM (_after->>'status') THEN
+        _event_type := 'status_changed';
+    ELSE
+        _event_type := _entity || '_' || CASE TG_OP
+            WHEN 'INSERT' THEN 'created'
+            WHEN 'UPDATE' THEN 'updated'
+            ELSE 'deleted'
+        END;
+    END IF;
+
+    INSERT INTO public.batch_events (
+        batch_id, actor_id, actor_role, event_type, source_table, record_id, before_data, after_data
+    ) VALUES (
+        CASE WHEN TG_TABLE_NAME = 'batches' THEN (_row->>'id')::UUID ELSE (_row->>'batch_id')::UUID END,
+        _actor_id,
+        CASE WHEN _actor_id IS NOT NULL THEN public.get_user_role(_actor_id) END,
+        _event_type,
+        TG_TABLE_NAME,
+        (_row->>'id')::UUID,
+        _before,
+        _after
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER record_batches_event AFTER INSERT OR UPDATE OR DELETE ON public.batches FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
+CREATE TRIGGER record_transport_logs_event AFTER INSERT OR UPDATE OR DELETE ON public.transport_logs FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
+CREATE TRIGGER record_vendor_receipts_event AFTER INSERT OR UPDATE OR DELETE ON public.vendor_receipts FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
+CREATE TRIGGER record_environmental_data_event AFTER INSERT OR UPDATE OR DELETE ON public.environmental_data FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
+CREATE TRIGGER record_ai_analysis_event AFTER INSERT OR UPDATE OR DELETE ON public.ai_analysis FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
@@ -0,0 +1,35 @@
+-- GPS breadcrumb trail recorded by the transporter while a batch is in transit
+
+CREATE TABLE public.transport_breadcrumbs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL,
+    transporter_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    gps_lat NUMERIC(10, 7) NOT NULL,
+    gps_lng NUMERIC(10, 7) NOT NULL,
+    accuracy_m NUMERIC(8, 2),
+    speed_kmh NUMERIC(6, 2),
+    heading NUMERIC(5, 2),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX transport_breadcrumbs_batch_id_recorded_at_idx ON public.transport_breadcrumbs (batch_id, recorded_at);
+
+ALTER TABLE public.transport_breadcrumbs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view breadcrumbs" ON public.transport_breadcrumbs FOR SELECT USING (
+    public.is_batch_participant(batch_id, auth.uid())
+);
+
+-- Only the assigned transporter can add pings, and only while the batch is on the road
+CREATE POLICY "Transporters can record breadcrumbs" ON public.transport_breadcrumbs FOR INSERT TO authenticated WITH CHECK (
+    auth.uid() = transporter_id
+    AND EXISTS (
+        SELECT 1 FROM public.transport_logs
+        WHERE batch_id = transport_breadcrumbs.batch_id AND transporter_id = auth.uid()
+    )
+    AND EXISTS (
+        SELECT 1 FROM public.batches
+        WHERE id = transport_breadcrumbs.batch_id AND status IN ('picked_up', 'in_transit')
+    )
+);
@@ -0,0 +1,198 @@
+-- Multi-leg transport: each transport_logs row is one ordered leg of a batch's journey.
+-- A leg that ends at a handoff is released by its transporter and accepted by the next one.
+
+ALTER TABLE public.transport_logs
+    ADD COLUMN leg_number INTEGER,
+    ADD COLUMN handoff_released_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN handoff_accepted_at TIMESTAMP WITH TIME ZONE;
+
+-- Number existing logs in creation order
+UPDATE public.transport_logs t
+SET leg_number = numbered.leg_number
+FROM (
+    SELECT id, row_number() OVER (PARTITION BY batch_id ORDER BY created_at, id) AS leg_number
+    FROM public.transport_logs
+) numbered
+WHERE t.id = numbered.id;
+
+ALTER TABLE public.transport_logs
+    ALTER COLUMN leg_number SET NOT NULL,
+    ADD CONSTRAINT transport_logs_batch_id_leg_number_key UNIQUE (batch_id, leg_number);
+
+-- TRUE when the latest leg of a batch ended in a handoff nobody has picked up yet
+CREATE OR REPLACE FUNCTION public.is_awaiting_handoff(_batch_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE((
+        SELECT handoff_released_at IS NOT NULL
+        FROM public.transport_logs
+        WHERE batch_id = _batch_id
+        ORDER BY leg_number DESC
+        LIMIT 1
+    ), false)
+$$;
+
+-- Returns the transporter on the latest leg of a batch
+CREATE OR REPLACE FUNCTION public.current_transporter_id(_batch_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT transporter_id
+    FROM public.transport_logs
+    WHERE batch_id = _batch_id
+    ORDER BY leg_number DESC
+    LIMIT 1
+$$;
+
+-- Assigns the next leg number and makes sure a new leg is only opened
+-- for a fresh batch (leg 1) or after the previous transporter released it.
+CREATE OR REPLACE FUNCTION public.assign_transport_leg()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _status batch_status;
+    _last public.transport_logs%ROWTYPE;
+BEGIN
+    -- Serialize leg creation per batch
+    SELECT status INTO _status FROM public.batches WHERE id = NEW.batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Batch not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO _last
+    FROM public.transport_logs
+    WHERE batch_id = NEW.batch_id
+    ORDER BY leg_number DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        IF _status <> 'created' THEN
+            RAISE EXCEPTION 'This batch is no longer available for pickup'
+                USING ERRCODE = '23505';
+        END IF;
+        NEW.leg_number := 1;
+    ELSE
+        IF _last.handoff_released_at IS NULL THEN
+            RAISE EXCEPTION 'This batch already has an active transporter'
+                USING ERRCODE = '23505';
+        END IF;
+        NEW.leg_number := _last.leg_number + 1;
+    END IF;
+
+    NEW.handoff_released_at := NULL;
+    NEW.handoff_accepted_at := NULL;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_transport_leg
+    BEFORE INSERT ON public.transport_logs
+    FOR EACH ROW EXECUTE FUNCTION public.assign_transport_leg();
+
+-- Transporters can find and inspect batches waiting at a handoff point
+CREATE POLICY "Transporters can view batches awaiting handoff" ON public.batches FOR SELECT USING (
+    public.has_role(auth.uid(), 'transporter') AND public.is_awaiting_handoff(id)
+);
+CREATE POLICY "Transporters can view legs of batches awaiting handoff" ON public.transport_logs FOR SELECT USING (
+    public.has_role(auth.uid(), 'transporter') AND public.is_awaiting_handoff(batch_id)
+);
+
+-- is_batch_participant already matches a transporter on any leg; breadcrumbs
+-- however should only come from whoever is carrying the batch right now
+DROP POLICY IF EXISTS "Transporters can record breadcrumbs" ON public.transport_breadcrumbs;
+
+CREATE POLICY "Transporters can record breadcrumbs" ON public.transport_breadcrumbs FOR INSERT TO authenticated WITH CHECK (
+    auth.uid() = transporter_id
+    AND public.current_transporter_id(batch_id) = auth.uid()
+    AND EXISTS (
+        SELECT 1 FROM public.batches
+        WHERE id = transport_breadcrumbs.batch_id AND status IN ('picked_up', 'in_transit')
+    )
+);
+
+-- Transport steps now belong to the transporter on the current leg
+CREATE OR REPLACE FUNCTION public.transition_batch_status(_batch_id UUID, _to_status batch_status)
+RETURNS batch_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _current batch_status;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to update a batch'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT status INTO _current
+    FROM public.batches
+    WHERE id = _batch_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Batch not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT public.is_valid_batch_transition(_current, _to_status) THEN
+        RAISE EXCEPTION 'Cannot move batch from "%" to "%"', _current, _to_status
+            USING ERRCODE = '22023',
+                  HINT = 'Batch status can only move forward one step at a time.';
+    END IF;
+
+    CASE _to_status
+        WHEN 'assigned_transporter', 'picked_up', 'in_transit', 'delivered' THEN
+            IF NOT (
+                public.has_role(_user_id, 'transporter')
+                AND public.current_transporter_id(_batch_id) = _user_id
+            ) THEN
+                RAISE EXCEPTION 'Only the transporter on the current leg can mark this batch as "%"', _to_status
+                    USING ERRCODE = '42501';
+            END IF;
+        WHEN 'received' THEN
+            IF NOT (
+                public.has_role(_user_id, 'vendor')
+                AND EXISTS (
+                    SELECT 1 FROM public.vendor_receipts
+                    WHERE batch_id = _batch_id AND vendor_id = _user_id
+                )
+            ) THEN
+                RAISE EXCEPTION 'Only the receiving vendor can mark this batch as received'
+                    USING ERRCODE = '42501';
+            END IF;
+        WHEN 'analyzed' THEN
+            IF NOT public.is_batch_participant(_batch_id, _user_id) THEN
+                RAISE EXCEPTION 'Only batch participants can mark this batch as analyzed'
+                    USING ERRCODE = '42501';
+            END IF;
+        ELSE
+            RAISE EXCEPTION 'Batches cannot be moved to "%"', _to_status
+                USING ERRCODE = '22023';
+    END CASE;
+
+    PERFORM set_config('app.batch_status_transition', 'on', true);
+
+    UPDATE public.batches
+    SET status = _to_status
+    WHERE id = _batch_id;
+
+    PERFORM set_config('app.batch_status_transition', 'off', true);
+
+    RETURN _to_status;
+END;
+$$;
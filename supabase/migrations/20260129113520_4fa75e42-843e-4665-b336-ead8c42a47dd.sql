@@ -0,0 +1,369 @@
+-- Lot genealogy: batches can be split into several child batches or merged into one lot.
+-- Every parent -> child link is recorded in batch_lineage with the quantity carried over,
+-- so any lot can be traced back to the farms it came from.
+
+-- Lots merged from several farms have no single farmer; their origins live in batch_lineage
+ALTER TABLE public.batches
+    ALTER COLUMN farmer_id DROP NOT NULL,
+    ADD COLUMN superseded_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.batch_lineage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    parent_batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL,
+    child_batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL,
+    operation TEXT NOT NULL CHECK (operation IN ('split', 'merge')),
+    quantity_kg NUMERIC(10, 2) NOT NULL CHECK (quantity_kg > 0),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (parent_batch_id, child_batch_id),
+    CHECK (parent_batch_id <> child_batch_id)
+);
+
+CREATE INDEX batch_lineage_child_batch_id_idx ON public.batch_lineage (child_batch_id);
+
+ALTER TABLE public.batch_lineage ENABLE ROW LEVEL SECURITY;
+
+-- Links are written only by split_batch / merge_batches
+CREATE POLICY "Participants can view batch lineage" ON public.batch_lineage FOR SELECT USING (
+    public.is_batch_participant(parent_batch_id, auth.uid())
+    OR public.is_batch_participant(child_batch_id, auth.uid())
+);
+
+-- A split or merged batch lives on through its children and can no longer be picked up
+DROP POLICY IF EXISTS "Transporters can view created batches" ON public.batches;
+
+CREATE POLICY "Transporters can view created batches" ON public.batches FOR SELECT USING (
+    public.has_role(auth.uid(), 'transporter') AND status = 'created' AND superseded_at IS NULL
+);
+
+CREATE OR REPLACE FUNCTION public.reject_superseded_batch_leg()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.batches WHERE id = NEW.batch_id AND superseded_at IS NOT NULL) THEN
+        RAISE EXCEPTION 'This batch has been split or merged and is no longer available for pickup'
+            USING ERRCODE = '23505';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_superseded_batch_leg
+    BEFORE INSERT ON public.transport_logs
+    FOR EACH ROW EXECUTE FUNCTION public.reject_superseded_batch_leg();
+
+-- Splits a new batch into child batches whose quantities add up exactly to the parent.
+-- Only the farmer can split, and only before a transporter has been assigned.
+CREATE OR REPLACE FUNCTION public.split_batch(_batch_id UUID, _quantities NUMERIC[])
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _parent public.batches%ROWTYPE;
+    _quantity NUMERIC;
+    _child_id UUID;
+    _child_ids UUID[] := '{}';
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to split a batch'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _parent FROM public.batches WHERE id = _batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Batch not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _parent.farmer_id IS DISTINCT FROM _user_id THEN
+        RAISE EXCEPTION 'Only the farmer who created this batch can split it'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF _parent.status <> 'created' OR _parent.superseded_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Only new batches that have not been split, merged or assigned can be split'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF COALESCE(array_length(_quantities, 1), 0) < 2 THEN
+        RAISE EXCEPTION 'A split needs at least two parts'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM unnest(_quantities) q WHERE q IS NULL OR q <= 0) THEN
+        RAISE EXCEPTION 'Every part of a split must weigh more than 0 kg'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF (SELECT SUM(q) FROM unnest(_quantities) q) <> _parent.quantity_kg THEN
+        RAISE EXCEPTION 'Split quantities add up to % kg but the batch holds % kg',
+            (SELECT SUM(q) FROM unnest(_quantities) q), _parent.quantity_kg
+            USING ERRCODE = '22023';
+    END IF;
+
+    FOREACH _quantity IN ARRAY _quantities LOOP
+        INSERT INTO public.batches (
+            farmer_id, crop_type, harvest_time, expected_quality, quantity_kg,
+            farm_gps_lat, farm_gps_lng, farm_address, notes
+        ) VALUES (
+            _parent.farmer_id, _parent.crop_type, _parent.harvest_time, _parent.expected_quality, _quantity,
+            _parent.farm_gps_lat, _parent.farm_gps_lng, _parent.farm_address, _parent.notes
+        )
+        RETURNING id INTO _child_id;
+
+        INSERT INTO public.batch_lineage (parent_batch_id, child_batch_id, operation, quantity_kg, created_by)
+        VALUES (_parent.id, _child_id, 'split', _quantity, _user_id);
+
+        _child_ids := _child_ids || _child_id;
+    END LOOP;
+
+    UPDATE public.batches SET superseded_at = now() WHERE id = _parent.id;
+
+    RETURN _child_ids;
+END;
+$$;
+
+-- Merges batches of the same crop into a single lot.
+-- Farmers can merge their own new batches; vendors can merge lots they have received.
+CREATE OR REPLACE FUNCTION public.merge_batches(_batch_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _found INTEGER;
+    _crop_count INTEGER;
+    _farmer_merge BOOLEAN;
+    _vendor_merge BOOLEAN;
+    _lot_id UUID;
+    _lot_quantity NUMERIC;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to merge batches'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF (SELECT COUNT(DISTINCT id) FROM unnest(_batch_ids) id) < 2 THEN
+        RAISE EXCEPTION 'Select at least two batches to merge'
+            USING ERRCODE = '22023';
+    END IF;
+
+    -- Lock the parents in a stable order so concurrent merges cannot interleave
+    PERFORM 1 FROM public.batches WHERE id = ANY(_batch_ids) ORDER BY id FOR UPDATE;
+    GET DIAGNOSTICS _found = ROW_COUNT;
+
+    IF _found <> (SELECT COUNT(DISTINCT id) FROM unnest(_batch_ids) id) THEN
+        RAISE EXCEPTION 'One or more batches could not be found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.batches WHERE id = ANY(_batch_ids) AND superseded_at IS NOT NULL) THEN
+        RAISE EXCEPTION 'One or more batches have already been split or merged'
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT COUNT(DISTINCT crop_type) INTO _crop_count FROM public.batches WHERE id = ANY(_batch_ids);
+    IF _crop_count > 1 THEN
+        RAISE EXCEPTION 'Only batches of the same crop can be merged'
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT bool_and(farmer_id = _user_id AND status = 'created') INTO _farmer_merge
+    FROM public.batches WHERE id = ANY(_batch_ids);
+
+    SELECT public.has_role(_user_id, 'vendor') AND bool_and(
+        status IN ('received', 'analyzed')
+        AND EXISTS (SELECT 1 FROM public.vendor_receipts r WHERE r.batch_id = b.id AND r.vendor_id = _user_id)
+    ) INTO _vendor_merge
+    FROM public.batches b WHERE id = ANY(_batch_ids);
+
+    IF NOT (COALESCE(_farmer_merge, false) OR COALESCE(_vendor_merge, false)) THEN
+        RAISE EXCEPTION 'You can only merge your own new batches or lots you have received'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT SUM(quantity_kg) INTO _lot_quantity FROM public.batches WHERE id = ANY(_batch_ids);
+
+    -- The lot keeps the oldest harvest time and the lowest expected grade of its parts.
+    -- Farm details are only kept when every part came from the same farm.
+    INSERT INTO public.batches (
+        farmer_id, crop_type, harvest_time, expected_quality, quantity_kg,
+        farm_gps_lat, farm_gps_lng, farm_address, status
+    )
+    SELECT
+        CASE WHEN COUNT(DISTINCT farmer_id) = 1 THEN MIN(farmer_id::TEXT)::UUID END,
+        MIN(crop_type),
+        MIN(harvest_time),
+        (ARRAY['premium', 'grade_a', 'grade_b', 'grade_c'])[
+            MAX(COALESCE(array_position(ARRAY['premium', 'grade_a', 'grade_b', 'grade_c'], expected_quality), 4))
+        ],
+        _lot_quantity,
+        CASE WHEN COUNT(DISTINCT (farm_gps_lat, farm_gps_lng)) = 1 THEN MIN(farm_gps_lat) END,
+        CASE WHEN COUNT(DISTINCT (farm_gps_lat, farm_gps_lng)) = 1 THEN MIN(farm_gps_lng) END,
+        CASE WHEN COUNT(DISTINCT farm_address) = 1 THEN MIN(farm_address) END,
+        CASE WHEN _farmer_merge THEN 'created'::batch_status ELSE 'received'::batch_status END
+    FROM public.batches
+    WHERE id = ANY(_batch_ids)
+    RETURNING id INTO _lot_id;
+
+    INSERT INTO public.batch_lineage (parent_batch_id, child_batch_id, operation, quantity_kg, created_by)
+    SELECT id, _lot_id, 'merge', quantity_kg, _user_id
+    FROM public.batches
+    WHERE id = ANY(_batch_ids);
+
+    -- A vendor's lot is already in their hands
+    IF NOT _farmer_merge THEN
+        INSERT INTO public.vendor_receipts (batch_id, vendor_id, received_at, received_quantity_kg, notes)
+        VALUES (_lot_id, _user_id, now(), _lot_quantity, 'Lot assembled from ' || _found || ' received batches');
+    END IF;
+
+    UPDATE public.batches SET superseded_at = now() WHERE id = ANY(_batch_ids);
+
+    RETURN _lot_id;
+END;
+$$;
+
+-- Every batch connected to _batch_id through splits and merges, as { nodes, edges }.
+-- Nodes carry a depth: negative for ancestors, 0 for the batch itself, positive for descendants.
+-- Lineage only ever points at newly created batches, so the graph has no cycles.
+CREATE OR REPLACE FUNCTION public.get_batch_genealogy(_batch_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result JSONB;
+BEGIN
+    IF NOT public.is_batch_participant(_batch_id, auth.uid()) THEN
+        RAISE EXCEPTION 'You do not have access to this batch'
+            USING ERRCODE = '42501';
+    END IF;
+
+    WITH RECURSIVE ancestors(batch_id, depth) AS (
+        SELECT _batch_id, 0
+        UNION ALL
+        SELECT l.parent_batch_id, a.depth - 1
+        FROM ancestors a
+        JOIN public.batch_lineage l ON l.child_batch_id = a.batch_id
+    ),
+    descendants(batch_id, depth) AS (
+        SELECT _batch_id, 0
+        UNION ALL
+        SELECT l.child_batch_id, d.depth + 1
+        FROM descendants d
+        JOIN public.batch_lineage l ON l.parent_batch_id = d.batch_id
+    ),
+    members AS (
+        SELECT batch_id, MIN(depth) AS depth FROM ancestors GROUP BY batch_id
+        UNION
+        SELECT batch_id, MAX(depth) FROM descendants WHERE depth > 0 GROUP BY batch_id
+    )
+    SELECT jsonb_build_object(
+        'nodes', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', b.id,
+                'depth', m.depth,
+                'crop_type', b.crop_type,
+                'quantity_kg', b.quantity_kg,
+                'status', b.status,
+                'farmer_id', b.farmer_id,
+                'farmer_name', p.full_name,
+                'farm_address', b.farm_address,
+                'harvest_time', b.harvest_time,
+                'superseded_at', b.superseded_at,
+                'created_at', b.created_at
+            ) ORDER BY m.depth, b.created_at)
+            FROM members m
+            JOIN public.batches b ON b.id = m.batch_id
+            LEFT JOIN public.profiles p ON p.id = b.farmer_id
+        ), '[]'::JSONB),
+        'edges', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'parent_batch_id', l.parent_batch_id,
+                'child_batch_id', l.child_batch_id,
+                'operation', l.operation,
+                'quantity_kg', l.quantity_kg,
+                'created_at', l.created_at
+            ) ORDER BY l.created_at)
+            FROM public.batch_lineage l
+            WHERE l.parent_batch_id IN (SELECT batch_id FROM members)
+                AND l.child_batch_id IN (SELECT batch_id FROM members)
+        ), '[]'::JSONB)
+    ) INTO _result;
+
+    RETURN _result;
+END;
+$$;
+
+-- The origin farm batches behind any lot, with how many kg of the lot each one supplied.
+-- A batch that was never split or merged is its own origin.
+CREATE OR REPLACE FUNCTION public.trace_batch_origins(_batch_id UUID)
+RETURNS TABLE (
+    batch_id UUID,
+    farmer_id UUID,
+    farmer_name TEXT,
+    crop_type TEXT,
+    harvest_time TIMESTAMP WITH TIME ZONE,
+    farm_address TEXT,
+    farm_gps_lat NUMERIC,
+    farm_gps_lng NUMERIC,
+    contributed_kg NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_batch_participant(_batch_id, auth.uid()) THEN
+        RAISE EXCEPTION 'You do not have access to this batch'
+            USING ERRCODE = '42501';
+    END IF;
+
+    -- Walk up the lineage, scaling each share by the part of the child that came from the parent
+    RETURN QUERY
+    WITH RECURSIVE ancestry(batch_id, contributed_kg) AS (
+        SELECT b.id, b.quantity_kg::NUMERIC
+        FROM public.batches b
+        WHERE b.id = _batch_id
+        UNION ALL
+        SELECT l.parent_batch_id, a.contributed_kg * l.quantity_kg / c.quantity_kg
+        FROM ancestry a
+        JOIN public.batches c ON c.id = a.batch_id
+        JOIN public.batch_lineage l ON l.child_batch_id = a.batch_id
+    )
+    SELECT
+        b.id,
+        b.farmer_id,
+        p.full_name,
+        b.crop_type,
+        b.harvest_time,
+        b.farm_address,
+        b.farm_gps_lat,
+        b.farm_gps_lng,
+        ROUND(SUM(a.contributed_kg), 2)
+    FROM ancestry a
+    JOIN public.batches b ON b.id = a.batch_id
+    LEFT JOIN public.profiles p ON p.id = b.farmer_id
+    WHERE NOT EXISTS (SELECT 1 FROM public.batch_lineage l WHERE l.child_batch_id = a.batch_id)
+    GROUP BY b.id, b.farmer_id, p.full_name, b.crop_type, b.harvest_time, b.farm_address, b.farm_gps_lat, b.farm_gps_lng
+    ORDER BY b.harvest_time;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.split_batch(UUID, NUMERIC[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_batches(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_batch_genealogy(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.trace_batch_origins(UUID) TO authenticated;
@@ -0,0 +1,209 @@
+-- Farmers choose who buys their crop. A batch is offered either to one vendor or openly
+-- to every vendor; the vendor who accepts becomes the batch's buyer and is the only
+-- vendor who can see and receive it from then on.
+
+ALTER TABLE public.batches
+    ADD COLUMN buyer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Vendors who already took a batch are its buyer
+UPDATE public.batches b
+SET buyer_id = r.vendor_id
+FROM public.vendor_receipts r
+WHERE r.batch_id = b.id;
+
+CREATE TABLE public.sale_offers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL,
+    farmer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    -- NULL makes the offer open to every vendor
+    vendor_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    price_per_kg NUMERIC(10, 2) CHECK (price_per_kg IS NULL OR price_per_kg >= 0),
+    message TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'withdrawn')),
+    -- Vendors who passed on an open offer no longer see it
+    declined_by UUID[] NOT NULL DEFAULT '{}',
+    responded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only one live offer per batch
+CREATE UNIQUE INDEX sale_offers_pending_batch_id_key ON public.sale_offers (batch_id) WHERE status = 'pending';
+CREATE INDEX sale_offers_vendor_id_idx ON public.sale_offers (vendor_id);
+
+ALTER TABLE public.sale_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_sale_offers_updated_at BEFORE UPDATE ON public.sale_offers FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER record_sale_offers_event AFTER INSERT OR UPDATE OR DELETE ON public.sale_offers FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
+
+-- Batches already on the road without a buyer keep their old behaviour as open offers
+INSERT INTO public.sale_offers (batch_id, farmer_id)
+SELECT id, farmer_id
+FROM public.batches
+WHERE buyer_id IS NULL
+    AND farmer_id IS NOT NULL
+    AND superseded_at IS NULL
+    AND status IN ('in_transit', 'delivered');
+
+-- TRUE when the batch has a pending offer this vendor is allowed to answer
+CREATE OR REPLACE FUNCTION public.is_offered_to_vendor(_batch_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.sale_offers
+        WHERE batch_id = _batch_id
+            AND status = 'pending'
+            AND (vendor_id = _user_id OR (vendor_id IS NULL AND NOT _user_id = ANY(declined_by)))
+    )
+$$;
+
+-- The buyer takes part in a batch from the moment they accept it
+CREATE OR REPLACE FUNCTION public.is_batch_participant(_batch_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.batches WHERE id = _batch_id AND (farmer_id = _user_id OR buyer_id = _user_id)
+    ) OR EXISTS (
+        SELECT 1 FROM public.transport_logs WHERE batch_id = _batch_id AND transporter_id = _user_id
+    ) OR EXISTS (
+        SELECT 1 FROM public.vendor_receipts WHERE batch_id = _batch_id AND vendor_id = _user_id
+    )
+$$;
+
+-- Vendors no longer see every batch on the road, only those offered to them
+DROP POLICY IF EXISTS "Vendors can view in-transit batches" ON public.batches;
+
+CREATE POLICY "Vendors can view batches offered to them" ON public.batches FOR SELECT USING (
+    public.has_role(auth.uid(), 'vendor') AND public.is_offered_to_vendor(id, auth.uid())
+);
+
+DROP POLICY IF EXISTS "Vendors can create receipts" ON public.vendor_receipts;
+
+CREATE POLICY "Vendors can create receipts" ON public.vendor_receipts FOR INSERT WITH CHECK (
+    auth.uid() = vendor_id
+    AND public.has_role(auth.uid(), 'vendor')
+    AND EXISTS (SELECT 1 FROM public.batches WHERE id = vendor_receipts.batch_id AND buyer_id = auth.uid())
+);
+
+CREATE POLICY "Farmers and vendors can view their offers" ON public.sale_offers FOR SELECT USING (
+    farmer_id = auth.uid()
+    OR vendor_id = auth.uid()
+    OR responded_by = auth.uid()
+    OR (
+        vendor_id IS NULL
+        AND status = 'pending'
+        AND public.has_role(auth.uid(), 'vendor')
+        AND NOT auth.uid() = ANY(declined_by)
+    )
+);
+CREATE POLICY "Farmers can offer own batches" ON public.sale_offers FOR INSERT TO authenticated WITH CHECK (
+    farmer_id = auth.uid()
+    AND status = 'pending'
+    AND EXISTS (
+        SELECT 1 FROM public.batches
+        WHERE id = sale_offers.batch_id
+            AND farmer_id = auth.uid()
+            AND buyer_id IS NULL
+            AND superseded_at IS NULL
+    )
+);
+-- Farmers withdraw offers; vendors answer through respond_to_sale_offer
+CREATE POLICY "Farmers can withdraw own offers" ON public.sale_offers FOR UPDATE USING (
+    farmer_id = auth.uid() AND status = 'pending'
+) WITH CHECK (
+    farmer_id = auth.uid() AND status = 'withdrawn'
+);
+
+-- Accepts or declines a pending offer on behalf of the calling vendor.
+-- The offer row is locked so two vendors cannot both accept an open offer.
+CREATE OR REPLACE FUNCTION public.respond_to_sale_offer(_offer_id UUID, _accept BOOLEAN)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _offer public.sale_offers%ROWTYPE;
+BEGIN
+    IF _user_id IS NULL OR NOT public.has_role(_user_id, 'vendor') THEN
+        RAISE EXCEPTION 'Only vendors can respond to sale offers'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _offer FROM public.sale_offers WHERE id = _offer_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Offer not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _offer.vendor_id IS NOT NULL AND _offer.vendor_id <> _user_id THEN
+        RAISE EXCEPTION 'This offer was made to another vendor'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF _offer.status <> 'pending' THEN
+        RAISE EXCEPTION 'This offer is no longer available'
+            USING ERRCODE = '23505';
+    END IF;
+
+    IF NOT _accept THEN
+        IF _offer.vendor_id IS NULL THEN
+            -- Passing on an open offer leaves it open for everyone else
+            UPDATE public.sale_offers
+            SET declined_by = array_append(declined_by, _user_id)
+            WHERE id = _offer_id AND NOT _user_id = ANY(declined_by);
+            RETURN 'pending';
+        END IF;
+
+        UPDATE public.sale_offers
+        SET status = 'declined', responded_by = _user_id, responded_at = now()
+        WHERE id = _offer_id;
+        RETURN 'declined';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.batches
+        WHERE id = _offer.batch_id AND (buyer_id IS NOT NULL OR superseded_at IS NOT NULL)
+    ) THEN
+        RAISE EXCEPTION 'This batch is no longer for sale'
+            USING ERRCODE = '23505';
+    END IF;
+
+    UPDATE public.sale_offers
+    SET status = 'accepted', responded_by = _user_id, responded_at = now()
+    WHERE id = _offer_id;
+
+    UPDATE public.batches SET buyer_id = _user_id WHERE id = _offer.batch_id;
+
+    RETURN 'accepted';
+END;
+$$;
+
+-- Lets farmers pick a vendor by name without exposing vendor profiles wholesale
+CREATE OR REPLACE FUNCTION public.list_vendors()
+RETURNS TABLE (id UUID, full_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.id, COALESCE(p.full_name, p.email)
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.user_id = p.id AND r.role = 'vendor'
+    WHERE auth.uid() IS NOT NULL
+    ORDER BY 2
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_sale_offer(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_vendors() TO authenticated;
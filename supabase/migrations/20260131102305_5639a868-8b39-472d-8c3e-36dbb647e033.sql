@@ -0,0 +1,207 @@
+-- Transporters bid on new batches instead of racing to accept them.
+-- The farmer awards one quote; only that transporter gets the first transport leg,
+-- and everyone else who bid is notified.
+
+-- In-app notifications, written by database functions only
+CREATE TABLE public.notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX notifications_user_id_created_at_idx ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications" ON public.notifications FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Users can mark own notifications read" ON public.notifications FOR UPDATE USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.notify_user(_user_id UUID, _batch_id UUID, _kind TEXT, _title TEXT, _body TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    INSERT INTO public.notifications (user_id, batch_id, kind, title, body)
+    VALUES (_user_id, _batch_id, _kind, _title, _body)
+$$;
+
+-- Only other database functions may create notifications
+REVOKE EXECUTE ON FUNCTION public.notify_user(UUID, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE public.transport_quotes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL,
+    transporter_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    price NUMERIC(10, 2) NOT NULL CHECK (price >= 0),
+    pickup_window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    pickup_window_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    vehicle_type TEXT NOT NULL,
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'awarded', 'rejected', 'withdrawn')),
+    decided_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (pickup_window_end > pickup_window_start)
+);
+
+-- One live quote per transporter per batch
+CREATE UNIQUE INDEX transport_quotes_pending_batch_transporter_key
+    ON public.transport_quotes (batch_id, transporter_id) WHERE status = 'pending';
+
+ALTER TABLE public.transport_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_transport_quotes_updated_at BEFORE UPDATE ON public.transport_quotes FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER record_transport_quotes_event AFTER INSERT OR UPDATE OR DELETE ON public.transport_quotes FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
+
+-- Bids are sealed: transporters only see their own, farmers see every bid on their batches
+CREATE POLICY "Transporters can view own quotes" ON public.transport_quotes FOR SELECT USING (transporter_id = auth.uid());
+CREATE POLICY "Farmers can view quotes on own batches" ON public.transport_quotes FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.batches WHERE id = transport_quotes.batch_id AND farmer_id = auth.uid())
+);
+CREATE POLICY "Transporters can quote on new batches" ON public.transport_quotes FOR INSERT TO authenticated WITH CHECK (
+    transporter_id = auth.uid()
+    AND public.has_role(auth.uid(), 'transporter')
+    AND status = 'pending'
+    AND EXISTS (
+        SELECT 1 FROM public.batches
+        WHERE id = transport_quotes.batch_id AND status = 'created' AND superseded_at IS NULL
+    )
+);
+CREATE POLICY "Transporters can withdraw own quotes" ON public.transport_quotes FOR UPDATE USING (
+    transporter_id = auth.uid() AND status = 'pending'
+) WITH CHECK (
+    transporter_id = auth.uid() AND status = 'withdrawn'
+);
+
+-- The first leg of a batch belongs to whoever won the bidding
+CREATE OR REPLACE FUNCTION public.require_awarded_quote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.leg_number = 1 AND NOT EXISTS (
+        SELECT 1 FROM public.transport_quotes
+        WHERE batch_id = NEW.batch_id AND transporter_id = NEW.transporter_id AND status = 'awarded'
+    ) THEN
+        RAISE EXCEPTION 'Only the transporter whose quote was awarded can pick up this batch'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Runs after assign_transport_leg (triggers fire in name order) so leg_number is set
+CREATE TRIGGER require_awarded_quote
+    BEFORE INSERT ON public.transport_logs
+    FOR EACH ROW EXECUTE FUNCTION public.require_awarded_quote();
+
+-- Awards a quote on behalf of the farmer: assigns the winning transporter,
+-- opens their transport leg, rejects the other bids and notifies every bidder.
+CREATE OR REPLACE FUNCTION public.award_transport_quote(_quote_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _quote public.transport_quotes%ROWTYPE;
+    _batch public.batches%ROWTYPE;
+    _loser RECORD;
+    _log_id UUID;
+BEGIN
+    SELECT * INTO _quote FROM public.transport_quotes WHERE id = _quote_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Quote not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Lock the batch first so two awards on the same batch serialize
+    SELECT * INTO _batch FROM public.batches WHERE id = _quote.batch_id FOR UPDATE;
+
+    IF _batch.farmer_id IS DISTINCT FROM _user_id THEN
+        RAISE EXCEPTION 'Only the farmer who owns this batch can award a quote'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF _batch.status <> 'created' OR _batch.superseded_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This batch already has a transporter'
+            USING ERRCODE = '23505';
+    END IF;
+
+    SELECT * INTO _quote FROM public.transport_quotes WHERE id = _quote_id FOR UPDATE;
+
+    IF _quote.status <> 'pending' THEN
+        RAISE EXCEPTION 'This quote is no longer open'
+            USING ERRCODE = '23505';
+    END IF;
+
+    UPDATE public.transport_quotes
+    SET status = 'awarded', decided_at = now()
+    WHERE id = _quote_id;
+
+    FOR _loser IN
+        UPDATE public.transport_quotes
+        SET status = 'rejected', decided_at = now()
+        WHERE batch_id = _batch.id AND status = 'pending'
+        RETURNING transporter_id
+    LOOP
+        PERFORM public.notify_user(
+            _loser.transporter_id, _batch.id, 'quote_rejected',
+            'Quote not selected',
+            format('The farmer chose another transporter for the %s kg %s batch.', _batch.quantity_kg, _batch.crop_type)
+        );
+    END LOOP;
+
+    PERFORM public.notify_user(
+        _quote.transporter_id, _batch.id, 'quote_awarded',
+        'Quote awarded',
+        format('Your quote for the %s kg %s batch was accepted. Pick up between %s and %s.',
+            _batch.quantity_kg, _batch.crop_type,
+            to_char(_quote.pickup_window_start, 'Mon DD HH24:MI'),
+            to_char(_quote.pickup_window_end, 'Mon DD HH24:MI'))
+    );
+
+    INSERT INTO public.transport_logs (batch_id, transporter_id, transport_type)
+    VALUES (_batch.id, _quote.transporter_id, _quote.vehicle_type)
+    RETURNING id INTO _log_id;
+
+    PERFORM set_config('app.batch_status_transition', 'on', true);
+
+    UPDATE public.batches
+    SET status = 'assigned_transporter'
+    WHERE id = _batch.id;
+
+    PERFORM set_config('app.batch_status_transition', 'off', true);
+
+    RETURN _log_id;
+END;
+$$;
+
+-- Lets farmers see who is bidding without exposing transporter profiles wholesale
+CREATE OR REPLACE FUNCTION public.list_transporters()
+RETURNS TABLE (id UUID, full_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.id, COALESCE(p.full_name, p.email)
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.user_id = p.id AND r.role = 'transporter'
+    WHERE auth.uid() IS NOT NULL
+    ORDER BY 2
+$$;
+
+GRANT EXECUTE ON FUNCTION public.award_transport_quote(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_transporters() TO authenticated;
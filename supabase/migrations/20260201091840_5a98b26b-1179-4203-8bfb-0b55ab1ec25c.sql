@@ -0,0 +1,114 @@
+-- Claiming a batch is one database call that locks the batch row, so two
+-- transporters (or two clicks) cannot both take the same handoff and a
+-- vendor cannot end up with a duplicate receipt. Clients no longer insert
+-- legs or receipts directly.
+
+DROP POLICY IF EXISTS "Transporters can create transport logs" ON public.transport_logs;
+DROP POLICY IF EXISTS "Vendors can create receipts" ON public.vendor_receipts;
+
+-- Opens the next transport leg for the calling transporter on a batch
+-- waiting at a handoff point. Raises 23505 when someone else got there first.
+CREATE OR REPLACE FUNCTION public.claim_transport_leg(_batch_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _batch public.batches%ROWTYPE;
+    _last public.transport_logs%ROWTYPE;
+    _log_id UUID;
+BEGIN
+    IF _user_id IS NULL OR NOT public.has_role(_user_id, 'transporter') THEN
+        RAISE EXCEPTION 'Only transporters can take over a batch'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _batch FROM public.batches WHERE id = _batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Batch not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO _last
+    FROM public.transport_logs
+    WHERE batch_id = _batch_id
+    ORDER BY leg_number DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This batch has no transporter yet; the farmer awards the first leg'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF _last.handoff_released_at IS NULL THEN
+        RAISE EXCEPTION 'This batch has already been claimed by another transporter'
+            USING ERRCODE = '23505';
+    END IF;
+
+    IF _last.transporter_id = _user_id THEN
+        RAISE EXCEPTION 'You released this batch; another transporter must take it over'
+            USING ERRCODE = '22023';
+    END IF;
+
+    -- assign_transport_leg numbers the leg and re-checks the handoff under the same lock
+    INSERT INTO public.transport_logs (batch_id, transporter_id)
+    VALUES (_batch_id, _user_id)
+    RETURNING id INTO _log_id;
+
+    RETURN _log_id;
+END;
+$$;
+
+-- Records the calling vendor as receiving a delivered batch they bought.
+-- Raises 23505 when the batch already has a receipt.
+CREATE OR REPLACE FUNCTION public.claim_batch_as_vendor(_batch_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _batch public.batches%ROWTYPE;
+    _receipt_id UUID;
+BEGIN
+    IF _user_id IS NULL OR NOT public.has_role(_user_id, 'vendor') THEN
+        RAISE EXCEPTION 'Only vendors can accept deliveries'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _batch FROM public.batches WHERE id = _batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Batch not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _batch.buyer_id IS DISTINCT FROM _user_id THEN
+        RAISE EXCEPTION 'Only the vendor who bought this batch can accept it'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.vendor_receipts WHERE batch_id = _batch_id) THEN
+        RAISE EXCEPTION 'This batch has already been accepted'
+            USING ERRCODE = '23505';
+    END IF;
+
+    IF _batch.status NOT IN ('in_transit', 'delivered') THEN
+        RAISE EXCEPTION 'This batch is not ready to be received'
+            USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.vendor_receipts (batch_id, vendor_id)
+    VALUES (_batch_id, _user_id)
+    RETURNING id INTO _receipt_id;
+
+    RETURN _receipt_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_transport_leg(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_batch_as_vendor(UUID) TO authenticated;
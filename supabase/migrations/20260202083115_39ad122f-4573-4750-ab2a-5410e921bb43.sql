@@ -0,0 +1,4 @@
+-- Statuses for batches a vendor refused. Added on their own because a new enum
+-- value cannot be used in the same transaction that adds it.
+ALTER TYPE public.batch_status ADD VALUE IF NOT EXISTS 'rejected';
+ALTER TYPE public.batch_status ADD VALUE IF NOT EXISTS 'returning';
@@ -0,0 +1,365 @@
+-- Rejection, return and reallocation.
+-- A vendor can refuse all or part of a delivery for a reason from a fixed list.
+-- The refused quantity is split off into its own batch in status 'rejected', owned
+-- by the farmer, who can either offer it to another vendor or have it carried back
+-- ('returning'). Accepted quantity carries on to 'received' as before.
+
+ALTER TABLE public.vendor_receipts
+    ADD COLUMN rejected_quantity_kg NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (rejected_quantity_kg >= 0),
+    ADD COLUMN rejection_reason TEXT CHECK (rejection_reason IN (
+        'spoiled', 'below_grade', 'pest_damage', 'contaminated',
+        'wrong_crop', 'short_weight', 'damaged_packaging', 'late_delivery', 'other'
+    ));
+
+ALTER TABLE public.batch_lineage DROP CONSTRAINT IF EXISTS batch_lineage_operation_check;
+ALTER TABLE public.batch_lineage
+    ADD CONSTRAINT batch_lineage_operation_check CHECK (operation IN ('split', 'merge', 'reject'));
+
+-- delivered -> rejected when the vendor refuses everything; a refused lot is then
+-- either moved to a new buyer or sent back to the farm
+CREATE OR REPLACE FUNCTION public.is_valid_batch_transition(_from batch_status, _to batch_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT (_from, _to) IN (
+        ('created'::batch_status, 'assigned_transporter'::batch_status),
+        ('assigned_transporter', 'picked_up'),
+        ('picked_up', 'in_transit'),
+        ('picked_up', 'delivered'),
+        ('in_transit', 'delivered'),
+        ('delivered', 'received'),
+        ('delivered', 'rejected'),
+        ('received', 'analyzed'),
+        ('rejected', 'assigned_transporter'),
+        ('rejected', 'returning')
+    )
+$$;
+
+-- TRUE while a batch is waiting for a transporter: new batches, refused lots
+-- being reallocated, and refused lots whose return trip has not been awarded yet
+CREATE OR REPLACE FUNCTION public.is_open_for_quotes(_batch_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.batches b
+        WHERE b.id = _batch_id
+            AND b.superseded_at IS NULL
+            AND (
+                b.status IN ('created', 'rejected')
+                OR (b.status = 'returning' AND NOT EXISTS (
+                    SELECT 1 FROM public.transport_logs WHERE batch_id = b.id
+                ))
+            )
+    )
+$$;
+
+DROP POLICY IF EXISTS "Transporters can view created batches" ON public.batches;
+
+CREATE POLICY "Transporters can view batches open for quotes" ON public.batches FOR SELECT USING (
+    public.has_role(auth.uid(), 'transporter') AND public.is_open_for_quotes(id)
+);
+
+DROP POLICY IF EXISTS "Transporters can quote on new batches" ON public.transport_quotes;
+
+CREATE POLICY "Transporters can quote on open batches" ON public.transport_quotes FOR INSERT TO authenticated WITH CHECK (
+    transporter_id = auth.uid()
+    AND public.has_role(auth.uid(), 'transporter')
+    AND status = 'pending'
+    AND public.is_open_for_quotes(batch_id)
+);
+
+-- First legs may now also start from a refused lot
+CREATE OR REPLACE FUNCTION public.assign_transport_leg()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _status batch_status;
+    _last public.transport_logs%ROWTYPE;
+BEGIN
+    -- Serialize leg creation per batch
+    SELECT status INTO _status FROM public.batches WHERE id = NEW.batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Batch not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO _last
+    FROM public.transport_logs
+    WHERE batch_id = NEW.batch_id
+    ORDER BY leg_number DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        IF _status NOT IN ('created', 'rejected', 'returning') THEN
+            RAISE EXCEPTION 'This batch is no longer available for pickup'
+                USING ERRCODE = '23505';
+        END IF;
+        NEW.leg_number := 1;
+    ELSE
+        IF _last.handoff_released_at IS NULL THEN
+            RAISE EXCEPTION 'This batch already has an active transporter'
+                USING ERRCODE = '23505';
+        END IF;
+        NEW.leg_number := _last.leg_number + 1;
+    END IF;
+
+    NEW.handoff_released_at := NULL;
+    NEW.handoff_accepted_at := NULL;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Awarding a quote on a return trip keeps the batch in 'returning'
+CREATE OR REPLACE FUNCTION public.award_transport_quote(_quote_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _quote public.transport_quotes%ROWTYPE;
+    _batch public.batches%ROWTYPE;
+    _loser RECORD;
+    _log_id UUID;
+BEGIN
+    SELECT * INTO _quote FROM public.transport_quotes WHERE id = _quote_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Quote not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Lock the batch first so two awards on the same batch serialize
+    SELECT * INTO _batch FROM public.batches WHERE id = _quote.batch_id FOR UPDATE;
+
+    IF _batch.farmer_id IS DISTINCT FROM _user_id THEN
+        RAISE EXCEPTION 'Only the farmer who owns this batch can award a quote'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT public.is_open_for_quotes(_batch.id) THEN
+        RAISE EXCEPTION 'This batch already has a transporter'
+            USING ERRCODE = '23505';
+    END IF;
+
+    SELECT * INTO _quote FROM public.transport_quotes WHERE id = _quote_id FOR UPDATE;
+
+    IF _quote.status <> 'pending' THEN
+        RAISE EXCEPTION 'This quote is no longer open'
+            USING ERRCODE = '23505';
+    END IF;
+
+    UPDATE public.transport_quotes
+    SET status = 'awarded', decided_at = now()
+    WHERE id = _quote_id;
+
+    FOR _loser IN
+        UPDATE public.transport_quotes
+        SET status = 'rejected', decided_at = now()
+        WHERE batch_id = _batch.id AND status = 'pending'
+        RETURNING transporter_id
+    LOOP
+        PERFORM public.notify_user(
+            _loser.transporter_id, _batch.id, 'quote_rejected',
+            'Quote not selected',
+            format('The farmer chose another transporter for the %s kg %s batch.', _batch.quantity_kg, _batch.crop_type)
+        );
+    END LOOP;
+
+    PERFORM public.notify_user(
+        _quote.transporter_id, _batch.id, 'quote_awarded',
+        'Quote awarded',
+        format('Your quote for the %s kg %s batch was accepted. Pick up between %s and %s.',
+            _batch.quantity_kg, _batch.crop_type,
+            to_char(_quote.pickup_window_start, 'Mon DD HH24:MI'),
+            to_char(_quote.pickup_window_end, 'Mon DD HH24:MI'))
+    );
+
+    INSERT INTO public.transport_logs (batch_id, transporter_id, transport_type)
+    VALUES (_batch.id, _quote.transporter_id, _quote.vehicle_type)
+    RETURNING id INTO _log_id;
+
+    IF _batch.status <> 'returning' THEN
+        PERFORM set_config('app.batch_status_transition', 'on', true);
+
+        UPDATE public.batches
+        SET status = 'assigned_transporter'
+        WHERE id = _batch.id;
+
+        PERFORM set_config('app.batch_status_transition', 'off', true);
+    END IF;
+
+    RETURN _log_id;
+END;
+$$;
+
+-- Refuses all or part of a delivered batch on behalf of the receiving vendor.
+-- The refused quantity becomes a new 'rejected' batch for the farmer to deal with;
+-- when nothing is accepted the delivered batch itself is marked 'rejected'.
+CREATE OR REPLACE FUNCTION public.reject_batch_delivery(_batch_id UUID, _reason TEXT, _rejected_kg NUMERIC)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _batch public.batches%ROWTYPE;
+    _receipt public.vendor_receipts%ROWTYPE;
+    _arrived_kg NUMERIC;
+    _child_id UUID;
+BEGIN
+    SELECT * INTO _batch FROM public.batches WHERE id = _batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Batch not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO _receipt
+    FROM public.vendor_receipts
+    WHERE batch_id = _batch_id AND vendor_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.has_role(_user_id, 'vendor') THEN
+        RAISE EXCEPTION 'Only the receiving vendor can reject this batch'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF _batch.status <> 'delivered' THEN
+        RAISE EXCEPTION 'Only delivered batches can be rejected'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF _reason IS NULL THEN
+        RAISE EXCEPTION 'A rejection needs a reason'
+            USING ERRCODE = '22023';
+    END IF;
+
+    _arrived_kg := COALESCE(_receipt.received_quantity_kg, _batch.quantity_kg);
+
+    IF _rejected_kg IS NULL OR _rejected_kg <= 0 OR _rejected_kg > _arrived_kg THEN
+        RAISE EXCEPTION 'Rejected quantity must be more than 0 kg and at most the % kg received', _arrived_kg
+            USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.vendor_receipts
+    SET rejection_reason = _reason, rejected_quantity_kg = _rejected_kg
+    WHERE id = _receipt.id;
+
+    INSERT INTO public.batches (
+        farmer_id, crop_type, harvest_time, expected_quality, quantity_kg,
+        farm_gps_lat, farm_gps_lng, farm_address, notes, status
+    ) VALUES (
+        _batch.farmer_id, _batch.crop_type, _batch.harvest_time, _batch.expected_quality, _rejected_kg,
+        _batch.farm_gps_lat, _batch.farm_gps_lng, _batch.farm_address, _batch.notes, 'rejected'
+    )
+    RETURNING id INTO _child_id;
+
+    INSERT INTO public.batch_lineage (parent_batch_id, child_batch_id, operation, quantity_kg, created_by)
+    VALUES (_batch.id, _child_id, 'reject', _rejected_kg, _user_id);
+
+    PERFORM set_config('app.batch_status_transition', 'on', true);
+
+    IF _rejected_kg = _arrived_kg THEN
+        UPDATE public.batches
+        SET status = 'rejected', superseded_at = now()
+        WHERE id = _batch.id;
+    ELSE
+        UPDATE public.batches
+        SET status = 'received'
+        WHERE id = _batch.id;
+    END IF;
+
+    PERFORM set_config('app.batch_status_transition', 'off', true);
+
+    IF _batch.farmer_id IS NOT NULL THEN
+        PERFORM public.notify_user(
+            _batch.farmer_id, _child_id, 'batch_rejected',
+            'Delivery rejected',
+            format('The vendor refused %s kg of your %s batch (%s). Offer it to another vendor or arrange a return.',
+                _rejected_kg, _batch.crop_type, replace(_reason, '_', ' '))
+        );
+    END IF;
+
+    RETURN _child_id;
+END;
+$$;
+
+-- Sends a refused lot back to the farm. Any pending sale offer is withdrawn and
+-- quotes made for reallocation are turned down, since the destination changed.
+CREATE OR REPLACE FUNCTION public.request_batch_return(_batch_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _batch public.batches%ROWTYPE;
+    _loser RECORD;
+BEGIN
+    SELECT * INTO _batch FROM public.batches WHERE id = _batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Batch not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _batch.farmer_id IS DISTINCT FROM _user_id THEN
+        RAISE EXCEPTION 'Only the farmer who owns this batch can arrange a return'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF _batch.status <> 'rejected' OR _batch.superseded_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Only rejected batches can be returned'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF _batch.buyer_id IS NOT NULL THEN
+        RAISE EXCEPTION 'A new buyer has already accepted this batch'
+            USING ERRCODE = '23505';
+    END IF;
+
+    UPDATE public.sale_offers
+    SET status = 'withdrawn'
+    WHERE batch_id = _batch_id AND status = 'pending';
+
+    FOR _loser IN
+        UPDATE public.transport_quotes
+        SET status = 'rejected', decided_at = now()
+        WHERE batch_id = _batch_id AND status = 'pending'
+        RETURNING transporter_id
+    LOOP
+        PERFORM public.notify_user(
+            _loser.transporter_id, _batch_id, 'quote_rejected',
+            'Quote not selected',
+            format('The %s kg %s batch is going back to the farm instead. Quote again for the return trip.',
+                _batch.quantity_kg, _batch.crop_type)
+        );
+    END LOOP;
+
+    PERFORM set_config('app.batch_status_transition', 'on', true);
+
+    UPDATE public.batches
+    SET status = 'returning'
+    WHERE id = _batch_id;
+
+    PERFORM set_config('app.batch_status_transition', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reject_batch_delivery(UUID, TEXT, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_batch_return(UUID) TO authenticated;
@@ -0,0 +1,397 @@
+-- Disputes over vendor receipts.
+-- A batch participant contests the grade, spoilage or weight loss a vendor recorded and
+-- proposes corrected values. The two sides take turns countering until one accepts the
+-- other's proposal (resolved) or either side escalates. Accepting writes a new receipt
+-- version; every earlier version, including the original, is kept.
+
+ALTER TABLE public.vendor_receipts ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE public.receipt_disputes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL,
+    receipt_id UUID REFERENCES public.vendor_receipts(id) ON DELETE CASCADE NOT NULL,
+    opened_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    vendor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reason TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'countered', 'resolved', 'escalated')),
+    -- The proposal currently on the table and who made it
+    proposed_quality_grade TEXT,
+    proposed_spoilage_percentage NUMERIC(5, 2) CHECK (proposed_spoilage_percentage BETWEEN 0 AND 100),
+    proposed_weight_loss_percentage NUMERIC(5, 2) CHECK (proposed_weight_loss_percentage BETWEEN 0 AND 100),
+    proposed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    escalated_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one unresolved dispute per receipt
+CREATE UNIQUE INDEX receipt_disputes_active_receipt_key
+    ON public.receipt_disputes (receipt_id) WHERE status <> 'resolved';
+
+CREATE TABLE public.dispute_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    dispute_id UUID REFERENCES public.receipt_disputes(id) ON DELETE CASCADE NOT NULL,
+    author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    body TEXT,
+    -- Object path in the dispute-evidence bucket
+    attachment_path TEXT,
+    attachment_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (body IS NOT NULL OR attachment_path IS NOT NULL)
+);
+
+CREATE INDEX dispute_messages_dispute_id_created_at_idx ON public.dispute_messages (dispute_id, created_at);
+
+-- Every version a receipt has had; version 1 is what the vendor originally recorded
+CREATE TABLE public.vendor_receipt_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    receipt_id UUID REFERENCES public.vendor_receipts(id) ON DELETE CASCADE NOT NULL,
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL,
+    version INTEGER NOT NULL,
+    quality_grade TEXT,
+    spoilage_percentage NUMERIC(5, 2),
+    weight_loss_percentage NUMERIC(5, 2),
+    received_quantity_kg NUMERIC(10, 2),
+    dispute_id UUID REFERENCES public.receipt_disputes(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (receipt_id, version)
+);
+
+ALTER TABLE public.receipt_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dispute_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vendor_receipt_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_receipt_disputes_updated_at BEFORE UPDATE ON public.receipt_disputes FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER record_receipt_disputes_event AFTER INSERT OR UPDATE OR DELETE ON public.receipt_disputes FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
+CREATE TRIGGER record_vendor_receipt_versions_event AFTER INSERT OR UPDATE OR DELETE ON public.vendor_receipt_versions FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
+
+-- Disputes are changed only through the functions below; the thread is open to all participants
+CREATE POLICY "Participants can view receipt disputes" ON public.receipt_disputes FOR SELECT USING (
+    public.is_batch_participant(batch_id, auth.uid())
+);
+CREATE POLICY "Participants can view receipt versions" ON public.vendor_receipt_versions FOR SELECT USING (
+    public.is_batch_participant(batch_id, auth.uid())
+);
+CREATE POLICY "Participants can view dispute messages" ON public.dispute_messages FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.receipt_disputes d
+        WHERE d.id = dispute_messages.dispute_id AND public.is_batch_participant(d.batch_id, auth.uid())
+    )
+);
+CREATE POLICY "Participants can post dispute messages" ON public.dispute_messages FOR INSERT TO authenticated WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (
+        SELECT 1 FROM public.receipt_disputes d
+        WHERE d.id = dispute_messages.dispute_id AND public.is_batch_participant(d.batch_id, auth.uid())
+    )
+);
+
+-- Evidence files live under <dispute_id>/ in a private bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('dispute-evidence', 'dispute-evidence', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can upload dispute evidence" ON storage.objects FOR INSERT TO authenticated WITH CHECK (
+    bucket_id = 'dispute-evidence'
+    AND EXISTS (
+        SELECT 1 FROM public.receipt_disputes d
+        WHERE d.id::TEXT = (storage.foldername(name))[1] AND public.is_batch_participant(d.batch_id, auth.uid())
+    )
+);
+CREATE POLICY "Participants can view dispute evidence" ON storage.objects FOR SELECT USING (
+    bucket_id = 'dispute-evidence'
+    AND EXISTS (
+        SELECT 1 FROM public.receipt_disputes d
+        WHERE d.id::TEXT = (storage.foldername(name))[1] AND public.is_batch_participant(d.batch_id, auth.uid())
+    )
+);
+
+-- While a dispute is unresolved the contested values can only change by resolving it
+CREATE OR REPLACE FUNCTION public.lock_disputed_receipt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF (NEW.quality_grade, NEW.spoilage_percentage, NEW.weight_loss_percentage)
+            IS DISTINCT FROM (OLD.quality_grade, OLD.spoilage_percentage, OLD.weight_loss_percentage)
+        AND EXISTS (SELECT 1 FROM public.receipt_disputes WHERE receipt_id = NEW.id AND status <> 'resolved') THEN
+        RAISE EXCEPTION 'This receipt is under dispute and cannot be edited until the dispute is resolved'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_disputed_receipt
+    BEFORE UPDATE ON public.vendor_receipts
+    FOR EACH ROW EXECUTE FUNCTION public.lock_disputed_receipt();
+
+-- Opens a dispute on a receipt with the values the caller believes are correct.
+-- Anyone on the batch except the vendor who wrote the receipt can open one.
+CREATE OR REPLACE FUNCTION public.open_receipt_dispute(
+    _receipt_id UUID,
+    _reason TEXT,
+    _quality_grade TEXT,
+    _spoilage_percentage NUMERIC,
+    _weight_loss_percentage NUMERIC
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _receipt public.vendor_receipts%ROWTYPE;
+    _dispute_id UUID;
+BEGIN
+    SELECT * INTO _receipt FROM public.vendor_receipts WHERE id = _receipt_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Receipt not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT public.is_batch_participant(_receipt.batch_id, _user_id) OR _receipt.vendor_id = _user_id THEN
+        RAISE EXCEPTION 'Only other participants in this batch can dispute the vendor''s receipt'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF _receipt.received_at IS NULL THEN
+        RAISE EXCEPTION 'This receipt has not been confirmed yet'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF COALESCE(trim(_reason), '') = '' THEN
+        RAISE EXCEPTION 'Explain what is wrong with the receipt'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.receipt_disputes WHERE receipt_id = _receipt_id AND status <> 'resolved') THEN
+        RAISE EXCEPTION 'This receipt already has an open dispute'
+            USING ERRCODE = '23505';
+    END IF;
+
+    INSERT INTO public.receipt_disputes (
+        batch_id, receipt_id, opened_by, vendor_id, reason,
+        proposed_quality_grade, proposed_spoilage_percentage, proposed_weight_loss_percentage, proposed_by
+    ) VALUES (
+        _receipt.batch_id, _receipt_id, _user_id, _receipt.vendor_id, trim(_reason),
+        COALESCE(_quality_grade, _receipt.quality_grade),
+        COALESCE(_spoilage_percentage, _receipt.spoilage_percentage),
+        COALESCE(_weight_loss_percentage, _receipt.weight_loss_percentage),
+        _user_id
+    )
+    RETURNING id INTO _dispute_id;
+
+    PERFORM public.notify_user(
+        _receipt.vendor_id, _receipt.batch_id, 'dispute_opened',
+        'Receipt disputed',
+        format('Your receipt was disputed: %s', trim(_reason))
+    );
+
+    RETURN _dispute_id;
+END;
+$$;
+
+-- The two sides of a dispute: the vendor who wrote the receipt and whoever opened it
+CREATE OR REPLACE FUNCTION public.is_dispute_party(_dispute public.receipt_disputes, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT _user_id IS NOT NULL AND _user_id IN (_dispute.vendor_id, _dispute.opened_by)
+$$;
+
+-- Replaces the proposal on the table. Only the side that did not make the current
+-- proposal can counter it.
+CREATE OR REPLACE FUNCTION public.counter_receipt_dispute(
+    _dispute_id UUID,
+    _quality_grade TEXT,
+    _spoilage_percentage NUMERIC,
+    _weight_loss_percentage NUMERIC
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _dispute public.receipt_disputes%ROWTYPE;
+BEGIN
+    SELECT * INTO _dispute FROM public.receipt_disputes WHERE id = _dispute_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Dispute not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT public.is_dispute_party(_dispute, _user_id) THEN
+        RAISE EXCEPTION 'Only the vendor and the participant who opened the dispute can counter'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF _dispute.status NOT IN ('open', 'countered') THEN
+        RAISE EXCEPTION 'This dispute is % and can no longer be countered', _dispute.status
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF _dispute.proposed_by = _user_id THEN
+        RAISE EXCEPTION 'Wait for the other side to respond to your proposal'
+            USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.receipt_disputes
+    SET status = 'countered',
+        proposed_quality_grade = _quality_grade,
+        proposed_spoilage_percentage = _spoilage_percentage,
+        proposed_weight_loss_percentage = _weight_loss_percentage,
+        proposed_by = _user_id
+    WHERE id = _dispute_id;
+
+    PERFORM public.notify_user(
+        CASE WHEN _user_id = _dispute.vendor_id THEN _dispute.opened_by ELSE _dispute.vendor_id END,
+        _dispute.batch_id, 'dispute_countered',
+        'Counter-proposal on receipt dispute',
+        'The other side proposed different receipt values.'
+    );
+END;
+$$;
+
+-- Accepts the proposal on the table and writes it as a new receipt version.
+-- The pre-dispute values are saved as version 1 the first time a receipt is corrected.
+CREATE OR REPLACE FUNCTION public.resolve_receipt_dispute(_dispute_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _dispute public.receipt_disputes%ROWTYPE;
+    _receipt public.vendor_receipts%ROWTYPE;
+    _version INTEGER;
+BEGIN
+    SELECT * INTO _dispute FROM public.receipt_disputes WHERE id = _dispute_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Dispute not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT public.is_dispute_party(_dispute, _user_id) THEN
+        RAISE EXCEPTION 'Only the vendor and the participant who opened the dispute can resolve it'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF _dispute.status = 'resolved' THEN
+        RAISE EXCEPTION 'This dispute is already resolved'
+            USING ERRCODE = '23505';
+    END IF;
+
+    IF _dispute.proposed_by = _user_id THEN
+        RAISE EXCEPTION 'You cannot accept your own proposal'
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO _receipt FROM public.vendor_receipts WHERE id = _dispute.receipt_id FOR UPDATE;
+
+    IF NOT EXISTS (SELECT 1 FROM public.vendor_receipt_versions WHERE receipt_id = _receipt.id) THEN
+        INSERT INTO public.vendor_receipt_versions (
+            receipt_id, batch_id, version, quality_grade, spoilage_percentage,
+            weight_loss_percentage, received_quantity_kg, created_by, created_at
+        ) VALUES (
+            _receipt.id, _receipt.batch_id, _receipt.version, _receipt.quality_grade, _receipt.spoilage_percentage,
+            _receipt.weight_loss_percentage, _receipt.received_quantity_kg, _receipt.vendor_id, _receipt.received_at
+        );
+    END IF;
+
+    _version := _receipt.version + 1;
+
+    -- Resolve first so lock_disputed_receipt lets the corrected values through
+    UPDATE public.receipt_disputes
+    SET status = 'resolved', resolved_by = _user_id, resolved_at = now()
+    WHERE id = _dispute_id;
+
+    INSERT INTO public.vendor_receipt_versions (
+        receipt_id, batch_id, version, quality_grade, spoilage_percentage,
+        weight_loss_percentage, received_quantity_kg, dispute_id, created_by
+    ) VALUES (
+        _receipt.id, _receipt.batch_id, _version,
+        COALESCE(_dispute.proposed_quality_grade, _receipt.quality_grade),
+        COALESCE(_dispute.proposed_spoilage_percentage, _receipt.spoilage_percentage),
+        COALESCE(_dispute.proposed_weight_loss_percentage, _receipt.weight_loss_percentage),
+        _receipt.received_quantity_kg, _dispute_id, _user_id
+    );
+
+    UPDATE public.vendor_receipts
+    SET quality_grade = COALESCE(_dispute.proposed_quality_grade, quality_grade),
+        spoilage_percentage = COALESCE(_dispute.proposed_spoilage_percentage, spoilage_percentage),
+        weight_loss_percentage = COALESCE(_dispute.proposed_weight_loss_percentage, weight_loss_percentage),
+        version = _version
+    WHERE id = _receipt.id;
+
+    PERFORM public.notify_user(
+        _dispute.proposed_by, _dispute.batch_id, 'dispute_resolved',
+        'Receipt dispute resolved',
+        format('Your proposal was accepted. The receipt is now at version %s.', _version)
+    );
+
+    RETURN _version;
+END;
+$$;
+
+-- Either side can escalate an unresolved dispute for outside mediation.
+-- The proposal stays on the table and can still be accepted.
+CREATE OR REPLACE FUNCTION public.escalate_receipt_dispute(_dispute_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _dispute public.receipt_disputes%ROWTYPE;
+BEGIN
+    SELECT * INTO _dispute FROM public.receipt_disputes WHERE id = _dispute_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Dispute not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT public.is_dispute_party(_dispute, _user_id) THEN
+        RAISE EXCEPTION 'Only the vendor and the participant who opened the dispute can escalate it'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF _dispute.status NOT IN ('open', 'countered') THEN
+        RAISE EXCEPTION 'This dispute is already %', _dispute.status
+            USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.receipt_disputes
+    SET status = 'escalated', escalated_at = now()
+    WHERE id = _dispute_id;
+
+    PERFORM public.notify_user(
+        CASE WHEN _user_id = _dispute.vendor_id THEN _dispute.opened_by ELSE _dispute.vendor_id END,
+        _dispute.batch_id, 'dispute_escalated',
+        'Receipt dispute escalated',
+        'The other side escalated the dispute for mediation.'
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_receipt_dispute(UUID, TEXT, TEXT, NUMERIC, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.counter_receipt_dispute(UUID, TEXT, NUMERIC, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_receipt_dispute(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.escalate_receipt_dispute(UUID) TO authenticated;
@@ -0,0 +1,88 @@
+-- Refrigerated trucks carry temperature data loggers. Their readings are uploaded
+-- through the ingest-telemetry edge function and stored per device as a time series.
+
+-- A logger registered by the transporter who carries it
+CREATE TABLE public.sensor_devices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    serial_number TEXT NOT NULL UNIQUE,
+    label TEXT,
+    -- Matched against transport_logs.vehicle_info when readings are not tied to a batch
+    vehicle_info TEXT,
+    last_seen_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sensor_devices ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_sensor_devices_updated_at BEFORE UPDATE ON public.sensor_devices FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Owners can view own devices" ON public.sensor_devices FOR SELECT USING (owner_id = auth.uid());
+CREATE POLICY "Transporters can register devices" ON public.sensor_devices FOR INSERT TO authenticated WITH CHECK (
+    owner_id = auth.uid() AND public.has_role(auth.uid(), 'transporter')
+);
+CREATE POLICY "Owners can update own devices" ON public.sensor_devices FOR UPDATE USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- One row per logger sample. batch_id is set when the upload names a batch;
+-- otherwise the reading belongs to the vehicle and is matched to batches by leg times.
+CREATE TABLE public.telemetry_readings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    device_id UUID REFERENCES public.sensor_devices(id) ON DELETE CASCADE NOT NULL,
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    temperature_celsius NUMERIC(5, 2) NOT NULL,
+    humidity_percentage NUMERIC(5, 2),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    -- Loggers re-send their whole memory on every download; repeats are dropped
+    CONSTRAINT telemetry_readings_device_id_recorded_at_key UNIQUE (device_id, recorded_at)
+);
+
+CREATE INDEX telemetry_readings_batch_id_recorded_at_idx ON public.telemetry_readings (batch_id, recorded_at);
+
+ALTER TABLE public.telemetry_readings ENABLE ROW LEVEL SECURITY;
+
+-- Readings are written by the edge function with the service role only
+CREATE POLICY "Owners can view own device readings" ON public.telemetry_readings FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.sensor_devices WHERE id = telemetry_readings.device_id AND owner_id = auth.uid())
+);
+CREATE POLICY "Participants can view batch readings" ON public.telemetry_readings FOR SELECT USING (
+    batch_id IS NOT NULL AND public.is_batch_participant(batch_id, auth.uid())
+);
+
+-- Every reading taken inside a batch's journey: those uploaded against the batch, plus
+-- vehicle readings from the logger of whichever transporter carried each leg
+CREATE OR REPLACE FUNCTION public.get_batch_telemetry(_batch_id UUID)
+RETURNS SETOF public.telemetry_readings
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_batch_participant(_batch_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Only participants in this batch can view its telemetry'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT r.*
+    FROM public.telemetry_readings r
+    WHERE r.batch_id = _batch_id
+    UNION
+    SELECT r.*
+    FROM public.telemetry_readings r
+    JOIN public.sensor_devices d ON d.id = r.device_id
+    JOIN public.transport_logs l ON l.transporter_id = d.owner_id AND l.batch_id = _batch_id
+    WHERE r.batch_id IS NULL
+        AND l.pickup_time IS NOT NULL
+        AND r.recorded_at BETWEEN l.pickup_time AND COALESCE(l.drop_time, l.handoff_released_at, now())
+        AND (
+            d.vehicle_info IS NULL OR l.vehicle_info IS NULL
+            OR lower(trim(d.vehicle_info)) = lower(trim(l.vehicle_info))
+        )
+    ORDER BY recorded_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_batch_telemetry(UUID) TO authenticated;
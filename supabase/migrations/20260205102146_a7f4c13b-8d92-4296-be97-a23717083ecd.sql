@@ -0,0 +1,194 @@
+-- Cold-chain excursions: checks the temperature band a transporter declared for a leg
+-- (transport_logs.temperature_maintained) against the temperatures actually recorded.
+-- Logger readings are used when the leg has any; otherwise the ambient weather readings.
+
+-- Band promised by a temperature_maintained label; NULL bounds when nothing was promised.
+-- Keep in step with temperatureOptions in src/lib/transportOptions.ts
+CREATE OR REPLACE FUNCTION public.declared_temperature_band(_label TEXT, OUT min_celsius NUMERIC, OUT max_celsius NUMERIC)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT
+        CASE _label WHEN 'Cold Chain Maintained (2-8°C)' THEN 2 WHEN 'Cool Storage (8-15°C)' THEN 8 END,
+        CASE _label WHEN 'Cold Chain Maintained (2-8°C)' THEN 8 WHEN 'Cool Storage (8-15°C)' THEN 15 END
+$$;
+
+-- One continuous stretch of a leg spent above or below the declared band
+CREATE TABLE public.cold_chain_excursions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL,
+    transport_log_id UUID REFERENCES public.transport_logs(id) ON DELETE CASCADE NOT NULL,
+    declared_band TEXT NOT NULL,
+    band_min_celsius NUMERIC(5, 2) NOT NULL,
+    band_max_celsius NUMERIC(5, 2) NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('logger', 'weather')),
+    direction TEXT NOT NULL CHECK (direction IN ('above', 'below')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    minutes_out_of_range NUMERIC(10, 1) NOT NULL,
+    peak_deviation_celsius NUMERIC(5, 2) NOT NULL,
+    degree_minutes NUMERIC(12, 1) NOT NULL,
+    reading_count INTEGER NOT NULL,
+    detected_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT cold_chain_excursions_transport_log_id_started_at_key UNIQUE (transport_log_id, started_at)
+);
+
+CREATE INDEX cold_chain_excursions_batch_id_idx ON public.cold_chain_excursions (batch_id);
+
+ALTER TABLE public.cold_chain_excursions ENABLE ROW LEVEL SECURITY;
+
+-- Flagged in the batch audit trail like any other change
+CREATE TRIGGER record_cold_chain_excursions_event AFTER INSERT OR UPDATE OR DELETE ON public.cold_chain_excursions FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
+
+-- Written by detect_cold_chain_excursions only
+CREATE POLICY "Participants can view excursions" ON public.cold_chain_excursions FOR SELECT USING (
+    public.is_batch_participant(batch_id, auth.uid())
+);
+
+-- Recomputes every excursion of a batch from scratch. Each reading is taken to hold
+-- until the next one (or the end of the leg), which gives the time out of range;
+-- degree-minutes weigh that time by how far outside the band the reading was.
+CREATE OR REPLACE FUNCTION public.detect_cold_chain_excursions(_batch_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _leg public.transport_logs%ROWTYPE;
+    _band RECORD;
+    _leg_end TIMESTAMP WITH TIME ZONE;
+    _leg_ids UUID[];
+    _kept UUID[] := '{}';
+BEGIN
+    -- Edge functions run this with the service role, where there is no user
+    IF auth.uid() IS NOT NULL AND NOT public.is_batch_participant(_batch_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Only participants in this batch can check its cold chain'
+            USING ERRCODE = '42501';
+    END IF;
+
+    FOR _leg IN
+        SELECT * FROM public.transport_logs
+        WHERE batch_id = _batch_id AND pickup_time IS NOT NULL
+        ORDER BY leg_number
+    LOOP
+        SELECT * INTO _band FROM public.declared_temperature_band(_leg.temperature_maintained);
+        CONTINUE WHEN _band.min_celsius IS NULL;
+
+        _leg_end := COALESCE(_leg.drop_time, _leg.handoff_released_at, now());
+
+        WITH logger AS (
+            -- Logger readings, whether uploaded against the batch or matched from the vehicle
+            SELECT DISTINCT r.recorded_at, r.temperature_celsius AS temperature
+            FROM public.telemetry_readings r
+            JOIN public.sensor_devices d ON d.id = r.device_id
+            WHERE r.recorded_at BETWEEN _leg.pickup_time AND _leg_end
+                AND (
+                    r.batch_id = _batch_id
+                    OR (
+                        r.batch_id IS NULL
+                        AND d.owner_id = _leg.transporter_id
+                        AND (
+                            d.vehicle_info IS NULL OR _leg.vehicle_info IS NULL
+                            OR lower(trim(d.vehicle_info)) = lower(trim(_leg.vehicle_info))
+                        )
+                    )
+                )
+        ),
+        weather AS (
+            -- Weather is fetched just after a drop is saved, so allow a few minutes past the leg end
+            SELECT recorded_at, temperature_celsius AS temperature
+            FROM public.environmental_data
+            WHERE batch_id = _batch_id
+                AND temperature_celsius IS NOT NULL
+                AND recorded_at BETWEEN _leg.pickup_time AND _leg_end + INTERVAL '10 minutes'
+                AND NOT EXISTS (SELECT 1 FROM logger)
+        ),
+        spans AS (
+            SELECT
+                recorded_at,
+                temperature,
+                GREATEST(
+                    EXTRACT(EPOCH FROM LEAD(recorded_at, 1, _leg_end) OVER (ORDER BY recorded_at) - recorded_at) / 60,
+                    0
+                ) AS minutes,
+                CASE
+                    WHEN temperature > _band.max_celsius THEN 'above'
+                    WHEN temperature < _band.min_celsius THEN 'below'
+                END AS direction,
+                GREATEST(temperature - _band.max_celsius, _band.min_celsius - temperature, 0) AS deviation
+            FROM (SELECT * FROM logger UNION ALL SELECT * FROM weather) readings
+        ),
+        numbered AS (
+            -- Consecutive readings on the same side of the band form one excursion
+            SELECT *, SUM(CASE WHEN direction IS DISTINCT FROM previous_direction THEN 1 ELSE 0 END)
+                OVER (ORDER BY recorded_at) AS run
+            FROM (SELECT *, LAG(direction) OVER (ORDER BY recorded_at) AS previous_direction FROM spans) s
+        ),
+        saved AS (
+            INSERT INTO public.cold_chain_excursions (
+                batch_id, transport_log_id, declared_band, band_min_celsius, band_max_celsius, source, direction,
+                started_at, ended_at, minutes_out_of_range, peak_deviation_celsius, degree_minutes, reading_count
+            )
+            SELECT
+                _batch_id, _leg.id, _leg.temperature_maintained, _band.min_celsius, _band.max_celsius,
+                CASE WHEN EXISTS (SELECT 1 FROM logger) THEN 'logger' ELSE 'weather' END,
+                direction,
+                MIN(recorded_at),
+                MAX(recorded_at + minutes * INTERVAL '1 minute'),
+                round(SUM(minutes), 1),
+                MAX(deviation),
+                round(SUM(deviation * minutes), 1),
+                COUNT(*)
+            FROM numbered
+            WHERE direction IS NOT NULL
+            GROUP BY run, direction
+            ON CONFLICT (transport_log_id, started_at) DO UPDATE
+            SET declared_band = EXCLUDED.declared_band,
+                band_min_celsius = EXCLUDED.band_min_celsius,
+                band_max_celsius = EXCLUDED.band_max_celsius,
+                source = EXCLUDED.source,
+                direction = EXCLUDED.direction,
+                ended_at = EXCLUDED.ended_at,
+                minutes_out_of_range = EXCLUDED.minutes_out_of_range,
+                peak_deviation_celsius = EXCLUDED.peak_deviation_celsius,
+                degree_minutes = EXCLUDED.degree_minutes,
+                reading_count = EXCLUDED.reading_count
+            RETURNING id
+        )
+        SELECT COALESCE(array_agg(id), '{}') INTO _leg_ids FROM saved;
+
+        _kept := _kept || _leg_ids;
+    END LOOP;
+
+    -- Stretches that no longer show up (new readings, a changed declaration) are withdrawn
+    DELETE FROM public.cold_chain_excursions
+    WHERE batch_id = _batch_id AND NOT (id = ANY(_kept));
+
+    RETURN COALESCE(array_length(_kept, 1), 0);
+END;
+$$;
+
+-- Re-check when a leg ends or its declaration changes, and whenever a new reading lands
+CREATE OR REPLACE FUNCTION public.check_cold_chain()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.detect_cold_chain_excursions(NEW.batch_id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_cold_chain_on_leg_update
+    AFTER UPDATE OF pickup_time, drop_time, handoff_released_at, temperature_maintained ON public.transport_logs
+    FOR EACH ROW EXECUTE FUNCTION public.check_cold_chain();
+
+CREATE TRIGGER check_cold_chain_on_environmental_data
+    AFTER INSERT ON public.environmental_data
+    FOR EACH ROW EXECUTE FUNCTION public.check_cold_chain();
+
+REVOKE EXECUTE ON FUNCTION public.detect_cold_chain_excursions(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.detect_cold_chain_excursions(UUID) TO authenticated, service_role;
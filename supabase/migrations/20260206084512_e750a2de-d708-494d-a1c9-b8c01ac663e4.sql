@@ -0,0 +1,154 @@
+-- Crop catalog: storage needs per crop, editable by admins without a deploy.
+-- Batches keep their free-text crop_type, which matches crops.name for catalog crops.
+
+-- Staff who maintain reference data. Granted by inserting a row here from the SQL editor.
+CREATE TABLE public.app_admins (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_app_admin(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM public.app_admins WHERE user_id = _user_id)
+$$;
+
+CREATE TABLE public.crops (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    min_temperature_celsius NUMERIC(5, 2) NOT NULL,
+    max_temperature_celsius NUMERIC(5, 2) NOT NULL,
+    min_humidity_percentage NUMERIC(5, 2) NOT NULL,
+    max_humidity_percentage NUMERIC(5, 2) NOT NULL,
+    -- Suffers chilling injury below its ideal range, rather than simply keeping longer
+    chilling_sensitive BOOLEAN NOT NULL DEFAULT false,
+    ethylene_production TEXT NOT NULL CHECK (ethylene_production IN ('very_low', 'low', 'moderate', 'high', 'very_high')),
+    ethylene_sensitivity TEXT NOT NULL CHECK (ethylene_sensitivity IN ('low', 'moderate', 'high')),
+    typical_shelf_life_days INTEGER NOT NULL CHECK (typical_shelf_life_days > 0),
+    -- What each expected_quality grade means for this crop, keyed by grade value
+    quality_grades JSONB NOT NULL DEFAULT '{}'::jsonb,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (max_temperature_celsius >= min_temperature_celsius),
+    CHECK (min_humidity_percentage >= 0 AND max_humidity_percentage <= 100 AND max_humidity_percentage >= min_humidity_percentage)
+);
+
+ALTER TABLE public.crops ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_crops_updated_at BEFORE UPDATE ON public.crops FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Retired crops are deactivated rather than deleted so old batches still resolve
+CREATE POLICY "Anyone signed in can view crops" ON public.crops FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins can add crops" ON public.crops FOR INSERT TO authenticated WITH CHECK (public.is_app_admin(auth.uid()));
+CREATE POLICY "Admins can update crops" ON public.crops FOR UPDATE TO authenticated USING (public.is_app_admin(auth.uid())) WITH CHECK (public.is_app_admin(auth.uid()));
+
+GRANT EXECUTE ON FUNCTION public.is_app_admin(UUID) TO authenticated;
+
+-- The crops the batch form used to hard-code, with recommended storage conditions
+INSERT INTO public.crops (
+    name, min_temperature_celsius, max_temperature_celsius, min_humidity_percentage, max_humidity_percentage,
+    chilling_sensitive, ethylene_production, ethylene_sensitivity, typical_shelf_life_days, quality_grades
+) VALUES
+    ('Tomatoes', 10, 13, 90, 95, true, 'high', 'high', 14, '{
+        "premium": "Uniform colour and size, firm, no cracks or blemishes",
+        "grade_a": "Firm with even colour, slight shape defects",
+        "grade_b": "Minor cracks or blotches, still firm",
+        "grade_c": "Soft spots, growth cracks or uneven ripening"
+    }'),
+    ('Potatoes', 7, 10, 90, 95, true, 'very_low', 'moderate', 150, '{
+        "premium": "Clean, well-shaped tubers, no greening or sprouting",
+        "grade_a": "Minor skinning, no greening",
+        "grade_b": "Some mechanical damage or slight greening",
+        "grade_c": "Greening, sprouting or soft rot present"
+    }'),
+    ('Onions', 0, 2, 65, 70, false, 'very_low', 'low', 180, '{
+        "premium": "Well cured, dry necks, firm with tight skins",
+        "grade_a": "Firm, minor loose skins",
+        "grade_b": "Some thick necks or split skins",
+        "grade_c": "Sprouting, soft bulbs or neck rot"
+    }'),
+    ('Carrots', 0, 1, 95, 100, false, 'very_low', 'high', 120, '{
+        "premium": "Straight, bright orange, crisp, no splits",
+        "grade_a": "Crisp with minor shape defects",
+        "grade_b": "Some forking, cracks or limpness",
+        "grade_c": "Shrivelled, bitter or showing decay"
+    }'),
+    ('Cabbage', 0, 1, 95, 100, false, 'very_low', 'high', 90, '{
+        "premium": "Solid, heavy heads, fresh wrapper leaves",
+        "grade_a": "Firm heads, a few damaged outer leaves",
+        "grade_b": "Loose heads or yellowing outer leaves",
+        "grade_c": "Soft heads, leaf rot or burst heads"
+    }'),
+    ('Maize', 10, 15, 60, 70, false, 'very_low', 'low', 365, '{
+        "premium": "Dry, clean grain, no mould, insects or broken kernels",
+        "grade_a": "Dry grain, few broken kernels",
+        "grade_b": "Some broken or discoloured kernels",
+        "grade_c": "Damp, mouldy or insect-damaged grain"
+    }'),
+    ('Wheat', 10, 15, 60, 70, false, 'very_low', 'low', 365, '{
+        "premium": "Dry, plump, clean grain",
+        "grade_a": "Dry grain with little foreign matter",
+        "grade_b": "Shrivelled or broken kernels present",
+        "grade_c": "Damp, sprouted or insect-damaged grain"
+    }'),
+    ('Rice', 10, 15, 60, 70, false, 'very_low', 'low', 365, '{
+        "premium": "Dry, whole grains, uniform colour",
+        "grade_a": "Dry with few broken grains",
+        "grade_b": "Noticeable broken or chalky grains",
+        "grade_c": "Damp, discoloured or insect-damaged grain"
+    }'),
+    ('Beans', 4, 7, 95, 100, true, 'low', 'moderate', 10, '{
+        "premium": "Crisp pods that snap, bright colour, no blemishes",
+        "grade_a": "Crisp pods with slight marks",
+        "grade_b": "Some limp or scarred pods",
+        "grade_c": "Limp, pitted or rusty pods"
+    }'),
+    ('Peppers', 7, 10, 90, 95, true, 'low', 'low', 21, '{
+        "premium": "Glossy, firm, well-shaped, no sunscald",
+        "grade_a": "Firm with minor shape defects",
+        "grade_b": "Slight shrivel or small blemishes",
+        "grade_c": "Soft, pitted or showing decay"
+    }'),
+    ('Lettuce', 0, 2, 95, 100, false, 'very_low', 'high', 14, '{
+        "premium": "Crisp, bright leaves, no tipburn or russet spotting",
+        "grade_a": "Crisp with a few damaged outer leaves",
+        "grade_b": "Some wilting, browning or russet spots",
+        "grade_c": "Wilted, slimy or decaying leaves"
+    }'),
+    ('Cucumbers', 10, 12, 90, 95, true, 'low', 'high', 14, '{
+        "premium": "Straight, dark green, firm",
+        "grade_a": "Firm with slight curvature",
+        "grade_b": "Some yellowing or shrivel",
+        "grade_c": "Soft, pitted or yellow fruit"
+    }'),
+    ('Apples', 0, 4, 90, 95, false, 'very_high', 'high', 120, '{
+        "premium": "Full colour, firm, no bruises or russet",
+        "grade_a": "Firm with minor skin marks",
+        "grade_b": "Small bruises or scald spots",
+        "grade_c": "Bruised, mealy or showing rot"
+    }'),
+    ('Oranges', 3, 9, 85, 90, true, 'very_low', 'moderate', 56, '{
+        "premium": "Firm, full colour, smooth peel",
+        "grade_a": "Firm with slight peel marks",
+        "grade_b": "Some scarring or soft spots",
+        "grade_c": "Mould, pitting or dried-out fruit"
+    }'),
+    ('Bananas', 13, 14, 90, 95, true, 'moderate', 'high', 14, '{
+        "premium": "Even green to yellow, no bruises, intact crowns",
+        "grade_a": "Few small marks on the peel",
+        "grade_b": "Bruising or uneven ripening",
+        "grade_c": "Chilling-grey peel, splits or crown rot"
+    }'),
+    ('Mangoes', 12, 13, 85, 90, true, 'moderate', 'moderate', 21, '{
+        "premium": "Firm, unblemished, uniform ripeness",
+        "grade_a": "Firm with minor latex stains",
+        "grade_b": "Small sap burn or anthracnose spots",
+        "grade_c": "Soft, shrivelled or extensive black spots"
+    }');
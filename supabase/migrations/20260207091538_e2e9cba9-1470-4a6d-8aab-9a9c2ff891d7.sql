@@ -0,0 +1,198 @@
+-- Remaining shelf-life prediction: a Q10 model of how much of a crop's shelf life its
+-- temperature history has used up since harvest. A crop kept at the middle of its catalog
+-- range uses one day of shelf life per day; every 10°C warmer multiplies that by Q10.
+
+-- Latest prediction per batch, written by predict_shelf_life only
+CREATE TABLE public.shelf_life_predictions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    crop_id UUID REFERENCES public.crops(id) ON DELETE CASCADE NOT NULL,
+    reference_temperature_celsius NUMERIC(5, 2) NOT NULL,
+    reference_shelf_life_days INTEGER NOT NULL,
+    -- The history the prediction covers: harvest until receipt, or until it was computed
+    exposure_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    exposure_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    consumed_days NUMERIC(8, 2) NOT NULL,
+    remaining_days NUMERIC(8, 2) NOT NULL,
+    remaining_days_low NUMERIC(8, 2) NOT NULL,
+    remaining_days_high NUMERIC(8, 2) NOT NULL,
+    mean_temperature_celsius NUMERIC(5, 2),
+    reading_count INTEGER NOT NULL,
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.shelf_life_predictions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view shelf-life predictions" ON public.shelf_life_predictions FOR SELECT USING (
+    public.is_batch_participant(batch_id, auth.uid())
+);
+
+-- Recomputes a batch's prediction from its whole history. The timeline is cut at every
+-- reading and every pickup, drop and handoff; each piece takes the latest weather reading
+-- so far. While a leg declared a temperature band the cargo is taken to sit inside it
+-- (breaks in the band are reported separately as cold-chain excursions).
+-- Chilling-sensitive crops below their minimum age as if that far above the reference.
+-- The range comes from Q10 between 2 and 3, plus 10% lot-to-lot variation (25% with no readings).
+CREATE OR REPLACE FUNCTION public.predict_shelf_life(_batch_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _batch public.batches%ROWTYPE;
+    _crop public.crops%ROWTYPE;
+    _reference NUMERIC;
+    _end TIMESTAMP WITH TIME ZONE;
+    _exposure RECORD;
+    _variation NUMERIC;
+BEGIN
+    -- Edge functions and migrations run this without a user
+    IF auth.uid() IS NOT NULL AND NOT public.is_batch_participant(_batch_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Only participants in this batch can predict its shelf life'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _batch FROM public.batches WHERE id = _batch_id;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- Crops outside the catalog have no parameters to predict from
+    SELECT * INTO _crop FROM public.crops WHERE lower(name) = lower(_batch.crop_type);
+    IF NOT FOUND THEN
+        DELETE FROM public.shelf_life_predictions WHERE batch_id = _batch_id;
+        RETURN;
+    END IF;
+
+    _reference := (_crop.min_temperature_celsius + _crop.max_temperature_celsius) / 2;
+
+    SELECT received_at INTO _end FROM public.vendor_receipts WHERE batch_id = _batch_id;
+    _end := GREATEST(COALESCE(_end, now()), _batch.harvest_time);
+
+    WITH readings AS (
+        SELECT recorded_at, temperature_celsius AS temperature
+        FROM public.environmental_data
+        WHERE batch_id = _batch_id AND temperature_celsius IS NOT NULL AND recorded_at < _end
+    ),
+    legs AS (
+        SELECT l.pickup_time AS started_at, COALESCE(l.drop_time, l.handoff_released_at, _end) AS ended_at,
+            b.min_celsius, b.max_celsius
+        FROM public.transport_logs l
+        CROSS JOIN LATERAL public.declared_temperature_band(l.temperature_maintained) b
+        WHERE l.batch_id = _batch_id AND l.pickup_time IS NOT NULL
+    ),
+    breakpoints AS (
+        SELECT _batch.harvest_time AS at
+        UNION SELECT recorded_at FROM readings
+        UNION SELECT started_at FROM legs
+        UNION SELECT ended_at FROM legs
+    ),
+    pieces AS (
+        SELECT at, EXTRACT(EPOCH FROM LEAD(at, 1, _end) OVER (ORDER BY at) - at) / 86400 AS days
+        FROM breakpoints
+        WHERE at >= _batch.harvest_time AND at < _end
+    ),
+    temperatures AS (
+        SELECT
+            p.days,
+            CASE
+                WHEN band.min_celsius IS NULL THEN ambient.temperature
+                ELSE LEAST(GREATEST(ambient.temperature, band.min_celsius), band.max_celsius)
+            END AS temperature
+        FROM pieces p
+        -- Before the first reading, assume the conditions it found
+        CROSS JOIN LATERAL (
+            SELECT COALESCE(
+                (SELECT temperature FROM readings r WHERE r.recorded_at <= p.at ORDER BY r.recorded_at DESC LIMIT 1),
+                (SELECT temperature FROM readings ORDER BY recorded_at LIMIT 1),
+                _reference
+            ) AS temperature
+        ) ambient
+        LEFT JOIN LATERAL (
+            SELECT min_celsius, max_celsius FROM legs
+            WHERE min_celsius IS NOT NULL AND p.at >= started_at AND p.at < ended_at
+            LIMIT 1
+        ) band ON true
+    ),
+    exponents AS (
+        SELECT
+            days,
+            temperature,
+            CASE
+                WHEN _crop.chilling_sensitive AND temperature < _crop.min_temperature_celsius
+                    THEN _crop.min_temperature_celsius - temperature
+                ELSE temperature - _reference
+            END / 10 AS exponent
+        FROM temperatures
+    )
+    SELECT
+        COALESCE(SUM(days * power(2.5, exponent)), 0) AS consumed,
+        COALESCE(SUM(days * power(2.0, exponent)), 0) AS consumed_q2,
+        COALESCE(SUM(days * power(3.0, exponent)), 0) AS consumed_q3,
+        SUM(days * temperature) / NULLIF(SUM(days), 0) AS mean_temperature,
+        (SELECT COUNT(*) FROM readings) AS reading_count
+    INTO _exposure
+    FROM exponents;
+
+    _variation := _crop.typical_shelf_life_days * CASE WHEN _exposure.reading_count = 0 THEN 0.25 ELSE 0.10 END;
+
+    INSERT INTO public.shelf_life_predictions (
+        batch_id, crop_id, reference_temperature_celsius, reference_shelf_life_days, exposure_start, exposure_end,
+        consumed_days, remaining_days, remaining_days_low, remaining_days_high, mean_temperature_celsius, reading_count
+    )
+    VALUES (
+        _batch_id, _crop.id, _reference, _crop.typical_shelf_life_days, _batch.harvest_time, _end,
+        round(_exposure.consumed, 2),
+        round(GREATEST(_crop.typical_shelf_life_days - _exposure.consumed, 0), 2),
+        round(GREATEST(_crop.typical_shelf_life_days - GREATEST(_exposure.consumed_q2, _exposure.consumed_q3) - _variation, 0), 2),
+        round(GREATEST(_crop.typical_shelf_life_days - LEAST(_exposure.consumed_q2, _exposure.consumed_q3) + _variation, 0), 2),
+        round(_exposure.mean_temperature, 2),
+        _exposure.reading_count
+    )
+    ON CONFLICT (batch_id) DO UPDATE
+    SET crop_id = EXCLUDED.crop_id,
+        reference_temperature_celsius = EXCLUDED.reference_temperature_celsius,
+        reference_shelf_life_days = EXCLUDED.reference_shelf_life_days,
+        exposure_start = EXCLUDED.exposure_start,
+        exposure_end = EXCLUDED.exposure_end,
+        consumed_days = EXCLUDED.consumed_days,
+        remaining_days = EXCLUDED.remaining_days,
+        remaining_days_low = EXCLUDED.remaining_days_low,
+        remaining_days_high = EXCLUDED.remaining_days_high,
+        mean_temperature_celsius = EXCLUDED.mean_temperature_celsius,
+        reading_count = EXCLUDED.reading_count,
+        computed_at = now();
+END;
+$$;
+
+-- Re-predict whenever a reading lands, a leg's timing or declaration changes, or the batch is received
+CREATE OR REPLACE FUNCTION public.refresh_shelf_life()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.predict_shelf_life(NEW.batch_id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_shelf_life_on_environmental_data
+    AFTER INSERT ON public.environmental_data
+    FOR EACH ROW EXECUTE FUNCTION public.refresh_shelf_life();
+
+CREATE TRIGGER refresh_shelf_life_on_leg_update
+    AFTER UPDATE OF pickup_time, drop_time, handoff_released_at, temperature_maintained ON public.transport_logs
+    FOR EACH ROW EXECUTE FUNCTION public.refresh_shelf_life();
+
+CREATE TRIGGER refresh_shelf_life_on_receipt
+    AFTER INSERT OR UPDATE OF received_at ON public.vendor_receipts
+    FOR EACH ROW EXECUTE FUNCTION public.refresh_shelf_life();
+
+REVOKE EXECUTE ON FUNCTION public.predict_shelf_life(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.predict_shelf_life(UUID) TO authenticated, service_role;
+
+-- Predict for the batches that already exist
+SELECT public.predict_shelf_life(id) FROM public.batches;
@@ -0,0 +1,286 @@
+-- Provenance for weather readings: which provider a row came from and whether its values
+-- were measured, estimated or are placeholders stored because no provider answered.
+ALTER TABLE public.environmental_data
+    ADD COLUMN source TEXT,
+    ADD COLUMN data_quality TEXT NOT NULL DEFAULT 'measured'
+        CHECK (data_quality IN ('measured', 'estimated', 'defaulted'));
+
+-- Everything so far came from Google, except the fixed fallback fetch-environmental-data
+-- used to store when the API failed. A backfill, not a change to the batch: keep it out of the audit trail.
+ALTER TABLE public.environmental_data DISABLE TRIGGER record_environmental_data_event;
+
+UPDATE public.environmental_data SET source = 'google';
+
+UPDATE public.environmental_data
+SET source = 'default', data_quality = 'defaulted'
+WHERE temperature_celsius = 25
+    AND humidity_percentage = 60
+    AND weather_condition = 'Unknown'
+    AND air_quality_index = 50
+    AND uv_index = 5
+    AND precipitation_mm = 0
+    AND wind_speed_kmh = 10;
+
+ALTER TABLE public.environmental_data ENABLE TRIGGER record_environmental_data_event;
+
+-- Placeholders are not temperatures: keep them out of excursion detection and shelf-life prediction.
+-- Both functions are unchanged apart from the data_quality filter.
+CREATE OR REPLACE FUNCTION public.detect_cold_chain_excursions(_batch_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _leg public.transport_logs%ROWTYPE;
+    _band RECORD;
+    _leg_end TIMESTAMP WITH TIME ZONE;
+    _leg_ids UUID[];
+    _kept UUID[] := '{}';
+BEGIN
+    -- Edge functions run this with the service role, where there is no user
+    IF auth.uid() IS NOT NULL AND NOT public.is_batch_participant(_batch_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Only participants in this batch can check its cold chain'
+            USING ERRCODE = '42501';
+    END IF;
+
+    FOR _leg IN
+        SELECT * FROM public.transport_logs
+        WHERE batch_id = _batch_id AND pickup_time IS NOT NULL
+        ORDER BY leg_number
+    LOOP
+        SELECT * INTO _band FROM public.declared_temperature_band(_leg.temperature_maintained);
+        CONTINUE WHEN _band.min_celsius IS NULL;
+
+        _leg_end := COALESCE(_leg.drop_time, _leg.handoff_released_at, now());
+
+        WITH logger AS (
+            -- Logger readings, whether uploaded against the batch or matched from the vehicle
+            SELECT DISTINCT r.recorded_at, r.temperature_celsius AS temperature
+            FROM public.telemetry_readings r
+            JOIN public.sensor_devices d ON d.id = r.device_id
+            WHERE r.recorded_at BETWEEN _leg.pickup_time AND _leg_end
+                AND (
+                    r.batch_id = _batch_id
+                    OR (
+                        r.batch_id IS NULL
+                        AND d.owner_id = _leg.transporter_id
+                        AND (
+                            d.vehicle_info IS NULL OR _leg.vehicle_info IS NULL
+                            OR lower(trim(d.vehicle_info)) = lower(trim(_leg.vehicle_info))
+                        )
+                    )
+                )
+        ),
+        weather AS (
+            -- Weather is fetched just after a drop is saved, so allow a few minutes past the leg end
+            SELECT recorded_at, temperature_celsius AS temperature
+            FROM public.environmental_data
+            WHERE batch_id = _batch_id
+                AND temperature_celsius IS NOT NULL
+                AND data_quality <> 'defaulted'
+                AND recorded_at BETWEEN _leg.pickup_time AND _leg_end + INTERVAL '10 minutes'
+                AND NOT EXISTS (SELECT 1 FROM logger)
+        ),
+        spans AS (
+            SELECT
+                recorded_at,
+                temperature,
+                GREATEST(
+                    EXTRACT(EPOCH FROM LEAD(recorded_at, 1, _leg_end) OVER (ORDER BY recorded_at) - recorded_at) / 60,
+                    0
+                ) AS minutes,
+                CASE
+                    WHEN temperature > _band.max_celsius THEN 'above'
+                    WHEN temperature < _band.min_celsius THEN 'below'
+                END AS direction,
+                GREATEST(temperature - _band.max_celsius, _band.min_celsius - temperature, 0) AS deviation
+            FROM (SELECT * FROM logger UNION ALL SELECT * FROM weather) readings
+        ),
+        numbered AS (
+            -- Consecutive readings on the same side of the band form one excursion
+            SELECT *, SUM(CASE WHEN direction IS DISTINCT FROM previous_direction THEN 1 ELSE 0 END)
+                OVER (ORDER BY recorded_at) AS run
+            FROM (SELECT *, LAG(direction) OVER (ORDER BY recorded_at) AS previous_direction FROM spans) s
+        ),
+        saved AS (
+            INSERT INTO public.cold_chain_excursions (
+                batch_id, transport_log_id, declared_band, band_min_celsius, band_max_celsius, source, direction,
+                started_at, ended_at, minutes_out_of_range, peak_deviation_celsius, degree_minutes, reading_count
+            )
+            SELECT
+                _batch_id, _leg.id, _leg.temperature_maintained, _band.min_celsius, _band.max_celsius,
+                CASE WHEN EXISTS (SELECT 1 FROM logger) THEN 'logger' ELSE 'weather' END,
+                direction,
+                MIN(recorded_at),
+                MAX(recorded_at + minutes * INTERVAL '1 minute'),
+                round(SUM(minutes), 1),
+                MAX(deviation),
+                round(SUM(deviation * minutes), 1),
+                COUNT(*)
+            FROM numbered
+            WHERE direction IS NOT NULL
+            GROUP BY run, direction
+            ON CONFLICT (transport_log_id, started_at) DO UPDATE
+            SET declared_band = EXCLUDED.declared_band,
+                band_min_celsius = EXCLUDED.band_min_celsius,
+                band_max_celsius = EXCLUDED.band_max_celsius,
+                source = EXCLUDED.source,
+                direction = EXCLUDED.direction,
+                ended_at = EXCLUDED.ended_at,
+                minutes_out_of_range = EXCLUDED.minutes_out_of_range,
+                peak_deviation_celsius = EXCLUDED.peak_deviation_celsius,
+                degree_minutes = EXCLUDED.degree_minutes,
+                reading_count = EXCLUDED.reading_count
+            RETURNING id
+        )
+        SELECT COALESCE(array_agg(id), '{}') INTO _leg_ids FROM saved;
+
+        _kept := _kept || _leg_ids;
+    END LOOP;
+
+    -- Stretches that no longer show up (new readings, a changed declaration) are withdrawn
+    DELETE FROM public.cold_chain_excursions
+    WHERE batch_id = _batch_id AND NOT (id = ANY(_kept));
+
+    RETURN COALESCE(array_length(_kept, 1), 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.predict_shelf_life(_batch_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _batch public.batches%ROWTYPE;
+    _crop public.crops%ROWTYPE;
+    _reference NUMERIC;
+    _end TIMESTAMP WITH TIME ZONE;
+    _exposure RECORD;
+    _variation NUMERIC;
+BEGIN
+    -- Edge functions and migrations run this without a user
+    IF auth.uid() IS NOT NULL AND NOT public.is_batch_participant(_batch_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Only participants in this batch can predict its shelf life'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _batch FROM public.batches WHERE id = _batch_id;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- Crops outside the catalog have no parameters to predict from
+    SELECT * INTO _crop FROM public.crops WHERE lower(name) = lower(_batch.crop_type);
+    IF NOT FOUND THEN
+        DELETE FROM public.shelf_life_predictions WHERE batch_id = _batch_id;
+        RETURN;
+    END IF;
+
+    _reference := (_crop.min_temperature_celsius + _crop.max_temperature_celsius) / 2;
+
+    SELECT received_at INTO _end FROM public.vendor_receipts WHERE batch_id = _batch_id;
+    _end := GREATEST(COALESCE(_end, now()), _batch.harvest_time);
+
+    WITH readings AS (
+        SELECT recorded_at, temperature_celsius AS temperature
+        FROM public.environmental_data
+        WHERE batch_id = _batch_id AND temperature_celsius IS NOT NULL AND data_quality <> 'defaulted'
+            AND recorded_at < _end
+    ),
+    legs AS (
+        SELECT l.pickup_time AS started_at, COALESCE(l.drop_time, l.handoff_released_at, _end) AS ended_at,
+            b.min_celsius, b.max_celsius
+        FROM public.transport_logs l
+        CROSS JOIN LATERAL public.declared_temperature_band(l.temperature_maintained) b
+        WHERE l.batch_id = _batch_id AND l.pickup_time IS NOT NULL
+    ),
+    breakpoints AS (
+        SELECT _batch.harvest_time AS at
+        UNION SELECT recorded_at FROM readings
+        UNION SELECT started_at FROM legs
+        UNION SELECT ended_at FROM legs
+    ),
+    pieces AS (
+        SELECT at, EXTRACT(EPOCH FROM LEAD(at, 1, _end) OVER (ORDER BY at) - at) / 86400 AS days
+        FROM breakpoints
+        WHERE at >= _batch.harvest_time AND at < _end
+    ),
+    temperatures AS (
+        SELECT
+            p.days,
+            CASE
+                WHEN band.min_celsius IS NULL THEN ambient.temperature
+                ELSE LEAST(GREATEST(ambient.temperature, band.min_celsius), band.max_celsius)
+            END AS temperature
+        FROM pieces p
+        -- Before the first reading, assume the conditions it found
+        CROSS JOIN LATERAL (
+            SELECT COALESCE(
+                (SELECT temperature FROM readings r WHERE r.recorded_at <= p.at ORDER BY r.recorded_at DESC LIMIT 1),
+                (SELECT temperature FROM readings ORDER BY recorded_at LIMIT 1),
+                _reference
+            ) AS temperature
+        ) ambient
+        LEFT JOIN LATERAL (
+            SELECT min_celsius, max_celsius FROM legs
+            WHERE min_celsius IS NOT NULL AND p.at >= started_at AND p.at < ended_at
+            LIMIT 1
+        ) band ON true
+    ),
+    exponents AS (
+        SELECT
+            days,
+            temperature,
+            CASE
+                WHEN _crop.chilling_sensitive AND temperature < _crop.min_temperature_celsius
+                    THEN _crop.min_temperature_celsius - temperature
+                ELSE temperature - _reference
+            END / 10 AS exponent
+        FROM temperatures
+    )
+    SELECT
+        COALESCE(SUM(days * power(2.5, exponent)), 0) AS consumed,
+        COALESCE(SUM(days * power(2.0, exponent)), 0) AS consumed_q2,
+        COALESCE(SUM(days * power(3.0, exponent)), 0) AS consumed_q3,
+        SUM(days * temperature) / NULLIF(SUM(days), 0) AS mean_temperature,
+        (SELECT COUNT(*) FROM readings) AS reading_count
+    INTO _exposure
+    FROM exponents;
+
+    _variation := _crop.typical_shelf_life_days * CASE WHEN _exposure.reading_count = 0 THEN 0.25 ELSE 0.10 END;
+
+    INSERT INTO public.shelf_life_predictions (
+        batch_id, crop_id, reference_temperature_celsius, reference_shelf_life_days, exposure_start, exposure_end,
+        consumed_days, remaining_days, remaining_days_low, remaining_days_high, mean_temperature_celsius, reading_count
+    )
+    VALUES (
+        _batch_id, _crop.id, _reference, _crop.typical_shelf_life_days, _batch.harvest_time, _end,
+        round(_exposure.consumed, 2),
+        round(GREATEST(_crop.typical_shelf_life_days - _exposure.consumed, 0), 2),
+        round(GREATEST(_crop.typical_shelf_life_days - GREATEST(_exposure.consumed_q2, _exposure.consumed_q3) - _variation, 0), 2),
+        round(GREATEST(_crop.typical_shelf_life_days - LEAST(_exposure.consumed_q2, _exposure.consumed_q3) + _variation, 0), 2),
+        round(_exposure.mean_temperature, 2),
+        _exposure.reading_count
+    )
+    ON CONFLICT (batch_id) DO UPDATE
+    SET crop_id = EXCLUDED.crop_id,
+        reference_temperature_celsius = EXCLUDED.reference_temperature_celsius,
+        reference_shelf_life_days = EXCLUDED.reference_shelf_life_days,
+        exposure_start = EXCLUDED.exposure_start,
+        exposure_end = EXCLUDED.exposure_end,
+        consumed_days = EXCLUDED.consumed_days,
+        remaining_days = EXCLUDED.remaining_days,
+        remaining_days_low = EXCLUDED.remaining_days_low,
+        remaining_days_high = EXCLUDED.remaining_days_high,
+        mean_temperature_celsius = EXCLUDED.mean_temperature_celsius,
+        reading_count = EXCLUDED.reading_count,
+        computed_at = now();
+END;
+$$;
+
+-- Re-run both now that the backfilled placeholders no longer count
+SELECT public.detect_cold_chain_excursions(id) FROM public.batches;
+SELECT public.predict_shelf_life(id) FROM public.batches;
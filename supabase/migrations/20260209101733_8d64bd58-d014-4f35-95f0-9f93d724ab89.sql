@@ -0,0 +1,6 @@
+-- Hourly weather sampled along a finished transport leg (backfill-route-weather).
+-- Those rows point at the leg they were sampled along; one reading per leg per moment,
+-- so the backfill can be re-run without duplicating anything.
+ALTER TABLE public.environmental_data
+    ADD COLUMN transport_log_id UUID REFERENCES public.transport_logs(id) ON DELETE CASCADE,
+    ADD CONSTRAINT environmental_data_transport_log_id_recorded_at_key UNIQUE (transport_log_id, recorded_at);
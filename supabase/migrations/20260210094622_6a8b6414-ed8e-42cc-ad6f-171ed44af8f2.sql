@@ -0,0 +1,129 @@
+-- Pre-pickup weather risk: the forecast over a batch's pickup and arrival windows is checked
+-- for heavy rain, heat the crop cannot take and high winds, and farmers and assigned
+-- transporters are told when it gets worse before the batch is collected.
+
+-- Air temperature above which a few hours in the field, at loading or on an open truck start
+-- to damage the crop. Storage ranges are far cooler than anything a loading bay sees.
+ALTER TABLE public.crops ADD COLUMN heat_tolerance_celsius NUMERIC(4, 1) NOT NULL DEFAULT 30;
+
+UPDATE public.crops
+SET heat_tolerance_celsius = tolerance.celsius
+FROM (VALUES
+    ('Tomatoes', 32), ('Potatoes', 29), ('Onions', 35), ('Carrots', 27),
+    ('Cabbage', 27), ('Maize', 35), ('Wheat', 38), ('Rice', 38),
+    ('Beans', 30), ('Peppers', 32), ('Lettuce', 24), ('Cucumbers', 32),
+    ('Apples', 30), ('Oranges', 35), ('Bananas', 35), ('Mangoes', 38)
+) AS tolerance (name, celsius)
+WHERE public.crops.name = tolerance.name;
+
+-- Latest forecast check per batch, written by record_weather_risk only
+CREATE TABLE public.weather_risk_forecasts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    risk_level TEXT NOT NULL CHECK (risk_level IN ('low', 'moderate', 'high')),
+    -- Flagged spans: [{kind, place, starts_at, ends_at, peak}], kind is heavy_rain, heat or high_wind
+    -- and place is farm or destination
+    risks JSONB NOT NULL DEFAULT '[]'::jsonb,
+    pickup_window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    pickup_window_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- False until the buyer has received a batch somewhere, so only the farm was checked
+    destination_known BOOLEAN NOT NULL DEFAULT false,
+    recommendation TEXT CHECK (recommendation IN ('earlier', 'later')),
+    recommended_pickup_at TIMESTAMP WITH TIME ZONE,
+    source TEXT NOT NULL,
+    checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (recommendation IS NULL OR recommended_pickup_at IS NOT NULL)
+);
+
+ALTER TABLE public.weather_risk_forecasts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view weather risk forecasts" ON public.weather_risk_forecasts FOR SELECT USING (
+    public.is_batch_participant(batch_id, auth.uid())
+);
+
+-- Stores a forecast check. When the risk level rises while the batch is still waiting for
+-- pickup, the farmer and any transporter due to collect it are notified.
+CREATE OR REPLACE FUNCTION public.record_weather_risk(
+    _batch_id UUID,
+    _risk_level TEXT,
+    _risks JSONB,
+    _pickup_window_start TIMESTAMP WITH TIME ZONE,
+    _pickup_window_end TIMESTAMP WITH TIME ZONE,
+    _destination_known BOOLEAN,
+    _recommendation TEXT,
+    _recommended_pickup_at TIMESTAMP WITH TIME ZONE,
+    _source TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _batch public.batches%ROWTYPE;
+    _previous TEXT;
+    _hazards TEXT;
+    _body TEXT;
+    _transporter_id UUID;
+BEGIN
+    SELECT * INTO _batch FROM public.batches WHERE id = _batch_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Batch not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT risk_level INTO _previous FROM public.weather_risk_forecasts WHERE batch_id = _batch_id;
+
+    INSERT INTO public.weather_risk_forecasts (
+        batch_id, risk_level, risks, pickup_window_start, pickup_window_end, destination_known,
+        recommendation, recommended_pickup_at, source
+    )
+    VALUES (
+        _batch_id, _risk_level, COALESCE(_risks, '[]'::jsonb), _pickup_window_start, _pickup_window_end, _destination_known,
+        _recommendation, _recommended_pickup_at, _source
+    )
+    ON CONFLICT (batch_id) DO UPDATE
+    SET risk_level = EXCLUDED.risk_level,
+        risks = EXCLUDED.risks,
+        pickup_window_start = EXCLUDED.pickup_window_start,
+        pickup_window_end = EXCLUDED.pickup_window_end,
+        destination_known = EXCLUDED.destination_known,
+        recommendation = EXCLUDED.recommendation,
+        recommended_pickup_at = EXCLUDED.recommended_pickup_at,
+        source = EXCLUDED.source,
+        checked_at = now();
+
+    -- The first check shows on the batch itself; only a change for the worse is news
+    IF _previous IS NULL
+        OR array_position(ARRAY['low', 'moderate', 'high'], _risk_level)
+            <= array_position(ARRAY['low', 'moderate', 'high'], _previous)
+        OR _batch.status NOT IN ('created', 'assigned_transporter') THEN
+        RETURN;
+    END IF;
+
+    SELECT string_agg(DISTINCT replace(risk ->> 'kind', '_', ' '), ', ') INTO _hazards
+    FROM jsonb_array_elements(COALESCE(_risks, '[]'::jsonb)) risk;
+
+    _body := format('The forecast around pickup of the %s kg %s batch is now %s risk (%s).',
+        _batch.quantity_kg, _batch.crop_type, _risk_level, COALESCE(_hazards, 'unsettled weather'));
+    IF _recommendation IS NOT NULL THEN
+        _body := _body || format(' Consider picking up %s, around %s.',
+            _recommendation, to_char(_recommended_pickup_at, 'Mon DD HH24:MI'));
+    END IF;
+
+    IF _batch.farmer_id IS NOT NULL THEN
+        PERFORM public.notify_user(_batch.farmer_id, _batch_id, 'weather_risk', 'Weather risk rising', _body);
+    END IF;
+
+    FOR _transporter_id IN
+        SELECT transporter_id FROM public.transport_logs
+        WHERE batch_id = _batch_id AND pickup_time IS NULL
+    LOOP
+        PERFORM public.notify_user(_transporter_id, _batch_id, 'weather_risk', 'Weather risk rising', _body);
+    END LOOP;
+END;
+$$;
+
+-- Forecasts come from the check-weather-risk and create-batch functions only
+REVOKE EXECUTE ON FUNCTION public.record_weather_risk(UUID, TEXT, JSONB, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, BOOLEAN, TEXT, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_weather_risk(UUID, TEXT, JSONB, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, BOOLEAN, TEXT, TIMESTAMP WITH TIME ZONE, TEXT) TO service_role;
@@ -0,0 +1,12 @@
+-- Which model provider and model produced each analysis, now that analyze-batch can use several
+ALTER TABLE public.ai_analysis ADD COLUMN provider TEXT;
+ALTER TABLE public.ai_analysis ADD COLUMN model TEXT;
+
+-- Everything so far came from the Lovable gateway's default model; backfilling is not a batch event
+ALTER TABLE public.ai_analysis DISABLE TRIGGER record_ai_analysis_event;
+
+UPDATE public.ai_analysis
+SET provider = 'lovable', model = 'google/gemini-3-flash-preview'
+WHERE provider IS NULL;
+
+ALTER TABLE public.ai_analysis ENABLE TRIGGER record_ai_analysis_event;
@@ -0,0 +1,25 @@
+-- Rule-based quality-loss score per batch, computed by analyze-batch before it asks the model.
+-- factors holds [{factor, points, max_points, detail}] for delay, temperature, humidity,
+-- transit_duration and grade_drop; total_loss is their sum, 0-100.
+CREATE TABLE public.quality_scores (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    total_loss NUMERIC(4, 1) NOT NULL CHECK (total_loss BETWEEN 0 AND 100),
+    factors JSONB NOT NULL,
+    -- Bumped whenever the rules change, so old and new scores are not compared blindly
+    scoring_version TEXT NOT NULL,
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.quality_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view quality scores" ON public.quality_scores FOR SELECT USING (
+    public.is_batch_participant(batch_id, auth.uid())
+);
+CREATE POLICY "Participants can insert quality scores" ON public.quality_scores FOR INSERT WITH CHECK (
+    public.is_batch_participant(batch_id, auth.uid())
+);
+-- Re-running an analysis rescores the batch
+CREATE POLICY "Participants can update quality scores" ON public.quality_scores FOR UPDATE USING (
+    public.is_batch_participant(batch_id, auth.uid())
+);
@@ -0,0 +1,40 @@
+-- Keep every analysis of a batch as a numbered version instead of overwriting the last one
+ALTER TABLE public.ai_analysis DROP CONSTRAINT ai_analysis_batch_id_key;
+
+ALTER TABLE public.ai_analysis ADD COLUMN version INTEGER;
+ALTER TABLE public.ai_analysis ADD COLUMN requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+-- SHA-256 of exactly what the model was given, so a re-run on unchanged data can be recognised
+ALTER TABLE public.ai_analysis ADD COLUMN input_hash TEXT;
+
+-- Until now a batch had at most one analysis; numbering it is not a batch event
+ALTER TABLE public.ai_analysis DISABLE TRIGGER record_ai_analysis_event;
+UPDATE public.ai_analysis SET version = 1;
+ALTER TABLE public.ai_analysis ENABLE TRIGGER record_ai_analysis_event;
+
+ALTER TABLE public.ai_analysis ALTER COLUMN version SET NOT NULL;
+ALTER TABLE public.ai_analysis ADD CONSTRAINT ai_analysis_batch_id_version_key UNIQUE (batch_id, version);
+
+-- Numbers each new analysis after the batch's latest and records who asked for it
+CREATE OR REPLACE FUNCTION public.assign_ai_analysis_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Serialize analyses per batch
+    PERFORM 1 FROM public.batches WHERE id = NEW.batch_id FOR UPDATE;
+
+    SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+    FROM public.ai_analysis
+    WHERE batch_id = NEW.batch_id;
+
+    NEW.requested_by := auth.uid();
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_ai_analysis_version
+    BEFORE INSERT ON public.ai_analysis
+    FOR EACH ROW EXECUTE FUNCTION public.assign_ai_analysis_version();
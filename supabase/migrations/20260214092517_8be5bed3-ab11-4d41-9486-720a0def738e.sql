@@ -0,0 +1,51 @@
+-- Patterns mined from all of a farmer's delivered batches, with the model's improvement report.
+-- Every run is kept as a numbered version. findings holds [{dimension, group, crop, batch_count,
+-- mean_loss, baseline_loss, avoidable_kg}]; report holds {summary, recommendations: [{priority,
+-- title, action, evidence}]}.
+CREATE TABLE public.portfolio_insights (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    farmer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    version INTEGER NOT NULL,
+    -- Delivered batches the findings were drawn from
+    batch_count INTEGER NOT NULL,
+    findings JSONB NOT NULL,
+    report JSONB NOT NULL,
+    provider TEXT,
+    model TEXT,
+    -- SHA-256 of exactly what the model was given
+    input_hash TEXT,
+    generated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (farmer_id, version)
+);
+
+ALTER TABLE public.portfolio_insights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Farmers can view own insights" ON public.portfolio_insights FOR SELECT USING (
+    auth.uid() = farmer_id
+);
+CREATE POLICY "Farmers can insert own insights" ON public.portfolio_insights FOR INSERT WITH CHECK (
+    auth.uid() = farmer_id AND public.has_role(auth.uid(), 'farmer')
+);
+
+-- Numbers each new report after the farmer's latest
+CREATE OR REPLACE FUNCTION public.assign_portfolio_insights_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Serialize reports per farmer
+    PERFORM 1 FROM public.profiles WHERE id = NEW.farmer_id FOR UPDATE;
+
+    SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+    FROM public.portfolio_insights
+    WHERE farmer_id = NEW.farmer_id;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_portfolio_insights_version
+    BEFORE INSERT ON public.portfolio_insights
+    FOR EACH ROW EXECUTE FUNCTION public.assign_portfolio_insights_version();
@@ -0,0 +1,26 @@
+-- Follow-up questions about a batch's analysis. Each participant has their own thread with the
+-- model, so one party's questions (e.g. a transporter's) are never shown to another.
+CREATE TABLE public.batch_chat_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL,
+    -- Whose thread it is, for the model's replies as well as the questions
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL CHECK (length(content) > 0),
+    -- Who wrote a reply; null on questions
+    provider TEXT,
+    model TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX batch_chat_messages_thread_idx ON public.batch_chat_messages (batch_id, user_id, created_at);
+
+ALTER TABLE public.batch_chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view own chat" ON public.batch_chat_messages FOR SELECT USING (
+    auth.uid() = user_id AND public.is_batch_participant(batch_id, auth.uid())
+);
+-- Replies are written by the batch-chat function with the service role
+CREATE POLICY "Participants can ask in own chat" ON public.batch_chat_messages FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND role = 'user' AND public.is_batch_participant(batch_id, auth.uid())
+);
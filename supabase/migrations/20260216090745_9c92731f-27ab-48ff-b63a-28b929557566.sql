@@ -0,0 +1,36 @@
+-- Language each user reads AI output in; analyses are written in English and translated on demand
+ALTER TABLE public.profiles ADD COLUMN preferred_language TEXT NOT NULL DEFAULT 'en'
+    CHECK (preferred_language IN ('en', 'hi', 'sw', 'es'));
+
+-- Cached translations of an analysis, one per language, shared by every participant who reads it
+CREATE TABLE public.ai_analysis_translations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    analysis_id UUID REFERENCES public.ai_analysis(id) ON DELETE CASCADE NOT NULL,
+    language TEXT NOT NULL CHECK (language IN ('hi', 'sw', 'es')),
+    degradation_point TEXT,
+    environmental_impact TEXT,
+    confidence_level TEXT,
+    farmer_suggestions TEXT,
+    transporter_suggestions TEXT,
+    vendor_suggestions TEXT,
+    -- Who translated it
+    provider TEXT,
+    model TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (analysis_id, language)
+);
+
+ALTER TABLE public.ai_analysis_translations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view analysis translations" ON public.ai_analysis_translations FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.ai_analysis a
+        WHERE a.id = analysis_id AND public.is_batch_participant(a.batch_id, auth.uid())
+    )
+);
+CREATE POLICY "Participants can insert analysis translations" ON public.ai_analysis_translations FOR INSERT WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.ai_analysis a
+        WHERE a.id = analysis_id AND public.is_batch_participant(a.batch_id, auth.uid())
+    )
+);
@@ -0,0 +1,85 @@
+-- Produce photos taken at harvest, pickup and receipt, with the capture metadata read from the
+-- file and a model's estimate of what is visible. Files live under <batch_id>/<stage>/ in a
+-- private bucket; the assessment is written by the assess-photo function only.
+CREATE TABLE public.batch_photos (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL,
+    stage TEXT NOT NULL CHECK (stage IN ('harvest', 'pickup', 'receipt')),
+    storage_path TEXT NOT NULL UNIQUE,
+    uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    -- From the EXIF data when the camera wrote it, otherwise when the file was picked
+    taken_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    taken_at_source TEXT NOT NULL CHECK (taken_at_source IN ('exif', 'upload')),
+    gps_lat NUMERIC(10, 7),
+    gps_lng NUMERIC(10, 7),
+    gps_source TEXT CHECK (gps_source IN ('exif', 'device')),
+    camera TEXT,
+    assessment_status TEXT NOT NULL DEFAULT 'pending' CHECK (assessment_status IN ('pending', 'assessed', 'failed')),
+    -- Share of the visible produce with defects, in percent
+    defect_percentage NUMERIC(4, 1) CHECK (defect_percentage BETWEEN 0 AND 100),
+    bruising TEXT CHECK (bruising IN ('none', 'light', 'moderate', 'severe')),
+    ripeness TEXT CHECK (ripeness IN ('unripe', 'turning', 'ripe', 'overripe')),
+    assessment_notes TEXT,
+    assessment_model TEXT,
+    assessed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX batch_photos_batch_id_idx ON public.batch_photos (batch_id, taken_at);
+
+ALTER TABLE public.batch_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER record_batch_photos_event AFTER INSERT OR UPDATE OR DELETE ON public.batch_photos FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
+
+-- Each stage is photographed by whoever has the produce in hand at that point
+CREATE OR REPLACE FUNCTION public.can_add_batch_photo(_batch_id UUID, _stage TEXT, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE _stage
+        WHEN 'harvest' THEN EXISTS (
+            SELECT 1 FROM public.batches WHERE id = _batch_id AND farmer_id = _user_id
+        )
+        WHEN 'pickup' THEN EXISTS (
+            SELECT 1 FROM public.transport_logs WHERE batch_id = _batch_id AND transporter_id = _user_id
+        )
+        WHEN 'receipt' THEN EXISTS (
+            SELECT 1 FROM public.batches WHERE id = _batch_id AND buyer_id = _user_id
+        ) OR EXISTS (
+            SELECT 1 FROM public.vendor_receipts WHERE batch_id = _batch_id AND vendor_id = _user_id
+        )
+        ELSE false
+    END
+$$;
+
+CREATE POLICY "Participants can view batch photos" ON public.batch_photos FOR SELECT USING (
+    public.is_batch_participant(batch_id, auth.uid())
+);
+CREATE POLICY "Stage holders can add batch photos" ON public.batch_photos FOR INSERT TO authenticated WITH CHECK (
+    uploaded_by = auth.uid()
+    AND assessment_status = 'pending'
+    AND public.can_add_batch_photo(batch_id, stage, auth.uid())
+);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('batch-photos', 'batch-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Stage holders can upload batch photos" ON storage.objects FOR INSERT TO authenticated WITH CHECK (
+    bucket_id = 'batch-photos'
+    AND EXISTS (
+        SELECT 1 FROM public.batches b
+        WHERE b.id::TEXT = (storage.foldername(name))[1]
+            AND public.can_add_batch_photo(b.id, (storage.foldername(name))[2], auth.uid())
+    )
+);
+CREATE POLICY "Participants can view batch photo files" ON storage.objects FOR SELECT USING (
+    bucket_id = 'batch-photos'
+    AND EXISTS (
+        SELECT 1 FROM public.batches b
+        WHERE b.id::TEXT = (storage.foldername(name))[1] AND public.is_batch_participant(b.id, auth.uid())
+    )
+);
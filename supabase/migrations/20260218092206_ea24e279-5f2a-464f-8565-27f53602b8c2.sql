@@ -0,0 +1,32 @@
+-- Confidence is one of High/Medium/Low, with a 0-100 score alongside
+ALTER TABLE public.ai_analysis ADD COLUMN confidence_score SMALLINT CHECK (confidence_score BETWEEN 0 AND 100);
+
+-- Analysis runs whose model output never passed validation; nothing is saved to ai_analysis for them
+CREATE TABLE public.ai_analysis_failures (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID REFERENCES public.batches(id) ON DELETE CASCADE NOT NULL,
+    requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    -- Requests made, the first one included
+    attempts INTEGER NOT NULL,
+    -- What was wrong with the last answer
+    problems TEXT[] NOT NULL,
+    last_output TEXT,
+    provider TEXT,
+    model TEXT,
+    input_hash TEXT,
+    failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX ai_analysis_failures_batch_idx ON public.ai_analysis_failures (batch_id, failed_at);
+
+ALTER TABLE public.ai_analysis_failures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view analysis failures" ON public.ai_analysis_failures FOR SELECT USING (
+    public.is_batch_participant(batch_id, auth.uid())
+);
+CREATE POLICY "Participants can record analysis failures" ON public.ai_analysis_failures FOR INSERT WITH CHECK (
+    requested_by = auth.uid() AND public.is_batch_participant(batch_id, auth.uid())
+);
+
+CREATE TRIGGER record_ai_analysis_failures_event AFTER INSERT OR UPDATE OR DELETE ON public.ai_analysis_failures
+    FOR EACH ROW EXECUTE FUNCTION public.record_batch_event();
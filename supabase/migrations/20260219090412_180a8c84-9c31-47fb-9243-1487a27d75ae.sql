@@ -0,0 +1,14 @@
+-- Vendors are listed by name only; the email of a vendor without one stays private
+CREATE OR REPLACE FUNCTION public.list_vendors()
+RETURNS TABLE (id UUID, full_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.id, COALESCE(NULLIF(btrim(p.full_name), ''), 'Unnamed vendor')
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.user_id = p.id AND r.role = 'vendor'
+    WHERE auth.uid() IS NOT NULL
+    ORDER BY 2
+$$;
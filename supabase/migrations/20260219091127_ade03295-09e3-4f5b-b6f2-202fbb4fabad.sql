@@ -0,0 +1,120 @@
+-- A batch's buyer is only ever set by the vendor accepting an offer through respond_to_sale_offer.
+-- Farmers keep their UPDATE policy for other columns, so buyer_id is guarded like status.
+CREATE OR REPLACE FUNCTION public.enforce_batch_buyer_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.buyer_id IS NOT DISTINCT FROM OLD.buyer_id THEN
+        RETURN NEW;
+    END IF;
+    IF TG_OP = 'INSERT' AND NEW.buyer_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+    -- The buyer's account was deleted (ON DELETE SET NULL)
+    IF TG_OP = 'UPDATE' AND NEW.buyer_id IS NULL
+        AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.buyer_id) THEN
+        RETURN NEW;
+    END IF;
+
+    IF COALESCE(current_setting('app.batch_buyer_assignment', true), 'off') <> 'on'
+        AND COALESCE(auth.role(), '') <> 'service_role' THEN
+        RAISE EXCEPTION 'A batch''s buyer is set by the vendor accepting a sale offer'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_batch_buyer_assignment
+    BEFORE INSERT OR UPDATE OF buyer_id ON public.batches
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_batch_buyer_assignment();
+
+-- Accepts or declines a pending offer on behalf of the calling vendor.
+-- The offer row is locked so two vendors cannot both accept an open offer.
+CREATE OR REPLACE FUNCTION public.respond_to_sale_offer(_offer_id UUID, _accept BOOLEAN)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _offer public.sale_offers%ROWTYPE;
+BEGIN
+    IF _user_id IS NULL OR NOT public.has_role(_user_id, 'vendor') THEN
+        RAISE EXCEPTION 'Only vendors can respond to sale offers'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _offer FROM public.sale_offers WHERE id = _offer_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Offer not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _offer.vendor_id IS NOT NULL AND _offer.vendor_id <> _user_id THEN
+        RAISE EXCEPTION 'This offer was made to another vendor'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF _offer.status <> 'pending' THEN
+        RAISE EXCEPTION 'This offer is no longer available'
+            USING ERRCODE = '23505';
+    END IF;
+
+    IF NOT _accept THEN
+        IF _offer.vendor_id IS NULL THEN
+            -- Passing on an open offer leaves it open for everyone else
+            UPDATE public.sale_offers
+            SET declined_by = array_append(declined_by, _user_id)
+            WHERE id = _offer_id AND NOT _user_id = ANY(declined_by);
+            RETURN 'pending';
+        END IF;
+
+        UPDATE public.sale_offers
+        SET status = 'declined', responded_by = _user_id, responded_at = now()
+        WHERE id = _offer_id;
+        RETURN 'declined';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.batches
+        WHERE id = _offer.batch_id AND (buyer_id IS NOT NULL OR superseded_at IS NOT NULL)
+    ) THEN
+        RAISE EXCEPTION 'This batch is no longer for sale'
+            USING ERRCODE = '23505';
+    END IF;
+
+    UPDATE public.sale_offers
+    SET status = 'accepted', responded_by = _user_id, responded_at = now()
+    WHERE id = _offer_id;
+
+    PERFORM set_config('app.batch_buyer_assignment', 'on', true);
+
+    UPDATE public.batches SET buyer_id = _user_id WHERE id = _offer.batch_id;
+
+    PERFORM set_config('app.batch_buyer_assignment', 'off', true);
+
+    RETURN 'accepted';
+END;
+$$;
+
+-- Offers aimed at one buyer must name a vendor
+DROP POLICY "Farmers can offer own batches" ON public.sale_offers;
+CREATE POLICY "Farmers can offer own batches" ON public.sale_offers FOR INSERT TO authenticated WITH CHECK (
+    farmer_id = auth.uid()
+    AND status = 'pending'
+    AND (vendor_id IS NULL OR public.has_role(vendor_id, 'vendor'))
+    AND EXISTS (
+        SELECT 1 FROM public.batches
+        WHERE id = sale_offers.batch_id
+            AND farmer_id = auth.uid()
+            AND buyer_id IS NULL
+            AND superseded_at IS NULL
+    )
+);
@@ -0,0 +1,14 @@
+-- Transporters are listed by name only; the email of a transporter without one stays private
+CREATE OR REPLACE FUNCTION public.list_transporters()
+RETURNS TABLE (id UUID, full_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.id, COALESCE(NULLIF(btrim(p.full_name), ''), 'Unnamed transporter')
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.user_id = p.id AND r.role = 'transporter'
+    WHERE auth.uid() IS NOT NULL
+    ORDER BY 2
+$$;
@@ -0,0 +1,37 @@
+-- Once a receipt has a version history, its contested values always equal the latest version.
+-- resolve_receipt_dispute writes that version before updating the receipt, so it passes;
+-- a vendor editing the receipt directly would overwrite an accepted resolution and is refused.
+CREATE OR REPLACE FUNCTION public.lock_disputed_receipt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _latest public.vendor_receipt_versions%ROWTYPE;
+BEGIN
+    IF (NEW.quality_grade, NEW.spoilage_percentage, NEW.weight_loss_percentage, NEW.version)
+            IS NOT DISTINCT FROM (OLD.quality_grade, OLD.spoilage_percentage, OLD.weight_loss_percentage, OLD.version) THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.receipt_disputes WHERE receipt_id = NEW.id AND status <> 'resolved') THEN
+        RAISE EXCEPTION 'This receipt is under dispute and cannot be edited until the dispute is resolved'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _latest
+    FROM public.vendor_receipt_versions
+    WHERE receipt_id = NEW.id
+    ORDER BY version DESC
+    LIMIT 1;
+
+    IF FOUND AND (NEW.quality_grade, NEW.spoilage_percentage, NEW.weight_loss_percentage, NEW.version)
+            IS DISTINCT FROM (_latest.quality_grade, _latest.spoilage_percentage, _latest.weight_loss_percentage, _latest.version) THEN
+        RAISE EXCEPTION 'This receipt was corrected through a dispute; open a new dispute to change it again'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Scores are written only by analyze-batch with the service role, so no participant can
+-- overwrite the rule-based result with numbers of their own
+DROP POLICY "Participants can insert quality scores" ON public.quality_scores;
+DROP POLICY "Participants can update quality scores" ON public.quality_scores;
@@ -0,0 +1,3 @@
+-- Translations are cached by translate-analysis with the service role, so no participant can
+-- plant their own text as the model's advice in another language
+DROP POLICY "Participants can insert analysis translations" ON public.ai_analysis_translations;
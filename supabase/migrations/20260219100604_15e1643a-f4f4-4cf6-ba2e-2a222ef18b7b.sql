@@ -0,0 +1,9 @@
+-- A photo row must point at a file under its own batch and stage; assess-photo reads the file
+-- with the service role, so a path into another batch would leak that batch's photo
+DROP POLICY "Stage holders can add batch photos" ON public.batch_photos;
+CREATE POLICY "Stage holders can add batch photos" ON public.batch_photos FOR INSERT TO authenticated WITH CHECK (
+    uploaded_by = auth.uid()
+    AND assessment_status = 'pending'
+    AND storage_path LIKE batch_id::TEXT || '/' || stage || '/%'
+    AND public.can_add_batch_photo(batch_id, stage, auth.uid())
+);
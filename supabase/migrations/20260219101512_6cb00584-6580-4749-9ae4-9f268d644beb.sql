@@ -0,0 +1,139 @@
+-- Recording a pickup or a drop-off moves the batch along and fills in the leg
+-- in one database call, so a failure can no longer leave a delivered batch
+-- whose leg has no drop time (or a picked-up batch with no pickup time).
+
+-- Records the pickup of a leg by its transporter. The first leg of a trip to
+-- a vendor marks the batch picked up; later legs accept the handoff.
+CREATE OR REPLACE FUNCTION public.record_leg_pickup(
+    _log_id UUID,
+    _gps_lat NUMERIC DEFAULT NULL,
+    _gps_lng NUMERIC DEFAULT NULL,
+    _transport_type TEXT DEFAULT NULL,
+    _vehicle_info TEXT DEFAULT NULL,
+    _temperature_maintained TEXT DEFAULT NULL,
+    _notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _log public.transport_logs%ROWTYPE;
+    _batch public.batches%ROWTYPE;
+BEGIN
+    SELECT * INTO _log FROM public.transport_logs WHERE id = _log_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transport leg not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO _batch FROM public.batches WHERE id = _log.batch_id FOR UPDATE;
+
+    IF _user_id IS NULL
+        OR NOT public.has_role(_user_id, 'transporter')
+        OR public.current_transporter_id(_batch.id) IS DISTINCT FROM _user_id
+        OR _log.transporter_id <> _user_id THEN
+        RAISE EXCEPTION 'Only the transporter on the current leg can record its pickup'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _log FROM public.transport_logs WHERE id = _log_id FOR UPDATE;
+
+    IF _log.pickup_time IS NOT NULL THEN
+        RAISE EXCEPTION 'This leg has already been picked up'
+            USING ERRCODE = '23505';
+    END IF;
+
+    -- A refused lot going back to the farm keeps its 'returning' status for the whole trip
+    IF _log.leg_number = 1 AND _batch.status <> 'returning' THEN
+        PERFORM public.transition_batch_status(_batch.id, 'picked_up');
+    END IF;
+
+    UPDATE public.transport_logs
+    SET pickup_time = now(),
+        handoff_accepted_at = CASE WHEN _log.leg_number > 1 THEN now() END,
+        pickup_gps_lat = _gps_lat,
+        pickup_gps_lng = _gps_lng,
+        transport_type = _transport_type,
+        vehicle_info = _vehicle_info,
+        temperature_maintained = _temperature_maintained,
+        notes = _notes
+    WHERE id = _log_id;
+END;
+$$;
+
+-- Records the end of a leg: either a handoff to the next transporter, which
+-- puts a batch that was only picked up in transit, or the final drop-off,
+-- which marks a batch on its way to a vendor delivered.
+CREATE OR REPLACE FUNCTION public.record_leg_drop(
+    _log_id UUID,
+    _handoff BOOLEAN,
+    _gps_lat NUMERIC DEFAULT NULL,
+    _gps_lng NUMERIC DEFAULT NULL,
+    _delay_reason TEXT DEFAULT NULL,
+    _notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _log public.transport_logs%ROWTYPE;
+    _batch public.batches%ROWTYPE;
+BEGIN
+    SELECT * INTO _log FROM public.transport_logs WHERE id = _log_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transport leg not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO _batch FROM public.batches WHERE id = _log.batch_id FOR UPDATE;
+
+    IF _user_id IS NULL
+        OR NOT public.has_role(_user_id, 'transporter')
+        OR public.current_transporter_id(_batch.id) IS DISTINCT FROM _user_id
+        OR _log.transporter_id <> _user_id THEN
+        RAISE EXCEPTION 'Only the transporter on the current leg can record its drop-off'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _log FROM public.transport_logs WHERE id = _log_id FOR UPDATE;
+
+    IF _log.pickup_time IS NULL THEN
+        RAISE EXCEPTION 'Record the pickup of this leg first'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF _log.drop_time IS NOT NULL THEN
+        RAISE EXCEPTION 'This leg has already been dropped off'
+            USING ERRCODE = '23505';
+    END IF;
+
+    IF _handoff THEN
+        -- A batch handed between carriers is on the road, even if no one tracked transit
+        IF _batch.status = 'picked_up' THEN
+            PERFORM public.transition_batch_status(_batch.id, 'in_transit');
+        END IF;
+    ELSIF _batch.status <> 'returning' THEN
+        PERFORM public.transition_batch_status(_batch.id, 'delivered');
+    END IF;
+
+    UPDATE public.transport_logs
+    SET drop_time = now(),
+        handoff_released_at = CASE WHEN _handoff THEN now() END,
+        drop_gps_lat = _gps_lat,
+        drop_gps_lng = _gps_lng,
+        delay_reason = _delay_reason,
+        notes = _notes
+    WHERE id = _log_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_leg_pickup(UUID, NUMERIC, NUMERIC, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_leg_drop(UUID, BOOLEAN, NUMERIC, NUMERIC, TEXT, TEXT) TO authenticated;
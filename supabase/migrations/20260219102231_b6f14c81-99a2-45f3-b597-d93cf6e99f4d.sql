@@ -0,0 +1,3 @@
+-- End state for a refused lot that has been carried back to the farm. Added on
+-- its own because a new enum value cannot be used in the same transaction that adds it.
+ALTER TYPE public.batch_status ADD VALUE IF NOT EXISTS 'returned';
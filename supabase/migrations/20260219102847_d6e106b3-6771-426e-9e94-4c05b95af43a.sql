@@ -0,0 +1,116 @@
+-- A refused lot carried back to the farm ends its journey as 'returned' instead
+-- of staying 'returning' for good, so it no longer looks like it is on the road.
+
+-- returning -> returned when the return trip's last leg is dropped at the farm
+CREATE OR REPLACE FUNCTION public.is_valid_batch_transition(_from batch_status, _to batch_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT (_from, _to) IN (
+        ('created'::batch_status, 'assigned_transporter'::batch_status),
+        ('assigned_transporter', 'picked_up'),
+        ('picked_up', 'in_transit'),
+        ('picked_up', 'delivered'),
+        ('in_transit', 'delivered'),
+        ('delivered', 'received'),
+        ('delivered', 'rejected'),
+        ('received', 'analyzed'),
+        ('rejected', 'assigned_transporter'),
+        ('rejected', 'returning'),
+        ('returning', 'returned')
+    )
+$$;
+
+-- The final drop-off of a return trip now marks the batch returned
+CREATE OR REPLACE FUNCTION public.record_leg_drop(
+    _log_id UUID,
+    _handoff BOOLEAN,
+    _gps_lat NUMERIC DEFAULT NULL,
+    _gps_lng NUMERIC DEFAULT NULL,
+    _delay_reason TEXT DEFAULT NULL,
+    _notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _log public.transport_logs%ROWTYPE;
+    _batch public.batches%ROWTYPE;
+BEGIN
+    SELECT * INTO _log FROM public.transport_logs WHERE id = _log_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transport leg not found'
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO _batch FROM public.batches WHERE id = _log.batch_id FOR UPDATE;
+
+    IF _user_id IS NULL
+        OR NOT public.has_role(_user_id, 'transporter')
+        OR public.current_transporter_id(_batch.id) IS DISTINCT FROM _user_id
+        OR _log.transporter_id <> _user_id THEN
+        RAISE EXCEPTION 'Only the transporter on the current leg can record its drop-off'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _log FROM public.transport_logs WHERE id = _log_id FOR UPDATE;
+
+    IF _log.pickup_time IS NULL THEN
+        RAISE EXCEPTION 'Record the pickup of this leg first'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF _log.drop_time IS NOT NULL THEN
+        RAISE EXCEPTION 'This leg has already been dropped off'
+            USING ERRCODE = '23505';
+    END IF;
+
+    IF _handoff THEN
+        -- A batch handed between carriers is on the road, even if no one tracked transit
+        IF _batch.status = 'picked_up' THEN
+            PERFORM public.transition_batch_status(_batch.id, 'in_transit');
+        END IF;
+    ELSIF _batch.status = 'returning' THEN
+        PERFORM set_config('app.batch_status_transition', 'on', true);
+
+        UPDATE public.batches
+        SET status = 'returned'
+        WHERE id = _batch.id;
+
+        PERFORM set_config('app.batch_status_transition', 'off', true);
+    ELSE
+        PERFORM public.transition_batch_status(_batch.id, 'delivered');
+    END IF;
+
+    UPDATE public.transport_logs
+    SET drop_time = now(),
+        handoff_released_at = CASE WHEN _handoff THEN now() END,
+        drop_gps_lat = _gps_lat,
+        drop_gps_lng = _gps_lng,
+        delay_reason = _delay_reason,
+        notes = _notes
+    WHERE id = _log_id;
+END;
+$$;
+
+-- Return trips that already ended at the farm
+SELECT set_config('app.batch_status_transition', 'on', true);
+
+UPDATE public.batches b
+SET status = 'returned'
+WHERE b.status = 'returning'
+    AND EXISTS (
+        SELECT 1 FROM public.transport_logs t
+        WHERE t.batch_id = b.id
+            AND t.leg_number = (SELECT max(leg_number) FROM public.transport_logs WHERE batch_id = b.id)
+            AND t.drop_time IS NOT NULL
+            AND t.handoff_released_at IS NULL
+    );
+
+SELECT set_config('app.batch_status_transition', 'off', true);
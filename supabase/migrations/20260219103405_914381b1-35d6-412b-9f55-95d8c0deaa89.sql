@@ -0,0 +1,28 @@
+-- Re-checks the pickup forecast of every batch still waiting for pickup once an
+-- hour, so worsening-weather alerts reach farmers and transporters without anyone
+-- opening the batch. check-weather-risk sweeps all waiting batches when it is
+-- called with the service role key and no batch_id.
+--
+-- The project URL and service role key are read from Vault at run time rather
+-- than written here. Before this schedule can do anything, add them once:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+    'check-weather-risk-hourly',
+    '0 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/check-weather-risk',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
@@ -0,0 +1,24 @@
+-- Analyses are written only by analyze-batch with the service role, so no participant can
+-- slip in a version with text, provider or confidence of their own
+DROP POLICY "Participants can insert AI analysis" ON public.ai_analysis;
+
+-- Under the service role auth.uid() is NULL; analyze-batch passes the requester itself
+CREATE OR REPLACE FUNCTION public.assign_ai_analysis_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Serialize analyses per batch
+    PERFORM 1 FROM public.batches WHERE id = NEW.batch_id FOR UPDATE;
+
+    SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+    FROM public.ai_analysis
+    WHERE batch_id = NEW.batch_id;
+
+    NEW.requested_by := COALESCE(auth.uid(), NEW.requested_by);
+
+    RETURN NEW;
+END;
+$$;
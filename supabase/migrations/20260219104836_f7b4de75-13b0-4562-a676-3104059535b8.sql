@@ -0,0 +1,3 @@
+-- Failed runs are recorded only by analyze-batch with the service role, so no participant
+-- can file a failure with problems or output of their own
+DROP POLICY "Participants can record analysis failures" ON public.ai_analysis_failures;